@@ -0,0 +1,817 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useAction, useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Doc } from "../../../convex/_generated/dataModel";
+import type { WorkflowId } from "@convex-dev/workflow";
+import Header from "@/components/Header";
+import { cn } from "@/lib/cn";
+import { VERSION_CODES, VersionIngestAction, compareVersionCodes } from "@/utils/versionCodes";
+
+const BILL_TYPES = ["hr", "s", "hjres", "sjres", "hconres", "sconres", "hres", "sres"];
+const DEFAULT_BILL_TYPES = ["hr", "s", "hjres", "sjres"];
+
+// Bill text versions (BILLS) or status and action history (BILLSTATUS)
+const PIPELINE_FEEDS = [
+  { feed: "text", label: "Bill text" },
+  { feed: "status", label: "Bill status" },
+] as const;
+
+type PipelineFeed = (typeof PIPELINE_FEEDS)[number]["feed"];
+
+const MAINTENANCE_JOBS = [
+  {
+    job: "cleanOrphanRagEntries",
+    label: "Clean orphan RAG entries",
+    description: "Delete search entries whose bill no longer exists.",
+  },
+  {
+    job: "cleanOrphanedBillVersions",
+    label: "Clean orphaned bill versions",
+    description: "Delete stored versions whose bill no longer exists.",
+  },
+  {
+    job: "copyBillSummariesToLatestVersions",
+    label: "Copy summaries to latest versions",
+    description: "Backfill per-version summaries for bills stored before versions kept their own.",
+  },
+  {
+    job: "recountUserVoteTallies",
+    label: "Recount citizen votes",
+    description: "Rebuild each bill's yea/nay totals from the votes users have cast.",
+  },
+] as const;
+
+type MaintenanceJob = (typeof MAINTENANCE_JOBS)[number]["job"];
+
+// Shape returned by workflow.status, trimmed to what the page shows
+type WorkflowStatusView =
+  | { type: "inProgress"; running: Array<{ name: string; startedAt: number; functionType: string }> }
+  | { type: "completed" }
+  | { type: "canceled" }
+  | { type: "failed"; error: string };
+
+const RUN_STATUS_STYLES: Record<string, string> = {
+  running: "bg-[var(--color-primary)]/15 text-[var(--color-primary)]",
+  completed: "bg-emerald-500/15 text-emerald-600 dark:text-emerald-400",
+  failed: "bg-red-500/15 text-red-600 dark:text-red-400",
+};
+
+function formatDuration(ms?: number) {
+  if (ms === undefined) return "—";
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+}
+
+function formatTime(ms?: number) {
+  return ms === undefined ? "—" : new Date(ms).toLocaleString();
+}
+
+function Panel({ title, children, actions }: { title: string; children: React.ReactNode; actions?: React.ReactNode }) {
+  return (
+    <section className="card p-0 shadow-[var(--shadow-md)] rounded-xl border border-[var(--color-border)]/60 overflow-hidden">
+      <div className="p-3 border-b border-[var(--color-border)] flex items-center justify-between gap-2 bg-[var(--color-card)]">
+        <h2 className="text-sm font-semibold text-[var(--color-foreground)]">{title}</h2>
+        {actions}
+      </div>
+      <div className="p-4">{children}</div>
+    </section>
+  );
+}
+
+/* ---------- Start Run ---------- */
+
+function StartRunForm({ onStarted }: { onStarted: (workflowId: WorkflowId) => void }) {
+  const startDataPipeline = useAction(api.workflows.startDataPipeline);
+  const startBillStatusSync = useAction(api.workflows.startBillStatusSync);
+  const [feed, setFeed] = useState<PipelineFeed>("text");
+  const [maxFiles, setMaxFiles] = useState("25");
+  const [billTypes, setBillTypes] = useState<string[]>(DEFAULT_BILL_TYPES);
+  const [congresses, setCongresses] = useState("");
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleBillType = (billType: string) => {
+    setBillTypes((current) =>
+      current.includes(billType) ? current.filter((t) => t !== billType) : [...current, billType]
+    );
+  };
+
+  const start = async () => {
+    setStarting(true);
+    setError(null);
+    try {
+      const parsedCongresses = congresses
+        .split(",")
+        .map((c) => Number(c.trim()))
+        .filter((c) => Number.isInteger(c) && c > 0);
+      const startFeed = feed === "text" ? startDataPipeline : startBillStatusSync;
+      const workflowId = await startFeed({
+        maxFiles: Number(maxFiles) > 0 ? Number(maxFiles) : undefined,
+        billTypes: billTypes.length > 0 ? billTypes : undefined,
+        congresses: parsedCongresses.length > 0 ? parsedCongresses : undefined,
+        interBatchDelayMs: 1500,
+      });
+      onStarted(workflowId);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <Panel title="Start a pipeline run">
+      <div className="space-y-4">
+        <div className="inline-flex rounded-md border border-[var(--color-border)] p-0.5">
+          {PIPELINE_FEEDS.map((option) => (
+            <button
+              key={option.feed}
+              type="button"
+              onClick={() => setFeed(option.feed)}
+              className={cn(
+                "px-3 py-1 rounded text-xs font-medium transition-colors",
+                feed === option.feed
+                  ? "bg-[var(--color-primary)] text-white"
+                  : "text-[var(--color-muted)] hover:bg-[var(--color-card-muted)]"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs text-[var(--color-muted)] space-y-1">
+            <span>Max files</span>
+            <input
+              type="number"
+              min={0}
+              value={maxFiles}
+              onChange={(e) => setMaxFiles(e.target.value)}
+              className="w-full rounded-md border border-[var(--color-border)] bg-[var(--color-card)] px-2 py-1.5 text-sm text-[var(--color-foreground)]"
+            />
+          </label>
+          <label className="text-xs text-[var(--color-muted)] space-y-1">
+            <span>Congresses (optional)</span>
+            <input
+              type="text"
+              placeholder="e.g. 118, 119"
+              value={congresses}
+              onChange={(e) => setCongresses(e.target.value)}
+              className="w-full rounded-md border border-[var(--color-border)] bg-[var(--color-card)] px-2 py-1.5 text-sm text-[var(--color-foreground)]"
+            />
+          </label>
+        </div>
+        <div>
+          <p className="text-xs text-[var(--color-muted)] mb-2">Bill types</p>
+          <div className="flex flex-wrap gap-2">
+            {BILL_TYPES.map((billType) => (
+              <button
+                key={billType}
+                type="button"
+                onClick={() => toggleBillType(billType)}
+                className={cn(
+                  "px-2.5 py-1 rounded-full text-xs font-medium border transition-colors",
+                  billTypes.includes(billType)
+                    ? "bg-[var(--color-primary)] text-white border-[var(--color-primary)]"
+                    : "border-[var(--color-border)] text-[var(--color-muted)] hover:bg-[var(--color-card-muted)]"
+                )}
+              >
+                {billType.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={start} disabled={starting || billTypes.length === 0} className="btn-primary disabled:opacity-60">
+            {starting ? "Starting…" : "Start run"}
+          </button>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      </div>
+    </Panel>
+  );
+}
+
+/* ---------- Workflow Status ---------- */
+
+function WorkflowStatusPanel({ workflowId }: { workflowId: WorkflowId | null }) {
+  const getWorkflowStatus = useAction(api.workflows.getWorkflowStatus);
+  const cancelWorkflow = useAction(api.workflows.cancelWorkflow);
+  const cleanupWorkflow = useAction(api.workflows.cleanupWorkflow);
+  const [status, setStatus] = useState<WorkflowStatusView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Workflow status is only available through an action, so poll it while it is in progress
+  useEffect(() => {
+    if (!workflowId) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const poll = async () => {
+      try {
+        const next = (await getWorkflowStatus({ workflowId })) as WorkflowStatusView;
+        if (cancelled) return;
+        setStatus(next);
+        setError(null);
+        if (next.type === "inProgress") timer = setTimeout(poll, 3000);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      }
+    };
+    setStatus(null);
+    void poll();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [workflowId, getWorkflowStatus]);
+
+  const run = async (fn: () => Promise<null>) => {
+    try {
+      await fn();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <Panel
+      title="Workflow status"
+      actions={
+        workflowId && status ? (
+          <div className="flex gap-2">
+            {status.type === "inProgress" ? (
+              <button onClick={() => run(() => cancelWorkflow({ workflowId }))} className="btn-secondary text-xs px-2.5 py-1">
+                Cancel
+              </button>
+            ) : (
+              <button onClick={() => run(() => cleanupWorkflow({ workflowId }))} className="btn-secondary text-xs px-2.5 py-1">
+                Clean up
+              </button>
+            )}
+          </div>
+        ) : null
+      }
+    >
+      {!workflowId ? (
+        <p className="text-sm text-[var(--color-muted)]">Start a run or select one below to follow it.</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs font-mono text-[var(--color-muted)] break-all">{workflowId}</p>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          {!status ? (
+            <span className="inline-block h-5 w-40 bg-[var(--color-card-muted)] rounded animate-pulse" />
+          ) : (
+            <>
+              <p className="text-sm font-medium text-[var(--color-foreground)]">
+                {status.type === "inProgress" ? "In progress" : status.type[0].toUpperCase() + status.type.slice(1)}
+              </p>
+              {status.type === "failed" && <p className="text-xs text-red-500 break-words">{status.error}</p>}
+              {status.type === "inProgress" && (
+                <ul className="space-y-1">
+                  {status.running.length === 0 && (
+                    <li className="text-xs text-[var(--color-muted)]">Waiting for the next step…</li>
+                  )}
+                  {status.running.map((step) => (
+                    <li key={`${step.name}-${step.startedAt}`} className="flex items-center justify-between gap-3 text-xs">
+                      <span className="truncate font-mono text-[var(--color-foreground)]">{step.name}</span>
+                      <span className="shrink-0 text-[var(--color-muted)]">
+                        {step.functionType} · {formatDuration(Date.now() - step.startedAt)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </Panel>
+  );
+}
+
+/* ---------- Run Ledger ---------- */
+
+function RunRow({ run, selected, onSelect }: { run: Doc<"ingestionRuns">; selected: boolean; onSelect: () => void }) {
+  const finished = run.processed + run.skipped + run.failed;
+  const progress = run.queued > 0 ? Math.min(100, Math.round((finished / run.queued) * 100)) : run.status === "running" ? 0 : 100;
+
+  return (
+    <li>
+      <button
+        onClick={onSelect}
+        disabled={!run.workflowId}
+        className={cn(
+          "w-full text-left p-3 rounded-lg border transition-colors",
+          selected
+            ? "border-[var(--color-primary)] bg-[var(--color-primary)]/5"
+            : "border-[var(--color-border)] hover:bg-[var(--color-card-muted)]/60"
+        )}
+      >
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-xs text-[var(--color-muted)]">{formatTime(run.startedAt)}</span>
+          <span className={cn("px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase", RUN_STATUS_STYLES[run.status])}>
+            {run.status}
+          </span>
+        </div>
+        <div className="mt-2 h-1.5 rounded-full bg-[var(--color-card-muted)] overflow-hidden">
+          <div className="h-full bg-[var(--color-primary)] transition-[width]" style={{ width: `${progress}%` }} />
+        </div>
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-[var(--color-muted)]">
+          <span>{run.discovered} discovered</span>
+          <span>{run.queued} queued</span>
+          <span className="text-[var(--color-foreground)]">{run.processed} stored</span>
+          <span>{run.skipped} skipped</span>
+          <span className={run.failed > 0 ? "text-red-500" : undefined}>{run.failed} failed</span>
+          <span>{run.totalTokens.toLocaleString()} tokens</span>
+          <span>{formatDuration(run.durationMs)}</span>
+        </div>
+        {run.skipReasons.length > 0 && (
+          <p className="mt-1 text-[11px] text-[var(--color-muted)]">
+            Skipped: {run.skipReasons.map((r) => `${r.code.replace(/_/g, " ")} (${r.count})`).join(", ")}
+          </p>
+        )}
+        {run.error && <p className="mt-1 text-[11px] text-red-500 break-words">{run.error}</p>}
+      </button>
+    </li>
+  );
+}
+
+function RecentRuns({ selectedWorkflowId, onSelect }: { selectedWorkflowId: WorkflowId | null; onSelect: (workflowId: WorkflowId) => void }) {
+  const { results, status, loadMore } = usePaginatedQuery(api.ingestionRuns.listIngestionRuns, {}, { initialNumItems: 10 });
+
+  return (
+    <Panel title="Recent runs">
+      {status === "LoadingFirstPage" ? (
+        <span className="inline-block h-5 w-40 bg-[var(--color-card-muted)] rounded animate-pulse" />
+      ) : results.length === 0 ? (
+        <p className="text-sm text-[var(--color-muted)]">No runs recorded yet.</p>
+      ) : (
+        <div className="space-y-3">
+          <ul className="space-y-2">
+            {results.map((run) => (
+              <RunRow
+                key={run._id}
+                run={run}
+                selected={run.workflowId !== undefined && run.workflowId === selectedWorkflowId}
+                onSelect={() => run.workflowId && onSelect(run.workflowId as WorkflowId)}
+              />
+            ))}
+          </ul>
+          {status === "CanLoadMore" && (
+            <button onClick={() => loadMore(10)} className="btn-secondary text-xs px-3 py-1.5">
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+    </Panel>
+  );
+}
+
+/* ---------- Failures ---------- */
+
+function RecentFailures() {
+  const failures = useQuery(api.failedIngestions.listFailedIngestions, { limit: 20 });
+  const retryFailedIngestion = useMutation(api.failedIngestions.retryFailedIngestion);
+  const dismissFailedIngestion = useMutation(api.failedIngestions.dismissFailedIngestion);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (fn: () => Promise<null>) => {
+    setError(null);
+    try {
+      await fn();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <Panel title="Recent failures">
+      {error && <p className="mb-2 text-xs text-red-500">{error}</p>}
+      {failures === undefined ? (
+        <span className="inline-block h-5 w-40 bg-[var(--color-card-muted)] rounded animate-pulse" />
+      ) : failures.length === 0 ? (
+        <p className="text-sm text-[var(--color-muted)]">No failed ingestions.</p>
+      ) : (
+        <ul className="divide-y divide-[var(--color-border)]">
+          {failures.map((failure) => {
+            const status = failure.status ?? "pending";
+            const open = status === "pending" || status === "retrying" || status === "exhausted" || status === "dismissed";
+            return (
+              <li key={failure._id} className="py-2.5 first:pt-0 last:pb-0">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <a
+                      href={failure.xmlUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm font-medium text-[var(--color-foreground)] hover:text-[var(--color-primary)]"
+                    >
+                      {failure.billType.toUpperCase()} {failure.billNumber} ({failure.congress}) · {failure.versionCode}
+                    </a>
+                    <p className="text-xs text-[var(--color-muted)] break-words">
+                      {failure.reasonCode ? `${failure.reasonCode.replace(/_/g, " ")}: ` : ""}
+                      {failure.reason}
+                    </p>
+                    <p className="text-[11px] text-[var(--color-muted)]">
+                      {status} · {failure.attempts ?? 1} attempt{(failure.attempts ?? 1) === 1 ? "" : "s"} ·{" "}
+                      {formatTime(failure.updatedAt ?? failure.createdAt)}
+                    </p>
+                  </div>
+                  {open && (
+                    <div className="flex shrink-0 gap-2">
+                      <button
+                        onClick={() => run(() => retryFailedIngestion({ failureId: failure._id }))}
+                        className="btn-secondary text-xs px-2.5 py-1"
+                      >
+                        Retry
+                      </button>
+                      {status !== "dismissed" && (
+                        <button
+                          onClick={() => run(() => dismissFailedIngestion({ failureId: failure._id }))}
+                          className="btn-secondary text-xs px-2.5 py-1"
+                        >
+                          Dismiss
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Panel>
+  );
+}
+
+/* ---------- Maintenance ---------- */
+
+function MaintenanceJobs() {
+  const runMaintenanceJob = useAction(api.admin.runMaintenanceJob);
+  const [runningJob, setRunningJob] = useState<MaintenanceJob | null>(null);
+  const [results, setResults] = useState<Partial<Record<MaintenanceJob, string>>>({});
+
+  const runJob = async (job: MaintenanceJob) => {
+    setRunningJob(job);
+    try {
+      const result = await runMaintenanceJob({ job });
+      setResults((r) => ({ ...r, [job]: `Scanned ${result.scanned}, changed ${result.changed}` }));
+    } catch (e) {
+      setResults((r) => ({ ...r, [job]: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  return (
+    <Panel title="Maintenance">
+      <ul className="space-y-3">
+        {MAINTENANCE_JOBS.map(({ job, label, description }) => (
+          <li key={job} className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-[var(--color-foreground)]">{label}</p>
+              <p className="text-xs text-[var(--color-muted)]">{description}</p>
+              {results[job] && <p className="text-[11px] text-[var(--color-muted)] mt-0.5">{results[job]}</p>}
+            </div>
+            <button
+              onClick={() => runJob(job)}
+              disabled={runningJob !== null}
+              className="btn-secondary shrink-0 text-xs px-2.5 py-1 disabled:opacity-60"
+            >
+              {runningJob === job ? "Running…" : "Run"}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </Panel>
+  );
+}
+
+/* ---------- Ingest Policy ---------- */
+
+const INGEST_ACTIONS: Array<{ value: VersionIngestAction; label: string }> = [
+  { value: "summarize", label: "Summarize" },
+  { value: "store", label: "Store only" },
+  { value: "skip", label: "Skip" },
+];
+
+// Bill versions in legislative order, then amendment texts
+const POLICY_CODES = Object.values(VERSION_CODES).sort(
+  (a, b) => Number(a.kind === "amendment") - Number(b.kind === "amendment") || compareVersionCodes(a.code, b.code)
+);
+
+function IngestActionSelect({ value, onChange }: { value: VersionIngestAction; onChange: (value: VersionIngestAction) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as VersionIngestAction)}
+      className="rounded-md border border-[var(--color-border)] bg-[var(--color-card)] px-2 py-1 text-xs text-[var(--color-foreground)]"
+    >
+      {INGEST_ACTIONS.map((a) => (
+        <option key={a.value} value={a.value}>
+          {a.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function IngestPolicyPanel() {
+  const settings = useQuery(api.ingestionPolicy.getIngestPolicySettings);
+  const updateIngestPolicy = useMutation(api.ingestionPolicy.updateIngestPolicy);
+  const resetIngestPolicy = useMutation(api.ingestionPolicy.resetIngestPolicy);
+  const [draft, setDraft] = useState<{ actions: Record<string, VersionIngestAction>; defaultAction: VersionIngestAction } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start editing from the saved policy whenever it changes
+  useEffect(() => {
+    if (!settings) return;
+    setDraft({
+      actions: Object.fromEntries(settings.policy.rules.map((r) => [r.versionCode, r.action])),
+      defaultAction: settings.policy.defaultAction,
+    });
+  }, [settings]);
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await updateIngestPolicy({
+        rules: Object.entries(draft.actions).map(([versionCode, action]) => ({ versionCode, action })),
+        defaultAction: draft.defaultAction,
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Panel
+      title="Ingest policy"
+      actions={
+        settings && (
+          <span className="text-[11px] text-[var(--color-muted)]">
+            {settings.isDefault ? "Default" : `Saved ${formatTime(settings.updatedAt)}`}
+          </span>
+        )
+      }
+    >
+      {!draft ? (
+        <span className="inline-block h-5 w-40 bg-[var(--color-card-muted)] rounded animate-pulse" />
+      ) : (
+        <div className="space-y-3">
+          <ul className="max-h-72 overflow-auto divide-y divide-[var(--color-border)] pr-1">
+            {POLICY_CODES.map((info) => (
+              <li key={info.code} className="flex items-center justify-between gap-3 py-1.5">
+                <span className="min-w-0 text-xs">
+                  <span className="font-mono font-semibold text-[var(--color-foreground)] uppercase">{info.code}</span>{" "}
+                  <span className="text-[var(--color-muted)]">
+                    {info.label}
+                    {info.kind === "amendment" ? " · amendment text" : ""}
+                  </span>
+                </span>
+                <IngestActionSelect
+                  value={draft.actions[info.code] ?? draft.defaultAction}
+                  onChange={(action) => setDraft({ ...draft, actions: { ...draft.actions, [info.code]: action } })}
+                />
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-xs text-[var(--color-muted)]">
+              Other codes
+              <IngestActionSelect
+                value={draft.defaultAction}
+                onChange={(defaultAction) => setDraft({ ...draft, defaultAction })}
+              />
+            </label>
+            <div className="flex gap-2">
+              {!settings?.isDefault && (
+                <button onClick={() => void resetIngestPolicy()} className="btn-secondary text-xs px-2.5 py-1">
+                  Reset
+                </button>
+              )}
+              <button onClick={save} disabled={saving} className="btn-primary text-xs px-3 py-1.5 disabled:opacity-60">
+                {saving ? "Saving…" : "Save"}
+              </button>
+            </div>
+          </div>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      )}
+    </Panel>
+  );
+}
+
+/* ---------- Legislators ---------- */
+
+function LegislatorsPanel() {
+  const status = useQuery(api.legislators.getLegislatorsImportStatus);
+  const generateUploadUrl = useMutation(api.legislators.generateLegislatorsUploadUrl);
+  const importLegislators = useAction(api.legislators.importLegislatorsFromUpload);
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+
+  const runImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    setResult(null);
+    try {
+      const uploadUrl = await generateUploadUrl();
+      const response = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+      });
+      if (!response.ok) {
+        throw new Error(`Upload failed: ${response.status} ${response.statusText}`);
+      }
+      const { storageId } = await response.json();
+      const counts = await importLegislators({ storageId });
+      setResult(`Parsed ${counts.parsed}: ${counts.created} created, ${counts.updated} updated`);
+      setFile(null);
+    } catch (e) {
+      setResult(e instanceof Error ? e.message : String(e));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Panel
+      title="Legislators"
+      actions={
+        status?.lastImportedAt && (
+          <span className="text-[11px] text-[var(--color-muted)]">Imported {formatTime(status.lastImportedAt)}</span>
+        )
+      }
+    >
+      <div className="space-y-3">
+        <p className="text-xs text-[var(--color-muted)]">
+          {status === undefined
+            ? "Loading…"
+            : `${status.total} politicians · ${status.imported} from a legislators file · ${status.unknownParty} with unknown party`}
+        </p>
+        <p className="text-xs text-[var(--color-muted)]">
+          Upload legislators-current.yaml (or legislators-historical, YAML or JSON) from congress-legislators to fill in
+          party, state, district, chamber and terms by bioguide ID.
+        </p>
+        <div className="flex items-center justify-between gap-3">
+          <input
+            type="file"
+            accept=".yaml,.yml,.json"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="min-w-0 text-xs text-[var(--color-muted)]"
+          />
+          <button
+            onClick={runImport}
+            disabled={!file || importing}
+            className="btn-primary shrink-0 text-xs px-3 py-1.5 disabled:opacity-60"
+          >
+            {importing ? "Importing…" : "Import"}
+          </button>
+        </div>
+        {result && <p className="text-[11px] text-[var(--color-muted)]">{result}</p>}
+      </div>
+    </Panel>
+  );
+}
+
+/* ---------- Committees ---------- */
+
+function CommitteesPanel() {
+  const status = useQuery(api.committees.getCommitteesImportStatus);
+  const generateUploadUrl = useMutation(api.committees.generateCommitteesUploadUrl);
+  const importCommittees = useAction(api.committees.importCommitteesFromUpload);
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+
+  const runImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    setResult(null);
+    try {
+      const uploadUrl = await generateUploadUrl();
+      const response = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+      });
+      if (!response.ok) {
+        throw new Error(`Upload failed: ${response.status} ${response.statusText}`);
+      }
+      const { storageId } = await response.json();
+      const counts = await importCommittees({ storageId });
+      setResult(
+        counts.kind === "committees"
+          ? `Parsed ${counts.parsed} committees and subcommittees, ${counts.stored} stored`
+          : `Parsed ${counts.parsed} seats: ${counts.stored} stored, ${counts.skipped} skipped`
+      );
+      setFile(null);
+    } catch (e) {
+      setResult(e instanceof Error ? e.message : String(e));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Panel
+      title="Committees"
+      actions={
+        status?.lastImportedAt && (
+          <span className="text-[11px] text-[var(--color-muted)]">Imported {formatTime(status.lastImportedAt)}</span>
+        )
+      }
+    >
+      <div className="space-y-3">
+        <p className="text-xs text-[var(--color-muted)]">
+          {status === undefined
+            ? "Loading…"
+            : `${status.committees} committees · ${status.subcommittees} subcommittees · ${status.seats} member seats`}
+        </p>
+        <p className="text-xs text-[var(--color-muted)]">
+          Upload committees-current.yaml, then committee-membership-current.yaml, from congress-legislators. Seats are
+          matched by bioguide ID, so import legislators first.
+        </p>
+        <div className="flex items-center justify-between gap-3">
+          <input
+            type="file"
+            accept=".yaml,.yml,.json"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="min-w-0 text-xs text-[var(--color-muted)]"
+          />
+          <button
+            onClick={runImport}
+            disabled={!file || importing}
+            className="btn-primary shrink-0 text-xs px-3 py-1.5 disabled:opacity-60"
+          >
+            {importing ? "Importing…" : "Import"}
+          </button>
+        </div>
+        {result && <p className="text-[11px] text-[var(--color-muted)]">{result}</p>}
+      </div>
+    </Panel>
+  );
+}
+
+/* ---------- Page ---------- */
+
+export default function AdminPipelinePage() {
+  const access = useQuery(api.admin.getAdminAccess);
+  const [workflowId, setWorkflowId] = useState<WorkflowId | null>(null);
+
+  return (
+    <main
+      className="min-h-screen overflow-x-hidden pb-16"
+      style={{ background: "linear-gradient(180deg, var(--color-background), var(--color-background-end) 30%)" }}
+    >
+      <Header />
+      <div className="max-w-7xl mx-auto px-4 pt-24">
+        <h1 className="text-2xl md:text-3xl font-heading font-bold text-[var(--color-foreground)]">Pipeline</h1>
+        <p className="mt-1 text-sm text-[var(--color-muted)]">Run ingestion, follow workflows and work through failures.</p>
+
+        {access === undefined ? (
+          <div className="mt-8 h-40 rounded-xl bg-[var(--color-card-muted)] animate-pulse" />
+        ) : !access.isAdmin ? (
+          <div className="mt-8 card p-6 rounded-xl border border-[var(--color-border)]/60 text-center">
+            <p className="text-sm text-[var(--color-muted)]">
+              {access.signedIn ? "This page is only available to admins." : "Sign in with an admin account to continue."}
+            </p>
+            <Link href={access.signedIn ? "/" : "/auth"} className="btn-primary inline-flex mt-4 px-4 py-2 text-sm">
+              {access.signedIn ? "← Back to Home" : "Sign in"}
+            </Link>
+          </div>
+        ) : (
+          <div className="mt-6 grid gap-4 lg:grid-cols-2">
+            <div className="space-y-4">
+              <StartRunForm onStarted={setWorkflowId} />
+              <WorkflowStatusPanel workflowId={workflowId} />
+              <IngestPolicyPanel />
+              <LegislatorsPanel />
+              <CommitteesPanel />
+              <MaintenanceJobs />
+            </div>
+            <div className="space-y-4">
+              <RecentRuns selectedWorkflowId={workflowId} onSelect={setWorkflowId} />
+              <RecentFailures />
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,13 +1,16 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import { useQuery } from "convex/react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useConvexAuth, useMutation, useQuery } from "convex/react";
 import { Id } from "../../../convex/_generated/dataModel";
 import { api } from "../../../convex/_generated/api";
 import { useConvex } from "convex/react";
 import Link from "next/link";
 import Header from "@/components/Header";
 import { parseBillDate, formatDate } from "@/utils/dates";
+import { BillSectionTocEntry, BillTimeline, BillTimelineStep, CurrentLawComparisonItem, SectionDiff, VersionChangeAnalysis } from "@/types";
+import { buildBillTimeline } from "@/utils/billTimeline";
+import { STATE_NAMES, STATE_TILE_GRID } from "@/utils/states";
 
 // Responsive helper to detect mobile viewport
 function useIsMobile(breakpoint = 768) {
@@ -28,13 +31,6 @@ type PageProps = {
   }>;
 };
 
-type ChangeAnalysisItem = {
-  title?: string;
-  currentLaw?: string;
-  proposedChange?: string;
-  citations?: Array<{ label: string; sectionId: string }>;
-};
-
 type BillData = {
   _id: Id<"bills">;
   _creationTime: number;
@@ -45,12 +41,16 @@ type BillData = {
   cleanedShortTitle?: string;
   sponsorId?: Id<"politicians">;
   committees?: string[];
+  latestVersionId?: Id<"billVersions">;
   latestVersionCode?: string;
   latestActionDate?: string;
+  latestActionText?: string;
   status: string;
+  policyArea?: string;
+  subjects?: string[];
   tagline?: string;
   summary?: string;
-  changeAnalysis?: string | Array<ChangeAnalysisItem>;
+  changeAnalysis?: Array<CurrentLawComparisonItem>;
   impactAreas?: string[];
   structuredSummary?: Array<{
     title: string;
@@ -59,6 +59,9 @@ type BillData = {
   }>;
 };
 
+// AI enrichment shown in the summary panel, from the selected version
+type SummaryContent = Pick<BillData, "summary" | "structuredSummary">;
+
 type BillVersionData = {
   _id: Id<"billVersions">;
   _creationTime: number;
@@ -69,90 +72,27 @@ type BillVersionData = {
   xmlUrl: string;
 };
 
+type VersionDiffData = {
+  from: { versionCode: string; publishedDate: string };
+  to: { versionCode: string; publishedDate: string };
+  summary: { inserted: number; deleted: number; modified: number; unchanged: number };
+  sections: Array<SectionDiff>;
+};
+
 type SearchResult = {
   excerpt: string;
   position: number;
 };
 
-type MobileTabType = "summary" | "chat" | "text";
-
-const statusClassMap: Record<string, string> = {
-  IN_COMMITTEE: "status-committee",
-  PASSED_HOUSE: "status-passed",
-  PASSED_SENATE: "status-passed",
-  ENACTED: "status-enacted",
-  INTRODUCED: "status-introduced",
-  FAILED: "status-failed",
-};
+type MobileTabType = "summary" | "chat" | "votes" | "text";
 
-const lifecycleOrder = [
-  "INTRODUCED",
-  "IN_COMMITTEE",
-  "PASSED_HOUSE",
-  "PASSED_SENATE",
-  "ENACTED",
-];
-
-function getLifecycleProgress(status?: string) {
-  if (!status) return 0.1;
-  const idx = lifecycleOrder.indexOf(status);
-  if (idx < 0) return 0.1;
-  return (idx + 1) / lifecycleOrder.length;
-}
-
-// Map LoC version codes and human-readable statuses to canonical lifecycle stages
-const versionCodeToStage: Record<string, typeof lifecycleOrder[number]> = {
-  // Introduced
-  ih: "INTRODUCED",
-  is: "INTRODUCED",
-  
-  // Committee / pre-floor processing
-  rh: "IN_COMMITTEE",
-  rs: "IN_COMMITTEE",
-  rch: "IN_COMMITTEE",
-  rcs: "IN_COMMITTEE",
-  pch: "IN_COMMITTEE",
-  pcs: "IN_COMMITTEE",
-  cph: "IN_COMMITTEE",
-  cps: "IN_COMMITTEE",
-  sc: "IN_COMMITTEE",
-  
-  // Passed one chamber
-  eh: "PASSED_HOUSE",
-  eah: "PASSED_HOUSE",
-  es: "PASSED_SENATE",
-  eas: "PASSED_SENATE",
-  
-  // Final stages
-  enr: "PASSED_SENATE", // Enrolled (sent to President) — treat as after Senate for our 5-step bar
-  pl: "ENACTED",
-  pp: "PASSED_SENATE", // Public Print, treat near final
-};
-
-function deriveLifecycleStage(bill?: BillData): typeof lifecycleOrder[number] | undefined {
-  if (!bill) return undefined;
-
-  // If backend already uses canonical enums, prefer them
-  const raw = bill.status;
-  if (lifecycleOrder.includes(raw as typeof lifecycleOrder[number])) {
-    return raw as typeof lifecycleOrder[number];
-  }
-
-  // Try from version code
-  if (bill.latestVersionCode) {
-    const mapped = versionCodeToStage[bill.latestVersionCode.toLowerCase()];
-    if (mapped) return mapped;
-  }
-
-  // Fallback: infer from human-readable status text
-  const s = (bill.status || "").toLowerCase();
-  if (s.includes("introduced")) return "INTRODUCED";
-  if (s.includes("committee") || s.includes("reported") || s.includes("placed on calendar") || s.includes("referred")) return "IN_COMMITTEE";
-  if (s.includes("passed house") || s.includes("agreed to (house)")) return "PASSED_HOUSE";
-  if (s.includes("passed senate") || s.includes("agreed to (senate)")) return "PASSED_SENATE";
-  if (s.includes("public law") || s.includes("enrolled")) return "ENACTED";
-
-  return undefined;
+// Status badge color for the furthest step of the timeline
+function getTimelineStatusClass(timeline: BillTimeline): string {
+  const step = [...timeline.steps].reverse().find((s) => s.state !== "upcoming" && s.state !== "skipped");
+  if (!step) return "";
+  if (step.state === "failed") return "status-failed";
+  if (step.id === "introduced" || step.id === "committee") return "status-committee";
+  return "status-passed";
 }
 
 function classNames(...arr: Array<string | false | undefined>) {
@@ -181,6 +121,29 @@ function chunkTextByDisplay(text: string, maxCharsPerLine = 280): Array<string>
   return chunks;
 }
 
+// Index of the display line containing a character offset, given each line's start offset
+function findLineIndex(lineStarts: Array<number>, charIndex: number): number {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  let idx = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (lineStarts[mid] <= charIndex) {
+      idx = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return idx;
+}
+
+// Read the deep link anchor (e.g. "sec-101") from the URL fragment
+function readHashAnchor(): string | null {
+  const raw = window.location.hash.replace(/^#/, "");
+  return raw ? decodeURIComponent(raw) : null;
+}
+
 const BillPage: React.FC<PageProps> = ({ params }) => {
   const convex = useConvex();
   const isMobile = useIsMobile();
@@ -207,13 +170,70 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
     api.billpage.getBillVersions,
     billId ? { billId } : "skip"
   );
+  const relatedBills = useQuery(
+    api.billpage.getRelatedBills,
+    billId ? { billId } : "skip"
+  );
+  const billActions = useQuery(
+    api.billpage.getBillActions,
+    billId ? { billId } : "skip"
+  );
+  const billCosponsors = useQuery(
+    api.billpage.getBillCosponsors,
+    billId ? { billId } : "skip"
+  );
+  const billCommittees = useQuery(
+    api.billpage.getBillCommittees,
+    billId ? { billId } : "skip"
+  );
+  const rollCalls = useQuery(
+    api.billpage.getBillRollCalls,
+    billId ? { billId } : "skip"
+  );
+  const myRepresentatives = useQuery(api.politicianpage.getMyRepresentatives, {});
+  const { isAuthenticated } = useConvexAuth();
+  const communityVotes = useQuery(
+    api.userVotes.getCommunityVotes,
+    billId ? { billId } : "skip"
+  );
+  const castVote = useMutation(api.userVotes.castVote);
+  const retractVote = useMutation(api.userVotes.retractVote);
+  // The latest vote unless the reader picked another
+  const [selectedRollCallId, setSelectedRollCallId] = useState<Id<"rollCalls"> | null>(null);
+  const rollCallIdToLoad = selectedRollCallId ?? rollCalls?.[rollCalls.length - 1]?._id ?? null;
+  const rollCallVotes = useQuery(
+    api.billpage.getRollCallVotes,
+    rollCallIdToLoad ? { rollCallId: rollCallIdToLoad } : "skip"
+  );
 
   const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
   const versionIdToLoad = selectedVersionId ?? latestVersion?._id ?? null;
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
   const versionText = useQuery(
     api.billpage.getBillVersionText,
     versionIdToLoad ? { versionId: versionIdToLoad as Id<"billVersions"> } : "skip"
   );
+  const sectionTree = useQuery(
+    api.billpage.getBillSectionTree,
+    versionIdToLoad ? { versionId: versionIdToLoad as Id<"billVersions"> } : "skip"
+  );
+
+  // Redline between the selected version and a comparison version, always earlier → later
+  const comparePair = useMemo(() => {
+    if (!compareVersionId || !versionIdToLoad || compareVersionId === versionIdToLoad) return null;
+    const publishedAt = (id: string) => {
+      const version = versions?.find((v) => v._id === id);
+      return version ? parseBillDate(version.publishedDate)?.getTime() ?? 0 : 0;
+    };
+    const [fromVersionId, toVersionId] = publishedAt(compareVersionId) <= publishedAt(versionIdToLoad)
+      ? [compareVersionId, versionIdToLoad]
+      : [versionIdToLoad, compareVersionId];
+    return {
+      fromVersionId: fromVersionId as Id<"billVersions">,
+      toVersionId: toVersionId as Id<"billVersions">,
+    };
+  }, [compareVersionId, versionIdToLoad, versions]);
+  const versionDiff = useQuery(api.billpage.compareBillVersions, comparePair ?? "skip");
 
   const [searchTerm, setSearchTerm] = useState("");
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
@@ -221,6 +241,8 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
 
   const [activeMobileTab, setActiveMobileTab] = useState<MobileTabType>("summary");
   const [detailsOpen, setDetailsOpen] = useState(false);
+  const [showAllActions, setShowAllActions] = useState(false);
+  const [showAllCosponsors, setShowAllCosponsors] = useState(false);
   const [isHovering, setIsHovering] = useState(false);
 
   const [chatInput, setChatInput] = useState("");
@@ -238,6 +260,9 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
   const textContainerRefDesktop = useRef<HTMLDivElement | null>(null);
   const textContainerRefMobile = useRef<HTMLDivElement | null>(null);
   const [highlightRanges, setHighlightRanges] = useState<number[]>([]);
+  const [activeSectionAnchor, setActiveSectionAnchor] = useState<string | null>(null);
+  const [pendingAnchor, setPendingAnchor] = useState<string | null>(null);
+  const scrollFrameRef = useRef<number | null>(null);
 
   // Left/Right card refs to sync heights on desktop
   const leftSummaryCardRef = useRef<HTMLDivElement | null>(null);
@@ -282,11 +307,22 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
   const bill = billWithSponsor?.bill;
   const sponsor = billWithSponsor?.sponsor;
   const impactAreas = bill?.impactAreas ?? [];
-  const derivedStage = deriveLifecycleStage(bill);
-  const lifecycleProgress = getLifecycleProgress(derivedStage);
-  const statusClass = derivedStage ? statusClassMap[derivedStage] ?? "" : "";
+  const timeline = useMemo(
+    () => (bill ? buildBillTimeline(bill.billType, billActions ?? [], versions ?? []) : null),
+    [bill, billActions, versions]
+  );
+  const statusClass = timeline ? getTimelineStatusClass(timeline) : "";
+
+  // Summary of the version being read. Versions stored before summaries were kept per
+  // version fall back to the bill's copy when they are the bill's latest version.
+  const isReadingLatest = !!versionText &&
+    versionText._id === (bill?.latestVersionId ?? latestVersion?._id);
+  const summaryContent: SummaryContent | undefined = versionText?.summary || versionText?.structuredSummary
+    ? versionText
+    : isReadingLatest ? bill : undefined;
 
-  // Removed change analysis parsing for now
+  // The bill's copy of the comparison belongs to its latest version
+  const lawComparison = versionText?.currentLawComparison ?? (isReadingLatest ? bill?.changeAnalysis : undefined);
 
   const lines = useMemo(() => {
     const text = versionText?.fullText ?? "";
@@ -298,25 +334,25 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
     return chunkTextByDisplay(text, 280);
   }, [versionText?.fullText]);
 
-  const scrollToPosition = (charIndex: number) => {
+  // Character offset in fullText where each display line starts
+  const lineStarts = useMemo(() => {
+    const hasNewlines = /\r?\n/.test(versionText?.fullText ?? "");
+    const starts: Array<number> = [];
+    let offset = 0;
+    for (const ln of lines) {
+      starts.push(offset);
+      offset += ln.length + (hasNewlines ? 1 : 0);
+    }
+    return starts;
+  }, [lines, versionText?.fullText]);
+
+  const scrollToPosition = useCallback((charIndex: number) => {
     const container = isMobile
       ? textContainerRefMobile.current
       : textContainerRefDesktop.current;
     if (!container) return;
 
-    const rawText = versionText?.fullText ?? "";
-    const hasNewlines = /\r?\n/.test(rawText);
-
-    let cumulative = 0;
-    let targetLineIdx = 0;
-    for (let i = 0; i < lines.length; i++) {
-      cumulative += lines[i].length + (hasNewlines ? 1 : 0);
-      if (cumulative >= charIndex) {
-        targetLineIdx = i;
-        break;
-      }
-    }
-
+    const targetLineIdx = findLineIndex(lineStarts, charIndex);
     const lineEl = container.querySelector<HTMLDivElement>(
       `[data-line-index="${targetLineIdx}"]`
     );
@@ -330,19 +366,26 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
       setHighlightRanges([targetLineIdx]);
       setTimeout(() => setHighlightRanges([]), 2200);
     }
-  };
+  }, [isMobile, lineStarts]);
 
-  const handleCitationClick = async (sectionId: string) => {
+  const handleCitationClick = useCallback(async (sectionId: string) => {
     if (!billId) return;
     try {
       const section = await convex.query(api.billpage.getBillSection, {
         billId,
         sectionId,
+        versionId: (versionIdToLoad as Id<"billVersions"> | null) ?? undefined,
       });
       if (section?.startPosition != null) {
         if (section.versionId !== versionIdToLoad) {
           setSelectedVersionId(section.versionId as unknown as string);
         }
+        if (section.anchor) {
+          // Jump once the section tree of that version is loaded
+          window.history.replaceState(null, "", `#${section.anchor}`);
+          setPendingAnchor(section.anchor);
+          return;
+        }
         if (isMobile) setActiveMobileTab("text");
         setTimeout(() => {
           scrollToPosition(section.startPosition);
@@ -351,6 +394,67 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
     } catch (e) {
       console.error("Failed to load section", e);
     }
+  }, [billId, convex, versionIdToLoad, isMobile, scrollToPosition]);
+
+  const handleSelectSection = (entry: BillSectionTocEntry) => {
+    window.history.replaceState(null, "", `#${entry.anchor}`);
+    setPendingAnchor(entry.anchor);
+  };
+
+  // Deep links such as #sec-101, on load and when the fragment changes
+  useEffect(() => {
+    const update = () => setPendingAnchor(readHashAnchor());
+    update();
+    window.addEventListener("hashchange", update);
+    return () => window.removeEventListener("hashchange", update);
+  }, []);
+
+  useEffect(() => {
+    if (!pendingAnchor || !sectionTree || lines.length === 0) return;
+    if (isMobile && activeMobileTab !== "text") {
+      setActiveMobileTab("text");
+      return;
+    }
+    const entry = sectionTree.find((e) => e.anchor === pendingAnchor);
+    setPendingAnchor(null);
+    if (entry) {
+      scrollToPosition(entry.start);
+      setActiveSectionAnchor(entry.anchor);
+    } else {
+      // Not in this version; look for it in the bill's other versions
+      void handleCitationClick(pendingAnchor);
+    }
+  }, [pendingAnchor, sectionTree, lines.length, isMobile, activeMobileTab, scrollToPosition, handleCitationClick]);
+
+  // Keep the table of contents in sync with the text scroll position
+  const handleTextScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const container = e.currentTarget;
+    if (!sectionTree || sectionTree.length === 0 || scrollFrameRef.current !== null) return;
+    scrollFrameRef.current = window.requestAnimationFrame(() => {
+      scrollFrameRef.current = null;
+      const lineEls = container.querySelectorAll<HTMLDivElement>("[data-line-index]");
+      if (lineEls.length === 0) return;
+      const top = container.scrollTop + Math.max(32, Math.floor(container.clientHeight * 0.2));
+      let lo = 0;
+      let hi = lineEls.length - 1;
+      let topLine = 0;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (lineEls[mid].offsetTop <= top) {
+          topLine = mid;
+          lo = mid + 1;
+        } else {
+          hi = mid - 1;
+        }
+      }
+      const offset = lineStarts[topLine] ?? 0;
+      let active: string | null = null;
+      for (const entry of sectionTree) {
+        if (entry.start > offset) break;
+        active = entry.anchor;
+      }
+      setActiveSectionAnchor(active);
+    });
   };
 
   const handleSearch = async (e?: React.FormEvent) => {
@@ -387,6 +491,14 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
   const handleVersionChange = (versionId: string) => {
     setSelectedVersionId(versionId);
     setHighlightRanges([]);
+    if (versionId === compareVersionId) setCompareVersionId(null);
+  };
+
+  const handleCastVote = (vote: "yea" | "nay" | null) => {
+    if (!billId) return;
+    (vote === null ? retractVote({ billId }) : castVote({ billId, vote })).catch((error) => {
+      console.error("Failed to record vote:", error);
+    });
   };
 
   const handleSendChat = async () => {
@@ -416,7 +528,7 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
     update();
     window.addEventListener("resize", update);
     return () => window.removeEventListener("resize", update);
-  }, [bill?.tagline, impactAreas.length, lifecycleProgress, detailsOpen, isHovering, isMobile]);
+  }, [bill?.tagline, impactAreas.length, timeline, bill?.latestActionText, bill?.subjects?.length, relatedBills?.length, billCosponsors, showAllActions, showAllCosponsors, detailsOpen, isHovering, isMobile]);
 
   if (!billId) {
     return (
@@ -528,17 +640,62 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
                   </div>
                 )}
 
-                {(sponsor?.name || (bill?.committees && bill.committees.length > 0)) && (
+                {(sponsor?.name || (billCommittees && billCommittees.length > 0) || (bill?.committees && bill.committees.length > 0)) && (
                   <div className="section-block mb-3">
                     <div className="section-title">Sponsor & Committees</div>
                     <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-3">
                       {sponsor?.name && (
                         <div>
                           <div className="text-xs uppercase tracking-wide text-[var(--color-muted-foreground)] mb-1">Sponsor</div>
-                          <div className="text-sm">{sponsor.name}</div>
+                          <div className="text-sm">
+                            {sponsor.govinfoId ? (
+                              <Link href={`/politicians/${sponsor.govinfoId}`} className="hover:underline">
+                                {sponsor.name}
+                              </Link>
+                            ) : (
+                              sponsor.name
+                            )}
+                            {sponsor.party !== "Unknown" && sponsor.state !== "Unknown" && (
+                              <span className="text-[var(--color-muted-foreground)]">
+                                {" "}({sponsor.party}-{sponsor.state}{sponsor.district && sponsor.district !== "0" ? `-${sponsor.district}` : ""})
+                              </span>
+                            )}
+                          </div>
+                          {sponsor.party !== "Unknown" && (
+                            <div className="text-xs text-[var(--color-muted-foreground)]">
+                              {sponsor.chamber === "Senate" ? "Senator" : "Representative"}
+                              {sponsor.officialUrl && (
+                                <>
+                                  {" · "}
+                                  <a href={sponsor.officialUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                    Official website
+                                  </a>
+                                </>
+                              )}
+                            </div>
+                          )}
                         </div>
                       )}
-                      {bill?.committees && bill.committees.length > 0 && (
+                      {billCommittees && billCommittees.length > 0 ? (
+                        <div>
+                          <div className="text-xs uppercase tracking-wide text-[var(--color-muted-foreground)] mb-1">Committees</div>
+                          <div className="flex flex-wrap gap-1.5">
+                            {billCommittees.map((c) => (
+                              <Link
+                                key={c._id}
+                                href={`/committees/${c.code}`}
+                                className="pill hover:text-[var(--color-primary)]"
+                                title={c.status === "referred" ? "Pending in committee" : `${c.status === "reported" ? "Reported" : "Discharged"}${c.reportedDate ? ` ${formatDate(c.reportedDate)}` : ""}`}
+                              >
+                                {c.name}
+                                {c.status !== "referred" && (
+                                  <span className="ml-1 text-[var(--color-muted-foreground)]">· {c.status}</span>
+                                )}
+                              </Link>
+                            ))}
+                          </div>
+                        </div>
+                      ) : bill?.committees && bill.committees.length > 0 && (
                         <div>
                           <div className="text-xs uppercase tracking-wide text-[var(--color-muted-foreground)] mb-1">Committees</div>
                           <div className="flex flex-wrap gap-1.5">
@@ -554,22 +711,39 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
                   </div>
                 )}
 
+                {billCosponsors && billCosponsors.cosponsors.length > 0 && (
+                  <div className="section-block mb-3">
+                    <div className="section-title">Cosponsors</div>
+                    <div className="mt-2">
+                      <CosponsorSplit
+                        cosponsors={billCosponsors.cosponsors}
+                        breakdown={billCosponsors.breakdown}
+                        showAll={showAllCosponsors}
+                        onToggleAll={() => setShowAllCosponsors((v) => !v)}
+                      />
+                    </div>
+                  </div>
+                )}
+
                 <div className="section-block mb-3">
                   <div className="section-title">Legislative Status</div>
                   <div className="mt-2">
-                    <div className="progress-track">
-                      <div
-                        className="progress-fill"
-                        style={{ width: `${Math.round(lifecycleProgress * 100)}%` }}
+                    {timeline && (
+                      <LegislativeTimeline
+                        timeline={timeline}
+                        actions={billActions ?? []}
+                        selectedVersionId={versionIdToLoad}
+                        onSelectVersion={handleVersionChange}
+                        showAllActions={showAllActions}
+                        onToggleAllActions={() => setShowAllActions((open) => !open)}
                       />
-                    </div>
-                    <div className="mt-2 flex items-center justify-between text-[10px] text-[var(--color-muted-foreground)] uppercase tracking-wide">
-                      {lifecycleOrder.map((step) => (
-                        <span key={step} className="w-1/5 text-center">
-                          {step.replace("_", " ")}
-                        </span>
-                      ))}
-                    </div>
+                    )}
+                    {bill?.latestActionText && (
+                      <p className="mt-3 text-sm text-[var(--color-muted-foreground)]">
+                        <span className="text-xs uppercase tracking-wide mr-1.5">Latest action</span>
+                        {bill.latestActionText}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -585,6 +759,52 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
                     </div>
                   </div>
                 )}
+
+                {(bill?.policyArea || (bill?.subjects && bill.subjects.length > 0)) && (
+                  <div className="section-block mt-3">
+                    <div className="section-title">Subjects</div>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {bill.policyArea && (
+                        <span className="pill font-medium" title="Policy area">
+                          {bill.policyArea}
+                        </span>
+                      )}
+                      {(bill.subjects ?? []).map((subject) => (
+                        <span key={subject} className="pill">
+                          {subject}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {relatedBills && relatedBills.length > 0 && (
+                  <div className="section-block mt-3">
+                    <div className="section-title">Related Bills</div>
+                    <ul className="mt-2 space-y-1.5 text-sm">
+                      {relatedBills.map((related) => {
+                        const label = `${related.billType.toUpperCase()} ${related.billNumber} (${related.congress}th)`;
+                        return (
+                          <li key={`${related.congress}-${related.billType}-${related.billNumber}`} className="flex flex-wrap items-baseline gap-x-2">
+                            {related.billId ? (
+                              <Link href={`/bills/${related.billId}`} className="font-medium text-[var(--color-primary)] hover:opacity-80">
+                                {label}
+                              </Link>
+                            ) : (
+                              <span className="font-medium">{label}</span>
+                            )}
+                            {related.relationship && (
+                              <span className="text-xs text-[var(--color-muted-foreground)]">{related.relationship}</span>
+                            )}
+                            {related.title && (
+                              <span className="w-full text-xs text-[var(--color-muted-foreground)] line-clamp-1">{related.title}</span>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -596,6 +816,7 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
             {[
               { key: "summary" as const, label: "Summary" },
               { key: "chat" as const, label: "Chat" },
+              ...(rollCalls && rollCalls.length > 0 ? [{ key: "votes" as const, label: "Votes" }] : []),
               { key: "text" as const, label: "Bill Text" },
             ].map((tab) => (
               <button
@@ -618,13 +839,25 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
         <main className="max-w-7xl mx-auto px-4 mt-4 md:grid md:grid-cols-2 md:gap-4">
           {/* Left Pane */}
           <section className="md:col-span-1 space-y-4">
+            <div className="card p-4 shadow-[var(--shadow-md)] rounded-xl border border-[var(--color-border)]/60">
+              <CommunityVote
+                tally={communityVotes}
+                officialVote={rollCalls?.[rollCalls.length - 1]}
+                isAuthenticated={isAuthenticated}
+                onVote={handleCastVote}
+              />
+            </div>
+
             {/* Desktop Tabs */}
             <div className="hidden md:block">
               <div ref={leftSummaryCardRef} className="card p-0 overflow-hidden shadow-[var(--shadow-md)] rounded-xl border border-[var(--color-border)]/60">
                 <DesktopTabs>
                   <DesktopTab label="AI Summary" defaultActive>
                     <AISummary
-                      bill={bill}
+                      content={summaryContent}
+                      versionCode={versionText?.versionCode}
+                      versionChanges={versionText?.changeAnalysis}
+                      lawComparison={lawComparison}
                       onCitationClick={handleCitationClick}
                     />
                   </DesktopTab>
@@ -638,6 +871,17 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
                       isAuthenticated={true}
                     />
                   </DesktopTab>
+                  {rollCalls && rollCalls.length > 0 && (
+                    <DesktopTab label="Votes">
+                      <RollCallBreakdown
+                        rollCalls={rollCalls}
+                        selectedRollCallId={rollCallIdToLoad}
+                        onSelectRollCall={setSelectedRollCallId}
+                        votes={rollCallVotes}
+                        myRepresentatives={myRepresentatives}
+                      />
+                    </DesktopTab>
+                  )}
                 </DesktopTabs>
               </div>
             </div>
@@ -647,7 +891,10 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
               {activeMobileTab === "summary" && (
                 <div className="card p-4 shadow-[var(--shadow-md)] rounded-xl border border-[var(--color-border)]/60">
                   <AISummary
-                    bill={bill}
+                    content={summaryContent}
+                    versionCode={versionText?.versionCode}
+                    versionChanges={versionText?.changeAnalysis}
+                    lawComparison={lawComparison}
                     onCitationClick={handleCitationClick}
                   />
                 </div>
@@ -664,6 +911,17 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
                   />
                 </div>
               )}
+              {activeMobileTab === "votes" && rollCalls && rollCalls.length > 0 && (
+                <div className="card p-4 shadow-[var(--shadow-md)] rounded-xl border border-[var(--color-border)]/60">
+                  <RollCallBreakdown
+                    rollCalls={rollCalls}
+                    selectedRollCallId={rollCallIdToLoad}
+                    onSelectRollCall={setSelectedRollCallId}
+                    votes={rollCallVotes}
+                    myRepresentatives={myRepresentatives}
+                  />
+                </div>
+              )}
             </div>
           </section>
 
@@ -694,6 +952,13 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
                     </span>
                   )}
                 </div>
+                <CompareControls
+                  versions={versions ?? []}
+                  selectedVersionId={versionIdToLoad}
+                  value={compareVersionId}
+                  latestVersionId={latestVersion?._id ?? null}
+                  onChange={setCompareVersionId}
+                />
 
                 <form className="flex gap-2 items-center" onSubmit={handleSearch}>
                   <input
@@ -739,15 +1004,24 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
                     No matches for “{searchTerm}”.
                   </div>
                 )}
+
+                <SectionNavigator
+                  entries={sectionTree ?? []}
+                  activeAnchor={activeSectionAnchor}
+                  onSelect={handleSelectSection}
+                />
               </div>
 
               {/* Bill Text */}
               <div
                 className="flex-1 overflow-auto bg-[var(--color-card-muted)]"
                 ref={textContainerRefDesktop}
+                onScroll={handleTextScroll}
                 style={{ fontFamily: "var(--font-mono)" }}
               >
-                {lines.length === 0 ? (
+                {comparePair ? (
+                  <RedlineView diff={versionDiff} />
+                ) : lines.length === 0 ? (
                   <div className="p-6 text-sm text-[var(--color-muted-foreground)]">
                     {versionIdToLoad ? "Loading bill text..." : "Select a version"}
                   </div>
@@ -799,6 +1073,13 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
                       </span>
                     )}
                   </div>
+                  <CompareControls
+                    versions={versions ?? []}
+                    selectedVersionId={versionIdToLoad}
+                    value={compareVersionId}
+                    latestVersionId={latestVersion?._id ?? null}
+                    onChange={setCompareVersionId}
+                  />
 
                   <form className="flex gap-2 items-center" onSubmit={handleSearch}>
                     <input
@@ -843,14 +1124,23 @@ const BillPage: React.FC<PageProps> = ({ params }) => {
                       No matches for “{searchTerm}”.
                     </div>
                   )}
+
+                  <SectionNavigator
+                    entries={sectionTree ?? []}
+                    activeAnchor={activeSectionAnchor}
+                    onSelect={handleSelectSection}
+                  />
                 </div>
 
                 <div
                   className="h-[58vh] overflow-auto bg-[var(--color-card-muted)]"
                   ref={textContainerRefMobile}
+                  onScroll={handleTextScroll}
                   style={{ fontFamily: "var(--font-mono)" }}
                 >
-                  {lines.length === 0 ? (
+                  {comparePair ? (
+                    <RedlineView diff={versionDiff} />
+                  ) : lines.length === 0 ? (
                     <div className="p-6 text-sm text-[var(--color-muted-foreground)]">
                       {versionIdToLoad ? "Loading bill text..." : "Select a version"}
                     </div>
@@ -936,7 +1226,9 @@ const VersionSelect: React.FC<{
   value: string;
   latestVersionId: Id<"billVersions"> | null;
   onChange: (id: string) => void;
-}> = ({ versions, value, latestVersionId, onChange }) => {
+  placeholder?: string;
+  allowEmpty?: boolean; // Let the placeholder be chosen to clear the selection
+}> = ({ versions, value, latestVersionId, onChange, placeholder, allowEmpty }) => {
   const sortedVersions = React.useMemo(() => {
     const cloned = [...versions];
     cloned.sort((a, b) => {
@@ -959,8 +1251,8 @@ const VersionSelect: React.FC<{
         disabled={!hasOptions}
         title={hasOptions ? "Select bill version" : "No versions available"}
       >
-        <option value="" disabled>
-          {hasOptions ? "Select a version…" : "No versions available"}
+        <option value="" disabled={!allowEmpty}>
+          {hasOptions ? placeholder ?? "Select a version…" : "No versions available"}
         </option>
         {sortedVersions.map((v) => {
           const label = `${v.versionCode} — ${formatDate(v.publishedDate)}${latestVersionId && v._id === latestVersionId ? " (Latest)" : ""}`;
@@ -984,10 +1276,834 @@ const VersionSelect: React.FC<{
   );
 };
 
+// Picks a second version to redline against the selected one
+const CompareControls: React.FC<{
+  versions: Array<BillVersionData>;
+  selectedVersionId: string | null;
+  value: string | null;
+  latestVersionId: Id<"billVersions"> | null;
+  onChange: (id: string | null) => void;
+}> = ({ versions, selectedVersionId, value, latestVersionId, onChange }) => {
+  const others = versions.filter((v) => v._id !== selectedVersionId);
+  if (others.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <label className="text-sm text-[var(--color-muted-foreground)]">
+        Compare
+      </label>
+      <VersionSelect
+        versions={others}
+        value={value ?? ""}
+        latestVersionId={latestVersionId}
+        onChange={(id) => onChange(id || null)}
+        placeholder="Off — pick a version to redline"
+        allowEmpty
+      />
+    </div>
+  );
+};
+
+// Show a few words of context around changes instead of long unchanged runs
+function trimDiffContext(text: string, position: "start" | "middle" | "end", contextWords = 25): string {
+  const words = text.split(" ");
+  if (words.length <= contextWords * 2 + 5) return text;
+  if (position === "start") return "… " + words.slice(-contextWords).join(" ");
+  if (position === "end") return words.slice(0, contextWords).join(" ") + " …";
+  return words.slice(0, contextWords).join(" ") + " … " + words.slice(-contextWords).join(" ");
+}
+
+const diffStatusClassMap: Record<SectionDiff["status"], string> = {
+  inserted: "status-passed",
+  deleted: "status-failed",
+  modified: "status-committee",
+  unchanged: "",
+};
+
+const RedlineView: React.FC<{ diff?: VersionDiffData | null }> = ({ diff }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  if (diff === undefined) {
+    return <div className="p-6 text-sm text-[var(--color-muted-foreground)]">Comparing versions...</div>;
+  }
+  if (diff === null) {
+    return <div className="p-6 text-sm text-[var(--color-muted-foreground)]">These versions can’t be compared.</div>;
+  }
+
+  const visibleSections = showUnchanged
+    ? diff.sections
+    : diff.sections.filter((s) => s.status !== "unchanged");
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="font-medium">
+          {diff.from.versionCode} ({formatDate(diff.from.publishedDate)}) → {diff.to.versionCode} ({formatDate(diff.to.publishedDate)})
+        </span>
+        <span className="px-2 py-0.5 rounded-full status-passed">+{diff.summary.inserted} added</span>
+        <span className="px-2 py-0.5 rounded-full status-failed">−{diff.summary.deleted} removed</span>
+        <span className="px-2 py-0.5 rounded-full status-committee">{diff.summary.modified} changed</span>
+        {diff.summary.unchanged > 0 && (
+          <button
+            type="button"
+            className="ml-auto text-[var(--color-primary)] hover:opacity-80"
+            onClick={() => setShowUnchanged((v) => !v)}
+          >
+            {showUnchanged ? "Hide" : "Show"} {diff.summary.unchanged} unchanged
+          </button>
+        )}
+      </div>
+
+      {visibleSections.length === 0 && (
+        <div className="text-sm text-[var(--color-muted-foreground)]">No differences between these versions.</div>
+      )}
+
+      {visibleSections.map((section, idx) => (
+        <div
+          key={`${section.fromAnchor ?? ""}-${section.toAnchor ?? ""}-${idx}`}
+          className="border border-[var(--color-border)] rounded-lg overflow-hidden bg-[var(--color-card)]"
+        >
+          <div className="px-3 py-2 flex items-center gap-2 border-b border-[var(--color-border)]">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium truncate" title={section.label}>{section.label}</div>
+              {section.fromLabel && (
+                <div className="text-xs text-[var(--color-muted-foreground)] truncate">was {section.fromLabel}</div>
+              )}
+            </div>
+            <span className={classNames("px-2 py-0.5 rounded-full text-xs capitalize", diffStatusClassMap[section.status])}>
+              {section.status}
+            </span>
+          </div>
+          {section.segments.length > 0 && (
+            <div className="p-3 text-sm leading-relaxed whitespace-pre-wrap break-words">
+              {section.segments.map((segment, i) => {
+                if (segment.type === "insert") {
+                  return <ins key={i} className="redline-insert">{segment.text}</ins>;
+                }
+                if (segment.type === "delete") {
+                  return <del key={i} className="redline-delete">{segment.text}</del>;
+                }
+                const position = i === 0 ? "start" : i === section.segments.length - 1 ? "end" : "middle";
+                return <span key={i}>{trimDiffContext(segment.text, position)}</span>;
+              }).flatMap((node, i) => (i === 0 ? [node] : [" ", node]))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const changeTypeClassMap: Record<VersionChangeAnalysis["changes"][number]["changeType"], string> = {
+  added: "status-passed",
+  removed: "status-failed",
+  modified: "status-committee",
+};
+
+const CurrentLawComparison: React.FC<{
+  items: Array<CurrentLawComparisonItem>;
+  onCitationClick: (sectionId: string) => void;
+}> = ({ items, onCitationClick }) => {
+  const isMobile = useIsMobile();
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, idx) => (
+        <ExpandableSectionCard key={idx} title={item.title} isMobile={isMobile}>
+          <div className="p-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm leading-relaxed">
+            <div className="rounded-lg border border-[var(--color-border)] p-3 bg-[var(--color-card-muted)]">
+              <div className="text-xs font-medium text-[var(--color-muted-foreground)] mb-1">Current law</div>
+              <div className="whitespace-pre-wrap">{item.currentLaw}</div>
+            </div>
+            <div className="rounded-lg border border-[var(--color-border)] p-3">
+              <div className="text-xs font-medium text-[var(--color-primary)] mb-1">Proposed</div>
+              <div className="whitespace-pre-wrap">{item.proposedChange}</div>
+            </div>
+          </div>
+          {(item.target || item.citations.length > 0) && (
+            <div className="px-3 py-2 border-t border-[var(--color-border)] bg-[var(--color-card)] flex flex-wrap items-center gap-2">
+              {item.target && (
+                <a
+                  href={item.target.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-[var(--color-primary)] underline underline-offset-2 hover:opacity-80"
+                  title="Current text of the amended section"
+                >
+                  {item.target.cite}
+                </a>
+              )}
+              {item.citations.map((c, i) => (
+                <button
+                  key={i}
+                  className="px-2 py-1 rounded-full text-xs bg-[var(--color-card-muted)] border border-[var(--color-border)] text-[var(--color-primary)] hover:opacity-90 transition"
+                  onClick={() => onCitationClick(c.sectionId)}
+                  title={item.instruction}
+                >
+                  {c.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </ExpandableSectionCard>
+      ))}
+    </div>
+  );
+};
+
+const partyBarClassMap: Record<string, string> = {
+  D: "bg-blue-500",
+  R: "bg-red-500",
+};
+
+const partyTextClassMap: Record<string, string> = {
+  D: "text-blue-600 dark:text-blue-400",
+  R: "text-red-600 dark:text-red-400",
+};
+
+// Cosponsors listed before "Show all"
+const COSPONSOR_PREVIEW_COUNT = 8;
+
+const CosponsorSplit: React.FC<{
+  cosponsors: Array<{
+    _id: string;
+    govinfoId?: string;
+    name: string;
+    party: string;
+    state: string;
+    district?: string;
+    sponsorshipDate?: string;
+    isOriginalCosponsor: boolean;
+    sponsorshipWithdrawnDate?: string;
+  }>;
+  breakdown: {
+    current: number;
+    original: number;
+    withdrawn: number;
+    parties: Array<{ party: string; count: number }>;
+    sponsorParty?: string;
+    isBipartisan: boolean;
+  };
+  showAll: boolean;
+  onToggleAll: () => void;
+}> = ({ cosponsors, breakdown, showAll, onToggleAll }) => {
+  const listed = showAll ? cosponsors : cosponsors.slice(0, COSPONSOR_PREVIEW_COUNT);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{breakdown.current} current</span>
+        {breakdown.original > 0 && (
+          <span className="text-[var(--color-muted-foreground)]">· {breakdown.original} original</span>
+        )}
+        {breakdown.withdrawn > 0 && (
+          <span className="text-[var(--color-muted-foreground)]">· {breakdown.withdrawn} withdrawn</span>
+        )}
+        {breakdown.sponsorParty && (
+          <span className={classNames("px-2 py-0.5 rounded-full text-xs", breakdown.isBipartisan ? "status-passed" : "status-committee")}>
+            {breakdown.isBipartisan ? "Bipartisan" : `${breakdown.sponsorParty} only`}
+          </span>
+        )}
+      </div>
+
+      {breakdown.current > 0 && (
+        <>
+          <div className="mt-2 flex h-2 w-full overflow-hidden rounded-full bg-[var(--color-border)]" aria-hidden>
+            {breakdown.parties.map(({ party, count }) => (
+              <span
+                key={party}
+                className={partyBarClassMap[party] ?? "bg-[var(--color-muted-foreground)]"}
+                style={{ width: `${(count / breakdown.current) * 100}%` }}
+              />
+            ))}
+          </div>
+          <div className="mt-1.5 flex flex-wrap gap-3 text-xs text-[var(--color-muted-foreground)]">
+            {breakdown.parties.map(({ party, count }) => (
+              <span key={party} className="inline-flex items-center gap-1">
+                <span className={classNames("h-2 w-2 rounded-full", partyBarClassMap[party] ?? "bg-[var(--color-muted-foreground)]")} />
+                {party === "Unknown" ? "Unknown party" : party} {count} ({Math.round((count / breakdown.current) * 100)}%)
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+
+      <ul className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        {listed.map((c) => (
+          <li key={c._id} className={classNames("min-w-0 truncate", !!c.sponsorshipWithdrawnDate && "text-[var(--color-muted-foreground)]")}>
+            {c.govinfoId ? (
+              <Link
+                href={`/politicians/${c.govinfoId}`}
+                className={classNames("hover:underline", !!c.sponsorshipWithdrawnDate && "line-through")}
+              >
+                {c.name}
+              </Link>
+            ) : (
+              <span className={classNames(!!c.sponsorshipWithdrawnDate && "line-through")}>{c.name}</span>
+            )}
+            {c.party !== "Unknown" && (
+              <span className={classNames("text-xs", partyTextClassMap[c.party] ?? "text-[var(--color-muted-foreground)]")}>
+                {" "}({c.party}-{c.state}{c.district && c.district !== "0" ? `-${c.district}` : ""})
+              </span>
+            )}
+            <span className="text-xs text-[var(--color-muted-foreground)]">
+              {c.sponsorshipWithdrawnDate
+                ? ` · withdrew ${formatDate(c.sponsorshipWithdrawnDate)}`
+                : c.isOriginalCosponsor
+                  ? " · original"
+                  : c.sponsorshipDate ? ` · joined ${formatDate(c.sponsorshipDate)}` : ""}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {cosponsors.length > COSPONSOR_PREVIEW_COUNT && (
+        <button
+          onClick={onToggleAll}
+          className="mt-2 text-xs text-[var(--color-primary)] hover:underline"
+          aria-expanded={showAll}
+        >
+          {showAll ? "Show fewer" : `Show all ${cosponsors.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+type VotePositionKey = "yea" | "nay" | "present" | "not_voting" | "other";
+
+const votePositionLabels: Record<VotePositionKey, string> = {
+  yea: "Yea",
+  nay: "Nay",
+  present: "Present",
+  not_voting: "Not voting",
+  other: "Other",
+};
+
+const votePositionBarClassMap: Record<VotePositionKey, string> = {
+  yea: "bg-[var(--color-success)]",
+  nay: "bg-[var(--color-error)]",
+  present: "bg-amber-500",
+  not_voting: "bg-[var(--color-border)]",
+  other: "bg-[var(--color-muted-foreground)]",
+};
+
+// Members listed before "Show all" when no filter is applied
+const VOTE_PREVIEW_COUNT = 12;
+
+// Passed/agreed/confirmed results, but not "Failed", "Rejected" or "Not Sustained"
+function isPassingResult(result: string): boolean {
+  return /passed|agreed|confirmed|adopted|sustained/i.test(result) && !/not|rejected|failed/i.test(result);
+}
+
+// A state tile's color from how its members voted
+function stateTileClass(counts: { yea: number; nay: number; other: number }): string {
+  if (counts.yea > 0 && counts.nay === 0) return "bg-[var(--color-success)] text-white";
+  if (counts.nay > 0 && counts.yea === 0) return "bg-[var(--color-error)] text-white";
+  if (counts.yea > 0 && counts.nay > 0) return "bg-amber-500 text-white";
+  if (counts.other > 0) return "bg-[var(--color-border)] text-[var(--color-foreground)]";
+  return "bg-[var(--color-card-muted)] text-[var(--color-muted-foreground)]";
+}
+
+const RollCallBreakdown: React.FC<{
+  rollCalls: Array<{
+    _id: Id<"rollCalls">;
+    chamber: "House" | "Senate";
+    rollNumber: number;
+    date: string;
+    question: string;
+    description?: string;
+    requiredMajority?: string;
+    result: string;
+    measure?: string;
+    amendment?: string;
+    totals: { yea: number; nay: number; present: number; notVoting: number };
+    partyTotals: Array<{ party: string; yea: number; nay: number; present: number; notVoting: number }>;
+    unmatchedMembers: number;
+    sourceUrl: string;
+  }>;
+  selectedRollCallId: Id<"rollCalls"> | null;
+  onSelectRollCall: (rollCallId: Id<"rollCalls">) => void;
+  votes?: Array<{
+    politicianId: string;
+    govinfoId?: string;
+    name: string;
+    party: string;
+    state: string;
+    district?: string;
+    position: VotePositionKey;
+    voteCast: string;
+  }>;
+  myRepresentatives?: {
+    state: string;
+    district?: string;
+    representatives: Array<{ politicianId: string }>;
+  } | null;
+}> = ({ rollCalls, selectedRollCallId, onSelectRollCall, votes, myRepresentatives }) => {
+  // "all", "mine" or a state code picked on the map
+  const [filter, setFilter] = useState<string>("all");
+  const [showAll, setShowAll] = useState(false);
+  const rollCall = rollCalls.find((r) => r._id === selectedRollCallId) ?? rollCalls[rollCalls.length - 1];
+
+  const byState = useMemo(() => {
+    const counts = new Map<string, { yea: number; nay: number; other: number }>();
+    for (const vote of votes ?? []) {
+      const stateCounts = counts.get(vote.state) ?? { yea: 0, nay: 0, other: 0 };
+      if (vote.position === "yea") stateCounts.yea++;
+      else if (vote.position === "nay") stateCounts.nay++;
+      else stateCounts.other++;
+      counts.set(vote.state, stateCounts);
+    }
+    return counts;
+  }, [votes]);
+
+  const myRepresentativeIds = useMemo(
+    () => new Set((myRepresentatives?.representatives ?? []).map((r) => r.politicianId)),
+    [myRepresentatives]
+  );
+  const filtered = (votes ?? []).filter((vote) =>
+    filter === "all" ? true : filter === "mine" ? myRepresentativeIds.has(vote.politicianId) : vote.state === filter
+  );
+  const listed = filter === "all" && !showAll ? filtered.slice(0, VOTE_PREVIEW_COUNT) : filtered;
+
+  const { totals } = rollCall;
+  const cast = totals.yea + totals.nay + totals.present + totals.notVoting;
+  const totalSegments: Array<{ key: VotePositionKey; count: number }> = [
+    { key: "yea", count: totals.yea },
+    { key: "nay", count: totals.nay },
+    { key: "present", count: totals.present },
+    { key: "not_voting", count: totals.notVoting },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {rollCalls.length > 1 && (
+        <div>
+          <div className="text-xs uppercase tracking-wide text-[var(--color-muted-foreground)] mb-1">Recorded votes</div>
+          <ul className="space-y-1">
+            {rollCalls.map((r) => (
+              <li key={r._id}>
+                <button
+                  onClick={() => {
+                    onSelectRollCall(r._id);
+                    setShowAll(false);
+                  }}
+                  className={classNames(
+                    "w-full text-left px-2 py-1.5 rounded-lg text-sm transition-colors",
+                    r._id === rollCall._id
+                      ? "bg-[var(--color-primary)]/10 text-[var(--color-primary)]"
+                      : "hover:bg-[var(--color-card-muted)]"
+                  )}
+                >
+                  <span className="text-xs text-[var(--color-muted-foreground)]">
+                    {formatDate(r.date)} · {r.chamber} ·{" "}
+                  </span>
+                  {r.question}
+                  <span className={classNames("ml-1.5 text-xs", isPassingResult(r.result) ? "text-[var(--color-success)]" : "text-[var(--color-error)]")}>
+                    {r.totals.yea}–{r.totals.nay}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Totals */}
+      <div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">{rollCall.question}</span>
+          <span className={classNames("px-2 py-0.5 rounded-full text-xs", isPassingResult(rollCall.result) ? "status-passed" : "status-failed")}>
+            {rollCall.result}
+          </span>
+        </div>
+        <div className="mt-0.5 text-xs text-[var(--color-muted-foreground)]">
+          {rollCall.chamber} roll call{" "}
+          <a href={rollCall.sourceUrl.startsWith("http") ? rollCall.sourceUrl : undefined} target="_blank" rel="noopener noreferrer" className="hover:underline">
+            #{rollCall.rollNumber}
+          </a>
+          {" · "}{formatDate(rollCall.date)}
+          {rollCall.amendment ? ` · ${rollCall.amendment}` : rollCall.measure ? ` · ${rollCall.measure}` : ""}
+          {rollCall.requiredMajority && ` · ${rollCall.requiredMajority} required`}
+        </div>
+        {rollCall.description && (
+          <p className="mt-1 text-xs text-[var(--color-muted-foreground)] line-clamp-2">{rollCall.description}</p>
+        )}
+        {cast > 0 && (
+          <>
+            <div className="mt-2 flex h-3 w-full overflow-hidden rounded-full bg-[var(--color-border)]" aria-hidden>
+              {totalSegments.map(({ key, count }) => (
+                <span key={key} className={votePositionBarClassMap[key]} style={{ width: `${(count / cast) * 100}%` }} />
+              ))}
+            </div>
+            <div className="mt-1.5 flex flex-wrap gap-3 text-xs text-[var(--color-muted-foreground)]">
+              {totalSegments.filter(({ count }) => count > 0).map(({ key, count }) => (
+                <span key={key} className="inline-flex items-center gap-1">
+                  <span className={classNames("h-2 w-2 rounded-full", votePositionBarClassMap[key])} />
+                  {votePositionLabels[key]} {count}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Party breakdown */}
+      {rollCall.partyTotals.length > 0 && (
+        <div>
+          <div className="text-xs uppercase tracking-wide text-[var(--color-muted-foreground)] mb-1">By party</div>
+          <div className="space-y-1.5">
+            {rollCall.partyTotals.map((p) => {
+              const partyCast = p.yea + p.nay + p.present + p.notVoting;
+              return (
+                <div key={p.party} className="flex items-center gap-2 text-xs">
+                  <span className={classNames("w-6 shrink-0 font-medium", partyTextClassMap[p.party] ?? "text-[var(--color-muted-foreground)]")}>
+                    {p.party === "Unknown" ? "?" : p.party}
+                  </span>
+                  <div className="flex h-2 flex-1 overflow-hidden rounded-full bg-[var(--color-border)]" aria-hidden>
+                    <span className={votePositionBarClassMap.yea} style={{ width: `${(p.yea / partyCast) * 100}%` }} />
+                    <span className={votePositionBarClassMap.nay} style={{ width: `${(p.nay / partyCast) * 100}%` }} />
+                    <span className={votePositionBarClassMap.present} style={{ width: `${(p.present / partyCast) * 100}%` }} />
+                  </div>
+                  <span className="w-24 shrink-0 text-right text-[var(--color-muted-foreground)]">
+                    {p.yea} yea · {p.nay} nay
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* State map */}
+      <div>
+        <div className="text-xs uppercase tracking-wide text-[var(--color-muted-foreground)] mb-1">By state</div>
+        {votes === undefined ? (
+          <div className="h-40 rounded bg-[var(--color-card-muted)] animate-pulse" />
+        ) : (
+          <>
+            <div className="grid grid-cols-11 gap-0.5" role="group" aria-label="Votes by state">
+              {Object.entries(STATE_TILE_GRID).map(([state, [row, col]]) => {
+                const counts = byState.get(state);
+                return (
+                  <button
+                    key={state}
+                    onClick={() => {
+                      setFilter(filter === state ? "all" : state);
+                      setShowAll(false);
+                    }}
+                    disabled={!counts}
+                    title={counts ? `${STATE_NAMES[state]}: ${counts.yea} yea, ${counts.nay} nay${counts.other ? `, ${counts.other} other` : ""}` : STATE_NAMES[state]}
+                    className={classNames(
+                      "aspect-square rounded-sm text-[9px] font-medium leading-none flex items-center justify-center transition",
+                      counts ? stateTileClass(counts) : "bg-[var(--color-card-muted)] text-[var(--color-muted-foreground)]",
+                      filter === state && "ring-2 ring-[var(--color-primary)]",
+                      myRepresentatives?.state === state && "outline outline-1 outline-[var(--color-foreground)]"
+                    )}
+                    style={{ gridRow: row + 1, gridColumn: col + 1 }}
+                  >
+                    {state}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="mt-1.5 flex flex-wrap gap-3 text-[11px] text-[var(--color-muted-foreground)]">
+              <span className="inline-flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-[var(--color-success)]" />All yea</span>
+              <span className="inline-flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-[var(--color-error)]" />All nay</span>
+              <span className="inline-flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-amber-500" />Split</span>
+              <span className="inline-flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-[var(--color-border)]" />Present or not voting</span>
+            </div>
+            {rollCall.unmatchedMembers > 0 && (
+              <p className="mt-1 text-[11px] text-[var(--color-muted-foreground)]">
+                {rollCall.unmatchedMembers} members aren&apos;t matched to a profile yet and are left off the map.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Members */}
+      <div>
+        <div className="flex flex-wrap items-center gap-1">
+          <button
+            onClick={() => setFilter("all")}
+            className={classNames(
+              "px-2.5 py-1 rounded-lg text-xs transition-colors",
+              filter === "all" ? "bg-[var(--color-primary)]/10 text-[var(--color-primary)] font-medium" : "text-[var(--color-muted-foreground)] hover:text-[var(--color-foreground)]"
+            )}
+          >
+            All members
+          </button>
+          {myRepresentatives && (
+            <button
+              onClick={() => setFilter("mine")}
+              className={classNames(
+                "px-2.5 py-1 rounded-lg text-xs transition-colors",
+                filter === "mine" ? "bg-[var(--color-primary)]/10 text-[var(--color-primary)] font-medium" : "text-[var(--color-muted-foreground)] hover:text-[var(--color-foreground)]"
+              )}
+            >
+              How my representatives voted
+            </button>
+          )}
+          {filter !== "all" && filter !== "mine" && (
+            <span className="px-2.5 py-1 rounded-lg text-xs bg-[var(--color-primary)]/10 text-[var(--color-primary)] font-medium">
+              {STATE_NAMES[filter] ?? filter}
+            </span>
+          )}
+        </div>
+        {votes === undefined ? (
+          <div className="mt-2 h-24 rounded bg-[var(--color-card-muted)] animate-pulse" />
+        ) : filtered.length === 0 ? (
+          <p className="mt-2 text-sm text-[var(--color-muted-foreground)]">
+            {filter === "mine"
+              ? `None of your representatives (${myRepresentatives?.state}${myRepresentatives?.district ? `-${myRepresentatives.district}` : ""}) had a vote recorded here.`
+              : "No member votes recorded."}
+          </p>
+        ) : (
+          <>
+            <ul className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              {listed.map((vote) => (
+                <li key={vote.politicianId} className="flex min-w-0 items-center gap-1.5">
+                  <span className={classNames("h-2 w-2 shrink-0 rounded-full", votePositionBarClassMap[vote.position])} title={vote.voteCast} />
+                  <span className="min-w-0 truncate">
+                    {vote.govinfoId ? (
+                      <Link href={`/politicians/${vote.govinfoId}`} className="hover:underline">
+                        {vote.name}
+                      </Link>
+                    ) : (
+                      vote.name
+                    )}
+                    {vote.party !== "Unknown" && (
+                      <span className={classNames("text-xs", partyTextClassMap[vote.party] ?? "text-[var(--color-muted-foreground)]")}>
+                        {" "}({vote.party}-{vote.state}{vote.district && vote.district !== "0" ? `-${vote.district}` : ""})
+                      </span>
+                    )}
+                  </span>
+                  <span className="ml-auto shrink-0 text-xs text-[var(--color-muted-foreground)]">{vote.voteCast}</span>
+                </li>
+              ))}
+            </ul>
+            {filter === "all" && filtered.length > VOTE_PREVIEW_COUNT && (
+              <button
+                onClick={() => setShowAll((open) => !open)}
+                className="mt-2 text-xs text-[var(--color-primary)] hover:underline"
+                aria-expanded={showAll}
+              >
+                {showAll ? "Show fewer" : `Show all ${filtered.length}`}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const CommunityVote: React.FC<{
+  tally?: { yea: number; nay: number; myVote: "yea" | "nay" | null };
+  officialVote?: {
+    chamber: "House" | "Senate";
+    date: string;
+    question: string;
+    result: string;
+    totals: { yea: number; nay: number };
+  };
+  isAuthenticated: boolean;
+  onVote: (vote: "yea" | "nay" | null) => void;
+}> = ({ tally, officialVote, isAuthenticated, onVote }) => {
+  const total = tally ? tally.yea + tally.nay : 0;
+  const officialTotal = officialVote ? officialVote.totals.yea + officialVote.totals.nay : 0;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div>
+        <div className="section-title">Where readers stand</div>
+        {tally === undefined ? (
+          <div className="mt-2 h-14 rounded bg-[var(--color-card-muted)] animate-pulse" />
+        ) : (
+          <>
+            <div className="mt-2 flex items-baseline justify-between text-xs text-[var(--color-muted-foreground)]">
+              <span>{total > 0 ? `${Math.round((tally.yea / total) * 100)}% yea` : "No votes yet"}</span>
+              <span>{total} {total === 1 ? "vote" : "votes"}</span>
+            </div>
+            <div className="mt-1 flex h-2 w-full overflow-hidden rounded-full bg-[var(--color-border)]" aria-hidden>
+              <span className={votePositionBarClassMap.yea} style={{ width: `${total > 0 ? (tally.yea / total) * 100 : 0}%` }} />
+              <span className={votePositionBarClassMap.nay} style={{ width: `${total > 0 ? (tally.nay / total) * 100 : 0}%` }} />
+            </div>
+            {isAuthenticated ? (
+              <div className="mt-3 flex items-center gap-2">
+                {(["yea", "nay"] as const).map((vote) => (
+                  <button
+                    key={vote}
+                    onClick={() => onVote(tally.myVote === vote ? null : vote)}
+                    aria-pressed={tally.myVote === vote}
+                    className={classNames(
+                      "px-3 py-1.5 rounded-lg text-sm transition-colors",
+                      tally.myVote === vote ? "btn-primary" : "btn-secondary"
+                    )}
+                  >
+                    {vote === "yea" ? "Yea" : "Nay"}
+                  </button>
+                ))}
+                {tally.myVote && (
+                  <span className="text-xs text-[var(--color-muted-foreground)]">Tap your vote again to retract it</span>
+                )}
+              </div>
+            ) : (
+              <p className="mt-3 text-xs text-[var(--color-muted-foreground)]">
+                <Link href="/auth" className="text-[var(--color-primary)] hover:underline">Sign in</Link> to cast your vote.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      <div>
+        <div className="section-title">Congress</div>
+        {officialVote ? (
+          <>
+            <div className="mt-2 flex items-baseline justify-between text-xs text-[var(--color-muted-foreground)]">
+              <span>
+                {officialVote.totals.yea}–{officialVote.totals.nay} · {officialVote.result}
+              </span>
+              <span>{officialVote.chamber}</span>
+            </div>
+            <div className="mt-1 flex h-2 w-full overflow-hidden rounded-full bg-[var(--color-border)]" aria-hidden>
+              <span className={votePositionBarClassMap.yea} style={{ width: `${officialTotal > 0 ? (officialVote.totals.yea / officialTotal) * 100 : 0}%` }} />
+              <span className={votePositionBarClassMap.nay} style={{ width: `${officialTotal > 0 ? (officialVote.totals.nay / officialTotal) * 100 : 0}%` }} />
+            </div>
+            <p className="mt-2 text-xs text-[var(--color-muted-foreground)] line-clamp-2">
+              {officialVote.question}, {formatDate(officialVote.date)}
+            </p>
+          </>
+        ) : (
+          <p className="mt-2 text-xs text-[var(--color-muted-foreground)]">No recorded vote in Congress yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const timelineDotClassMap: Record<BillTimelineStep["state"], string> = {
+  completed: "bg-[var(--color-success)] border-[var(--color-success)]",
+  current: "bg-[var(--color-primary)] border-[var(--color-primary)] ring-4 ring-[var(--color-primary)]/20",
+  failed: "bg-[var(--color-error)] border-[var(--color-error)]",
+  skipped: "bg-transparent border-dashed border-[var(--color-border)]",
+  upcoming: "bg-[var(--color-card)] border-[var(--color-border)]",
+};
+
+const LegislativeTimeline: React.FC<{
+  timeline: BillTimeline;
+  actions: Array<{ _id: string; actionDate: string; text: string; chamber?: "House" | "Senate" }>;
+  selectedVersionId: string | null;
+  onSelectVersion: (versionId: string) => void;
+  showAllActions: boolean;
+  onToggleAllActions: () => void;
+}> = ({ timeline, actions, selectedVersionId, onSelectVersion, showAllActions, onToggleAllActions }) => {
+  return (
+    <div>
+      <ol>
+        {timeline.steps.map((step, index) => {
+          const pending = step.state === "upcoming" || step.state === "skipped";
+          return (
+            <li key={step.id} className="relative flex gap-3 pb-4 last:pb-0">
+              {index < timeline.steps.length - 1 && (
+                <span
+                  className={classNames(
+                    "absolute left-[5px] top-4 bottom-0 w-0.5",
+                    pending ? "bg-[var(--color-border)]" : "bg-[var(--color-success)]/50"
+                  )}
+                  aria-hidden
+                />
+              )}
+              <span className={classNames("relative mt-1 h-3 w-3 shrink-0 rounded-full border-2", timelineDotClassMap[step.state])} aria-hidden />
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-baseline gap-x-2">
+                  <span className={classNames("text-sm font-medium", pending && "text-[var(--color-muted-foreground)]")}>
+                    {step.label}
+                  </span>
+                  {step.state === "skipped" && (
+                    <span className="text-[10px] uppercase tracking-wide text-[var(--color-muted-foreground)]">Skipped</span>
+                  )}
+                  {step.date && (
+                    <span className="text-xs text-[var(--color-muted-foreground)]">{formatDate(step.date)}</span>
+                  )}
+                </div>
+                {step.detail && (
+                  <p className="mt-0.5 text-xs text-[var(--color-muted-foreground)] line-clamp-2" title={step.detail}>
+                    {step.detail}
+                  </p>
+                )}
+                {step.committees.length > 0 && (
+                  <p className="mt-0.5 text-xs text-[var(--color-muted-foreground)]">{step.committees.join(", ")}</p>
+                )}
+                {step.versions.length > 0 && (
+                  <div className="mt-1.5 flex flex-wrap gap-1.5">
+                    {step.versions.map((version) => (
+                      <button
+                        key={version.id}
+                        type="button"
+                        onClick={() => onSelectVersion(version.id)}
+                        title={`Read the "${version.label}" text`}
+                        className={classNames(
+                          "px-2 py-0.5 rounded-full text-[11px] border transition-colors",
+                          version.id === selectedVersionId
+                            ? "border-[var(--color-primary)] text-[var(--color-primary)]"
+                            : "border-[var(--color-border)] text-[var(--color-muted-foreground)] hover:text-[var(--color-foreground)]"
+                        )}
+                      >
+                        {version.versionCode.toUpperCase()} · {formatDate(version.publishedDate)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {timeline.source === "versions" && (
+        <p className="mt-3 text-[11px] text-[var(--color-muted-foreground)]">
+          Based on the published text versions; the full action history has not been synced yet.
+        </p>
+      )}
+
+      {actions.length > 0 && (
+        <div className="mt-3">
+          <button
+            type="button"
+            onClick={onToggleAllActions}
+            className="text-xs font-medium text-[var(--color-primary)] hover:opacity-80"
+            aria-expanded={showAllActions}
+          >
+            {showAllActions ? "Hide actions" : `All actions (${actions.length})`}
+          </button>
+          {showAllActions && (
+            <ol className="mt-2 max-h-64 overflow-auto space-y-1.5 pr-1">
+              {[...actions].reverse().map((action) => (
+                <li key={action._id} className="text-xs leading-snug">
+                  <span className="text-[var(--color-muted-foreground)] tabular-nums">{formatDate(action.actionDate)}</span>
+                  {action.chamber && (
+                    <span className="ml-1.5 text-[10px] uppercase tracking-wide text-[var(--color-muted-foreground)]">{action.chamber}</span>
+                  )}
+                  <span className="ml-1.5">{action.text}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const AISummary: React.FC<{
-  bill?: BillData;
+  content?: SummaryContent;
+  versionCode?: string;
+  versionChanges?: VersionChangeAnalysis;
+  lawComparison?: Array<CurrentLawComparisonItem>;
   onCitationClick: (sectionId: string) => void;
-}> = ({ bill, onCitationClick }) => {
+}> = ({ content, versionCode, versionChanges, lawComparison, onCitationClick }) => {
   const isMobile = useIsMobile();
 
   const renderSummaryWithCitations = (text: string) => {
@@ -1025,17 +2141,87 @@ const AISummary: React.FC<{
           style={{ fontFamily: "var(--font-heading)" }}
         >
           AI Summary
+          {versionCode && (
+            <span className="ml-2 align-middle text-xs font-normal text-[var(--color-muted-foreground)]">
+              {versionCode} version
+            </span>
+          )}
         </h2>
         <div className="prose prose-sm max-w-none text-[var(--color-foreground)]">
-          {bill?.summary ? (
-            <p className="leading-relaxed">{renderSummaryWithCitations(bill.summary)}</p>
+          {content?.summary ? (
+            <p className="leading-relaxed">{renderSummaryWithCitations(content.summary)}</p>
           ) : (
-            <p className="text-[var(--color-muted-foreground)]">No summary available.</p>
+            <p className="text-[var(--color-muted-foreground)]">
+              {versionCode ? `No summary available for the ${versionCode} version.` : "No summary available."}
+            </p>
           )}
         </div>
       </div>
 
-      {bill?.structuredSummary && bill.structuredSummary.length > 0 && (
+      {versionChanges && (
+        <div>
+          <h3
+            className="text-base font-semibold mb-1 tracking-tight"
+            style={{ fontFamily: "var(--font-heading)" }}
+          >
+            What Changed
+          </h3>
+          <div className="text-xs text-[var(--color-muted-foreground)] mb-2">
+            Compared with the {versionChanges.previousVersionCode} version
+          </div>
+          <p className="text-sm leading-relaxed mb-3">{versionChanges.overview}</p>
+          {versionChanges.changes.length > 0 && (
+            <div className="space-y-3">
+              {versionChanges.changes.map((change, idx) => (
+                <ExpandableSectionCard key={idx} title={change.title} isMobile={isMobile}>
+                  <div className="p-3 text-sm leading-relaxed">
+                    <span
+                      className={classNames(
+                        "inline-block mb-1 px-2 py-0.5 rounded-full text-xs capitalize",
+                        changeTypeClassMap[change.changeType]
+                      )}
+                    >
+                      {change.changeType}
+                    </span>
+                    <div className="whitespace-pre-wrap">{change.description}</div>
+                  </div>
+                  {change.citations.length > 0 && (
+                    <div className="px-3 py-2 border-t border-[var(--color-border)] bg-[var(--color-card)]">
+                      <div className="text-xs text-[var(--color-muted-foreground)] mb-1">Citations</div>
+                      <div className="flex flex-wrap gap-2">
+                        {change.citations.map((c, i) => (
+                          <button
+                            key={i}
+                            className="px-2 py-1 rounded-full text-xs bg-[var(--color-card-muted)] border border-[var(--color-border)] text-[var(--color-primary)] hover:opacity-90 transition"
+                            onClick={() => onCitationClick(c.sectionId)}
+                            title={c.label}
+                          >
+                            {c.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </ExpandableSectionCard>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {lawComparison && lawComparison.length > 0 && (
+        <div>
+          <h3
+            className="text-base font-semibold mb-2 tracking-tight"
+            style={{ fontFamily: "var(--font-heading)" }}
+          >
+            Current Law vs. Proposed
+          </h3>
+          <CurrentLawComparison items={lawComparison} onCitationClick={onCitationClick} />
+        </div>
+      )}
+
+      {content?.structuredSummary && content.structuredSummary.length > 0 && (
         <div>
           <h3
             className="text-base font-semibold mb-2 tracking-tight"
@@ -1044,7 +2230,7 @@ const AISummary: React.FC<{
             Key Sections
           </h3>
           <div className="space-y-3">
-            {bill.structuredSummary.map((sec, idx) => (
+            {content.structuredSummary.map((sec, idx) => (
               <ExpandableSectionCard key={idx} title={sec.title} isMobile={isMobile}>
                 <div className="p-3 text-sm leading-relaxed whitespace-pre-wrap">
                   {sec.text}
@@ -1147,6 +2333,132 @@ const ChatBox: React.FC<{
   );
 };
 
+// Collapsible table of contents for the selected version; nested entries fold under their parent
+const SectionNavigator: React.FC<{
+  entries: Array<BillSectionTocEntry>;
+  activeAnchor: string | null;
+  onSelect: (entry: BillSectionTocEntry) => void;
+}> = ({ entries, activeAnchor, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  // Keep the active entry visible in the list as the text scrolls
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list || !activeAnchor) return;
+    const el = list.querySelector<HTMLElement>(`[data-anchor="${CSS.escape(activeAnchor)}"]`);
+    if (!el) return;
+    if (el.offsetTop < list.scrollTop || el.offsetTop + el.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = Math.max(0, el.offsetTop - Math.floor(list.clientHeight / 2));
+    }
+  }, [activeAnchor, isOpen]);
+
+  const visibleEntries = useMemo(() => {
+    const visible: Array<{ entry: BillSectionTocEntry; hasChildren: boolean }> = [];
+    let hiddenBelowDepth: number | null = null;
+    entries.forEach((entry, idx) => {
+      if (hiddenBelowDepth !== null && entry.depth > hiddenBelowDepth) return;
+      hiddenBelowDepth = collapsed.has(entry.anchor) ? entry.depth : null;
+      const next = entries[idx + 1];
+      visible.push({ entry, hasChildren: !!next && next.depth > entry.depth });
+    });
+    return visible;
+  }, [entries, collapsed]);
+
+  if (entries.length === 0) return null;
+
+  const toggleCollapsed = (anchor: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(anchor)) next.delete(anchor);
+      else next.add(anchor);
+      return next;
+    });
+  };
+
+  return (
+    <div className="border border-[var(--color-border)] rounded-md bg-[var(--color-card)]">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between px-2 py-1.5 text-sm hover:bg-[var(--color-card-muted)] transition"
+        onClick={() => setIsOpen((o) => !o)}
+        aria-expanded={isOpen}
+      >
+        <span className="font-medium">Contents</span>
+        <span className="flex items-center gap-2 text-xs text-[var(--color-muted-foreground)]">
+          {entries.length} {entries.length === 1 ? "entry" : "entries"}
+          <svg
+            className={classNames("w-4 h-4 transition-transform", isOpen ? "rotate-180" : "rotate-0")}
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            aria-hidden
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </span>
+      </button>
+      {isOpen && (
+        <div ref={listRef} className="relative max-h-48 overflow-auto border-t border-[var(--color-border)] py-1">
+          {visibleEntries.map(({ entry, hasChildren }) => {
+            const isActive = entry.anchor === activeAnchor;
+            return (
+              <div
+                key={entry.anchor}
+                data-anchor={entry.anchor}
+                className={classNames(
+                  "flex items-center gap-1 pr-2",
+                  isActive && "bg-[var(--color-primary)]/10"
+                )}
+                style={{ paddingLeft: `${0.25 + entry.depth * 0.75}rem` }}
+              >
+                {hasChildren ? (
+                  <button
+                    type="button"
+                    className="w-4 h-4 flex-shrink-0 text-[var(--color-muted-foreground)] hover:text-[var(--color-foreground)]"
+                    onClick={() => toggleCollapsed(entry.anchor)}
+                    aria-label={collapsed.has(entry.anchor) ? "Expand" : "Collapse"}
+                    aria-expanded={!collapsed.has(entry.anchor)}
+                  >
+                    <svg
+                      className={classNames("w-4 h-4 transition-transform", collapsed.has(entry.anchor) ? "-rotate-90" : "rotate-0")}
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      aria-hidden
+                    >
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </button>
+                ) : (
+                  <span className="w-4 flex-shrink-0" />
+                )}
+                <a
+                  href={`#${entry.anchor}`}
+                  className={classNames(
+                    "flex-1 min-w-0 truncate py-1 text-sm transition",
+                    isActive
+                      ? "text-[var(--color-primary)] font-medium"
+                      : "text-[var(--color-foreground)] hover:text-[var(--color-primary)]"
+                  )}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    onSelect(entry);
+                  }}
+                  title={entry.label}
+                >
+                  {entry.label}
+                </a>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Expandable card used for each Key Section and Change Analysis item
 const ExpandableSectionCard: React.FC<{
   title: string;
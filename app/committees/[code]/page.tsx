@@ -0,0 +1,306 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useQuery } from "convex/react";
+import Link from "next/link";
+import { api } from "../../../convex/_generated/api";
+import Header from "@/components/Header";
+import { formatDate } from "@/utils/dates";
+import { getBillProgressStage } from "@/utils/billStatus";
+import { BillProgressStage } from "@/types";
+
+// Props from Next.js dynamic routing
+type PageProps = {
+  params: Promise<{
+    code: string;
+  }>;
+};
+
+type CommitteeBillItem = {
+  _id: string;
+  congress: number;
+  billType: string;
+  billNumber: string;
+  title: string;
+  status: string;
+  tagline?: string;
+  referredDate?: string;
+  reportedDate?: string;
+};
+
+type CommitteeMemberItem = {
+  politicianId: string;
+  govinfoId?: string;
+  name: string;
+  party: string;
+  state: string;
+  side: "majority" | "minority";
+  title?: string;
+};
+
+// Bills listed per tab
+const BILL_LIST_LIMIT = 25;
+
+const stageBadgeClassMap: Record<BillProgressStage, string> = {
+  introduced: "status-committee",
+  committee: "status-committee",
+  passed_chamber: "status-passed",
+  enacted: "status-passed",
+  failed: "status-failed",
+};
+
+function classNames(...arr: Array<string | false | undefined>) {
+  return arr.filter(Boolean).join(" ");
+}
+
+const CommitteePage: React.FC<PageProps> = ({ params }) => {
+  const [code, setCode] = useState<string | null>(null);
+  const [billTab, setBillTab] = useState<"referred" | "reported">("referred");
+
+  useEffect(() => {
+    const getCode = async () => {
+      const resolvedParams = await params;
+      setCode(resolvedParams.code);
+    };
+    getCode();
+  }, [params]);
+
+  const data = useQuery(
+    api.committeepage.getCommitteeByCode,
+    code ? { code } : "skip"
+  );
+  const committee = data?.committee;
+  const members = useQuery(
+    api.billpage.getPoliticiansByCommittee,
+    committee ? { committee: committee.code } : "skip"
+  );
+  const pendingBills = useQuery(
+    api.committeepage.getCommitteeBills,
+    committee ? { committeeId: committee._id, status: "referred", limit: BILL_LIST_LIMIT } : "skip"
+  );
+  const reportedBills = useQuery(
+    api.committeepage.getCommitteeBills,
+    committee ? { committeeId: committee._id, status: "reported", limit: BILL_LIST_LIMIT } : "skip"
+  );
+
+  if (data === null) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen bg-[var(--color-background)] text-[var(--color-foreground)] pt-24">
+          <div className="max-w-3xl mx-auto px-4 text-center">
+            <h1 className="text-2xl font-heading font-bold">Committee not found</h1>
+            <p className="mt-2 text-sm text-[var(--color-muted-foreground)]">
+              No committee with code {code} has been imported or had a bill referred to it yet.
+            </p>
+            <Link href="/committees" className="btn-primary inline-flex mt-6 px-4 py-2 text-sm">
+              ← All committees
+            </Link>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  const bills = billTab === "referred" ? pendingBills : reportedBills;
+
+  return (
+    <>
+      <Header />
+      <div className="min-h-screen bg-[var(--color-background)] text-[var(--color-foreground)] pt-16 pb-16">
+        <div className="max-w-7xl mx-auto px-4 py-3">
+          {data?.parent ? (
+            <Link href={`/committees/${data.parent.code}`} className="text-sm text-[var(--color-muted-foreground)] hover:underline">
+              ← {data.parent.name}
+            </Link>
+          ) : (
+            <Link href="/committees" className="text-sm text-[var(--color-muted-foreground)] hover:underline">
+              ← All committees
+            </Link>
+          )}
+        </div>
+
+        {/* Committee */}
+        <header className="max-w-7xl mx-auto px-4">
+          <div className="card p-4 md:p-5 shadow-[var(--shadow-lg)] rounded-xl border border-[var(--color-border)]/60">
+            <div className="text-xs md:text-sm font-medium text-[var(--color-muted-foreground)]">
+              {committee
+                ? `${committee.chamber} ${data?.parent ? "Subcommittee" : "Committee"}`
+                : "Loading..."}
+            </div>
+            <h1 className="mt-1 text-2xl md:text-3xl leading-snug tracking-tight" style={{ fontFamily: "var(--font-heading)" }}>
+              {committee?.name ?? <span className="inline-block h-7 w-1/3 bg-[var(--color-card-muted)] rounded animate-pulse" />}
+            </h1>
+            {committee && (
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                <span className="pill">{committee.code}</span>
+                {committee.url && (
+                  <a href={committee.url} target="_blank" rel="noopener noreferrer" className="text-xs text-[var(--color-primary)] hover:underline">
+                    Official website
+                  </a>
+                )}
+                {committee.phone && (
+                  <span className="text-xs text-[var(--color-muted-foreground)]">{committee.phone}</span>
+                )}
+              </div>
+            )}
+            {committee?.jurisdiction && (
+              <p className="mt-3 text-sm text-[var(--color-muted-foreground)] line-clamp-4">{committee.jurisdiction}</p>
+            )}
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 mt-4 grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Members and subcommittees */}
+          <section className="lg:col-span-1 space-y-4">
+            <div className="card p-4 rounded-xl border border-[var(--color-border)]/60">
+              <div className="section-title">Members</div>
+              <MemberList members={members} />
+            </div>
+
+            {data && data.subcommittees.length > 0 && (
+              <div className="card p-4 rounded-xl border border-[var(--color-border)]/60">
+                <div className="section-title">Subcommittees</div>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {data.subcommittees.map((sub) => (
+                    <li key={sub._id}>
+                      <Link href={`/committees/${sub.code}`} className="hover:text-[var(--color-primary)]">
+                        {sub.name}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </section>
+
+          {/* Bills */}
+          <section className="lg:col-span-2 card p-4 rounded-xl border border-[var(--color-border)]/60">
+            <div className="flex items-center gap-2" role="tablist">
+              {(["referred", "reported"] as const).map((tab) => {
+                const tabBills = tab === "referred" ? pendingBills : reportedBills;
+                return (
+                  <button
+                    key={tab}
+                    role="tab"
+                    aria-selected={billTab === tab}
+                    onClick={() => setBillTab(tab)}
+                    className={classNames(
+                      "px-3 py-1.5 rounded-lg text-sm transition-colors",
+                      billTab === tab
+                        ? "bg-[var(--color-primary)]/10 text-[var(--color-primary)] font-medium"
+                        : "text-[var(--color-muted-foreground)] hover:text-[var(--color-foreground)]"
+                    )}
+                  >
+                    {tab === "referred" ? "Pending" : "Reported"}
+                    {tabBills && (
+                      <span className="ml-1.5 text-xs text-[var(--color-muted-foreground)]">{tabBills.total}</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            <BillList
+              bills={bills?.bills}
+              dateField={billTab === "referred" ? "referredDate" : "reportedDate"}
+              emptyText={billTab === "referred" ? "No tracked bills are pending before this committee." : "This committee hasn't reported any tracked bills."}
+            />
+          </section>
+        </main>
+      </div>
+    </>
+  );
+};
+
+const MemberList: React.FC<{ members?: Array<CommitteeMemberItem> }> = ({ members }) => {
+  if (members === undefined) {
+    return <div className="mt-3 h-24 rounded bg-[var(--color-card-muted)] animate-pulse" />;
+  }
+  if (members.length === 0) {
+    return <p className="mt-2 text-sm text-[var(--color-muted-foreground)]">No membership data imported yet.</p>;
+  }
+
+  return (
+    <div className="mt-2 space-y-3">
+      {(["majority", "minority"] as const).map((side) => {
+        const sideMembers = members.filter((m) => m.side === side);
+        if (sideMembers.length === 0) return null;
+        return (
+          <div key={side}>
+            <div className="text-xs uppercase tracking-wide text-[var(--color-muted-foreground)] mb-1">
+              {side === "majority" ? "Majority" : "Minority"}
+            </div>
+            <ul className="space-y-1 text-sm">
+              {sideMembers.map((member) => (
+                <li key={member.politicianId} className="flex items-center justify-between gap-3">
+                  <span className="min-w-0 truncate">
+                    {member.govinfoId ? (
+                      <Link href={`/politicians/${member.govinfoId}`} className="hover:text-[var(--color-primary)]">
+                        {member.name}
+                      </Link>
+                    ) : (
+                      member.name
+                    )}
+                    {member.party !== "Unknown" && (
+                      <span className="text-[var(--color-muted-foreground)]"> ({member.party}-{member.state})</span>
+                    )}
+                  </span>
+                  {member.title && (
+                    <span className="shrink-0 text-xs text-[var(--color-muted-foreground)]">{member.title}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const BillList: React.FC<{
+  bills?: Array<CommitteeBillItem>;
+  dateField: "referredDate" | "reportedDate";
+  emptyText: string;
+}> = ({ bills, dateField, emptyText }) => {
+  if (bills === undefined) {
+    return <div className="mt-4 h-40 rounded bg-[var(--color-card-muted)] animate-pulse" />;
+  }
+  if (bills.length === 0) {
+    return <p className="mt-4 text-sm text-[var(--color-muted-foreground)]">{emptyText}</p>;
+  }
+
+  return (
+    <ul className="mt-3 divide-y divide-[var(--color-border)]">
+      {bills.map((bill) => {
+        const stage = getBillProgressStage(bill.status);
+        const date = bill[dateField];
+        return (
+          <li key={bill._id}>
+            <Link href={`/bills/${bill._id}`} className="block py-3 hover:bg-[var(--color-card-muted)]/60 rounded-lg px-2 -mx-2 transition-colors">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-xs font-medium text-[var(--color-muted-foreground)]">
+                  {bill.congress}th — {bill.billType.toUpperCase()} {bill.billNumber}
+                </span>
+                <span className={classNames("shrink-0 px-2 py-0.5 rounded-full text-xs", stageBadgeClassMap[stage])}>
+                  {bill.status}
+                </span>
+              </div>
+              <div className="mt-1 text-sm line-clamp-2">{bill.title}</div>
+              {bill.tagline && (
+                <div className="mt-0.5 text-xs italic text-[var(--color-muted-foreground)] line-clamp-1">{bill.tagline}</div>
+              )}
+              {date && (
+                <div className="mt-1 text-[11px] text-[var(--color-muted-foreground)]">
+                  {dateField === "referredDate" ? "Referred" : "Reported"} {formatDate(date)}
+                </div>
+              )}
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default CommitteePage;
@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery } from "convex/react";
+import Link from "next/link";
+import { api } from "../../convex/_generated/api";
+import Header from "@/components/Header";
+
+type ChamberFilter = "" | "House" | "Senate" | "Joint";
+
+function classNames(...arr: Array<string | false | undefined>) {
+  return arr.filter(Boolean).join(" ");
+}
+
+export default function CommitteesPage() {
+  const [chamber, setChamber] = useState<ChamberFilter>("");
+  const committees = useQuery(api.committeepage.listCommittees, { chamber: chamber || undefined });
+
+  return (
+    <main
+      className="min-h-screen overflow-x-hidden pb-16"
+      style={{ background: "linear-gradient(180deg, var(--color-background), var(--color-background-end) 30%)" }}
+    >
+      <Header />
+      <div className="max-w-5xl mx-auto px-4 pt-24">
+        <h1 className="text-2xl md:text-3xl font-heading font-bold text-[var(--color-foreground)]">Committees</h1>
+        <p className="mt-1 text-sm text-[var(--color-muted)]">Where bills go after they are introduced, and who sits on them.</p>
+
+        <div className="mt-6 flex gap-1" role="group" aria-label="Chamber">
+          {(["", "House", "Senate", "Joint"] as const).map((value) => (
+            <button
+              key={value || "all"}
+              onClick={() => setChamber(value)}
+              className={classNames(
+                "px-3 py-1.5 rounded-lg text-sm transition-colors",
+                chamber === value
+                  ? "bg-[var(--color-primary)]/10 text-[var(--color-primary)] font-medium"
+                  : "text-[var(--color-muted)] hover:text-[var(--color-foreground)]"
+              )}
+            >
+              {value || "All"}
+            </button>
+          ))}
+        </div>
+
+        {committees === undefined ? (
+          <div className="mt-6 h-64 rounded-xl bg-[var(--color-card-muted)] animate-pulse" />
+        ) : committees.length === 0 ? (
+          <p className="mt-6 text-sm text-[var(--color-muted)]">No committees yet.</p>
+        ) : (
+          <ul className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {committees.map((c) => (
+              <li key={c._id}>
+                <Link
+                  href={`/committees/${c.code}`}
+                  className="card block p-3 rounded-xl border border-[var(--color-border)]/60 hover:border-[var(--color-primary)]/40 transition-colors"
+                >
+                  <div className="text-sm font-medium text-[var(--color-foreground)] truncate">{c.name}</div>
+                  <div className="mt-0.5 text-xs text-[var(--color-muted)]">{c.chamber} · {c.code}</div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import React, { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import Link from "next/link";
+import { api } from "../../convex/_generated/api";
+import Header from "@/components/Header";
+import { formatDate } from "@/utils/dates";
+
+type AlignmentItem = {
+  overlap: number;
+  agreed: number;
+  agreementRate: number;
+  disagreements: Array<{
+    billId: string;
+    congress: number;
+    billType: string;
+    billNumber: string;
+    title: string;
+    userVote: "yea" | "nay";
+    memberVote: "yea" | "nay";
+    date: string;
+  }>;
+};
+
+type RepresentativeItem = {
+  politicianId: string;
+  govinfoId?: string;
+  name: string;
+  party: string;
+  chamber: "House" | "Senate";
+  district?: string;
+  alignment: AlignmentItem;
+};
+
+// Disagreements shown per member
+const DISAGREEMENT_PREVIEW_COUNT = 3;
+
+function formatPercent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+export default function DashboardPage() {
+  const data = useQuery(api.alignment.getMyAlignment);
+
+  return (
+    <main
+      className="min-h-screen overflow-x-hidden pb-16"
+      style={{ background: "linear-gradient(180deg, var(--color-background), var(--color-background-end) 30%)" }}
+    >
+      <Header />
+      <div className="max-w-5xl mx-auto px-4 pt-24">
+        <h1 className="text-2xl md:text-3xl font-heading font-bold text-[var(--color-foreground)]">Your dashboard</h1>
+        <p className="mt-1 text-sm text-[var(--color-muted)]">How your members of Congress voted on the bills you voted on.</p>
+
+        {data === undefined ? (
+          <div className="mt-6 h-64 rounded-xl bg-[var(--color-card-muted)] animate-pulse" />
+        ) : data === null ? (
+          <p className="mt-6 text-sm text-[var(--color-muted)]">
+            <Link href="/auth" className="text-[var(--color-primary)] hover:underline">Sign in</Link> to see your dashboard.
+          </p>
+        ) : (
+          <>
+            <div className="mt-6 flex flex-wrap items-center gap-2 text-sm">
+              <span className="pill">
+                {data.votesCast} {data.votesCast === 1 ? "bill" : "bills"} voted on
+              </span>
+              {data.state && (
+                <span className="pill">
+                  {data.state}
+                  {data.district ? (data.district === "0" ? " · At-large" : ` · District ${data.district}`) : ""}
+                </span>
+              )}
+            </div>
+
+            {data.votesCast === 0 && (
+              <p className="mt-4 text-sm text-[var(--color-muted)]">
+                Vote yea or nay on a bill&apos;s page to start comparing your votes with your members of Congress.
+              </p>
+            )}
+
+            <LocationForm key={data.location ?? ""} location={data.location} />
+
+            {!data.state ? (
+              <p className="mt-4 text-sm text-[var(--color-muted)]">
+                Enter where you live to see your members of Congress.
+              </p>
+            ) : data.representatives.length === 0 ? (
+              <p className="mt-4 text-sm text-[var(--color-muted)]">No members of Congress found for {data.location}.</p>
+            ) : (
+              <ul className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-3">
+                {data.representatives.map((representative) => (
+                  <li key={representative.politicianId}>
+                    <RepresentativeCard representative={representative} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+const LocationForm: React.FC<{ location?: string }> = ({ location }) => {
+  const setProfileLocation = useMutation(api.userProfiles.setProfileLocation);
+  const [value, setValue] = useState(location ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await setProfileLocation({ location: value });
+    } catch (err) {
+      setError(err instanceof ConvexError ? String(err.data) : "Could not save your location");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={save} className="mt-4 card p-4 rounded-xl border border-[var(--color-border)]/60">
+      <label className="block text-xs text-[var(--color-muted)] space-y-1">
+        <span>Where you live: state and congressional district, e.g. &quot;CA-12&quot; or &quot;Austin, Texas&quot;</span>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="CA-12"
+            className="flex-1 min-w-0 rounded-md border border-[var(--color-border)] bg-[var(--color-card)] px-2 py-1.5 text-sm text-[var(--color-foreground)]"
+          />
+          <button
+            type="submit"
+            disabled={saving || value.trim() === "" || value.trim() === location}
+            className="btn-primary px-3 py-1.5 text-sm disabled:opacity-60"
+          >
+            {saving ? "Saving…" : "Save"}
+          </button>
+        </div>
+      </label>
+      {error && <p className="mt-2 text-xs text-[var(--color-error)]">{error}</p>}
+    </form>
+  );
+};
+
+const RepresentativeCard: React.FC<{ representative: RepresentativeItem }> = ({ representative }) => {
+  const { alignment } = representative;
+  const seat =
+    representative.chamber === "Senate"
+      ? "Senator"
+      : representative.district === "0"
+        ? "Representative · At-large"
+        : `Representative${representative.district ? ` · District ${representative.district}` : ""}`;
+
+  return (
+    <div className="card p-4 rounded-xl border border-[var(--color-border)]/60">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-[var(--color-foreground)] truncate">
+            {representative.govinfoId ? (
+              <Link href={`/politicians/${representative.govinfoId}`} className="hover:text-[var(--color-primary)]">
+                {representative.name}
+              </Link>
+            ) : (
+              representative.name
+            )}
+            {representative.party !== "Unknown" && (
+              <span className="text-[var(--color-muted)]"> ({representative.party})</span>
+            )}
+          </div>
+          <div className="mt-0.5 text-xs text-[var(--color-muted)]">{seat}</div>
+        </div>
+        {alignment.overlap > 0 && (
+          <div className="shrink-0 text-right">
+            <div className="text-2xl font-semibold text-[var(--color-foreground)]">{formatPercent(alignment.agreementRate)}</div>
+            <div className="text-[11px] text-[var(--color-muted)]">aligned</div>
+          </div>
+        )}
+      </div>
+
+      {alignment.overlap === 0 ? (
+        <p className="mt-3 text-xs text-[var(--color-muted)]">They haven&apos;t had a recorded passage vote on any bill you voted on yet.</p>
+      ) : (
+        <>
+          <div className="mt-3 flex h-2 w-full overflow-hidden rounded-full bg-[var(--color-border)]" aria-hidden>
+            <span className="bg-[var(--color-success)]" style={{ width: `${alignment.agreementRate * 100}%` }} />
+            <span className="bg-[var(--color-error)]" style={{ width: `${(1 - alignment.agreementRate) * 100}%` }} />
+          </div>
+          <p className="mt-1 text-xs text-[var(--color-muted)]">
+            Agreed on {alignment.agreed} of {alignment.overlap} {alignment.overlap === 1 ? "bill" : "bills"}
+          </p>
+          {alignment.disagreements.length > 0 && (
+            <ul className="mt-3 space-y-2">
+              {alignment.disagreements.slice(0, DISAGREEMENT_PREVIEW_COUNT).map((bill) => (
+                <li key={bill.billId}>
+                  <Link href={`/bills/${bill.billId}`} className="block text-sm hover:text-[var(--color-primary)]">
+                    <span className="text-xs font-medium text-[var(--color-muted)]">
+                      {bill.billType.toUpperCase()} {bill.billNumber}
+                    </span>{" "}
+                    <span className="line-clamp-1">{bill.title}</span>
+                  </Link>
+                  <div className="text-[11px] text-[var(--color-muted)]">
+                    You: {bill.userVote === "yea" ? "Yea" : "Nay"} · They: {bill.memberVote === "yea" ? "Yea" : "Nay"} · {formatDate(bill.date)}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,445 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useQuery } from "convex/react";
+import Link from "next/link";
+import { api } from "../../../convex/_generated/api";
+import Header from "@/components/Header";
+import { formatDate } from "@/utils/dates";
+import { getBillProgressStage } from "@/utils/billStatus";
+import { BillProgressStage } from "@/types";
+
+// Props from Next.js dynamic routing
+type PageProps = {
+  params: Promise<{
+    govinfoId: string;
+  }>;
+};
+
+type BillListItem = {
+  _id: string;
+  congress: number;
+  billType: string;
+  billNumber: string;
+  title: string;
+  status: string;
+  tagline?: string;
+  latestActionDate?: string;
+};
+
+// Bills listed per tab
+const BILL_LIST_LIMIT = 25;
+
+const stageLabels: Record<BillProgressStage, string> = {
+  introduced: "Introduced",
+  committee: "In committee",
+  passed_chamber: "Passed a chamber",
+  enacted: "Became law",
+  failed: "Failed",
+};
+
+const stageBarClassMap: Record<BillProgressStage, string> = {
+  introduced: "bg-[var(--color-border)]",
+  committee: "bg-amber-500",
+  passed_chamber: "bg-[var(--color-primary)]",
+  enacted: "bg-[var(--color-success)]",
+  failed: "bg-[var(--color-error)]",
+};
+
+const stageBadgeClassMap: Record<BillProgressStage, string> = {
+  introduced: "status-committee",
+  committee: "status-committee",
+  passed_chamber: "status-passed",
+  enacted: "status-passed",
+  failed: "status-failed",
+};
+
+const partyNames: Record<string, string> = {
+  D: "Democrat",
+  R: "Republican",
+  I: "Independent",
+  L: "Libertarian",
+};
+
+function classNames(...arr: Array<string | false | undefined>) {
+  return arr.filter(Boolean).join(" ");
+}
+
+function formatPercent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+const PoliticianPage: React.FC<PageProps> = ({ params }) => {
+  const [govinfoId, setGovinfoId] = useState<string | null>(null);
+  const [billTab, setBillTab] = useState<"sponsored" | "cosponsored">("sponsored");
+
+  useEffect(() => {
+    const getGovinfoId = async () => {
+      const resolvedParams = await params;
+      setGovinfoId(resolvedParams.govinfoId);
+    };
+    getGovinfoId();
+  }, [params]);
+
+  const politician = useQuery(
+    api.politicianpage.getPoliticianByGovinfoId,
+    govinfoId ? { govinfoId } : "skip"
+  );
+  const record = useQuery(
+    api.politicianpage.getPoliticianRecord,
+    politician ? { politicianId: politician._id } : "skip"
+  );
+  const alignment = useQuery(
+    api.alignment.getAlignmentWithPolitician,
+    politician ? { politicianId: politician._id } : "skip"
+  );
+  const committeeSeats = useQuery(
+    api.politicianpage.getPoliticianCommittees,
+    politician ? { politicianId: politician._id } : "skip"
+  );
+  const sponsoredBills = useQuery(
+    api.billpage.getBillsBySponsor,
+    politician ? { sponsorId: politician._id, limit: BILL_LIST_LIMIT } : "skip"
+  );
+  const cosponsoredBills = useQuery(
+    api.billpage.getBillsCosponsoredBy,
+    politician ? { politicianId: politician._id, limit: BILL_LIST_LIMIT } : "skip"
+  );
+
+  if (politician === null) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen bg-[var(--color-background)] text-[var(--color-foreground)] pt-24">
+          <div className="max-w-3xl mx-auto px-4 text-center">
+            <h1 className="text-2xl font-heading font-bold">Politician not found</h1>
+            <p className="mt-2 text-sm text-[var(--color-muted-foreground)]">
+              No member of Congress with ID {govinfoId} has sponsored or cosponsored a bill we track yet.
+            </p>
+            <Link href="/politicians" className="btn-primary inline-flex mt-6 px-4 py-2 text-sm">
+              ← All politicians
+            </Link>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  const knownParty = politician && politician.party !== "Unknown";
+  const firstTerm = politician?.terms?.[0];
+  const bills: Array<BillListItem> | undefined = billTab === "sponsored" ? sponsoredBills : cosponsoredBills;
+
+  return (
+    <>
+      <Header />
+      <div className="min-h-screen bg-[var(--color-background)] text-[var(--color-foreground)] pt-16 pb-16">
+        <div className="max-w-7xl mx-auto px-4 py-3">
+          <Link href="/politicians" className="text-sm text-[var(--color-muted-foreground)] hover:underline">
+            ← All politicians
+          </Link>
+        </div>
+
+        {/* Profile */}
+        <header className="max-w-7xl mx-auto px-4">
+          <div className="card p-4 md:p-5 shadow-[var(--shadow-lg)] rounded-xl border border-[var(--color-border)]/60">
+            <div className="text-xs md:text-sm font-medium text-[var(--color-muted-foreground)]">
+              {politician
+                ? `${politician.chamber === "Senate" ? "Senator" : "Representative"}${knownParty ? ` · ${partyNames[politician.party] ?? politician.party}` : ""}`
+                : "Loading..."}
+            </div>
+            <h1 className="mt-1 text-2xl md:text-3xl leading-snug tracking-tight" style={{ fontFamily: "var(--font-heading)" }}>
+              {politician?.name ?? <span className="inline-block h-7 w-1/3 bg-[var(--color-card-muted)] rounded animate-pulse" />}
+            </h1>
+            {politician && (
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                {politician.state !== "Unknown" && (
+                  <span className="pill">
+                    {politician.state}
+                    {politician.chamber === "House" && politician.district
+                      ? politician.district === "0" ? " · At-large" : ` · District ${politician.district}`
+                      : ""}
+                  </span>
+                )}
+                {politician.inOffice !== undefined && (
+                  <span className={classNames("px-2 py-0.5 rounded-full text-xs", politician.inOffice ? "status-passed" : "status-committee")}>
+                    {politician.inOffice ? "In office" : "Former member"}
+                  </span>
+                )}
+                {firstTerm && (
+                  <span className="text-xs text-[var(--color-muted-foreground)]">
+                    Serving since {formatDate(firstTerm.start)}
+                  </span>
+                )}
+                {politician.officialUrl && (
+                  <a href={politician.officialUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-[var(--color-primary)] hover:underline">
+                    Official website
+                  </a>
+                )}
+                {politician.contactForm && (
+                  <a href={politician.contactForm} target="_blank" rel="noopener noreferrer" className="text-xs text-[var(--color-primary)] hover:underline">
+                    Contact
+                  </a>
+                )}
+              </div>
+            )}
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 mt-4 grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Legislative record */}
+          <section className="lg:col-span-1 space-y-4">
+            <div className="card p-4 rounded-xl border border-[var(--color-border)]/60">
+              <div className="section-title">Legislative record</div>
+              {!record ? (
+                <div className="mt-3 h-24 rounded bg-[var(--color-card-muted)] animate-pulse" />
+              ) : (
+                <RecordSummary record={record} />
+              )}
+            </div>
+
+            {alignment && (
+              <div className="card p-4 rounded-xl border border-[var(--color-border)]/60">
+                <div className="section-title">Your alignment</div>
+                <AlignmentSummary alignment={alignment} />
+              </div>
+            )}
+
+            {record && record.topImpactAreas.length > 0 && (
+              <div className="card p-4 rounded-xl border border-[var(--color-border)]/60">
+                <div className="section-title">Legislates most on</div>
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                  {record.topImpactAreas.map((area) => (
+                    <span key={area.name} className="pill">
+                      {area.name} <span className="text-[var(--color-muted-foreground)]">{area.count}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {committeeSeats && committeeSeats.length > 0 ? (
+              <div className="card p-4 rounded-xl border border-[var(--color-border)]/60">
+                <div className="section-title">Committees</div>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {committeeSeats.map((seat) => (
+                    <li
+                      key={seat.committeeId}
+                      className={classNames("flex items-center justify-between gap-3", seat.isSubcommittee && "pl-3")}
+                    >
+                      <Link
+                        href={`/committees/${seat.code}`}
+                        className={classNames(
+                          "min-w-0 truncate hover:text-[var(--color-primary)]",
+                          seat.isSubcommittee && "text-[var(--color-muted-foreground)]"
+                        )}
+                      >
+                        {seat.name}
+                      </Link>
+                      <span className="shrink-0 text-xs text-[var(--color-muted-foreground)]">
+                        {seat.title ?? (seat.side === "majority" ? "Majority" : "Minority")}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : record && record.committees.length > 0 && (
+              <div className="card p-4 rounded-xl border border-[var(--color-border)]/60">
+                <div className="section-title">Committees</div>
+                <p className="mt-1 text-xs text-[var(--color-muted-foreground)]">Where their sponsored bills were referred</p>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {record.committees.map((committee) => (
+                    <li key={committee.name} className="flex items-center justify-between gap-3">
+                      <span className="min-w-0 truncate">{committee.name}</span>
+                      <span className="text-xs text-[var(--color-muted-foreground)]">{committee.count}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </section>
+
+          {/* Bills */}
+          <section className="lg:col-span-2 card p-4 rounded-xl border border-[var(--color-border)]/60">
+            <div className="flex items-center gap-2" role="tablist">
+              {(["sponsored", "cosponsored"] as const).map((tab) => (
+                <button
+                  key={tab}
+                  role="tab"
+                  aria-selected={billTab === tab}
+                  onClick={() => setBillTab(tab)}
+                  className={classNames(
+                    "px-3 py-1.5 rounded-lg text-sm transition-colors",
+                    billTab === tab
+                      ? "bg-[var(--color-primary)]/10 text-[var(--color-primary)] font-medium"
+                      : "text-[var(--color-muted-foreground)] hover:text-[var(--color-foreground)]"
+                  )}
+                >
+                  {tab === "sponsored" ? "Sponsored" : "Cosponsored"}
+                  {record && (
+                    <span className="ml-1 text-xs opacity-70">
+                      {tab === "sponsored" ? record.sponsoredCount : record.cosponsoredCount}
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+            <BillList bills={bills} emptyText={billTab === "sponsored" ? "No sponsored bills yet." : "No cosponsored bills yet."} />
+          </section>
+        </main>
+      </div>
+    </>
+  );
+};
+
+const RecordSummary: React.FC<{
+  record: {
+    sponsoredCount: number;
+    cosponsoredCount: number;
+    stages: Record<BillProgressStage, number>;
+    passedChamberRate: number;
+    enactedRate: number;
+  };
+}> = ({ record }) => {
+  const stageOrder: Array<BillProgressStage> = ["enacted", "passed_chamber", "committee", "introduced", "failed"];
+
+  return (
+    <div className="mt-2">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <div className="text-2xl font-semibold">{record.sponsoredCount}</div>
+          <div className="text-xs text-[var(--color-muted-foreground)]">Bills sponsored</div>
+        </div>
+        <div>
+          <div className="text-2xl font-semibold">{record.cosponsoredCount}</div>
+          <div className="text-xs text-[var(--color-muted-foreground)]">Bills cosponsored</div>
+        </div>
+        <div>
+          <div className="text-2xl font-semibold">{formatPercent(record.passedChamberRate)}</div>
+          <div className="text-xs text-[var(--color-muted-foreground)]">Passed a chamber</div>
+        </div>
+        <div>
+          <div className="text-2xl font-semibold">{formatPercent(record.enactedRate)}</div>
+          <div className="text-xs text-[var(--color-muted-foreground)]">Became law</div>
+        </div>
+      </div>
+
+      {record.sponsoredCount > 0 && (
+        <>
+          <div className="mt-4 flex h-2 w-full overflow-hidden rounded-full bg-[var(--color-card-muted)]" aria-hidden>
+            {stageOrder.map((stage) =>
+              record.stages[stage] > 0 ? (
+                <span
+                  key={stage}
+                  className={stageBarClassMap[stage]}
+                  style={{ width: `${(record.stages[stage] / record.sponsoredCount) * 100}%` }}
+                />
+              ) : null
+            )}
+          </div>
+          <ul className="mt-2 space-y-0.5 text-xs text-[var(--color-muted-foreground)]">
+            {stageOrder.map((stage) =>
+              record.stages[stage] > 0 ? (
+                <li key={stage} className="flex items-center gap-1.5">
+                  <span className={classNames("h-2 w-2 rounded-full", stageBarClassMap[stage])} />
+                  {stageLabels[stage]}: {record.stages[stage]}
+                </li>
+              ) : null
+            )}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+const AlignmentSummary: React.FC<{
+  alignment: {
+    overlap: number;
+    agreed: number;
+    agreementRate: number;
+    disagreements: Array<{ billId: string; billType: string; billNumber: string; title: string; userVote: "yea" | "nay"; memberVote: "yea" | "nay" }>;
+  };
+}> = ({ alignment }) => {
+  if (alignment.overlap === 0) {
+    return (
+      <p className="mt-2 text-sm text-[var(--color-muted-foreground)]">
+        None of the bills you voted on have had a passage vote from this member yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-baseline justify-between">
+        <span className="text-2xl font-semibold">{formatPercent(alignment.agreementRate)}</span>
+        <span className="text-xs text-[var(--color-muted-foreground)]">
+          Agreed on {alignment.agreed} of {alignment.overlap} {alignment.overlap === 1 ? "bill" : "bills"}
+        </span>
+      </div>
+      <div className="mt-1 flex h-2 w-full overflow-hidden rounded-full bg-[var(--color-border)]" aria-hidden>
+        <span className="bg-[var(--color-success)]" style={{ width: `${alignment.agreementRate * 100}%` }} />
+        <span className="bg-[var(--color-error)]" style={{ width: `${(1 - alignment.agreementRate) * 100}%` }} />
+      </div>
+      {alignment.disagreements.length > 0 && (
+        <>
+          <div className="mt-3 text-xs uppercase tracking-wide text-[var(--color-muted-foreground)]">Where you differ</div>
+          <ul className="mt-1 space-y-1.5 text-sm">
+            {alignment.disagreements.map((bill) => (
+              <li key={bill.billId}>
+                <Link href={`/bills/${bill.billId}`} className="block hover:text-[var(--color-primary)]">
+                  <span className="text-xs font-medium text-[var(--color-muted-foreground)]">
+                    {bill.billType.toUpperCase()} {bill.billNumber}
+                  </span>{" "}
+                  <span className="line-clamp-1">{bill.title}</span>
+                </Link>
+                <div className="text-[11px] text-[var(--color-muted-foreground)]">
+                  You: {bill.userVote === "yea" ? "Yea" : "Nay"} · They: {bill.memberVote === "yea" ? "Yea" : "Nay"}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+const BillList: React.FC<{ bills?: Array<BillListItem>; emptyText: string }> = ({ bills, emptyText }) => {
+  if (bills === undefined) {
+    return <div className="mt-4 h-40 rounded bg-[var(--color-card-muted)] animate-pulse" />;
+  }
+  if (bills.length === 0) {
+    return <p className="mt-4 text-sm text-[var(--color-muted-foreground)]">{emptyText}</p>;
+  }
+
+  return (
+    <ul className="mt-3 divide-y divide-[var(--color-border)]">
+      {bills.map((bill) => {
+        const stage = getBillProgressStage(bill.status);
+        return (
+          <li key={bill._id}>
+            <Link href={`/bills/${bill._id}`} className="block py-3 hover:bg-[var(--color-card-muted)]/60 rounded-lg px-2 -mx-2 transition-colors">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-xs font-medium text-[var(--color-muted-foreground)]">
+                  {bill.congress}th — {bill.billType.toUpperCase()} {bill.billNumber}
+                </span>
+                <span className={classNames("shrink-0 px-2 py-0.5 rounded-full text-xs", stageBadgeClassMap[stage])}>
+                  {bill.status}
+                </span>
+              </div>
+              <div className="mt-1 text-sm line-clamp-2">{bill.title}</div>
+              {bill.tagline && (
+                <div className="mt-0.5 text-xs italic text-[var(--color-muted-foreground)] line-clamp-1">{bill.tagline}</div>
+              )}
+              {bill.latestActionDate && (
+                <div className="mt-1 text-[11px] text-[var(--color-muted-foreground)]">Latest action {formatDate(bill.latestActionDate)}</div>
+              )}
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default PoliticianPage;
@@ -0,0 +1,114 @@
+"use client";
+
+import React, { useState } from "react";
+import { usePaginatedQuery } from "convex/react";
+import Link from "next/link";
+import { api } from "../../convex/_generated/api";
+import Header from "@/components/Header";
+import { STATE_NAMES } from "@/utils/states";
+
+type ChamberFilter = "" | "House" | "Senate";
+
+const STATE_OPTIONS = Object.entries(STATE_NAMES).sort((a, b) => a[1].localeCompare(b[1]));
+
+function classNames(...arr: Array<string | false | undefined>) {
+  return arr.filter(Boolean).join(" ");
+}
+
+export default function PoliticiansPage() {
+  const [state, setState] = useState("");
+  const [chamber, setChamber] = useState<ChamberFilter>("");
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.politicianpage.listPoliticians,
+    { state: state || undefined, chamber: chamber || undefined },
+    { initialNumItems: 30 }
+  );
+
+  return (
+    <main
+      className="min-h-screen overflow-x-hidden pb-16"
+      style={{ background: "linear-gradient(180deg, var(--color-background), var(--color-background-end) 30%)" }}
+    >
+      <Header />
+      <div className="max-w-5xl mx-auto px-4 pt-24">
+        <h1 className="text-2xl md:text-3xl font-heading font-bold text-[var(--color-foreground)]">Politicians</h1>
+        <p className="mt-1 text-sm text-[var(--color-muted)]">Members of Congress who sponsor or cosponsor the bills we track.</p>
+
+        <div className="mt-6 flex flex-wrap items-center gap-3">
+          <select
+            value={state}
+            onChange={(e) => setState(e.target.value)}
+            className="rounded-lg border border-[var(--color-border)] bg-[var(--color-card)] px-3 py-2 text-sm"
+            aria-label="State"
+          >
+            <option value="">All states</option>
+            {STATE_OPTIONS.map(([code, name]) => (
+              <option key={code} value={code}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-1" role="group" aria-label="Chamber">
+            {(["", "House", "Senate"] as const).map((value) => (
+              <button
+                key={value || "all"}
+                onClick={() => setChamber(value)}
+                className={classNames(
+                  "px-3 py-1.5 rounded-lg text-sm transition-colors",
+                  chamber === value
+                    ? "bg-[var(--color-primary)]/10 text-[var(--color-primary)] font-medium"
+                    : "text-[var(--color-muted)] hover:text-[var(--color-foreground)]"
+                )}
+              >
+                {value || "Both chambers"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {status === "LoadingFirstPage" ? (
+          <div className="mt-6 h-64 rounded-xl bg-[var(--color-card-muted)] animate-pulse" />
+        ) : results.length === 0 ? (
+          <p className="mt-6 text-sm text-[var(--color-muted)]">No politicians match these filters.</p>
+        ) : (
+          <ul className="mt-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {results.map((p) => {
+              const card = (
+                <>
+                  <div className="text-sm font-medium text-[var(--color-foreground)] truncate">{p.name}</div>
+                  <div className="mt-0.5 text-xs text-[var(--color-muted)]">
+                    {p.chamber === "Senate" ? "Senator" : "Representative"}
+                    {p.party !== "Unknown" && ` · ${p.party}-${p.state}${p.chamber === "House" && p.district && p.district !== "0" ? `-${p.district}` : ""}`}
+                    {p.inOffice === false && " · Former member"}
+                  </div>
+                </>
+              );
+              return (
+                <li key={p._id}>
+                  {p.govinfoId ? (
+                    <Link
+                      href={`/politicians/${p.govinfoId}`}
+                      className="card block p-3 rounded-xl border border-[var(--color-border)]/60 hover:border-[var(--color-primary)]/40 transition-colors"
+                    >
+                      {card}
+                    </Link>
+                  ) : (
+                    <div className="card p-3 rounded-xl border border-[var(--color-border)]/60">{card}</div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {status === "CanLoadMore" && (
+          <div className="mt-6 text-center">
+            <button onClick={() => loadMore(30)} className="btn-secondary px-4 py-2 text-sm">
+              Load more
+            </button>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -56,6 +56,17 @@ function UserMenu({
         </div>
 
         <div className="space-y-1">
+          <Link
+            href="/dashboard"
+            onClick={onClose}
+            className="flex items-center gap-3 w-full px-3 py-2 text-sm text-[var(--color-muted)] hover:text-[var(--color-foreground)] hover:bg-[var(--color-hover-bg)] rounded-lg transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zm10 0a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zm10 0a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+            </svg>
+            Dashboard
+          </Link>
+
           <Link
             href="/coming-soon"
             onClick={onClose}
@@ -169,7 +180,7 @@ export default function Header() {
 
             <nav className="hidden md:flex items-center space-x-6">
               <NavLink href="/coming-soon" label="About" />
-              <NavLink href="/coming-soon" label="Politicians" />
+              <NavLink href="/politicians" label="Politicians" />
               <NavLink href="/coming-soon" label="All Bills" />
             </nav>
           </div>
@@ -278,13 +289,19 @@ export default function Header() {
                     <Link href="/coming-soon" onClick={() => setShowMobileMenu(false)} className="flex items-center gap-3 w-full px-3 py-2 text-sm text-[var(--color-muted)] hover:text-[var(--color-foreground)] hover:bg-[var(--color-hover-bg)] rounded-lg transition-colors">
                       About
                     </Link>
-                    <Link href="/coming-soon" onClick={() => setShowMobileMenu(false)} className="flex items-center gap-3 w-full px-3 py-2 text-sm text-[var(--color-muted)] hover:text-[var(--color-foreground)] hover:bg-[var(--color-hover-bg)] rounded-lg transition-colors">
+                    <Link href="/politicians" onClick={() => setShowMobileMenu(false)} className="flex items-center gap-3 w-full px-3 py-2 text-sm text-[var(--color-muted)] hover:text-[var(--color-foreground)] hover:bg-[var(--color-hover-bg)] rounded-lg transition-colors">
                       Politicians
                     </Link>
                     <Link href="/coming-soon" onClick={() => setShowMobileMenu(false)} className="flex items-center gap-3 w-full px-3 py-2 text-sm text-[var(--color-muted)] hover:text-[var(--color-foreground)] hover:bg-[var(--color-hover-bg)] rounded-lg transition-colors">
                       All Bills
                     </Link>
                     <div className="my-1 border-t border-[var(--color-border)]" />
+                    <Link href="/dashboard" onClick={() => setShowMobileMenu(false)} className="flex items-center gap-3 w-full px-3 py-2 text-sm text-[var(--color-muted)] hover:text-[var(--color-foreground)] hover:bg-[var(--color-hover-bg)] rounded-lg transition-colors">
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden>
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zm10 0a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zm10 0a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+                      </svg>
+                      <span>Dashboard</span>
+                    </Link>
                     <Link href="/coming-soon" className="flex items-center gap-3 w-full px-3 py-2 text-sm text-[var(--color-muted)] hover:text-[var(--color-foreground)] hover:bg-[var(--color-hover-bg)] rounded-lg transition-colors">
                       <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden>
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
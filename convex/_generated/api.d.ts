@@ -8,16 +8,33 @@
  * @module
  */
 
+import type * as admin from "../admin.js";
 import type * as agent from "../agent.js";
+import type * as alignment from "../alignment.js";
 import type * as auth from "../auth.js";
+import type * as authz from "../authz.js";
+import type * as backfill from "../backfill.js";
 import type * as billpage from "../billpage.js";
+import type * as billStatus from "../billStatus.js";
 import type * as cleanBillVersions from "../cleanBillVersions.js";
 import type * as cleanRag from "../cleanRag.js";
+import type * as committeepage from "../committeepage.js";
+import type * as committees from "../committees.js";
 import type * as crons from "../crons.js";
 import type * as dataPipeline from "../dataPipeline.js";
+import type * as failedIngestions from "../failedIngestions.js";
+import type * as fixtures from "../fixtures.js";
 import type * as homepage from "../homepage.js";
 import type * as http from "../http.js";
+import type * as ingestionPolicy from "../ingestionPolicy.js";
+import type * as ingestionRuns from "../ingestionRuns.js";
+import type * as legislators from "../legislators.js";
+import type * as migrateVersionSummaries from "../migrateVersionSummaries.js";
 import type * as myFunctions from "../myFunctions.js";
+import type * as politicianpage from "../politicianpage.js";
+import type * as rollCalls from "../rollCalls.js";
+import type * as userProfiles from "../userProfiles.js";
+import type * as userVotes from "../userVotes.js";
 import type * as workflows from "../workflows.js";
 
 import type {
@@ -35,16 +52,33 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  admin: typeof admin;
   agent: typeof agent;
+  alignment: typeof alignment;
   auth: typeof auth;
+  authz: typeof authz;
+  backfill: typeof backfill;
   billpage: typeof billpage;
+  billStatus: typeof billStatus;
   cleanBillVersions: typeof cleanBillVersions;
   cleanRag: typeof cleanRag;
+  committeepage: typeof committeepage;
+  committees: typeof committees;
   crons: typeof crons;
   dataPipeline: typeof dataPipeline;
+  failedIngestions: typeof failedIngestions;
+  fixtures: typeof fixtures;
   homepage: typeof homepage;
   http: typeof http;
+  ingestionPolicy: typeof ingestionPolicy;
+  ingestionRuns: typeof ingestionRuns;
+  legislators: typeof legislators;
+  migrateVersionSummaries: typeof migrateVersionSummaries;
   myFunctions: typeof myFunctions;
+  politicianpage: typeof politicianpage;
+  rollCalls: typeof rollCalls;
+  userProfiles: typeof userProfiles;
+  userVotes: typeof userVotes;
   workflows: typeof workflows;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
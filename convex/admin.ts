@@ -0,0 +1,84 @@
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { publicQuery, roleAction } from "./authz";
+import { hasRole, userRoleValidator } from "../utils/roles";
+
+// ================================
+// ROLES
+// ================================
+
+/**
+ * Whether the signed-in user may open admin pages
+ */
+export const getAdminAccess = publicQuery({
+  args: {},
+  returns: v.object({ signedIn: v.boolean(), isAdmin: v.boolean() }),
+  handler: async (ctx) => {
+    const user = ctx.viewerId === null ? null : await ctx.db.get(ctx.viewerId);
+    return { signedIn: user !== null, isAdmin: hasRole(user?.role, "admin") };
+  },
+});
+
+/**
+ * Grant or revoke a role by email. Run from the Convex dashboard or CLI, e.g.
+ * `npx convex run admin:setUserRole '{"email": "...", "role": "admin"}'`
+ */
+export const setUserRole = internalMutation({
+  args: {
+    email: v.string(),
+    role: userRoleValidator,
+  },
+  returns: v.id("users"),
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", args.email))
+      .first();
+    if (!user) {
+      throw new Error(`No user with email ${args.email}`);
+    }
+    await ctx.db.patch(user._id, { role: args.role });
+    return user._id;
+  },
+});
+
+// ================================
+// MAINTENANCE JOBS
+// ================================
+
+/**
+ * Run a maintenance job from the admin pipeline page
+ */
+export const runMaintenanceJob = roleAction("admin", {
+  args: {
+    job: v.union(
+      v.literal("cleanOrphanRagEntries"),
+      v.literal("cleanOrphanedBillVersions"),
+      v.literal("copyBillSummariesToLatestVersions"),
+      v.literal("recountUserVoteTallies"),
+    ),
+  },
+  returns: v.object({ scanned: v.number(), changed: v.number() }),
+  handler: async (ctx, args): Promise<{ scanned: number; changed: number }> => {
+
+    switch (args.job) {
+      case "cleanOrphanRagEntries": {
+        const result = await ctx.runMutation(internal.cleanRag.cleanOrphanRagEntries, {});
+        return { scanned: result.scanned, changed: result.deleted };
+      }
+      case "cleanOrphanedBillVersions": {
+        const result = await ctx.runMutation(internal.cleanBillVersions.cleanOrphanedBillVersions, {});
+        return { scanned: result.scanned, changed: result.deleted };
+      }
+      case "copyBillSummariesToLatestVersions": {
+        const result = await ctx.runMutation(internal.migrateVersionSummaries.copyBillSummariesToLatestVersions, {});
+        return { scanned: result.scanned, changed: result.updated };
+      }
+      case "recountUserVoteTallies": {
+        const result = await ctx.runMutation(internal.userVotes.recountUserVoteTallies, {});
+        return { scanned: result.scanned, changed: result.updated };
+      }
+    }
+  },
+});
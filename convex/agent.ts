@@ -1,13 +1,14 @@
-import { Agent } from "@convex-dev/agent";
+import { Agent, UsageHandler } from "@convex-dev/agent";
 import { RAG } from "@convex-dev/rag";
 import { createOpenAI } from "@ai-sdk/openai";
 import { google } from "@ai-sdk/google";
 import { components } from "./_generated/api";
-import { action, internalQuery, internalMutation } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { internalQuery, internalMutation } from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
-import { getAuthUserId } from "@convex-dev/auth/server";
 import { BillSearchResponse, ChatResponse, GeneralChatResponse } from "../types";
+import { publicAction, roleAction } from "./authz";
 
 const openai = createOpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
@@ -44,6 +45,26 @@ Always be objective, factual, and cite specific sections when relevant.`,
   },
 });
 
+/**
+ * Usage handler for pipeline threads. Threads pass their own handler through to each call,
+ * so pipeline threads are created with this one, which also adds the tokens to the
+ * ingestion run ledger when the call is made for a run's file.
+ * @param runFileId The ingestionRunFiles row of the file being processed, if any
+ */
+export const ingestionUsageHandler = (runFileId?: Id<"ingestionRunFiles">): UsageHandler => {
+  return async (ctx, { model, usage }) => {
+    console.log(`AI Usage - Model: ${model}, Tokens: ${JSON.stringify(usage)}`);
+    if (runFileId) {
+      await ctx.runMutation(internal.ingestionRuns.addIngestionRunFileUsage, {
+        runFileId,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
+      });
+    }
+  };
+};
+
 // Helper query to get bill information
 export const getBillInfo = internalQuery({
   args: { billId: v.id("bills") },
@@ -103,7 +124,7 @@ export const getBillIdByIdentifier = internalQuery({
 });
 
 // Example search function that takes advantage of chunked data
-export const searchBills = action({
+export const searchBills = publicAction({
   args: {
     query: v.string(),
     billType: v.optional(v.string()),
@@ -326,7 +347,7 @@ export const getChatThread = internalQuery({
 });
 
 // Bill-specific chat function that leverages chunked content
-export const chatAboutBill = action({
+export const chatAboutBill = roleAction("user", {
   args: {
     billId: v.id("bills"),
     question: v.string(),
@@ -337,11 +358,8 @@ export const chatAboutBill = action({
     confidence: v.string(),
   }),
   handler: async (ctx, args): Promise<ChatResponse> => {
-    // Get authenticated user
-    const userId = await getAuthUserId(ctx);
-    if (!userId) {
-      throw new Error("Authentication required");
-    }
+    // Authenticated by roleAction
+    const userId = ctx.viewer._id;
 
     // Get bill information using the helper query
     const billInfo: { congress: number; billType: string; billNumber: string; title: string; } | null = await ctx.runQuery(internal.agent.getBillInfo, { billId: args.billId });
@@ -421,7 +439,7 @@ Please provide a clear, accurate answer to the user's question based on the bill
 });
 
 // General legislative chat that can search across all bills
-export const generalLegislativeChat = action({
+export const generalLegislativeChat = roleAction("user", {
   args: {
     question: v.string(),
     context: v.optional(v.object({
@@ -441,11 +459,8 @@ export const generalLegislativeChat = action({
     searchSummary: v.string(),
   }),
   handler: async (ctx, args): Promise<GeneralChatResponse> => {
-    // Get authenticated user
-    const userId = await getAuthUserId(ctx);
-    if (!userId) {
-      throw new Error("Authentication required");
-    }
+    // Authenticated by roleAction
+    const userId = ctx.viewer._id;
 
     // Get or create a general chat thread for this user
     let threadInfo: { chatId: string; threadId: string; } | null = await ctx.runQuery(internal.agent.getChatThread, {
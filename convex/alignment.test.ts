@@ -0,0 +1,73 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { expect, test } from "vitest";
+import schema from "./schema";
+import { api } from "./_generated/api";
+
+const modules = import.meta.glob("./**/*.ts");
+
+test("a saved location finds the user's members and scores their votes", async () => {
+  const t = convexTest(schema, modules);
+  const { userId } = await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { name: "Voter", email: "voter@example.com" });
+    const senatorId = await ctx.db.insert("politicians", {
+      name: "Sen. Example",
+      party: "D",
+      state: "TX",
+      chamber: "Senate",
+      govinfoId: "S000001",
+    });
+    const billId = await ctx.db.insert("bills", {
+      congress: 118,
+      billType: "s",
+      billNumber: "42",
+      title: "A bill",
+      status: "Passed Senate",
+    });
+    const rollCallId = await ctx.db.insert("rollCalls", {
+      chamber: "Senate",
+      congress: 118,
+      session: 1,
+      rollNumber: 7,
+      date: "2024-03-01",
+      question: "On Passage of the Bill",
+      result: "Bill Passed",
+      measure: "S. 42",
+      billId,
+      totals: { yea: 60, nay: 40, present: 0, notVoting: 0 },
+      partyTotals: [],
+      unmatchedMembers: 0,
+      sourceUrl: "https://www.senate.gov/vote_118_1_00007.xml",
+      fetchedAt: 0,
+    });
+    await ctx.db.insert("memberVotes", {
+      rollCallId,
+      politicianId: senatorId,
+      billId,
+      date: "2024-03-01",
+      position: "yea",
+      voteCast: "Yea",
+    });
+    await ctx.db.insert("userVotes", { userId, billId, vote: "nay" });
+    return { userId };
+  });
+  const asVoter = t.withIdentity({ subject: `${userId}|session` });
+
+  expect(await asVoter.query(api.alignment.getMyAlignment, {})).toMatchObject({ votesCast: 1, representatives: [] });
+
+  await expect(asVoter.mutation(api.userProfiles.setProfileLocation, { location: "Nowhere" })).rejects.toThrow();
+  expect(await asVoter.mutation(api.userProfiles.setProfileLocation, { location: "Austin, Texas" })).toEqual({
+    state: "TX",
+    district: undefined,
+  });
+
+  const alignment = await asVoter.query(api.alignment.getMyAlignment, {});
+  expect(alignment?.state).toBe("TX");
+  expect(alignment?.representatives).toHaveLength(1);
+  expect(alignment?.representatives[0].alignment).toMatchObject({
+    overlap: 1,
+    agreed: 0,
+    agreementRate: 0,
+    disagreements: [{ title: "A bill", userVote: "nay", memberVote: "yea" }],
+  });
+});
@@ -0,0 +1,206 @@
+import { Infer, v } from "convex/values";
+import { QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { publicQuery } from "./authz";
+import { findRepresentatives, representativeValidator } from "./politicianpage";
+import { isPassageQuestion, parseMeasure } from "../utils/rollCalls";
+
+// How often a user and a member of Congress voted the same way on the bills the user voted
+// on. A member's vote on a bill is their yea or nay on its latest passage vote (see
+// isPassageQuestion); procedural and amendment votes say too little about the bill itself.
+
+// Disagreements listed per member, most recent first
+const DISAGREEMENT_LIMIT = 10;
+
+const userVoteValidator = v.union(v.literal("yea"), v.literal("nay"));
+
+const alignmentValidator = v.object({
+  politicianId: v.id("politicians"),
+  overlap: v.number(), // Bills both the user and the member voted on
+  agreed: v.number(),
+  agreementRate: v.number(), // 0 to 1; 0 when there is no overlap
+  disagreements: v.array(v.object({
+    billId: v.id("bills"),
+    congress: v.number(),
+    billType: v.string(),
+    billNumber: v.string(),
+    title: v.string(),
+    userVote: userVoteValidator,
+    memberVote: userVoteValidator,
+    rollCallId: v.id("rollCalls"),
+    date: v.string(),
+  })),
+});
+
+type Alignment = Infer<typeof alignmentValidator>;
+
+/**
+ * A bill's passage votes, oldest first, cached so several members share one lookup
+ */
+const loadPassageRollCalls = async (
+  ctx: QueryCtx,
+  billId: Id<"bills">,
+  cache: Map<Id<"bills">, Array<Doc<"rollCalls">>>,
+): Promise<Array<Doc<"rollCalls">>> => {
+  const cached = cache.get(billId);
+  if (cached) return cached;
+
+  const bill = await ctx.db.get(billId);
+  const rollCalls = bill
+    ? (await ctx.db
+        .query("rollCalls")
+        .withIndex("by_billId_and_date", (q) => q.eq("billId", billId))
+        .collect()
+      ).filter((rollCall) => {
+        // Votes linked to the bill only because its actions recorded them (e.g. on the rule
+        // for its consideration) name another measure
+        const measure = rollCall.measure ? parseMeasure(rollCall.measure) : undefined;
+        return (
+          rollCall.amendment === undefined &&
+          measure?.billType === bill.billType &&
+          measure.billNumber === bill.billNumber &&
+          isPassageQuestion(rollCall.question)
+        );
+      })
+    : [];
+  cache.set(billId, rollCalls);
+  return rollCalls;
+};
+
+/**
+ * Compare a user's votes with how one member voted on the same bills
+ */
+const computeAlignment = async (
+  ctx: QueryCtx,
+  userVotes: Array<Doc<"userVotes">>,
+  politicianId: Id<"politicians">,
+  cache: Map<Id<"bills">, Array<Doc<"rollCalls">>>,
+): Promise<Alignment> => {
+  let overlap = 0;
+  let agreed = 0;
+  const disagreements: Array<{ userVote: Doc<"userVotes">; memberVote: Doc<"memberVotes"> }> = [];
+
+  for (const userVote of userVotes) {
+    const rollCalls = await loadPassageRollCalls(ctx, userVote.billId, cache);
+    if (rollCalls.length === 0) continue;
+
+    const memberVotes = await ctx.db
+      .query("memberVotes")
+      .withIndex("by_billId_and_politicianId", (q) =>
+        q.eq("billId", userVote.billId).eq("politicianId", politicianId)
+      )
+      .collect();
+    // Their position on the latest passage vote they took part in
+    const memberVote = rollCalls
+      .map((rollCall) => memberVotes.find((vote) => vote.rollCallId === rollCall._id))
+      .filter((vote) => vote?.position === "yea" || vote?.position === "nay")
+      .pop();
+    if (!memberVote) continue;
+
+    overlap += 1;
+    if (memberVote.position === userVote.vote) {
+      agreed += 1;
+    } else {
+      disagreements.push({ userVote, memberVote });
+    }
+  }
+
+  disagreements.sort((a, b) => b.memberVote.date.localeCompare(a.memberVote.date));
+  const listed: Alignment["disagreements"] = [];
+  for (const { userVote, memberVote } of disagreements.slice(0, DISAGREEMENT_LIMIT)) {
+    const bill = await ctx.db.get(userVote.billId);
+    if (!bill) continue;
+    listed.push({
+      billId: bill._id,
+      congress: bill.congress,
+      billType: bill.billType,
+      billNumber: bill.billNumber,
+      title: bill.cleanedShortTitle ?? bill.title,
+      userVote: userVote.vote,
+      memberVote: memberVote.position === "yea" ? "yea" : "nay",
+      rollCallId: memberVote.rollCallId,
+      date: memberVote.date,
+    });
+  }
+
+  return {
+    politicianId,
+    overlap,
+    agreed,
+    agreementRate: overlap > 0 ? agreed / overlap : 0,
+    disagreements: listed,
+  };
+};
+
+const loadUserVotes = async (ctx: QueryCtx, userId: Id<"users">): Promise<Array<Doc<"userVotes">>> => {
+  return await ctx.db
+    .query("userVotes")
+    .withIndex("by_user_bill", (q) => q.eq("userId", userId))
+    .collect();
+};
+
+// ================================
+// QUERIES
+// ================================
+
+/**
+ * How the signed-in user's votes line up with one member's, for their profile.
+ * Null when signed out.
+ */
+export const getAlignmentWithPolitician = publicQuery({
+  args: {
+    politicianId: v.id("politicians"),
+  },
+  returns: v.union(alignmentValidator, v.null()),
+  handler: async (ctx, args) => {
+    if (ctx.viewerId === null) return null;
+    const userVotes = await loadUserVotes(ctx, ctx.viewerId);
+    return await computeAlignment(ctx, userVotes, args.politicianId, new Map());
+  },
+});
+
+/**
+ * The signed-in user's members of Congress (see findRepresentatives) with how each one's
+ * votes line up with theirs, for the dashboard. Representatives are empty when the
+ * profile's location names no state; null when signed out.
+ */
+export const getMyAlignment = publicQuery({
+  args: {},
+  returns: v.union(
+    v.object({
+      votesCast: v.number(),
+      location: v.optional(v.string()),
+      state: v.optional(v.string()),
+      district: v.optional(v.string()),
+      representatives: v.array(v.object({
+        ...representativeValidator.fields,
+        alignment: alignmentValidator,
+      })),
+    }),
+    v.null()
+  ),
+  handler: async (ctx) => {
+    if (ctx.viewerId === null) return null;
+    const userVotes = await loadUserVotes(ctx, ctx.viewerId);
+    const found = await findRepresentatives(ctx, ctx.viewerId);
+    if (!found) {
+      return { votesCast: userVotes.length, representatives: [] };
+    }
+
+    const cache = new Map<Id<"bills">, Array<Doc<"rollCalls">>>();
+    const representatives = [];
+    for (const representative of found.representatives) {
+      representatives.push({
+        ...representative,
+        alignment: await computeAlignment(ctx, userVotes, representative.politicianId, cache),
+      });
+    }
+    return {
+      votesCast: userVotes.length,
+      location: found.location,
+      state: found.state,
+      district: found.district,
+      representatives,
+    };
+  },
+});
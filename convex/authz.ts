@@ -0,0 +1,152 @@
+import {
+  action,
+  internalQuery,
+  mutation,
+  query,
+  ActionCtx,
+  MutationCtx,
+  QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { ConvexError, Infer, ObjectType, PropertyValidators, Validator, v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { UserRole, hasRole, userRoleValidator } from "../utils/roles";
+
+// Wrappers for public functions. Every public function in this app is defined with one of
+// them so its access rule is explicit:
+// - publicQuery / publicMutation / publicAction: anyone; ctx.viewerId is the caller, if signed in
+// - roleQuery / roleMutation / roleAction: callers with at least the given role; ctx.viewer is their user
+// Internal functions are only reachable from other functions and need no wrapper.
+
+type FunctionDefinition<Ctx, Args extends PropertyValidators, Returns extends Validator<unknown, "required", string>> = {
+  args: Args;
+  returns: Returns;
+  handler: (ctx: Ctx, args: ObjectType<Args>) => Promise<Infer<Returns>>;
+};
+
+type WithViewerId<Ctx> = Ctx & { viewerId: Id<"users"> | null };
+type WithViewer<Ctx> = Ctx & { viewer: Doc<"users"> };
+
+const forbidden = (role: UserRole) => new ConvexError(`${role[0].toUpperCase()}${role.slice(1)} access required`);
+
+/**
+ * Load the signed-in user and check their role
+ * @returns The user
+ * @throws ConvexError when signed out or the role is insufficient
+ */
+export const requireRole = async (ctx: QueryCtx, role: UserRole): Promise<Doc<"users">> => {
+  const userId = await getAuthUserId(ctx);
+  const user = userId === null ? null : await ctx.db.get(userId);
+  if (!user) {
+    throw new ConvexError("Sign in required");
+  }
+  if (!hasRole(user.role, role)) {
+    throw forbidden(role);
+  }
+  return user;
+};
+
+// Convex validator for a users document
+export const userValidator = v.object({
+  _id: v.id("users"),
+  _creationTime: v.number(),
+  name: v.optional(v.string()),
+  image: v.optional(v.string()),
+  email: v.optional(v.string()),
+  emailVerificationTime: v.optional(v.number()),
+  phone: v.optional(v.string()),
+  phoneVerificationTime: v.optional(v.number()),
+  isAnonymous: v.optional(v.boolean()),
+  role: v.optional(userRoleValidator),
+});
+
+// Actions have no database access, so their role check reads the user through a query
+export const getViewerDoc = internalQuery({
+  args: {
+    userId: v.id("users"),
+  },
+  returns: v.union(userValidator, v.null()),
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.userId);
+  },
+});
+
+const requireRoleForAction = async (ctx: ActionCtx, role: UserRole): Promise<Doc<"users">> => {
+  const userId = await getAuthUserId(ctx);
+  const viewer = userId === null ? null : await ctx.runQuery(internal.authz.getViewerDoc, { userId });
+  if (!viewer) {
+    throw new ConvexError("Sign in required");
+  }
+  if (!hasRole(viewer.role, role)) {
+    throw forbidden(role);
+  }
+  return viewer;
+};
+
+// Generic validators leave the builders' return type unresolved; widening them lets the
+// handler's return type type the registered function instead
+const widen = (returns: Validator<unknown, "required", string>) => returns;
+
+export const publicQuery = <Args extends PropertyValidators, Returns extends Validator<unknown, "required", string>>(
+  definition: FunctionDefinition<WithViewerId<QueryCtx>, Args, Returns>,
+) =>
+  query({
+    args: definition.args,
+    returns: widen(definition.returns),
+    handler: async (ctx, args: ObjectType<Args>) =>
+      definition.handler({ ...ctx, viewerId: await getAuthUserId(ctx) }, args),
+  });
+
+export const publicMutation = <Args extends PropertyValidators, Returns extends Validator<unknown, "required", string>>(
+  definition: FunctionDefinition<WithViewerId<MutationCtx>, Args, Returns>,
+) =>
+  mutation({
+    args: definition.args,
+    returns: widen(definition.returns),
+    handler: async (ctx, args: ObjectType<Args>) =>
+      definition.handler({ ...ctx, viewerId: await getAuthUserId(ctx) }, args),
+  });
+
+export const publicAction = <Args extends PropertyValidators, Returns extends Validator<unknown, "required", string>>(
+  definition: FunctionDefinition<WithViewerId<ActionCtx>, Args, Returns>,
+) =>
+  action({
+    args: definition.args,
+    returns: widen(definition.returns),
+    handler: async (ctx, args: ObjectType<Args>) =>
+      definition.handler({ ...ctx, viewerId: await getAuthUserId(ctx) }, args),
+  });
+
+export const roleQuery = <Args extends PropertyValidators, Returns extends Validator<unknown, "required", string>>(
+  role: UserRole,
+  definition: FunctionDefinition<WithViewer<QueryCtx>, Args, Returns>,
+) =>
+  query({
+    args: definition.args,
+    returns: widen(definition.returns),
+    handler: async (ctx, args: ObjectType<Args>) =>
+      definition.handler({ ...ctx, viewer: await requireRole(ctx, role) }, args),
+  });
+
+export const roleMutation = <Args extends PropertyValidators, Returns extends Validator<unknown, "required", string>>(
+  role: UserRole,
+  definition: FunctionDefinition<WithViewer<MutationCtx>, Args, Returns>,
+) =>
+  mutation({
+    args: definition.args,
+    returns: widen(definition.returns),
+    handler: async (ctx, args: ObjectType<Args>) =>
+      definition.handler({ ...ctx, viewer: await requireRole(ctx, role) }, args),
+  });
+
+export const roleAction = <Args extends PropertyValidators, Returns extends Validator<unknown, "required", string>>(
+  role: UserRole,
+  definition: FunctionDefinition<WithViewer<ActionCtx>, Args, Returns>,
+) =>
+  action({
+    args: definition.args,
+    returns: widen(definition.returns),
+    handler: async (ctx, args: ObjectType<Args>) =>
+      definition.handler({ ...ctx, viewer: await requireRoleForAction(ctx, role) }, args),
+  });
@@ -0,0 +1,39 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import { internal } from "./_generated/api";
+
+const modules = import.meta.glob("./**/*.ts");
+
+describe("advanceBackfillCursor", () => {
+  test("records progress only for the workflow that owns the cursor", async () => {
+    const t = convexTest(schema, modules);
+    const cursorId = await t.run((ctx) =>
+      ctx.db.insert("backfillCursors", {
+        congress: 118,
+        billType: "hr",
+        position: 5,
+        lastModified: 1000,
+        lastXmlUrl: "https://www.govinfo.gov/content/pkg/BILLS-118hr5ih/xml/BILLS-118hr5ih.xml",
+        status: "running",
+        workflowId: "owner",
+        updatedAt: Date.now(),
+      })
+    );
+    const batch = {
+      cursorId,
+      processed: 1,
+      totalFiles: 10,
+      remaining: 4,
+      last: { lastModified: 2000, link: "https://www.govinfo.gov/content/pkg/BILLS-118hr6ih/xml/BILLS-118hr6ih.xml" },
+      stopping: false,
+    };
+
+    expect(await t.mutation(internal.backfill.advanceBackfillCursor, { ...batch, workflowId: "other" })).toBeNull();
+    expect(await t.run((ctx) => ctx.db.get(cursorId))).toMatchObject({ position: 5, lastModified: 1000 });
+
+    expect(await t.mutation(internal.backfill.advanceBackfillCursor, { ...batch, workflowId: "owner" })).toBe("running");
+    expect(await t.run((ctx) => ctx.db.get(cursorId))).toMatchObject({ position: 6, lastModified: 2000 });
+  });
+});
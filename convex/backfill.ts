@@ -0,0 +1,220 @@
+import { internalMutation, MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { WorkflowId } from "@convex-dev/workflow";
+import { roleMutation, roleQuery } from "./authz";
+import { workflow } from "./workflows";
+
+const backfillCursorStatusValidator = v.union(
+  v.literal("pending"),
+  v.literal("running"),
+  v.literal("paused"),
+  v.literal("completed"),
+);
+
+// Convex validator for a backfillCursors document
+export const backfillCursorValidator = v.object({
+  _id: v.id("backfillCursors"),
+  _creationTime: v.number(),
+  congress: v.number(),
+  billType: v.string(),
+  versionCodes: v.optional(v.array(v.string())),
+  position: v.number(),
+  totalFiles: v.optional(v.number()),
+  lastModified: v.optional(v.number()),
+  lastXmlUrl: v.optional(v.string()),
+  status: backfillCursorStatusValidator,
+  workflowId: v.optional(v.string()),
+  updatedAt: v.number(),
+});
+
+const sameVersionFilter = (a?: string[], b?: string[]): boolean => {
+  const normalize = (codes?: string[]) => [...(codes ?? [])].map((c) => c.toLowerCase()).sort().join(",");
+  return normalize(a) === normalize(b);
+};
+
+/**
+ * Whether another workflow is still running this cursor. Cursors left running by a workflow
+ * that failed, was canceled or was cleaned up can be taken over.
+ */
+const isClaimedByAnotherWorkflow = async (
+  ctx: MutationCtx,
+  cursor: Doc<"backfillCursors">,
+  workflowId: string,
+): Promise<boolean> => {
+  if (cursor.status !== "running" || !cursor.workflowId || cursor.workflowId === workflowId) return false;
+  try {
+    const status = await workflow.status(ctx, cursor.workflowId as WorkflowId);
+    return status.type === "inProgress";
+  } catch {
+    return false;
+  }
+};
+
+// ================================
+// WORKFLOW HELPERS
+// ================================
+
+/**
+ * Get or create the cursor for a congress + bill type and mark it as owned by a workflow.
+ * Returns null while another workflow is still running it, so two backfills never page
+ * through the same files.
+ * A completed cursor is reopened so files published or re-modified since are picked up.
+ * A cursor whose version filter differs from the requested one is restarted from the
+ * beginning, since its progress refers to a differently filtered listing.
+ */
+export const claimBackfillCursor = internalMutation({
+  args: {
+    congress: v.number(),
+    billType: v.string(),
+    versionCodes: v.optional(v.array(v.string())),
+    workflowId: v.string(),
+  },
+  returns: v.union(backfillCursorValidator, v.null()),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("backfillCursors")
+      .withIndex("by_congress_and_billType", (q) =>
+        q.eq("congress", args.congress).eq("billType", args.billType)
+      )
+      .first();
+
+    if (!existing) {
+      const cursorId = await ctx.db.insert("backfillCursors", {
+        congress: args.congress,
+        billType: args.billType,
+        versionCodes: args.versionCodes,
+        position: 0,
+        status: "running",
+        workflowId: args.workflowId,
+        updatedAt: Date.now(),
+      });
+      return (await ctx.db.get(cursorId))!;
+    }
+
+    if (await isClaimedByAnotherWorkflow(ctx, existing, args.workflowId)) {
+      console.log(`Backfill cursor ${args.congress}-${args.billType} is running under ${existing.workflowId}; skipping`);
+      return null;
+    }
+
+    if (!sameVersionFilter(existing.versionCodes, args.versionCodes)) {
+      console.log(`Version filter changed for ${args.congress}-${args.billType}; restarting backfill cursor`);
+      await ctx.db.patch(existing._id, {
+        versionCodes: args.versionCodes,
+        position: 0,
+        totalFiles: undefined,
+        lastModified: undefined,
+        lastXmlUrl: undefined,
+        status: "running",
+        workflowId: args.workflowId,
+        updatedAt: Date.now(),
+      });
+    } else {
+      await ctx.db.patch(existing._id, {
+        status: "running",
+        workflowId: args.workflowId,
+        updatedAt: Date.now(),
+      });
+    }
+
+    return (await ctx.db.get(existing._id))!;
+  },
+});
+
+/**
+ * Record progress after a backfill batch: the last file it processed and how many files
+ * are left after it. Returns the resulting status so the workflow can stop when a pause
+ * was requested, or null without recording anything when another workflow has taken the
+ * cursor over.
+ */
+export const advanceBackfillCursor = internalMutation({
+  args: {
+    cursorId: v.id("backfillCursors"),
+    workflowId: v.string(),
+    processed: v.number(),
+    totalFiles: v.number(),
+    remaining: v.number(), // Files listed after the last one processed
+    last: v.optional(v.object({ lastModified: v.number(), link: v.string() })),
+    stopping: v.boolean(), // The workflow will not process more batches for this cursor
+  },
+  returns: v.union(backfillCursorStatusValidator, v.null()),
+  handler: async (ctx, args) => {
+    const cursor = await ctx.db.get(args.cursorId);
+    if (!cursor) {
+      throw new Error(`Backfill cursor not found: ${args.cursorId}`);
+    }
+    if (cursor.workflowId !== args.workflowId) {
+      return null;
+    }
+
+    let status = cursor.status;
+    if (args.remaining === 0) {
+      status = "completed";
+    } else if (args.stopping || cursor.status === "paused") {
+      status = "paused";
+    }
+
+    await ctx.db.patch(args.cursorId, {
+      position: cursor.position + args.processed,
+      totalFiles: args.totalFiles,
+      lastModified: args.last?.lastModified ?? cursor.lastModified,
+      lastXmlUrl: args.last?.link ?? cursor.lastXmlUrl,
+      status,
+      updatedAt: Date.now(),
+    });
+
+    return status;
+  },
+});
+
+// ================================
+// ADMIN CONTROLS
+// ================================
+
+/**
+ * Request a pause for running backfill cursors. The owning workflow stops after
+ * its current batch; starting a backfill over the same range resumes from the cursor.
+ */
+export const pauseBackfill = roleMutation("admin", {
+  args: {
+    congress: v.optional(v.number()),
+    billType: v.optional(v.string()),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const running = await ctx.db
+      .query("backfillCursors")
+      .withIndex("by_status", (q) => q.eq("status", "running"))
+      .collect();
+
+    let paused = 0;
+    for (const cursor of running) {
+      if (args.congress !== undefined && cursor.congress !== args.congress) continue;
+      if (args.billType !== undefined && cursor.billType !== args.billType) continue;
+      await ctx.db.patch(cursor._id, { status: "paused", updatedAt: Date.now() });
+      paused += 1;
+    }
+
+    return paused;
+  },
+});
+
+/**
+ * List backfill cursors, optionally for a single congress
+ */
+export const listBackfillCursors = roleQuery("admin", {
+  args: {
+    congress: v.optional(v.number()),
+  },
+  returns: v.array(backfillCursorValidator),
+  handler: async (ctx, args) => {
+    if (args.congress !== undefined) {
+      const congress = args.congress;
+      return await ctx.db
+        .query("backfillCursors")
+        .withIndex("by_congress_and_billType", (q) => q.eq("congress", congress))
+        .collect();
+    }
+    return await ctx.db.query("backfillCursors").collect();
+  },
+});
@@ -0,0 +1,54 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import { internal } from "./_generated/api";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const statusUrl = "https://www.govinfo.gov/bulkdata/BILLSTATUS/118/hr/BILLSTATUS-118hr1234.xml";
+
+describe("ingestBillStatusFile", () => {
+  test("records a failed retry on the BILLSTATUS feed's retry queue", async () => {
+    const t = convexTest(schema, modules);
+    await t.run(async (ctx) => {
+      await ctx.db.insert("failedIngestions", {
+        congress: 118,
+        billType: "hr",
+        billNumber: "1234",
+        versionCode: "billstatus",
+        xmlUrl: statusUrl,
+        reasonCode: "retries_exhausted",
+        reason: "source unavailable",
+        createdAt: Date.now(),
+        status: "retrying",
+        attempts: 1,
+        feed: "billStatus",
+      });
+    });
+
+    const result = await t.action(internal.billStatus.ingestBillStatusFile, {
+      xmlUrl: statusUrl,
+      xmlData: "<html>Not a BILLSTATUS file</html>",
+      retrying: true,
+    });
+    expect(result).toEqual({ stored: false });
+
+    const failures = await t.run((ctx) => ctx.db.query("failedIngestions").collect());
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toMatchObject({
+      feed: "billStatus",
+      reasonCode: "unparseable_xml",
+      status: "exhausted",
+      attempts: 2,
+    });
+  });
+
+  test("throws outside the retry queue so the workflow step retries", async () => {
+    const t = convexTest(schema, modules);
+    await expect(
+      t.action(internal.billStatus.ingestBillStatusFile, { xmlUrl: statusUrl, xmlData: "<html />" }),
+    ).rejects.toThrow();
+    expect(await t.run((ctx) => ctx.db.query("failedIngestions").collect())).toHaveLength(0);
+  });
+});
@@ -0,0 +1,291 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { createGovinfoBillSource } from "../utils/billSources";
+import { billActionMilestoneValidator, parseBillStatusInfoFromUrl, parseBillStatusXml } from "../utils/billStatus";
+import { committeeChamberValidator, committeeReferralStatusValidator } from "../utils/committees";
+import { resolveCommittee } from "./committees";
+import { syncRecordedVotes } from "./rollCalls";
+import { toIngestionError } from "../utils/ingestionErrors";
+
+// Ingestion of govinfo BILLSTATUS files: the action history, subjects, policy area, related
+// bills and sponsors of each bill. Runs alongside the bill text pipeline (see
+// billStatusWorkflow); the text pipeline owns versions and summaries, this one owns status.
+
+const chamberValidator = v.union(v.literal("House"), v.literal("Senate"));
+
+// Convex validators for ExtractedBillStatus (see types.ts)
+export const billStatusMemberValidator = v.object({
+  bioguideId: v.string(),
+  name: v.string(),
+  party: v.optional(v.string()),
+  state: v.optional(v.string()),
+  district: v.optional(v.string()),
+  chamber: v.optional(chamberValidator),
+});
+
+export const billStatusCosponsorValidator = v.object({
+  ...billStatusMemberValidator.fields,
+  sponsorshipDate: v.optional(v.string()),
+  isOriginalCosponsor: v.boolean(),
+  sponsorshipWithdrawnDate: v.optional(v.string()),
+});
+
+export const billRecordedVoteValidator = v.object({
+  chamber: chamberValidator,
+  rollNumber: v.number(),
+  date: v.string(),
+  sessionNumber: v.optional(v.number()),
+  url: v.optional(v.string()),
+});
+
+export const billStatusActionValidator = v.object({
+  actionDate: v.string(),
+  actionTime: v.optional(v.string()),
+  text: v.string(),
+  actionType: v.optional(v.string()),
+  actionCode: v.optional(v.string()),
+  sourceSystem: v.optional(v.string()),
+  chamber: v.optional(chamberValidator),
+  milestone: v.optional(billActionMilestoneValidator),
+  committees: v.array(v.string()),
+  recordedVotes: v.array(billRecordedVoteValidator),
+});
+
+export const billStatusCommitteeValidator = v.object({
+  code: v.string(),
+  name: v.string(),
+  chamber: v.optional(committeeChamberValidator),
+  parentCode: v.optional(v.string()),
+  status: committeeReferralStatusValidator,
+  referredDate: v.optional(v.string()),
+  reportedDate: v.optional(v.string()),
+  activities: v.array(v.object({
+    name: v.string(),
+    date: v.optional(v.string()),
+  })),
+});
+
+export const relatedBillValidator = v.object({
+  congress: v.number(),
+  billType: v.string(),
+  billNumber: v.string(),
+  title: v.optional(v.string()),
+  relationship: v.optional(v.string()),
+});
+
+export const extractedBillStatusValidator = v.object({
+  congress: v.number(),
+  billType: v.string(),
+  billNumber: v.string(),
+  title: v.string(),
+  originChamber: v.optional(chamberValidator),
+  introducedDate: v.optional(v.string()),
+  updateDate: v.optional(v.string()),
+  policyArea: v.optional(v.string()),
+  subjects: v.array(v.string()),
+  sponsor: v.optional(billStatusMemberValidator),
+  cosponsors: v.array(billStatusCosponsorValidator),
+  actions: v.array(billStatusActionValidator),
+  committees: v.array(billStatusCommitteeValidator),
+  relatedBills: v.array(relatedBillValidator),
+  status: v.string(),
+  latestActionDate: v.optional(v.string()),
+  latestActionText: v.optional(v.string()),
+  xmlUrl: v.string(),
+});
+
+/**
+ * Fetch (unless given), parse and store one BILLSTATUS file, then the roll call votes its
+ * actions recorded that are not stored yet. A retry from the failedIngestions queue records
+ * its outcome on the file's row instead of throwing.
+ */
+export const ingestBillStatusFile = internalAction({
+  args: {
+    xmlUrl: v.string(),
+    xmlData: v.optional(v.string()), // Already fetched XML, e.g. from a local replay
+    syncRollCalls: v.optional(v.boolean()), // Defaults to true; offline replays turn it off
+    retrying: v.optional(v.boolean()), // Retry of a file in failedIngestions
+  },
+  returns: v.object({
+    stored: v.boolean(),
+  }),
+  handler: async (ctx, args): Promise<{ stored: boolean }> => {
+    try {
+      const xmlData = args.xmlData ?? (await createGovinfoBillSource().fetchXml(args.xmlUrl));
+      const billStatus = parseBillStatusXml(xmlData, args.xmlUrl);
+      const { stored, billId } = await ctx.runMutation(internal.billStatus.storeBillStatus, billStatus);
+
+      if (args.syncRollCalls ?? true) {
+        // The same vote can be recorded on several actions
+        const votes = new Map(billStatus.actions.flatMap((a) => a.recordedVotes).map((vote) => [vote.url, vote]));
+        await syncRecordedVotes(ctx, billStatus.congress, billId, [...votes.values()]);
+      }
+
+      if (args.retrying) {
+        await ctx.runMutation(internal.failedIngestions.resolveFailedIngestion, {
+          xmlUrl: args.xmlUrl,
+          note: "Synced",
+          outcome: "succeeded",
+        });
+      }
+      return { stored };
+    } catch (error) {
+      if (!args.retrying) throw error;
+
+      const ingestionError = toIngestionError(error);
+      console.error(`Error syncing ${args.xmlUrl} (${ingestionError.code}):`, error);
+      await ctx.runMutation(internal.dataPipeline.recordFailedIngestion, {
+        ...parseBillStatusInfoFromUrl(args.xmlUrl),
+        versionCode: "billstatus",
+        xmlUrl: args.xmlUrl,
+        reasonCode: ingestionError.code,
+        reason: ingestionError.data.message,
+        feed: "billStatus",
+      });
+      return { stored: false };
+    }
+  },
+});
+
+/**
+ * Store a parsed BILLSTATUS file: upsert the bill's status fields and replace its actions,
+ * cosponsors and committee referrals. Bills are created when their status arrives before any text version.
+ */
+export const storeBillStatus = internalMutation({
+  args: extractedBillStatusValidator.fields,
+  returns: v.object({
+    stored: v.boolean(),
+    billId: v.id("bills"),
+  }),
+  handler: async (ctx, args) => {
+    const existingBill = await ctx.db
+      .query("bills")
+      .withIndex("by_identifier", (q) =>
+        q.eq("congress", args.congress)
+         .eq("billType", args.billType)
+         .eq("billNumber", args.billNumber)
+      )
+      .first();
+
+    // The file is republished whenever anything changes; an unchanged one needs no writes,
+    // unless it was stored before cosponsors were kept
+    if (existingBill?.billStatusUpdatedAt && existingBill.billStatusUpdatedAt === args.updateDate) {
+      const hasCosponsors = await ctx.db
+        .query("billCosponsors")
+        .withIndex("by_billId_and_politicianId", (q) => q.eq("billId", existingBill._id))
+        .first();
+      if (hasCosponsors || args.cosponsors.length === 0) {
+        return { stored: false, billId: existingBill._id };
+      }
+    }
+
+    // 1. Sponsors, with the party, state and chamber the text versions lack
+    let sponsorId: Id<"politicians"> | undefined;
+    const cosponsorIds: Array<Id<"politicians">> = [];
+    for (const member of args.sponsor ? [args.sponsor, ...args.cosponsors] : args.cosponsors) {
+      const politicianId = await ctx.runMutation(internal.dataPipeline.upsertPolitician, {
+        name: member.name,
+        govinfoId: member.bioguideId,
+        party: member.party,
+        state: member.state,
+        chamber: member.chamber,
+      });
+      if (member === args.sponsor) {
+        sponsorId = politicianId;
+      } else {
+        cosponsorIds.push(politicianId);
+      }
+    }
+
+    // 2. Bill-level fields
+    const statusFields = {
+      status: args.status,
+      latestActionDate: args.latestActionDate,
+      latestActionText: args.latestActionText,
+      billStatusUpdatedAt: args.updateDate ?? new Date().toISOString(),
+      introducedDate: args.introducedDate,
+      policyArea: args.policyArea,
+      subjects: args.subjects,
+      relatedBills: args.relatedBills,
+    };
+
+    let billId: Id<"bills">;
+    if (existingBill) {
+      billId = existingBill._id;
+      await ctx.db.patch(billId, {
+        ...statusFields,
+        sponsorId: existingBill.sponsorId ?? sponsorId,
+      });
+    } else {
+      billId = await ctx.db.insert("bills", {
+        congress: args.congress,
+        billType: args.billType,
+        billNumber: args.billNumber,
+        title: args.title,
+        sponsorId,
+        ...statusFields,
+      });
+    }
+
+    // 3. Replace the action history
+    const existingActions = await ctx.db
+      .query("billActions")
+      .withIndex("by_billId_and_sequence", (q) => q.eq("billId", billId))
+      .collect();
+    for (const action of existingActions) {
+      await ctx.db.delete(action._id);
+    }
+    for (const [sequence, action] of args.actions.entries()) {
+      await ctx.db.insert("billActions", {
+        billId,
+        sequence,
+        ...action,
+        committees: action.committees.length > 0 ? action.committees : undefined,
+        recordedVotes: action.recordedVotes.length > 0 ? action.recordedVotes : undefined,
+      });
+    }
+
+    // 4. Replace the cosponsors, including those the text versions listed
+    const existingCosponsors = await ctx.db
+      .query("billCosponsors")
+      .withIndex("by_billId_and_politicianId", (q) => q.eq("billId", billId))
+      .collect();
+    for (const cosponsor of existingCosponsors) {
+      await ctx.db.delete(cosponsor._id);
+    }
+    for (const [index, cosponsor] of args.cosponsors.entries()) {
+      await ctx.db.insert("billCosponsors", {
+        billId,
+        politicianId: cosponsorIds[index],
+        sponsorshipDate: cosponsor.sponsorshipDate,
+        isOriginalCosponsor: cosponsor.isOriginalCosponsor,
+        sponsorshipWithdrawnDate: cosponsor.sponsorshipWithdrawnDate,
+        source: "billStatus",
+      });
+    }
+
+    // 5. Replace the committee referrals
+    const existingReferrals = await ctx.db
+      .query("billCommitteeReferrals")
+      .withIndex("by_billId", (q) => q.eq("billId", billId))
+      .collect();
+    for (const referral of existingReferrals) {
+      await ctx.db.delete(referral._id);
+    }
+    for (const committee of args.committees) {
+      await ctx.db.insert("billCommitteeReferrals", {
+        billId,
+        committeeId: await resolveCommittee(ctx, committee),
+        status: committee.status,
+        referredDate: committee.referredDate,
+        reportedDate: committee.reportedDate,
+        activities: committee.activities.length > 0 ? committee.activities : undefined,
+        source: "billStatus",
+      });
+    }
+
+    return { stored: true, billId };
+  },
+});
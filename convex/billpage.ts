@@ -1,5 +1,47 @@
-import { query } from "./_generated/server";
 import { v } from "convex/values";
+import { buildSectionToc, findSectionTocEntry } from "../utils/dataHelpers";
+import { diffBillSections } from "../utils/billDiff";
+import { publicQuery } from "./authz";
+import { billStatusActionValidator, relatedBillValidator } from "./billStatus";
+import { politicianValidator } from "./legislators";
+import { committeeMemberValidator, loadCommitteeMembers } from "./committees";
+import { committeeChamberValidator, committeeReferralStatusValidator, normalizeCommitteeCode } from "../utils/committees";
+import { rollCallValidator } from "./rollCalls";
+import { votePositionValidator } from "../utils/rollCalls";
+import {
+  billOutlineNodeValidator,
+  currentLawComparisonItemValidator,
+  structuredSummarySectionValidator,
+  versionChangeAnalysisValidator,
+} from "./dataPipeline";
+
+// Convex validator for a bills document
+const billValidator = v.object({
+  _id: v.id("bills"),
+  _creationTime: v.number(),
+  congress: v.number(),
+  billType: v.string(),
+  billNumber: v.string(),
+  title: v.string(),
+  cleanedShortTitle: v.optional(v.string()),
+  sponsorId: v.optional(v.id("politicians")),
+  committees: v.optional(v.array(v.string())),
+  latestVersionId: v.optional(v.id("billVersions")),
+  latestVersionCode: v.optional(v.string()),
+  latestActionDate: v.optional(v.string()),
+  latestActionText: v.optional(v.string()),
+  status: v.string(),
+  billStatusUpdatedAt: v.optional(v.string()),
+  introducedDate: v.optional(v.string()),
+  policyArea: v.optional(v.string()),
+  subjects: v.optional(v.array(v.string())),
+  relatedBills: v.optional(v.array(relatedBillValidator)),
+  tagline: v.optional(v.string()),
+  summary: v.optional(v.string()),
+  changeAnalysis: v.optional(v.array(currentLawComparisonItemValidator)),
+  impactAreas: v.optional(v.array(v.string())),
+  structuredSummary: v.optional(v.array(structuredSummarySectionValidator)),
+});
 
 // ================================
 // CORE BILL QUERIES
@@ -8,46 +50,13 @@ import { v } from "convex/values";
 /**
  * Get a bill by its identifier (congress, billType, billNumber)
  */
-export const getBillByIdentifier = query({
+export const getBillByIdentifier = publicQuery({
   args: {
     congress: v.number(),
     billType: v.string(),
     billNumber: v.string(),
   },
-  returns: v.union(v.object({
-    _id: v.id("bills"),
-    _creationTime: v.number(),
-    congress: v.number(),
-    billType: v.string(),
-    billNumber: v.string(),
-    title: v.string(),
-    cleanedShortTitle: v.optional(v.string()),
-    sponsorId: v.optional(v.id("politicians")),
-    committees: v.optional(v.array(v.string())),
-    latestVersionCode: v.optional(v.string()),
-    latestActionDate: v.optional(v.string()),
-    status: v.string(),
-    tagline: v.optional(v.string()),
-    summary: v.optional(v.string()),
-    changeAnalysis: v.optional(v.any()),
-    impactAreas: v.optional(v.array(v.string())),
-    structuredSummary: v.optional(
-      v.array(
-        v.object({
-          title: v.string(),
-          text: v.string(),
-          citations: v.optional(
-            v.array(
-              v.object({
-                label: v.string(),
-                sectionId: v.string(),
-              }),
-            ),
-          ),
-        }),
-      ),
-    ),
-  }), v.null()),
+  returns: v.union(billValidator, v.null()),
   handler: async (ctx, args) => {
     const bill = await ctx.db
       .query("bills")
@@ -65,56 +74,12 @@ export const getBillByIdentifier = query({
 /**
  * Get full bill details with sponsor information
  */
-export const getBillWithSponsor = query({
+export const getBillWithSponsor = publicQuery({
   args: { billId: v.id("bills") },
   returns: v.union(
     v.object({
-      bill: v.object({
-        _id: v.id("bills"),
-        _creationTime: v.number(),
-        congress: v.number(),
-        billType: v.string(),
-        billNumber: v.string(),
-        title: v.string(),
-        cleanedShortTitle: v.optional(v.string()),
-        sponsorId: v.optional(v.id("politicians")),
-        committees: v.optional(v.array(v.string())),
-        latestVersionCode: v.optional(v.string()),
-        latestActionDate: v.optional(v.string()),
-        status: v.string(),
-        tagline: v.optional(v.string()),
-        summary: v.optional(v.string()),
-        changeAnalysis: v.optional(v.any()),
-        impactAreas: v.optional(v.array(v.string())),
-        structuredSummary: v.optional(
-          v.array(
-            v.object({
-              title: v.string(),
-              text: v.string(),
-              citations: v.optional(
-                v.array(
-                  v.object({
-                    label: v.string(),
-                    sectionId: v.string(),
-                  }),
-                ),
-              ),
-            }),
-          ),
-        ),
-      }),
-      sponsor: v.union(
-        v.object({
-          _id: v.id("politicians"),
-          _creationTime: v.number(),
-          name: v.string(),
-          govinfoId: v.optional(v.string()),
-          party: v.string(),
-          state: v.string(),
-          chamber: v.union(v.literal("House"), v.literal("Senate")),
-        }),
-        v.null()
-      ),
+      bill: billValidator,
+      sponsor: v.union(politicianValidator, v.null()),
     }),
     v.null()
   ),
@@ -131,6 +96,74 @@ export const getBillWithSponsor = query({
   },
 });
 
+// ================================
+// ACTIONS AND RELATED BILLS
+// ================================
+
+/**
+ * Get a bill's action history from BILLSTATUS, oldest first. Bills not yet synced
+ * return an empty list.
+ */
+export const getBillActions = publicQuery({
+  args: { billId: v.id("bills") },
+  returns: v.array(v.object({
+    _id: v.id("billActions"),
+    sequence: v.number(),
+    ...billStatusActionValidator.fields,
+  })),
+  handler: async (ctx, args) => {
+    const actions = await ctx.db
+      .query("billActions")
+      .withIndex("by_billId_and_sequence", (q) => q.eq("billId", args.billId))
+      .collect();
+
+    return actions.map((action) => ({
+      _id: action._id,
+      sequence: action.sequence,
+      actionDate: action.actionDate,
+      actionTime: action.actionTime,
+      text: action.text,
+      actionType: action.actionType,
+      actionCode: action.actionCode,
+      sourceSystem: action.sourceSystem,
+      chamber: action.chamber,
+      milestone: action.milestone,
+      committees: action.committees ?? [],
+      recordedVotes: action.recordedVotes ?? [],
+    }));
+  },
+});
+
+/**
+ * Get a bill's related bills, with the id of each one that is stored
+ */
+export const getRelatedBills = publicQuery({
+  args: { billId: v.id("bills") },
+  returns: v.array(v.object({
+    ...relatedBillValidator.fields,
+    billId: v.optional(v.id("bills")),
+    status: v.optional(v.string()),
+  })),
+  handler: async (ctx, args) => {
+    const bill = await ctx.db.get(args.billId);
+    if (!bill?.relatedBills) return [];
+
+    return await Promise.all(
+      bill.relatedBills.map(async (related) => {
+        const stored = await ctx.db
+          .query("bills")
+          .withIndex("by_identifier", (q) =>
+            q.eq("congress", related.congress)
+             .eq("billType", related.billType)
+             .eq("billNumber", related.billNumber)
+          )
+          .first();
+        return { ...related, billId: stored?._id, status: stored?.status };
+      }),
+    );
+  },
+});
+
 // ================================
 // BILL VERSIONS
 // ================================
@@ -138,7 +171,7 @@ export const getBillWithSponsor = query({
 /**
  * Get all versions of a bill
  */
-export const getBillVersions = query({
+export const getBillVersions = publicQuery({
   args: { billId: v.id("bills") },
   returns: v.array(v.object({
     _id: v.id("billVersions"),
@@ -172,7 +205,7 @@ export const getBillVersions = query({
 /**
  * Get the full text of a specific bill version
  */
-export const getBillVersionText = query({
+export const getBillVersionText = publicQuery({
   args: { versionId: v.id("billVersions") },
   returns: v.union(v.object({
     _id: v.id("billVersions"),
@@ -184,6 +217,13 @@ export const getBillVersionText = query({
     fullText: v.string(),
     xmlUrl: v.string(),
     textLength: v.optional(v.number()),
+    summary: v.optional(v.string()),
+    tagline: v.optional(v.string()),
+    impactAreas: v.optional(v.array(v.string())),
+    structuredSummary: v.optional(v.array(structuredSummarySectionValidator)),
+    outline: v.optional(v.array(billOutlineNodeValidator)),
+    changeAnalysis: v.optional(versionChangeAnalysisValidator),
+    currentLawComparison: v.optional(v.array(currentLawComparisonItemValidator)),
   }), v.null()),
   handler: async (ctx, args) => {
     const version = await ctx.db.get(args.versionId);
@@ -194,7 +234,7 @@ export const getBillVersionText = query({
 /**
  * Get the latest version of a bill with full text
  */
-export const getLatestBillVersion = query({
+export const getLatestBillVersion = publicQuery({
   args: { billId: v.id("bills") },
   returns: v.union(v.object({
     _id: v.id("billVersions"),
@@ -206,8 +246,22 @@ export const getLatestBillVersion = query({
     fullText: v.string(),
     xmlUrl: v.string(),
     textLength: v.optional(v.number()),
+    summary: v.optional(v.string()),
+    tagline: v.optional(v.string()),
+    impactAreas: v.optional(v.array(v.string())),
+    structuredSummary: v.optional(v.array(structuredSummarySectionValidator)),
+    outline: v.optional(v.array(billOutlineNodeValidator)),
+    changeAnalysis: v.optional(versionChangeAnalysisValidator),
+    currentLawComparison: v.optional(v.array(currentLawComparisonItemValidator)),
   }), v.null()),
   handler: async (ctx, args) => {
+    const bill = await ctx.db.get(args.billId);
+    if (bill?.latestVersionId) {
+      const latest = await ctx.db.get(bill.latestVersionId);
+      if (latest) return latest;
+    }
+
+    // Bills stored before latestVersionId was tracked
     const versions = await ctx.db
       .query("billVersions")
       .withIndex("by_billId_and_version", (q) => q.eq("billId", args.billId))
@@ -232,7 +286,7 @@ export const getLatestBillVersion = query({
 /**
  * Search for specific terms within a bill's text
  */
-export const searchBillText = query({
+export const searchBillText = publicQuery({
   args: {
     billId: v.id("bills"),
     searchTerm: v.string(),
@@ -297,52 +351,81 @@ export const searchBillText = query({
 // ================================
 
 /**
- * Compare two versions of a bill
+ * Section-aligned redline between two versions of the same bill (e.g. ih → rh, eh → eas).
+ * Sections are reported as inserted, deleted, modified (with word-level changes) or unchanged.
  */
-export const compareBillVersions = query({
+export const compareBillVersions = publicQuery({
   args: {
-    version1Id: v.id("billVersions"),
-    version2Id: v.id("billVersions"),
+    fromVersionId: v.id("billVersions"), // Earlier version
+    toVersionId: v.id("billVersions"),   // Later version
   },
   returns: v.union(v.object({
-    version1: v.object({
+    from: v.object({
       _id: v.id("billVersions"),
       versionCode: v.string(),
       title: v.string(),
       publishedDate: v.string(),
-      fullText: v.string(),
     }),
-    version2: v.object({
+    to: v.object({
       _id: v.id("billVersions"),
       versionCode: v.string(),
       title: v.string(),
       publishedDate: v.string(),
-      fullText: v.string(),
     }),
+    summary: v.object({
+      inserted: v.number(),
+      deleted: v.number(),
+      modified: v.number(),
+      unchanged: v.number(),
+    }),
+    sections: v.array(v.object({
+      status: v.union(
+        v.literal("inserted"),
+        v.literal("deleted"),
+        v.literal("modified"),
+        v.literal("unchanged"),
+      ),
+      label: v.string(),
+      fromLabel: v.optional(v.string()),
+      fromAnchor: v.optional(v.string()),
+      toAnchor: v.optional(v.string()),
+      segments: v.array(v.object({
+        type: v.union(v.literal("equal"), v.literal("delete"), v.literal("insert")),
+        text: v.string(),
+      })),
+    })),
   }), v.null()),
   handler: async (ctx, args) => {
-    const [version1, version2] = await Promise.all([
-      ctx.db.get(args.version1Id),
-      ctx.db.get(args.version2Id),
+    const [fromVersion, toVersion] = await Promise.all([
+      ctx.db.get(args.fromVersionId),
+      ctx.db.get(args.toVersionId),
     ]);
 
-    if (!version1 || !version2) return null;
+    if (!fromVersion || !toVersion || fromVersion.billId !== toVersion.billId) return null;
+
+    const sections = diffBillSections(fromVersion, toVersion);
+    const count = (status: string) => sections.filter((s) => s.status === status).length;
 
     return {
-      version1: {
-        _id: version1._id,
-        versionCode: version1.versionCode,
-        title: version1.title,
-        publishedDate: version1.publishedDate,
-        fullText: version1.fullText,
+      from: {
+        _id: fromVersion._id,
+        versionCode: fromVersion.versionCode,
+        title: fromVersion.title,
+        publishedDate: fromVersion.publishedDate,
       },
-      version2: {
-        _id: version2._id,
-        versionCode: version2.versionCode,
-        title: version2.title,
-        publishedDate: version2.publishedDate,
-        fullText: version2.fullText,
+      to: {
+        _id: toVersion._id,
+        versionCode: toVersion.versionCode,
+        title: toVersion.title,
+        publishedDate: toVersion.publishedDate,
       },
+      summary: {
+        inserted: count("inserted"),
+        deleted: count("deleted"),
+        modified: count("modified"),
+        unchanged: count("unchanged"),
+      },
+      sections,
     };
   },
 });
@@ -352,29 +435,217 @@ export const compareBillVersions = query({
 // ================================
 
 /**
- * Get politicians by committee
+ * Get a bill's cosponsors, current ones first (originals, then by date joined), with a
+ * party breakdown of the current ones. A cosponsorship is bipartisan when a current
+ * cosponsor's party differs from the sponsor's.
+ */
+export const getBillCosponsors = publicQuery({
+  args: { billId: v.id("bills") },
+  returns: v.object({
+    cosponsors: v.array(v.object({
+      _id: v.id("billCosponsors"),
+      politicianId: v.id("politicians"),
+      govinfoId: v.optional(v.string()),
+      name: v.string(),
+      party: v.string(),
+      state: v.string(),
+      district: v.optional(v.string()),
+      chamber: v.union(v.literal("House"), v.literal("Senate")),
+      sponsorshipDate: v.optional(v.string()),
+      isOriginalCosponsor: v.boolean(),
+      sponsorshipWithdrawnDate: v.optional(v.string()),
+    })),
+    breakdown: v.object({
+      current: v.number(),
+      original: v.number(),
+      withdrawn: v.number(),
+      parties: v.array(v.object({
+        party: v.string(),
+        count: v.number(),
+      })),
+      sponsorParty: v.optional(v.string()),
+      isBipartisan: v.boolean(),
+    }),
+  }),
+  handler: async (ctx, args) => {
+    const bill = await ctx.db.get(args.billId);
+    const sponsor = bill?.sponsorId ? await ctx.db.get(bill.sponsorId) : null;
+    const rows = await ctx.db
+      .query("billCosponsors")
+      .withIndex("by_billId_and_politicianId", (q) => q.eq("billId", args.billId))
+      .collect();
+
+    const cosponsors = [];
+    for (const row of rows) {
+      const politician = await ctx.db.get(row.politicianId);
+      if (!politician) continue;
+      cosponsors.push({
+        _id: row._id,
+        politicianId: row.politicianId,
+        govinfoId: politician.govinfoId,
+        name: politician.name,
+        party: politician.party,
+        state: politician.state,
+        district: politician.district,
+        chamber: politician.chamber,
+        sponsorshipDate: row.sponsorshipDate,
+        isOriginalCosponsor: row.isOriginalCosponsor,
+        sponsorshipWithdrawnDate: row.sponsorshipWithdrawnDate,
+      });
+    }
+    cosponsors.sort((a, b) =>
+      Number(!!a.sponsorshipWithdrawnDate) - Number(!!b.sponsorshipWithdrawnDate) ||
+      Number(b.isOriginalCosponsor) - Number(a.isOriginalCosponsor) ||
+      (a.sponsorshipDate ?? "").localeCompare(b.sponsorshipDate ?? "") ||
+      a.name.localeCompare(b.name)
+    );
+
+    // A member who withdrew and rejoined is listed twice but counted once
+    const current = new Map<string, string>();
+    for (const c of cosponsors) {
+      if (!c.sponsorshipWithdrawnDate) current.set(c.politicianId, c.party);
+    }
+    const withdrawn = new Set(
+      cosponsors.filter((c) => c.sponsorshipWithdrawnDate && !current.has(c.politicianId)).map((c) => c.politicianId)
+    );
+    const partyCounts = new Map<string, number>();
+    for (const party of current.values()) {
+      partyCounts.set(party, (partyCounts.get(party) ?? 0) + 1);
+    }
+    const sponsorParty = sponsor && sponsor.party !== "Unknown" ? sponsor.party : undefined;
+
+    return {
+      cosponsors,
+      breakdown: {
+        current: current.size,
+        original: new Set(cosponsors.filter((c) => c.isOriginalCosponsor && !c.sponsorshipWithdrawnDate).map((c) => c.politicianId)).size,
+        withdrawn: withdrawn.size,
+        parties: [...partyCounts]
+          .map(([party, count]) => ({ party, count }))
+          .sort((a, b) => b.count - a.count || a.party.localeCompare(b.party)),
+        sponsorParty,
+        isBipartisan: !!sponsorParty && [...current.values()].some((party) => party !== "Unknown" && party !== sponsorParty),
+      },
+    };
+  },
+});
+
+/**
+ * Get bills a politician has cosponsored, most recently joined first
  */
-export const getPoliticiansByCommittee = query({
+export const getBillsCosponsoredBy = publicQuery({
+  args: {
+    politicianId: v.id("politicians"),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(v.object({
+    _id: v.id("bills"),
+    congress: v.number(),
+    billType: v.string(),
+    billNumber: v.string(),
+    title: v.string(),
+    status: v.string(),
+    tagline: v.optional(v.string()),
+    latestActionDate: v.optional(v.string()),
+    sponsorshipDate: v.optional(v.string()),
+    isOriginalCosponsor: v.boolean(),
+    sponsorshipWithdrawnDate: v.optional(v.string()),
+  })),
+  handler: async (ctx, args) => {
+    const rows = await ctx.db
+      .query("billCosponsors")
+      .withIndex("by_politicianId", (q) => q.eq("politicianId", args.politicianId))
+      .collect();
+    rows.sort((a, b) => (b.sponsorshipDate ?? "").localeCompare(a.sponsorshipDate ?? "") || b._creationTime - a._creationTime);
+
+    const results = [];
+    for (const row of rows.slice(0, args.limit || 10)) {
+      const bill = await ctx.db.get(row.billId);
+      if (!bill) continue;
+      results.push({
+        _id: bill._id,
+        congress: bill.congress,
+        billType: bill.billType,
+        billNumber: bill.billNumber,
+        title: bill.title,
+        status: bill.status,
+        tagline: bill.tagline,
+        latestActionDate: bill.latestActionDate,
+        sponsorshipDate: row.sponsorshipDate,
+        isOriginalCosponsor: row.isOriginalCosponsor,
+        sponsorshipWithdrawnDate: row.sponsorshipWithdrawnDate,
+      });
+    }
+    return results;
+  },
+});
+
+/**
+ * Get the members of a committee, by code (e.g. "HSAG") or exact name. Committees not
+ * imported yet have no members.
+ */
+export const getPoliticiansByCommittee = publicQuery({
   args: { committee: v.string() },
+  returns: v.array(committeeMemberValidator),
+  handler: async (ctx, args) => {
+    const code = normalizeCommitteeCode(args.committee);
+    const committee =
+      (code
+        ? await ctx.db.query("committees").withIndex("by_code", (q) => q.eq("code", code)).first()
+        : null) ??
+      (await ctx.db.query("committees").withIndex("by_name", (q) => q.eq("name", args.committee)).first());
+    if (!committee) return [];
+
+    return await loadCommitteeMembers(ctx, committee._id);
+  },
+});
+
+/**
+ * Get the committees a bill was referred to, committees before their subcommittees
+ */
+export const getBillCommittees = publicQuery({
+  args: { billId: v.id("bills") },
   returns: v.array(v.object({
-    _id: v.id("politicians"),
+    _id: v.id("billCommitteeReferrals"),
+    committeeId: v.id("committees"),
+    code: v.string(),
     name: v.string(),
-    party: v.string(),
-    state: v.string(),
-    chamber: v.union(v.literal("House"), v.literal("Senate")),
+    chamber: committeeChamberValidator,
+    isSubcommittee: v.boolean(),
+    status: committeeReferralStatusValidator,
+    referredDate: v.optional(v.string()),
+    reportedDate: v.optional(v.string()),
   })),
-  handler: async () => {
-    // Note: This would require additional schema changes to track committee memberships
-    // For now, we'll return an empty array as this functionality would need
-    // additional data modeling for politician-committee relationships
-    return [];
+  handler: async (ctx, args) => {
+    const referrals = await ctx.db
+      .query("billCommitteeReferrals")
+      .withIndex("by_billId", (q) => q.eq("billId", args.billId))
+      .collect();
+
+    const results = [];
+    for (const referral of referrals) {
+      const committee = await ctx.db.get(referral.committeeId);
+      if (!committee) continue;
+      results.push({
+        _id: referral._id,
+        committeeId: committee._id,
+        code: committee.code,
+        name: committee.name,
+        chamber: committee.chamber,
+        isSubcommittee: committee.parentId !== undefined,
+        status: referral.status,
+        referredDate: referral.referredDate,
+        reportedDate: referral.reportedDate,
+      });
+    }
+    return results.sort((a, b) => a.code.localeCompare(b.code));
   },
 });
 
 /**
  * Get bills by the same sponsor
  */
-export const getBillsBySponsor = query({
+export const getBillsBySponsor = publicQuery({
   args: {
     sponsorId: v.id("politicians"),
     limit: v.optional(v.number()),
@@ -409,17 +680,146 @@ export const getBillsBySponsor = query({
   },
 });
 
+// ================================
+// ROLL CALL VOTES
+// ================================
+
+/**
+ * Get the roll call votes on a bill, oldest first
+ */
+export const getBillRollCalls = publicQuery({
+  args: { billId: v.id("bills") },
+  returns: v.array(rollCallValidator),
+  handler: async (ctx, args) => {
+    const rollCalls = await ctx.db
+      .query("rollCalls")
+      .withIndex("by_billId_and_date", (q) => q.eq("billId", args.billId))
+      .collect();
+    return rollCalls.sort((a, b) => a.date.localeCompare(b.date) || a.rollNumber - b.rollNumber);
+  },
+});
+
+/**
+ * Get how each member voted on a roll call, by position and then by name
+ */
+export const getRollCallVotes = publicQuery({
+  args: { rollCallId: v.id("rollCalls") },
+  returns: v.array(v.object({
+    politicianId: v.id("politicians"),
+    govinfoId: v.optional(v.string()),
+    name: v.string(),
+    party: v.string(),
+    state: v.string(),
+    district: v.optional(v.string()),
+    position: votePositionValidator,
+    voteCast: v.string(),
+  })),
+  handler: async (ctx, args) => {
+    const votes = await ctx.db
+      .query("memberVotes")
+      .withIndex("by_rollCallId", (q) => q.eq("rollCallId", args.rollCallId))
+      .collect();
+
+    const positionOrder = ["yea", "nay", "present", "not_voting", "other"];
+    const results = [];
+    for (const vote of votes) {
+      const politician = await ctx.db.get(vote.politicianId);
+      if (!politician) continue;
+      results.push({
+        politicianId: politician._id,
+        govinfoId: politician.govinfoId,
+        name: politician.name,
+        party: politician.party,
+        state: politician.state,
+        district: politician.district,
+        position: vote.position,
+        voteCast: vote.voteCast,
+      });
+    }
+    return results.sort((a, b) =>
+      positionOrder.indexOf(a.position) - positionOrder.indexOf(b.position) || a.name.localeCompare(b.name)
+    );
+  },
+});
+
 // ================================
 // CITATION NAVIGATION
 // ================================
 
 /**
- * Get specific sections of bill text by sectionId across all versions of a bill
+ * Get the table of contents (divisions, titles, subtitles, ..., sections) of a bill version.
+ * Versions ingested before outlines were stored return an empty list.
+ */
+export const getBillSectionTree = publicQuery({
+  args: { versionId: v.id("billVersions") },
+  returns: v.array(v.object({
+    anchor: v.string(),
+    level: v.string(),
+    enum: v.optional(v.string()),
+    header: v.optional(v.string()),
+    label: v.string(),
+    depth: v.number(),
+    start: v.number(),
+    end: v.number(),
+  })),
+  handler: async (ctx, args) => {
+    const version = await ctx.db.get(args.versionId);
+    if (!version?.outline) return [];
+    return buildSectionToc(version.outline);
+  },
+});
+
+// Regex lookup for versions stored before outlines were parsed
+const findSectionByPattern = (fullText: string, sectionId: string): { start: number; end: number } | null => {
+  // Try to find the section by common patterns
+  const sectionPatterns = [
+    new RegExp(`SEC\\. ${sectionId}\\b`, 'i'),
+    new RegExp(`Section ${sectionId}\\b`, 'i'),
+    new RegExp(`\\(${sectionId}\\)`, 'i'),
+  ];
+
+  let matchIndex = -1;
+  for (const pattern of sectionPatterns) {
+    const m = fullText.search(pattern);
+    if (m !== -1) {
+      matchIndex = m;
+      break;
+    }
+  }
+
+  // Fallback: phrase-based search if no numeric/section pattern found
+  if (matchIndex === -1) {
+    const needle = sectionId.trim().toLowerCase();
+    if (needle.length > 0) {
+      matchIndex = fullText.toLowerCase().indexOf(needle);
+    }
+  }
+  if (matchIndex === -1) return null;
+
+  // Find the next section or a reasonable boundary
+  const tail = fullText.substring(matchIndex + 1);
+  const nextSectionMatch = tail.search(/SEC\. \d+|Section \d+/i);
+  if (nextSectionMatch !== -1) {
+    return { start: matchIndex, end: matchIndex + 1 + nextSectionMatch };
+  }
+  // Secondary boundary: next double newline or cap the slice length
+  const doubleNl = tail.search(/\n\n/);
+  if (doubleNl !== -1) {
+    return { start: matchIndex, end: matchIndex + 1 + doubleNl };
+  }
+  return { start: matchIndex, end: Math.min(fullText.length, matchIndex + 2000) };
+};
+
+/**
+ * Get a section of bill text by sectionId (a citation like "101", "SEC. 101" or an anchor
+ * like "sec-101"), looking in the preferred version first and then the other versions.
+ * Sections are resolved from each version's outline.
  */
-export const getBillSection = query({
+export const getBillSection = publicQuery({
   args: {
     billId: v.id("bills"),
     sectionId: v.string(),
+    versionId: v.optional(v.id("billVersions")), // Version to search first
   },
   returns: v.union(v.object({
     content: v.string(),
@@ -427,70 +827,36 @@ export const getBillSection = query({
     endPosition: v.number(),
     versionId: v.id("billVersions"),
     versionCode: v.string(),
+    anchor: v.optional(v.string()),
   }), v.null()),
   handler: async (ctx, args) => {
-    // Get all versions of the bill
+    // Get all versions of the bill, preferred version first
     const versions = await ctx.db
       .query("billVersions")
       .withIndex("by_billId_and_version", (q) => q.eq("billId", args.billId))
       .collect();
+    versions.sort((a, b) => Number(b._id === args.versionId) - Number(a._id === args.versionId));
 
-    // Search through versions for the section
     for (const version of versions) {
-      const fullText = version.fullText;
-      let startPosition = 0;
-      let endPosition = fullText.length;
-
-      // Try to find the section by common patterns
-      const sectionPatterns = [
-        new RegExp(`SEC\\. ${args.sectionId}\\b`, 'i'),
-        new RegExp(`Section ${args.sectionId}\\b`, 'i'),
-        new RegExp(`\\(${args.sectionId}\\)`, 'i'),
-      ];
-
-      let matchIndex = -1;
-      for (const pattern of sectionPatterns) {
-        const m = fullText.search(pattern);
-        if (m !== -1) {
-          matchIndex = m;
-          break;
-        }
-      }
-
-      // Fallback: phrase-based search if no numeric/section pattern found
-      if (matchIndex === -1) {
-        const needle = args.sectionId.trim().toLowerCase();
-        if (needle.length > 0) {
-          const idx = fullText.toLowerCase().indexOf(needle);
-          if (idx !== -1) {
-            matchIndex = idx;
-          }
-        }
+      if (version.outline) {
+        const entry = findSectionTocEntry(buildSectionToc(version.outline), args.sectionId);
+        if (!entry) continue;
+        return {
+          content: version.fullText.substring(entry.start, entry.end),
+          startPosition: entry.start,
+          endPosition: entry.end,
+          versionId: version._id,
+          versionCode: version.versionCode,
+          anchor: entry.anchor,
+        };
       }
 
-      if (matchIndex !== -1) {
-        startPosition = matchIndex;
-        // Find the next section or a reasonable boundary
-        const tail = fullText.substring(matchIndex + 1);
-        const nextSectionRegex = /SEC\. \d+|Section \d+/i;
-        const nextSectionMatch = tail.search(nextSectionRegex);
-        if (nextSectionMatch !== -1) {
-          endPosition = matchIndex + 1 + nextSectionMatch;
-        } else {
-          // Secondary boundary: next double newline or cap the slice length
-          const doubleNl = tail.search(/\n\n/);
-          if (doubleNl !== -1) {
-            endPosition = matchIndex + 1 + doubleNl;
-          } else {
-            // Cap to a window if no boundary found
-            endPosition = Math.min(fullText.length, startPosition + 2000);
-          }
-        }
-
+      const match = findSectionByPattern(version.fullText, args.sectionId);
+      if (match) {
         return {
-          content: fullText.substring(startPosition, endPosition),
-          startPosition,
-          endPosition,
+          content: version.fullText.substring(match.start, match.end),
+          startPosition: match.start,
+          endPosition: match.end,
           versionId: version._id,
           versionCode: version.versionCode,
         };
@@ -504,7 +870,7 @@ export const getBillSection = query({
 /**
  * Get specific sections of bill text by line numbers for a specific version
  */
-export const getBillSectionByLines = query({
+export const getBillSectionByLines = publicQuery({
   args: {
     versionId: v.id("billVersions"),
     startLine: v.number(),
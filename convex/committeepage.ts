@@ -0,0 +1,141 @@
+import { v } from "convex/values";
+import { publicQuery } from "./authz";
+import { committeeValidator } from "./committees";
+import { committeeChamberValidator, committeeReferralStatusValidator, normalizeCommitteeCode } from "../utils/committees";
+
+// Bills listed per status on a committee page
+const DEFAULT_BILL_LIMIT = 20;
+
+const committeeSummaryValidator = v.object({
+  _id: v.id("committees"),
+  code: v.string(),
+  name: v.string(),
+});
+
+// ================================
+// CORE COMMITTEE QUERIES
+// ================================
+
+/**
+ * Get a committee by code (e.g. "HSAG", "hsag00", "HAG00"), with its parent and subcommittees
+ */
+export const getCommitteeByCode = publicQuery({
+  args: { code: v.string() },
+  returns: v.union(
+    v.object({
+      committee: committeeValidator,
+      parent: v.union(committeeSummaryValidator, v.null()),
+      subcommittees: v.array(committeeSummaryValidator),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const code = normalizeCommitteeCode(args.code);
+    if (!code) return null;
+    const committee = await ctx.db
+      .query("committees")
+      .withIndex("by_code", (q) => q.eq("code", code))
+      .first();
+    if (!committee) return null;
+
+    const parent = committee.parentId ? await ctx.db.get(committee.parentId) : null;
+    const subcommittees = await ctx.db
+      .query("committees")
+      .withIndex("by_parentId", (q) => q.eq("parentId", committee._id))
+      .collect();
+
+    return {
+      committee,
+      parent: parent ? { _id: parent._id, code: parent.code, name: parent.name } : null,
+      subcommittees: subcommittees
+        .map((s) => ({ _id: s._id, code: s.code, name: s.name }))
+        .sort((a, b) => a.code.localeCompare(b.code)),
+    };
+  },
+});
+
+/**
+ * List full committees (not subcommittees) by name, optionally of one chamber
+ */
+export const listCommittees = publicQuery({
+  args: {
+    chamber: v.optional(committeeChamberValidator),
+  },
+  returns: v.array(v.object({
+    _id: v.id("committees"),
+    code: v.string(),
+    name: v.string(),
+    chamber: committeeChamberValidator,
+  })),
+  handler: async (ctx, args) => {
+    const chamber = args.chamber;
+    const committees = chamber
+      ? await ctx.db.query("committees").withIndex("by_chamber", (q) => q.eq("chamber", chamber)).collect()
+      : await ctx.db.query("committees").withIndex("by_name").collect();
+
+    return committees
+      .filter((c) => c.parentId === undefined)
+      .map((c) => ({ _id: c._id, code: c.code, name: c.name, chamber: c.chamber }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// ================================
+// REFERRED BILLS
+// ================================
+
+/**
+ * Get the bills referred to a committee with one referral status: "referred" bills are
+ * pending before it, "reported" ones it sent to the floor. Most recent first.
+ */
+export const getCommitteeBills = publicQuery({
+  args: {
+    committeeId: v.id("committees"),
+    status: committeeReferralStatusValidator,
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    total: v.number(),
+    bills: v.array(v.object({
+      _id: v.id("bills"),
+      congress: v.number(),
+      billType: v.string(),
+      billNumber: v.string(),
+      title: v.string(),
+      status: v.string(),
+      tagline: v.optional(v.string()),
+      latestActionDate: v.optional(v.string()),
+      referredDate: v.optional(v.string()),
+      reportedDate: v.optional(v.string()),
+    })),
+  }),
+  handler: async (ctx, args) => {
+    const referrals = await ctx.db
+      .query("billCommitteeReferrals")
+      .withIndex("by_committeeId_and_status", (q) => q.eq("committeeId", args.committeeId).eq("status", args.status))
+      .collect();
+    referrals.sort((a, b) =>
+      (b.reportedDate ?? b.referredDate ?? "").localeCompare(a.reportedDate ?? a.referredDate ?? "") ||
+      b._creationTime - a._creationTime
+    );
+
+    const bills = [];
+    for (const referral of referrals.slice(0, args.limit || DEFAULT_BILL_LIMIT)) {
+      const bill = await ctx.db.get(referral.billId);
+      if (!bill) continue;
+      bills.push({
+        _id: bill._id,
+        congress: bill.congress,
+        billType: bill.billType,
+        billNumber: bill.billNumber,
+        title: bill.title,
+        status: bill.status,
+        tagline: bill.tagline,
+        latestActionDate: bill.latestActionDate,
+        referredDate: referral.referredDate,
+        reportedDate: referral.reportedDate,
+      });
+    }
+    return { total: referrals.length, bills };
+  },
+});
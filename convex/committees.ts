@@ -0,0 +1,349 @@
+import { v, Infer } from "convex/values";
+import { internalMutation, ActionCtx, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { roleAction, roleMutation, roleQuery } from "./authz";
+import {
+  CommitteeChamber,
+  committeeChamberValidator,
+  getCommitteeChamber,
+  getParentCommitteeCode,
+  parseCommitteesFile,
+} from "../utils/committees";
+
+// Committees, their members and the bills referred to them. Committee details and seats
+// come from congress-legislators committee files; referrals from BILLSTATUS and bill text
+// (see storeBillStatus and storeBillData), which create committees they name first.
+
+// Records are written in batches to stay well under per-mutation write limits
+const UPSERT_BATCH_SIZE = 100;
+
+// Convex validator for CommitteeRecord (see types.ts)
+export const committeeRecordValidator = v.object({
+  code: v.string(),
+  name: v.string(),
+  chamber: committeeChamberValidator,
+  parentCode: v.optional(v.string()),
+  url: v.optional(v.string()),
+  jurisdiction: v.optional(v.string()),
+  address: v.optional(v.string()),
+  phone: v.optional(v.string()),
+});
+
+// Convex validator for CommitteeMemberRecord (see types.ts)
+export const committeeMemberRecordValidator = v.object({
+  committeeCode: v.string(),
+  bioguideId: v.string(),
+  name: v.string(),
+  side: v.union(v.literal("majority"), v.literal("minority")),
+  rank: v.optional(v.number()),
+  title: v.optional(v.string()),
+});
+
+// Convex validator for a full committees document
+export const committeeValidator = v.object({
+  _id: v.id("committees"),
+  _creationTime: v.number(),
+  code: v.string(),
+  name: v.string(),
+  chamber: committeeChamberValidator,
+  parentId: v.optional(v.id("committees")),
+  url: v.optional(v.string()),
+  jurisdiction: v.optional(v.string()),
+  address: v.optional(v.string()),
+  phone: v.optional(v.string()),
+  committeesImportedAt: v.optional(v.number()),
+});
+
+export const committeesImportResultValidator = v.object({
+  kind: v.union(v.literal("committees"), v.literal("members")),
+  parsed: v.number(),
+  stored: v.number(),
+  skipped: v.number(),
+});
+
+/**
+ * The committee with a code, created from what the caller knows when it is new.
+ * Subcommittees are linked to their parent when it exists.
+ */
+export const resolveCommittee = async (
+  ctx: MutationCtx,
+  committee: { code: string; name: string; chamber?: CommitteeChamber },
+): Promise<Id<"committees">> => {
+  const existing = await ctx.db
+    .query("committees")
+    .withIndex("by_code", (q) => q.eq("code", committee.code))
+    .first();
+  if (existing) return existing._id;
+
+  const parentCode = getParentCommitteeCode(committee.code);
+  const parent = parentCode
+    ? await ctx.db.query("committees").withIndex("by_code", (q) => q.eq("code", parentCode)).first()
+    : null;
+  return await ctx.db.insert("committees", {
+    code: committee.code,
+    name: committee.name,
+    chamber: committee.chamber ?? getCommitteeChamber(committee.code),
+    parentId: parent?._id,
+  });
+};
+
+// Convex validator for a committee seat with its member
+export const committeeMemberValidator = v.object({
+  politicianId: v.id("politicians"),
+  govinfoId: v.optional(v.string()),
+  name: v.string(),
+  party: v.string(),
+  state: v.string(),
+  chamber: v.union(v.literal("House"), v.literal("Senate")),
+  side: v.union(v.literal("majority"), v.literal("minority")),
+  rank: v.optional(v.number()),
+  title: v.optional(v.string()),
+});
+
+/**
+ * A committee's members, majority first, each side by rank
+ */
+export const loadCommitteeMembers = async (
+  ctx: QueryCtx,
+  committeeId: Id<"committees">,
+): Promise<Array<Infer<typeof committeeMemberValidator>>> => {
+  const seats = await ctx.db
+    .query("committeeMemberships")
+    .withIndex("by_committeeId", (q) => q.eq("committeeId", committeeId))
+    .collect();
+
+  const members: Array<Infer<typeof committeeMemberValidator>> = [];
+  for (const seat of seats) {
+    const politician = await ctx.db.get(seat.politicianId);
+    if (!politician) continue;
+    members.push({
+      politicianId: politician._id,
+      govinfoId: politician.govinfoId,
+      name: politician.name,
+      party: politician.party,
+      state: politician.state,
+      chamber: politician.chamber,
+      side: seat.side,
+      rank: seat.rank,
+      title: seat.title,
+    });
+  }
+  return members.sort((a, b) =>
+    Number(a.side === "minority") - Number(b.side === "minority") ||
+    (a.rank ?? Infinity) - (b.rank ?? Infinity) ||
+    a.name.localeCompare(b.name)
+  );
+};
+
+// ================================
+// IMPORT
+// ================================
+
+/**
+ * Upsert committees by code; parents must come before their subcommittees
+ */
+export const upsertCommittees = internalMutation({
+  args: {
+    committees: v.array(committeeRecordValidator),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const importedAt = Date.now();
+    for (const committee of args.committees) {
+      const parentCode = committee.parentCode;
+      const parent = parentCode
+        ? await ctx.db.query("committees").withIndex("by_code", (q) => q.eq("code", parentCode)).first()
+        : null;
+      const fields = {
+        code: committee.code,
+        name: committee.name,
+        chamber: committee.chamber,
+        parentId: parent?._id,
+        url: committee.url,
+        jurisdiction: committee.jurisdiction,
+        address: committee.address,
+        phone: committee.phone,
+        committeesImportedAt: importedAt,
+      };
+
+      const existing = await ctx.db
+        .query("committees")
+        .withIndex("by_code", (q) => q.eq("code", committee.code))
+        .first();
+      if (existing) {
+        await ctx.db.patch(existing._id, fields);
+      } else {
+        await ctx.db.insert("committees", fields);
+      }
+    }
+    return args.committees.length;
+  },
+});
+
+/**
+ * Replace the seats of every committee in the batch. Seats of committees or members not
+ * stored yet are skipped; import committees and legislators first.
+ */
+export const replaceCommitteeMemberships = internalMutation({
+  args: {
+    members: v.array(committeeMemberRecordValidator),
+  },
+  returns: v.object({
+    stored: v.number(),
+    skipped: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    const byCommittee = new Map<string, typeof args.members>();
+    for (const member of args.members) {
+      byCommittee.set(member.committeeCode, [...(byCommittee.get(member.committeeCode) ?? []), member]);
+    }
+
+    let stored = 0;
+    let skipped = 0;
+    for (const [code, members] of byCommittee) {
+      const committee = await ctx.db
+        .query("committees")
+        .withIndex("by_code", (q) => q.eq("code", code))
+        .first();
+      if (!committee) {
+        skipped += members.length;
+        continue;
+      }
+
+      const existingSeats = await ctx.db
+        .query("committeeMemberships")
+        .withIndex("by_committeeId", (q) => q.eq("committeeId", committee._id))
+        .collect();
+      for (const seat of existingSeats) {
+        await ctx.db.delete(seat._id);
+      }
+
+      for (const member of members) {
+        const politician = await ctx.db
+          .query("politicians")
+          .withIndex("by_govinfoId", (q) => q.eq("govinfoId", member.bioguideId))
+          .first();
+        if (!politician) {
+          skipped++;
+          continue;
+        }
+        await ctx.db.insert("committeeMemberships", {
+          committeeId: committee._id,
+          politicianId: politician._id,
+          side: member.side,
+          rank: member.rank,
+          title: member.title,
+        });
+        stored++;
+      }
+    }
+    return { stored, skipped };
+  },
+});
+
+/**
+ * Parse a committees or committee membership file and store it in batches
+ */
+export const importCommittees = async (
+  ctx: ActionCtx,
+  content: string,
+): Promise<{ kind: "committees" | "members"; parsed: number; stored: number; skipped: number }> => {
+  const parsed = parseCommitteesFile(content);
+
+  if (parsed.kind === "committees") {
+    let stored = 0;
+    for (let i = 0; i < parsed.committees.length; i += UPSERT_BATCH_SIZE) {
+      stored += await ctx.runMutation(internal.committees.upsertCommittees, {
+        committees: parsed.committees.slice(i, i + UPSERT_BATCH_SIZE),
+      });
+    }
+    console.log(`Imported ${stored} committees and subcommittees`);
+    return { kind: "committees", parsed: parsed.committees.length, stored, skipped: 0 };
+  }
+
+  // A committee's seats are replaced together, so batches hold whole committees
+  let stored = 0;
+  let skipped = 0;
+  let batch: typeof parsed.members = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const result = await ctx.runMutation(internal.committees.replaceCommitteeMemberships, { members: batch });
+    stored += result.stored;
+    skipped += result.skipped;
+    batch = [];
+  };
+  let previousCode: string | undefined;
+  for (const member of parsed.members) {
+    if (member.committeeCode !== previousCode && batch.length >= UPSERT_BATCH_SIZE) {
+      await flush();
+    }
+    batch.push(member);
+    previousCode = member.committeeCode;
+  }
+  await flush();
+
+  console.log(`Imported ${stored} committee seats, skipped ${skipped}`);
+  return { kind: "members", parsed: parsed.members.length, stored, skipped };
+};
+
+// ================================
+// ADMIN CONTROLS
+// ================================
+
+export const getCommitteesImportStatus = roleQuery("admin", {
+  args: {},
+  returns: v.object({
+    committees: v.number(),
+    subcommittees: v.number(),
+    seats: v.number(),
+    lastImportedAt: v.optional(v.number()),
+  }),
+  handler: async (ctx) => {
+    const committees = await ctx.db.query("committees").collect();
+    const seats = await ctx.db.query("committeeMemberships").collect();
+    let lastImportedAt: number | undefined;
+    for (const committee of committees) {
+      if (committee.committeesImportedAt !== undefined) {
+        lastImportedAt = Math.max(lastImportedAt ?? 0, committee.committeesImportedAt);
+      }
+    }
+    return {
+      committees: committees.filter((c) => !c.parentId).length,
+      subcommittees: committees.filter((c) => c.parentId).length,
+      seats: seats.length,
+      lastImportedAt,
+    };
+  },
+});
+
+export const generateCommitteesUploadUrl = roleMutation("admin", {
+  args: {},
+  returns: v.string(),
+  handler: async (ctx) => {
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Import an uploaded committees-current.yaml or committee-membership-current.yaml (or
+ * their .json twins); the file's shape decides which. The upload is deleted afterwards.
+ */
+export const importCommitteesFromUpload = roleAction("admin", {
+  args: {
+    storageId: v.id("_storage"),
+  },
+  returns: committeesImportResultValidator,
+  handler: async (ctx, args): Promise<{ kind: "committees" | "members"; parsed: number; stored: number; skipped: number }> => {
+    const blob = await ctx.storage.get(args.storageId);
+    if (!blob) {
+      throw new Error("Uploaded committees file not found");
+    }
+
+    try {
+      return await importCommittees(ctx, await blob.text());
+    } finally {
+      await ctx.storage.delete(args.storageId);
+    }
+  },
+});
@@ -11,4 +11,21 @@ crons.interval(
   { maxFiles: 1, interBatchDelayMs: 1500 },
 );
 
+// Re-attempt failed bill files whose retry backoff has elapsed
+crons.interval(
+  "retry failed ingestions",
+  { hours: 1 },
+  internal.workflows.runRetryFailedIngestionsCron,
+  { maxFiles: 10, interBatchDelayMs: 1500 },
+);
+
+// Sync bill status and action history from BILLSTATUS; a large backlog (e.g. the
+// first sync of a congress) drains oldest-first over successive runs
+crons.interval(
+  "bill status sync",
+  { hours: 6 },
+  internal.workflows.runBillStatusSyncCron,
+  { maxFiles: 250, interBatchDelayMs: 1500 },
+);
+
 export default crons;
\ No newline at end of file
@@ -0,0 +1,111 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import { internal } from "./_generated/api";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const billUrl = (versionCode: string) =>
+  `https://www.govinfo.gov/content/pkg/BILLS-118hr1234${versionCode}/xml/BILLS-118hr1234${versionCode}.xml`;
+
+describe("shouldProcessBillVersion", () => {
+  test("stores earlier versions that arrive after a later one, but not twice", async () => {
+    const t = convexTest(schema, modules);
+    const billId = await t.run(async (ctx) => {
+      const billId = await ctx.db.insert("bills", {
+        congress: 118,
+        billType: "hr",
+        billNumber: "1234",
+        title: "A bill",
+        latestVersionCode: "enr",
+        status: "Enrolled",
+      });
+      await ctx.db.insert("billVersions", {
+        billId,
+        versionCode: "enr",
+        title: "A bill",
+        publishedDate: "2024-05-01",
+        fullText: "",
+        xmlUrl: billUrl("enr"),
+      });
+      return billId;
+    });
+
+    const earlier = await t.query(internal.dataPipeline.shouldProcessBillVersion, { xmlUrl: billUrl("ih") });
+    expect(earlier).toMatchObject({ shouldProcess: true, code: "earlier_version", existingBillId: billId });
+
+    await t.run(async (ctx) => {
+      await ctx.db.insert("billVersions", {
+        billId,
+        versionCode: "ih",
+        title: "A bill",
+        publishedDate: "2024-01-01",
+        fullText: "",
+        xmlUrl: "https://example.com/BILLS-118hr1234ih-reissued.xml",
+      });
+    });
+    const duplicate = await t.query(internal.dataPipeline.shouldProcessBillVersion, { xmlUrl: billUrl("ih") });
+    expect(duplicate).toMatchObject({ shouldProcess: false, code: "same_version" });
+  });
+});
+
+describe("storeBillData", () => {
+  const storeArgs = (versionCode: string) => ({
+    congress: 118,
+    billType: "hr",
+    billNumber: "1234",
+    versionCode,
+    officialTitle: "A bill",
+    sponsor: { name: "N/A" },
+    cosponsors: [],
+    committees: [],
+    actionDate: "2024-01-01",
+    xmlUrl: billUrl(versionCode),
+    fullText: "SEC. 1. Short title.",
+    summary: "",
+    tagLine: "",
+    impactAreas: [],
+  });
+
+  test("re-enriching a stored version refreshes its analysis", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(internal.dataPipeline.storeBillData, storeArgs("ih"));
+    const previousVersionId = await t.run(async (ctx) => (await ctx.db.query("billVersions").first())!._id);
+
+    const analysis = (overview: string) => ({
+      previousVersionId,
+      previousVersionCode: "ih",
+      overview,
+      changes: [],
+      generatedAt: 0,
+    });
+    const comparison = (title: string) => [{
+      title,
+      currentLaw: "Current law",
+      proposedChange: "Proposed change",
+      instruction: "Strike and insert",
+      citations: [],
+    }];
+
+    await t.mutation(internal.dataPipeline.storeBillData, {
+      ...storeArgs("eh"),
+      summary: "First summary",
+      changeAnalysis: analysis("First analysis"),
+      currentLawComparison: comparison("First comparison"),
+    });
+    await t.mutation(internal.dataPipeline.storeBillData, {
+      ...storeArgs("eh"),
+      summary: "Second summary",
+      changeAnalysis: analysis("Second analysis"),
+      currentLawComparison: comparison("Second comparison"),
+    });
+
+    const versions = await t.run(async (ctx) => await ctx.db.query("billVersions").collect());
+    const engrossed = versions.find((version) => version.versionCode === "eh");
+    expect(versions).toHaveLength(2);
+    expect(engrossed?.summary).toBe("Second summary");
+    expect(engrossed?.changeAnalysis?.overview).toBe("Second analysis");
+    expect(engrossed?.currentLawComparison?.[0].title).toBe("Second comparison");
+  });
+});
@@ -1,10 +1,20 @@
-import { v } from "convex/values";
-import { action, internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { FunctionArgs } from "convex/server";
+import { internalAction, internalMutation, internalQuery, ActionCtx } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { Id } from "./_generated/dataModel";
-import { BillData, ExtractedBillData, BillAnalysisInput } from "../types";
-import { parseBillInfoFromUrl, getVersionPriority, parseBillXMLData, getBillStatusFromVersionCode } from "../utils/dataHelpers";
-import { billAnalysisAgent, rag } from "./agent";
+import { ExtractedBillData, BillAnalysisInput, UsCodeCitation } from "../types";
+import { parseBillInfoFromUrl, getVersionPriority, parseBillXMLData, getBillStatusFromVersionCode, fetchUsCodeSectionText } from "../utils/dataHelpers";
+import { createGovinfoBillSource, resolveDiscoveryTargets } from "../utils/billSources";
+import { diffBillSections, formatRedlineForPrompt } from "../utils/billDiff";
+import { parseBillDate } from "../utils/dates";
+import { billAnalysisAgent, ingestionUsageHandler, rag } from "./agent";
+import { loadIngestPolicy } from "./ingestionPolicy";
+import { getIngestAction, getOriginChamber, getVersionCodeInfo } from "../utils/versionCodes";
+import { MAX_INGESTION_ATTEMPTS, getRetryBackoffMs, isOpenFailure, resolveOpenFailures } from "./failedIngestions";
+import { IngestionError, IngestionErrorCode, canRetryIngestionLater, ingestionErrorCodeValidator, toIngestionError } from "../utils/ingestionErrors";
+import { roleAction } from "./authz";
+import { resolveCommittee } from "./committees";
 
 // Convex validators for our types
 export const billSponsorValidator = v.object({
@@ -12,6 +22,38 @@ export const billSponsorValidator = v.object({
   nameId: v.optional(v.string()),
 });
 
+export const billOutlineNodeValidator = v.object({
+  level: v.string(),
+  id: v.optional(v.string()),
+  enum: v.optional(v.string()),
+  header: v.optional(v.string()),
+  depth: v.number(),
+  start: v.number(),
+  end: v.number(),
+});
+
+export const usCodeCitationValidator = v.object({
+  title: v.number(),
+  section: v.string(),
+  cite: v.string(),
+  url: v.string(),
+});
+
+export const billAmendmentValidator = v.object({
+  instruction: v.string(),
+  quotedText: v.optional(v.string()),
+  targets: v.array(usCodeCitationValidator),
+  start: v.number(),
+  end: v.number(),
+  sectionAnchor: v.optional(v.string()),
+  sectionLabel: v.optional(v.string()),
+});
+
+const billCommitteeRefValidator = v.object({
+  code: v.string(),
+  name: v.string(),
+});
+
 export const extractedBillDataValidator = v.object({
   congress: v.number(),
   billType: v.string(),
@@ -22,45 +64,110 @@ export const extractedBillDataValidator = v.object({
   sponsor: billSponsorValidator,
   cosponsors: v.array(billSponsorValidator),
   committees: v.array(v.string()),
+  committeeReferrals: v.optional(v.array(billCommitteeRefValidator)),
   actionDate: v.optional(v.string()),
   xmlUrl: v.string(),
   fullText: v.string(),
+  outline: v.optional(v.array(billOutlineNodeValidator)),
+  amendments: v.optional(v.array(billAmendmentValidator)),
   summary: v.string(),
   tagLine: v.string(),
   impactAreas: v.array(v.string()),
 });
 
-export const billSummaryDataValidator = v.object({
-  summary: v.string(),
-  tagLine: v.string(),
-  impactAreas: v.array(v.string()),
-  structuredSummary: v.optional(
+export const structuredSummarySectionValidator = v.object({
+  title: v.string(),
+  text: v.string(),
+  citations: v.optional(
     v.array(
       v.object({
-        title: v.string(),
-        text: v.string(),
-        citations: v.optional(
-          v.array(
-            v.object({
-              label: v.string(),
-              sectionId: v.string(),
-            }),
-          ),
-        ),
+        label: v.string(),
+        sectionId: v.string(),
       }),
     ),
   ),
 });
 
+export const billSummaryDataValidator = v.object({
+  summary: v.string(),
+  tagLine: v.string(),
+  impactAreas: v.array(v.string()),
+  structuredSummary: v.optional(v.array(structuredSummarySectionValidator)),
+});
+
+export const versionChangeItemValidator = v.object({
+  title: v.string(),
+  description: v.string(),
+  changeType: v.union(v.literal("added"), v.literal("removed"), v.literal("modified")),
+  citations: v.array(
+    v.object({
+      label: v.string(),
+      sectionId: v.string(),
+    }),
+  ),
+});
+
+export const versionChangeAnalysisValidator = v.object({
+  previousVersionId: v.id("billVersions"),
+  previousVersionCode: v.string(),
+  overview: v.string(),
+  changes: v.array(versionChangeItemValidator),
+  generatedAt: v.number(),
+});
+
+export const currentLawComparisonItemValidator = v.object({
+  title: v.string(),
+  currentLaw: v.string(),
+  proposedChange: v.string(),
+  instruction: v.string(),
+  target: v.optional(usCodeCitationValidator),
+  citations: v.array(
+    v.object({
+      label: v.string(),
+      sectionId: v.string(),
+    }),
+  ),
+});
+
+// Ingest one file outside a workflow. These runs have no step retries, so a transient
+// failure is handed straight to the failedIngestions retry queue.
+const ingestOrQueueForRetry = async (ctx: ActionCtx, xmlUrl: string): Promise<null> => {
+  try {
+    return await ctx.runAction(internal.dataPipeline.ingestAndEnrichBillFile, { xmlUrl });
+  } catch (error) {
+    const ingestionError = toIngestionError(error);
+    const billInfo = parseBillInfoFromUrl(xmlUrl);
+    await ctx.runMutation(internal.dataPipeline.recordFailedIngestion, {
+      congress: billInfo.congress,
+      billType: billInfo.billType,
+      billNumber: billInfo.billNumber,
+      versionCode: billInfo.versionCode,
+      xmlUrl,
+      reasonCode: ingestionError.code,
+      reason: ingestionError.data.message,
+    });
+    return null;
+  }
+};
+
+// Each feed (bill text, BILLSTATUS) keeps its own last checked timestamp and failed files
+const feedValidator = v.optional(v.literal("billStatus"));
+
 export const getLastCheckedTimestamp = internalQuery({
-  args: {},
+  args: {
+    feed: feedValidator,
+  },
   returns: v.union(v.object({ 
     _id: v.id("lastCheckedTimestamp"),
     _creationTime: v.number(),
-    timestamp: v.number() 
+    timestamp: v.number(),
+    feed: feedValidator,
   }), v.null()),
-  handler: async (ctx) => {
-    const lastCheckedTimestamp = await ctx.db.query("lastCheckedTimestamp").first();
+  handler: async (ctx, args) => {
+    const lastCheckedTimestamp = await ctx.db
+      .query("lastCheckedTimestamp")
+      .withIndex("by_feed", (q) => q.eq("feed", args.feed))
+      .first();
     return lastCheckedTimestamp;
   },
 });
@@ -68,68 +175,71 @@ export const getLastCheckedTimestamp = internalQuery({
 export const updateLastCheckedTimestamp = internalMutation({
   args: {
     timestamp: v.number(),
+    feed: feedValidator,
   },
   returns: v.null(),
   handler: async (ctx, args) => {
     //get existing record or create a new one
-    const existingRecord = await ctx.db.query("lastCheckedTimestamp").first();
+    const existingRecord = await ctx.db
+      .query("lastCheckedTimestamp")
+      .withIndex("by_feed", (q) => q.eq("feed", args.feed))
+      .first();
     if (existingRecord) {
       await ctx.db.patch(existingRecord._id, { timestamp: args.timestamp });
     } else {
-      await ctx.db.insert("lastCheckedTimestamp", { timestamp: args.timestamp });
+      await ctx.db.insert("lastCheckedTimestamp", { timestamp: args.timestamp, feed: args.feed });
     }
     return null;
   },
 });
 
-export const discoverNewBillFiles = action({
-  args: {},
+export const discoverNewBillFiles = roleAction("admin", {
+  args: {
+    congresses: v.optional(v.array(v.number())),
+    sessions: v.optional(v.array(v.number())),
+  },
   returns: v.null(),
-  handler: async (ctx) => {
+  handler: async (ctx, args) => {
     //const billTypes = ["hconres", "hres", "hr", "hjres", "sconres", "sres", "s", "sjres"];
     //const billTypes = ["hr"];
     const billTypes = ["hr", "s", "hjres", "sjres"];
     // fetch lastcheckedtimestamp from convex db
-    const lastCheckedTimestamp = await ctx.runQuery(internal.dataPipeline.getLastCheckedTimestamp);
+    const lastCheckedTimestamp = await ctx.runQuery(internal.dataPipeline.getLastCheckedTimestamp, {});
     const lastCheckedTimestampValue = lastCheckedTimestamp?.timestamp ?? 0;
     console.log("Last checked timestamp:", lastCheckedTimestampValue);
 
     const processingPromises = [];
 
-    for (const billType of billTypes) {
-      const govInfoUrl = `https://www.govinfo.gov/bulkdata/json/BILLS/119/1/${billType}/`;
-      const response = await fetch(govInfoUrl, {
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-      });
+    // Walk every configured (or latest published) congress/session folder
+    const source = createGovinfoBillSource();
+    const targets = await resolveDiscoveryTargets(source, { congresses: args.congresses, sessions: args.sessions });
 
-      if (!response.ok) {
-        console.error(`Failed to fetch ${govInfoUrl}: ${response.statusText}`);
-        continue;
-      }
+    for (const { congress, session } of targets) {
+      for (const billType of billTypes) {
+        const files = await source.listFiles(congress, session, billType);
+        if (!files) {
+          continue;
+        }
 
-      const data: BillData = await response.json();
-      const newXmlFiles = (data.files ?? []).filter(file => file.link.endsWith('.xml')).filter(file => {
-        const fileLastModifiedTime = new Date(file.formattedLastModifiedTime);
-        return fileLastModifiedTime.getTime() > lastCheckedTimestampValue;
-      }).sort((a, b) => {
-        // Sort by last modified time in descending order (latest first)
-        const timeA = new Date(a.formattedLastModifiedTime).getTime();
-        const timeB = new Date(b.formattedLastModifiedTime).getTime();
-        return timeB - timeA;
-      })
-
-      if (newXmlFiles.length > 0) {
-        console.log(`Found ${newXmlFiles.length} new XML files for ${billType}`);
-        for (const file of newXmlFiles) {
-          processingPromises.push(ctx.runAction(internal.dataPipeline.ingestAndEnrichBillFile, { xmlUrl: file.link }));
+        const newXmlFiles = files.filter(file => file.link.endsWith('.xml')).filter(file => {
+          const fileLastModifiedTime = new Date(file.formattedLastModifiedTime);
+          return fileLastModifiedTime.getTime() > lastCheckedTimestampValue;
+        }).sort((a, b) => {
+          // Sort by last modified time in descending order (latest first)
+          const timeA = new Date(a.formattedLastModifiedTime).getTime();
+          const timeB = new Date(b.formattedLastModifiedTime).getTime();
+          return timeB - timeA;
+        })
+
+        if (newXmlFiles.length > 0) {
+          console.log(`Found ${newXmlFiles.length} new XML files for ${congress}/${session}/${billType}`);
+          for (const file of newXmlFiles) {
+            processingPromises.push(ingestOrQueueForRetry(ctx, file.link));
+          }
+        } else {
+          console.log(`No new XML files found for ${congress}/${session}/${billType}`);
         }
-      } else {
-        console.log(`No new XML files found for ${billType}`);
       }
-
     }
 
     await Promise.all(processingPromises); // wait for all the promises to complete
@@ -147,48 +257,47 @@ export const discoverNewBillFiles = action({
 
 // Internal wrapper for cron jobs (cron jobs require internal functions)
 export const discoverNewBillFilesCron = internalAction({
-  args: {},
+  args: {
+    congresses: v.optional(v.array(v.number())),
+    sessions: v.optional(v.array(v.number())),
+  },
   returns: v.null(),
-  handler: async (ctx) => {
+  handler: async (ctx, args) => {
     // Use the same logic as the public action
     const billTypes = ["hr", "s", "hjres", "sjres"];
-    const lastCheckedTimestamp = await ctx.runQuery(internal.dataPipeline.getLastCheckedTimestamp);
+    const lastCheckedTimestamp = await ctx.runQuery(internal.dataPipeline.getLastCheckedTimestamp, {});
     const lastCheckedTimestampValue = lastCheckedTimestamp?.timestamp ?? 0;
     console.log("Cron job - Last checked timestamp:", lastCheckedTimestampValue);
 
     const processingPromises = [];
 
-    for (const billType of billTypes) {
-      const govInfoUrl = `https://www.govinfo.gov/bulkdata/json/BILLS/119/1/${billType}/`;
-      const response = await fetch(govInfoUrl, {
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-      });
+    const source = createGovinfoBillSource();
+    const targets = await resolveDiscoveryTargets(source, { congresses: args.congresses, sessions: args.sessions });
 
-      if (!response.ok) {
-        console.error(`Failed to fetch ${govInfoUrl}: ${response.statusText}`);
-        continue;
-      }
+    for (const { congress, session } of targets) {
+      for (const billType of billTypes) {
+        const files = await source.listFiles(congress, session, billType);
+        if (!files) {
+          continue;
+        }
 
-      const data: BillData = await response.json();
-      const newXmlFiles = (data.files ?? []).filter(file => file.link.endsWith('.xml')).filter(file => {
-        const fileLastModifiedTime = new Date(file.formattedLastModifiedTime);
-        return fileLastModifiedTime.getTime() > lastCheckedTimestampValue;
-      }).sort((a, b) => {
-        const timeA = new Date(a.formattedLastModifiedTime).getTime();
-        const timeB = new Date(b.formattedLastModifiedTime).getTime();
-        return timeB - timeA;
-      })
-
-      if (newXmlFiles.length > 0) {
-        console.log(`Cron job - Found ${newXmlFiles.length} new XML files for ${billType}`);
-        for (const file of newXmlFiles) {
-          processingPromises.push(ctx.runAction(internal.dataPipeline.ingestAndEnrichBillFile, { xmlUrl: file.link }));
+        const newXmlFiles = files.filter(file => file.link.endsWith('.xml')).filter(file => {
+          const fileLastModifiedTime = new Date(file.formattedLastModifiedTime);
+          return fileLastModifiedTime.getTime() > lastCheckedTimestampValue;
+        }).sort((a, b) => {
+          const timeA = new Date(a.formattedLastModifiedTime).getTime();
+          const timeB = new Date(b.formattedLastModifiedTime).getTime();
+          return timeB - timeA;
+        })
+
+        if (newXmlFiles.length > 0) {
+          console.log(`Cron job - Found ${newXmlFiles.length} new XML files for ${congress}/${session}/${billType}`);
+          for (const file of newXmlFiles) {
+            processingPromises.push(ingestOrQueueForRetry(ctx, file.link));
+          }
+        } else {
+          console.log(`Cron job - No new XML files found for ${congress}/${session}/${billType}`);
         }
-      } else {
-        console.log(`Cron job - No new XML files found for ${billType}`);
       }
     }
 
@@ -207,11 +316,24 @@ export const discoverNewBillFilesCron = internalAction({
 export const shouldProcessBillVersion = internalQuery({
   args: {
     xmlUrl: v.string(),
+    includeFailed: v.optional(v.boolean()), // Set by retries of files in failedIngestions
   },
   returns: v.object({
     shouldProcess: v.boolean(),
+    code: v.union(
+      v.literal("new_bill"),
+      v.literal("better_version"),
+      v.literal("already_processed"),
+      v.literal("failed_before"),
+      v.literal("same_version"),
+      v.literal("earlier_version"),
+      v.literal("policy_excluded"),
+      v.literal("check_failed"),
+    ),
     reason: v.string(),
     existingBillId: v.optional(v.id("bills")),
+    // How to ingest the file when it should be processed, per the ingest policy
+    ingestAction: v.optional(v.union(v.literal("summarize"), v.literal("store"))),
   }),
   handler: async (ctx, args) => {
     try {
@@ -224,13 +346,39 @@ export const shouldProcessBillVersion = internalQuery({
       if (existingVersion) {
         return {
           shouldProcess: false,
+          code: "already_processed" as const,
           reason: "Exact file already processed",
           existingBillId: existingVersion.billId,
         };
       }
 
+      // Files that failed before are left to the retry queue
+      if (!args.includeFailed) {
+        const failure = await ctx.db
+          .query("failedIngestions")
+          .withIndex("by_xmlUrl", (q) => q.eq("xmlUrl", args.xmlUrl))
+          .order("desc")
+          .first();
+        if (failure && (isOpenFailure(failure) || failure.status === "exhausted" || failure.status === "dismissed")) {
+          return {
+            shouldProcess: false,
+            code: "failed_before" as const,
+            reason: `Failed before (${failure.status ?? "pending"}); handled by the retry queue`,
+          };
+        }
+      }
+
       // Parse bill info from URL
       const billInfo = parseBillInfoFromUrl(args.xmlUrl);
+
+      const ingestAction = getIngestAction(await loadIngestPolicy(ctx), billInfo.versionCode);
+      if (ingestAction === "skip") {
+        return {
+          shouldProcess: false,
+          code: "policy_excluded" as const,
+          reason: `Version code ${billInfo.versionCode} is excluded by the ingest policy`,
+        };
+      }
       
       // Check if we have this bill already
       const existingBill = await ctx.db
@@ -245,174 +393,461 @@ export const shouldProcessBillVersion = internalQuery({
       if (!existingBill) {
         return {
           shouldProcess: true,
+          code: "new_bill" as const,
           reason: "New bill",
+          ingestAction,
         };
       }
 
       // If we have the bill, check if this version is better
       const currentVersionPriority = existingBill.latestVersionCode 
-        ? getVersionPriority(existingBill.latestVersionCode)
+        ? getVersionPriority(existingBill.latestVersionCode, existingBill.billType)
         : -1;
-      const newVersionPriority = getVersionPriority(billInfo.versionCode);
+      const newVersionPriority = getVersionPriority(billInfo.versionCode, billInfo.billType);
 
       if (newVersionPriority > currentVersionPriority) {
         return {
           shouldProcess: true,
+          code: "better_version" as const,
           reason: `Better version: ${billInfo.versionCode} > ${existingBill.latestVersionCode}`,
           existingBillId: existingBill._id,
+          ingestAction,
         };
-      } else if (newVersionPriority === currentVersionPriority) {
-        return {
-          shouldProcess: false,
-          reason: `Same version priority: ${billInfo.versionCode} = ${existingBill.latestVersionCode}`,
-          existingBillId: existingBill._id,
-        };
-      } else {
+      }
+
+      // Versions are not listed in rank order, so an earlier one can arrive after a later
+      // one; it is still stored (as a non-latest version) unless that version is already in
+      const storedVersion = await ctx.db
+        .query("billVersions")
+        .withIndex("by_billId_and_version", (q) =>
+          q.eq("billId", existingBill._id).eq("versionCode", billInfo.versionCode)
+        )
+        .first();
+      if (storedVersion) {
         return {
           shouldProcess: false,
-          reason: `Lower version priority: ${billInfo.versionCode} < ${existingBill.latestVersionCode}`,
+          code: "same_version" as const,
+          reason: `Version ${billInfo.versionCode} already stored from ${storedVersion.xmlUrl}`,
           existingBillId: existingBill._id,
         };
       }
+      return {
+        shouldProcess: true,
+        code: "earlier_version" as const,
+        reason: `Earlier version not stored yet: ${billInfo.versionCode} <= ${existingBill.latestVersionCode}`,
+        existingBillId: existingBill._id,
+        ingestAction,
+      };
     } catch (error) {
       console.error(`Error checking if should process ${args.xmlUrl}:`, error);
       // If we can't determine, err on the side of processing
       return {
         shouldProcess: true,
+        code: "check_failed" as const,
         reason: `Error determining priority: ${error}`,
       };
     }
   },
 });
 
+// The stored version a new version is compared against: the latest one published on or
+// before the new version's date (the latest stored version when the date is unknown)
+export const getPreviousBillVersion = internalQuery({
+  args: {
+    congress: v.number(),
+    billType: v.string(),
+    billNumber: v.string(),
+    versionCode: v.string(),
+    publishedDate: v.optional(v.string()),
+  },
+  returns: v.union(v.object({
+    _id: v.id("billVersions"),
+    versionCode: v.string(),
+    publishedDate: v.string(),
+    fullText: v.string(),
+    outline: v.optional(v.array(billOutlineNodeValidator)),
+  }), v.null()),
+  handler: async (ctx, args) => {
+    const bill = await ctx.db
+      .query("bills")
+      .withIndex("by_identifier", (q) =>
+        q.eq("congress", args.congress)
+         .eq("billType", args.billType)
+         .eq("billNumber", args.billNumber)
+      )
+      .first();
+    if (!bill) return null;
+
+    const versions = await ctx.db
+      .query("billVersions")
+      .withIndex("by_billId_and_version", (q) => q.eq("billId", bill._id))
+      .collect();
+
+    const cutoff = parseBillDate(args.publishedDate)?.getTime();
+    const candidates = versions
+      .filter((version) => version.versionCode !== args.versionCode)
+      .map((version) => ({ version, time: parseBillDate(version.publishedDate)?.getTime() ?? 0 }))
+      .filter(({ time }) => cutoff === undefined || time <= cutoff)
+      .sort((a, b) => b.time - a.time || b.version._creationTime - a.version._creationTime);
+
+    if (candidates.length === 0) return null;
+    const previous = candidates[0].version;
+    return {
+      _id: previous._id,
+      versionCode: previous.versionCode,
+      publishedDate: previous.publishedDate,
+      fullText: previous.fullText,
+      outline: previous.outline,
+    };
+  },
+});
+
+// Compares a new version with the previous stored version and asks the model what materially
+// changed. Returns undefined for the first version of a bill or when the analysis fails, so
+// a failed comparison never blocks ingestion of the version itself.
+const analyzeVersionChanges = async (
+  ctx: ActionCtx,
+  extractedData: ExtractedBillData,
+  runFileId?: Id<"ingestionRunFiles">,
+): Promise<Infer<typeof versionChangeAnalysisValidator> | undefined> => {
+  const previous = await ctx.runQuery(internal.dataPipeline.getPreviousBillVersion, {
+    congress: extractedData.congress,
+    billType: extractedData.billType,
+    billNumber: extractedData.billNumber,
+    versionCode: extractedData.versionCode,
+    publishedDate: extractedData.actionDate,
+  });
+  if (!previous) return undefined;
+
+  const sections = diffBillSections(previous, extractedData);
+  const base = {
+    previousVersionId: previous._id,
+    previousVersionCode: previous.versionCode,
+    generatedAt: Date.now(),
+  };
+  if (sections.every((section) => section.status === "unchanged")) {
+    return { ...base, overview: `The text is unchanged from the ${previous.versionCode} version.`, changes: [] };
+  }
+
+  try {
+    const analysis = await ctx.runAction(internal.dataPipeline.getVersionChangeAnalysis, {
+      billType: extractedData.billType,
+      billNumber: extractedData.billNumber,
+      officialTitle: extractedData.officialTitle,
+      fromVersionCode: previous.versionCode,
+      toVersionCode: extractedData.versionCode,
+      redline: formatRedlineForPrompt(sections),
+      runFileId,
+    });
+    return { ...base, ...analysis };
+  } catch (error) {
+    console.error(`Change analysis failed for ${extractedData.xmlUrl}:`, error);
+    return undefined;
+  }
+};
+
+// Amendments sent to the model per version; bills with more are compared on their first ones
+const MAX_COMPARED_AMENDMENTS = 12;
+
+// Pairs the bill's amendatory instructions with the current text of the US Code sections
+// they target. Returns undefined for bills that amend no existing law or when the comparison
+// fails, so it never blocks ingestion of the version itself.
+const compareWithCurrentLaw = async (
+  ctx: ActionCtx,
+  extractedData: ExtractedBillData,
+  runFileId?: Id<"ingestionRunFiles">,
+): Promise<Array<Infer<typeof currentLawComparisonItemValidator>> | undefined> => {
+  const amendments = (extractedData.amendments ?? []).slice(0, MAX_COMPARED_AMENDMENTS);
+  if (amendments.length === 0) return undefined;
+
+  try {
+    return await ctx.runAction(internal.dataPipeline.getCurrentLawComparison, {
+      billType: extractedData.billType,
+      billNumber: extractedData.billNumber,
+      officialTitle: extractedData.officialTitle,
+      amendments,
+      runFileId,
+    });
+  } catch (error) {
+    console.error(`Current law comparison failed for ${extractedData.xmlUrl}:`, error);
+    return undefined;
+  }
+};
+
+// What became of a parsed file: stored, or held back by a summary quality gate
+type ProcessOutcome =
+  | { stored: true }
+  | { stored: false; reasonCode: IngestionErrorCode; reason: string };
+
+// Parses, enriches and stores one bill XML document. Shared by URL-based ingestion
+// and replays of XML that was read from another BillSource (e.g. local fixtures).
+// A given summaryData is stored as-is instead of generating and checking a new summary.
+// Model calls are counted on the ingestion run ledger when a runFileId is given.
+const processBillXml = async (
+  ctx: ActionCtx,
+  xmlData: string,
+  xmlUrl: string,
+  options: {
+    enrich: boolean;
+    summaryData?: Infer<typeof billSummaryDataValidator>;
+    runFileId?: Id<"ingestionRunFiles">;
+  },
+): Promise<ProcessOutcome> => {
+  // Parse XML data using helper function
+  let extractedData: ExtractedBillData;
+  try {
+    extractedData = parseBillXMLData(xmlData, xmlUrl);
+  } catch (error) {
+    throw toIngestionError(error, "unparseable_xml");
+  }
+
+  // Offline replays and store-only versions keep the parsed bill as-is, without AI or embedding calls
+  if (!options.enrich) {
+    await ctx.runMutation(internal.dataPipeline.storeBillData, {
+      congress: extractedData.congress,
+      billType: extractedData.billType,
+      billNumber: extractedData.billNumber,
+      versionCode: extractedData.versionCode,
+      officialTitle: extractedData.officialTitle,
+      cleanedShortTitle: extractedData.cleanedShortTitle,
+      sponsor: extractedData.sponsor,
+      cosponsors: extractedData.cosponsors,
+      committees: extractedData.committees,
+      committeeReferrals: extractedData.committeeReferrals,
+      actionDate: extractedData.actionDate,
+      xmlUrl: extractedData.xmlUrl,
+      fullText: extractedData.fullText,
+      outline: extractedData.outline,
+      summary: extractedData.summary,
+      tagLine: extractedData.tagLine,
+      impactAreas: extractedData.impactAreas,
+    });
+    return { stored: true };
+  }
+
+  // Generate AI summary and enrich data
+  const summaryData = options.summaryData ?? await ctx.runAction(internal.dataPipeline.getBillSummary, { 
+    extractedData: {
+      fullText: extractedData.fullText,
+      billType: extractedData.billType,
+      billNumber: extractedData.billNumber,
+      versionCode: extractedData.versionCode,
+      officialTitle: extractedData.officialTitle,
+      cleanedShortTitle: extractedData.cleanedShortTitle,
+      sponsor: extractedData.sponsor,
+      cosponsors: extractedData.cosponsors,
+      committees: extractedData.committees,
+      actionDate: extractedData.actionDate,
+    },
+    runFileId: options.runFileId,
+  });
+
+  // Validate summary quality — require a non-empty summary
+  const isEmptyString = (s: string | undefined) => !s || s.trim().length === 0;
+  const structured = Array.isArray(summaryData.structuredSummary) ? summaryData.structuredSummary : [];
+  const summaryLooksBad = isEmptyString(summaryData.summary) || summaryData.summary.length < 40; // heuristic floor
+
+  if (summaryLooksBad && !options.summaryData) {
+    await ctx.runMutation(internal.dataPipeline.recordFailedIngestion, {
+      congress: extractedData.congress,
+      billType: extractedData.billType,
+      billNumber: extractedData.billNumber,
+      versionCode: extractedData.versionCode,
+      xmlUrl: extractedData.xmlUrl,
+      reasonCode: "summary_too_short",
+      reason: "Summary missing or too short",
+      summaryAttempt: {
+        summary: summaryData.summary,
+        tagLine: summaryData.tagLine,
+        impactAreas: summaryData.impactAreas,
+        structuredSummary: structured,
+      },
+    });
+    // Abort: do not vectorize or store bill/version
+    return { stored: false, reasonCode: "summary_too_short", reason: "Summary missing or too short" };
+  }
+
+  // Optional: also mark as failed if structured summary is empty; keep as soft gate
+  if (structured.length === 0 && !options.summaryData) {
+    await ctx.runMutation(internal.dataPipeline.recordFailedIngestion, {
+      congress: extractedData.congress,
+      billType: extractedData.billType,
+      billNumber: extractedData.billNumber,
+      versionCode: extractedData.versionCode,
+      xmlUrl: extractedData.xmlUrl,
+      reasonCode: "structured_summary_empty",
+      reason: "Structured summary empty",
+      summaryAttempt: {
+        summary: summaryData.summary,
+        tagLine: summaryData.tagLine,
+        impactAreas: summaryData.impactAreas,
+        structuredSummary: structured,
+      },
+    });
+    return { stored: false, reasonCode: "structured_summary_empty", reason: "Structured summary empty" };
+  }
+
+  // Update extracted data with AI-generated content
+  extractedData.summary = summaryData.summary;
+  extractedData.tagLine = summaryData.tagLine;
+  extractedData.impactAreas = summaryData.impactAreas;
+  const structuredSummary = summaryData.structuredSummary ?? [];
+  const changeAnalysis = await analyzeVersionChanges(ctx, extractedData, options.runFileId);
+  const currentLawComparison = await compareWithCurrentLaw(ctx, extractedData, options.runFileId);
+
+  // Vectorize the enriched data
+  await ctx.runAction(internal.dataPipeline.vectorizeBillData, { extractedData });
+
+  console.log("extractedData", JSON.stringify(extractedData, null, 2));
+
+  // Store the extracted data in the database
+  await ctx.runMutation(internal.dataPipeline.storeBillData, {
+    congress: extractedData.congress,
+    billType: extractedData.billType,
+    billNumber: extractedData.billNumber,
+    versionCode: extractedData.versionCode,
+    officialTitle: extractedData.officialTitle,
+    cleanedShortTitle: extractedData.cleanedShortTitle,
+    sponsor: extractedData.sponsor,
+    cosponsors: extractedData.cosponsors,
+    committees: extractedData.committees,
+    committeeReferrals: extractedData.committeeReferrals,
+    actionDate: extractedData.actionDate,
+    xmlUrl: extractedData.xmlUrl,
+    fullText: extractedData.fullText,
+    outline: extractedData.outline,
+    summary: extractedData.summary,
+    tagLine: extractedData.tagLine,
+    impactAreas: extractedData.impactAreas,
+    structuredSummary,
+    changeAnalysis,
+    currentLawComparison,
+  });
+
+  return { stored: true };
+};
+
 export const ingestAndEnrichBillFile = internalAction({
   args: {
     xmlUrl: v.string(),
+    retrying: v.optional(v.boolean()), // Retry of a file in failedIngestions
+    runId: v.optional(v.id("ingestionRuns")), // Ingestion run to record the outcome on
   },
   returns: v.null(),
   handler: async (ctx, args) => {
+    const runId = args.runId;
+    const runFileId = runId
+      ? await ctx.runMutation(internal.ingestionRuns.startIngestionRunFile, { runId, xmlUrl: args.xmlUrl })
+      : undefined;
+    const finishRunFile = async (outcome: Omit<FunctionArgs<typeof internal.ingestionRuns.finishIngestionRunFile>, "runId" | "xmlUrl">) => {
+      if (runId) {
+        await ctx.runMutation(internal.ingestionRuns.finishIngestionRunFile, { runId, xmlUrl: args.xmlUrl, ...outcome });
+      }
+    };
+
     try {
       // Use smart processing to check if we should process this file
       const processDecision = await ctx.runQuery(internal.dataPipeline.shouldProcessBillVersion, { 
-        xmlUrl: args.xmlUrl 
+        xmlUrl: args.xmlUrl,
+        includeFailed: args.retrying,
       });
       
       if (!processDecision.shouldProcess) {
         console.log(`Skipping ${args.xmlUrl}: ${processDecision.reason}`);
+        if (args.retrying) {
+          await ctx.runMutation(internal.failedIngestions.resolveFailedIngestion, {
+            xmlUrl: args.xmlUrl,
+            note: `Skipped on retry: ${processDecision.reason}`,
+          });
+        }
+        await finishRunFile({ outcome: "skipped", skipCode: processDecision.code, reason: processDecision.reason });
         return null;
       }
 
       console.log(`Processing: ${args.xmlUrl} (${processDecision.reason})`);
       
       // Fetch XML data
-      const response = await fetch(args.xmlUrl);
-      if (!response.ok) {
-        console.error(`Failed to fetch ${args.xmlUrl}: ${response.statusText}`);
-        return null;
-      }
-      const xmlData = await response.text();
+      const xmlData = await createGovinfoBillSource().fetchXml(args.xmlUrl);
     
-      // Parse XML data using helper function
-      const extractedData: ExtractedBillData = parseBillXMLData(xmlData, args.xmlUrl);
-
-      // Generate AI summary and enrich data
-      const summaryData = await ctx.runAction(internal.dataPipeline.getBillSummary, { 
-        extractedData: {
-          fullText: extractedData.fullText,
-          billType: extractedData.billType,
-          billNumber: extractedData.billNumber,
-          versionCode: extractedData.versionCode,
-          officialTitle: extractedData.officialTitle,
-          cleanedShortTitle: extractedData.cleanedShortTitle,
-          sponsor: extractedData.sponsor,
-          cosponsors: extractedData.cosponsors,
-          committees: extractedData.committees,
-          actionDate: extractedData.actionDate,
-        }
+      const result = await processBillXml(ctx, xmlData, args.xmlUrl, {
+        enrich: processDecision.ingestAction !== "store",
+        runFileId,
       });
+      await finishRunFile(result.stored
+        ? { outcome: "stored" }
+        : { outcome: "failed", errorCode: result.reasonCode, reason: result.reason });
+      return null;
+    } catch (error) {
+      const ingestionError = toIngestionError(error);
+      console.error(`Error processing ${args.xmlUrl} (${ingestionError.code}):`, error);
 
-      // Validate summary quality — require a non-empty summary
-      const isEmptyString = (s: string | undefined) => !s || s.trim().length === 0;
-      const structured = Array.isArray(summaryData.structuredSummary) ? summaryData.structuredSummary : [];
-      const summaryLooksBad = isEmptyString(summaryData.summary) || summaryData.summary.length < 40; // heuristic floor
-
-      if (summaryLooksBad) {
-        await ctx.runMutation(internal.dataPipeline.recordFailedIngestion, {
-          congress: extractedData.congress,
-          billType: extractedData.billType,
-          billNumber: extractedData.billNumber,
-          versionCode: extractedData.versionCode,
-          xmlUrl: extractedData.xmlUrl,
-          reason: "Summary missing or too short",
-          summaryAttempt: {
-            summary: summaryData.summary,
-            tagLine: summaryData.tagLine,
-            impactAreas: summaryData.impactAreas,
-            structuredSummary: structured,
-          },
-        });
-        return null; // Abort: do not vectorize or store bill/version
+      // Transient failures are rethrown so the workflow step retries them. Queued retries
+      // record them instead, since the retry queue schedules its own next attempt.
+      if (ingestionError.transient && !args.retrying) {
+        throw ingestionError;
       }
 
-      // Optional: also mark as failed if structured summary is empty; keep as soft gate
-      if (structured.length === 0) {
-        await ctx.runMutation(internal.dataPipeline.recordFailedIngestion, {
-          congress: extractedData.congress,
-          billType: extractedData.billType,
-          billNumber: extractedData.billNumber,
-          versionCode: extractedData.versionCode,
-          xmlUrl: extractedData.xmlUrl,
-          reason: "Structured summary empty",
-          summaryAttempt: {
-            summary: summaryData.summary,
-            tagLine: summaryData.tagLine,
-            impactAreas: summaryData.impactAreas,
-            structuredSummary: structured,
-          },
-        });
-         return null;
+      let billInfo;
+      try {
+        billInfo = parseBillInfoFromUrl(args.xmlUrl);
+      } catch {
+        billInfo = { congress: 0, billType: "unknown", billNumber: "unknown", versionCode: "unknown" };
       }
+      await ctx.runMutation(internal.dataPipeline.recordFailedIngestion, {
+        congress: billInfo.congress,
+        billType: billInfo.billType,
+        billNumber: billInfo.billNumber,
+        versionCode: billInfo.versionCode,
+        xmlUrl: args.xmlUrl,
+        reasonCode: ingestionError.code,
+        reason: ingestionError.data.message,
+      });
+      await finishRunFile({ outcome: "failed", errorCode: ingestionError.code, reason: ingestionError.data.message });
+      return null;
+    }
+  },
+});
 
-      // Update extracted data with AI-generated content
-      extractedData.summary = summaryData.summary;
-      extractedData.tagLine = summaryData.tagLine;
-      extractedData.impactAreas = summaryData.impactAreas;
-      const structuredSummary = summaryData.structuredSummary ?? [];
-
-      // Vectorize the enriched data
-      await ctx.runAction(internal.dataPipeline.vectorizeBillData, { extractedData });
-
-      console.log("extractedData", JSON.stringify(extractedData, null, 2));
+// Store a file with a summary generated earlier (e.g. a failed file's partial summary attempt)
+export const ingestBillFileWithSummary = internalAction({
+  args: {
+    xmlUrl: v.string(),
+    summaryData: billSummaryDataValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const xmlData = await createGovinfoBillSource().fetchXml(args.xmlUrl);
+    await processBillXml(ctx, xmlData, args.xmlUrl, { enrich: true, summaryData: args.summaryData });
+    return null;
+  },
+});
 
-      // Store the extracted data in the database
-      await ctx.runMutation(internal.dataPipeline.storeBillData, {
-        congress: extractedData.congress,
-        billType: extractedData.billType,
-        billNumber: extractedData.billNumber,
-        versionCode: extractedData.versionCode,
-        officialTitle: extractedData.officialTitle,
-        cleanedShortTitle: extractedData.cleanedShortTitle,
-        sponsor: extractedData.sponsor,
-        cosponsors: extractedData.cosponsors,
-        committees: extractedData.committees,
-        actionDate: extractedData.actionDate,
-        xmlUrl: extractedData.xmlUrl,
-        fullText: extractedData.fullText,
-        summary: extractedData.summary,
-        tagLine: extractedData.tagLine,
-        impactAreas: extractedData.impactAreas,
-        structuredSummary,
-      });
+// Ingest XML that was already read from a BillSource (used by offline replays)
+export const ingestBillXml = internalAction({
+  args: {
+    xmlUrl: v.string(),
+    xmlData: v.string(),
+    enrich: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const processDecision = await ctx.runQuery(internal.dataPipeline.shouldProcessBillVersion, {
+      xmlUrl: args.xmlUrl,
+    });
 
-      return null;
-    } catch (error) {
-      console.error(`Error processing ${args.xmlUrl}:`, error);
+    if (!processDecision.shouldProcess) {
+      console.log(`Skipping ${args.xmlUrl}: ${processDecision.reason}`);
       return null;
     }
+
+    await processBillXml(ctx, args.xmlData, args.xmlUrl, { enrich: args.enrich ?? false });
+    return null;
   },
 });
 
-// Record failed ingestion attempts to avoid polluting main tables
+// Record failed ingestion attempts to avoid polluting main tables. A file that is already
+// queued gets the attempt appended and its next retry pushed back, until it runs out of attempts.
+// Failures caused by the file itself are not retried.
 export const recordFailedIngestion = internalMutation({
   args: {
     congress: v.number(),
@@ -420,42 +855,68 @@ export const recordFailedIngestion = internalMutation({
     billNumber: v.string(),
     versionCode: v.string(),
     xmlUrl: v.string(),
+    reasonCode: ingestionErrorCodeValidator,
     reason: v.string(),
+    feed: feedValidator,
     summaryAttempt: v.optional(
       v.object({
         summary: v.optional(v.string()),
         tagLine: v.optional(v.string()),
         impactAreas: v.optional(v.array(v.string())),
-        structuredSummary: v.optional(
-          v.array(
-            v.object({
-              title: v.string(),
-              text: v.string(),
-              citations: v.optional(
-                v.array(
-                  v.object({
-                    label: v.string(),
-                    sectionId: v.string(),
-                  }),
-                ),
-              ),
-            }),
-          ),
-        ),
+        structuredSummary: v.optional(v.array(structuredSummarySectionValidator)),
       }),
     ),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
+    const now = Date.now();
+    const attempt = { attemptedAt: now, outcome: "failed" as const, reason: args.reason };
+    const retryable = canRetryIngestionLater(args.reasonCode);
+
+    const existing = await ctx.db
+      .query("failedIngestions")
+      .withIndex("by_xmlUrl", (q) => q.eq("xmlUrl", args.xmlUrl))
+      .order("desc")
+      .first();
+
+    if (existing && isOpenFailure(existing)) {
+      const attempts = (existing.attempts ?? 1) + 1;
+      const exhausted = !retryable || attempts >= MAX_INGESTION_ATTEMPTS;
+      await ctx.db.patch(existing._id, {
+        reasonCode: args.reasonCode,
+        reason: args.reason,
+        summaryAttempt: args.summaryAttempt ?? existing.summaryAttempt,
+        status: exhausted ? "exhausted" : "pending",
+        attempts,
+        nextAttemptAt: exhausted ? undefined : now + getRetryBackoffMs(attempts),
+        attemptHistory: [...(existing.attemptHistory ?? []), attempt],
+        resolvedAt: exhausted ? now : undefined,
+        dispositionNote: !retryable
+          ? `Not retryable: ${args.reasonCode}`
+          : exhausted ? `Gave up after ${attempts} attempts` : undefined,
+        updatedAt: now,
+      });
+      return null;
+    }
+
     await ctx.db.insert("failedIngestions", {
       congress: args.congress,
       billType: args.billType,
       billNumber: args.billNumber,
       versionCode: args.versionCode,
       xmlUrl: args.xmlUrl,
+      reasonCode: args.reasonCode,
       reason: args.reason,
       summaryAttempt: args.summaryAttempt,
-      createdAt: Date.now(),
+      feed: args.feed,
+      createdAt: now,
+      status: retryable ? "pending" : "exhausted",
+      attempts: 1,
+      nextAttemptAt: retryable ? now + getRetryBackoffMs(1) : undefined,
+      attemptHistory: [attempt],
+      resolvedAt: retryable ? undefined : now,
+      dispositionNote: retryable ? undefined : `Not retryable: ${args.reasonCode}`,
+      updatedAt: now,
     });
     return null;
   },
@@ -475,6 +936,7 @@ export const getBillSummary = internalAction({
       committees: v.array(v.string()),
       actionDate: v.optional(v.string()),
     }),
+    runFileId: v.optional(v.id("ingestionRunFiles")),
   },
   returns: billSummaryDataValidator, 
   handler: async (ctx, args) => {
@@ -519,7 +981,9 @@ Important formatting rules:
 If citations are unavailable for a section, set "citations": [].`;
 
       // Generate text using the agent
-      const { thread } = await billAnalysisAgent.createThread(ctx);
+      const { thread } = await billAnalysisAgent.createThread(ctx, {
+        usageHandler: ingestionUsageHandler(args.runFileId),
+      });
       const result = await thread.generateText({ prompt }, {
         storageOptions: { saveMessages: "none" },
       });
@@ -535,18 +999,12 @@ If citations are unavailable for a section, set "citations": [].`;
         parsedResult = JSON.parse(unwrapped);
       } catch {
         console.error("Failed to parse AI response as JSON:", result.text);
-        // Fallback response
-        parsedResult = {
-          summary: `This ${extractedData.billType.toUpperCase()} ${extractedData.billNumber} (${extractedData.officialTitle}) introduces new federal legislation. The bill contains multiple provisions and would impact various aspects of federal policy if enacted.`,
-          tagLine: `${extractedData.billType.toUpperCase()} ${extractedData.billNumber} introduces new federal legislation with multiple policy provisions.`,
-          impactAreas: ["Government Operations", "Law"],
-          structuredSummary: [],
-        };
+        throw new IngestionError("llm_invalid_response", "Summary response is not valid JSON");
       }
 
       // Validate the response structure
       if (!parsedResult.summary || !parsedResult.tagLine || !Array.isArray(parsedResult.impactAreas)) {
-        throw new Error("Invalid AI response structure");
+        throw new IngestionError("llm_invalid_response", "Invalid AI response structure");
       }
 
       return {
@@ -571,14 +1029,189 @@ If citations are unavailable for a section, set "citations": [].`;
       };
     } catch (error) {
       console.error("Error generating bill summary:", error);
-      // Return fallback data
-      return {
-        summary: `This ${extractedData.billType.toUpperCase()} ${extractedData.billNumber} (${extractedData.officialTitle}) introduces new federal legislation. The bill contains multiple provisions and would impact various aspects of federal policy if enacted.`,
-        tagLine: `${extractedData.billType.toUpperCase()} ${extractedData.billNumber} introduces new federal legislation with multiple policy provisions.`,
-        impactAreas: ["Government Operations", "Law"],
-        structuredSummary: [],
-      };
+      throw toIngestionError(error);
+    }
+  },
+});
+
+// Asks the model which material changes a redline between two versions contains
+export const getVersionChangeAnalysis = internalAction({
+  args: {
+    billType: v.string(),
+    billNumber: v.string(),
+    officialTitle: v.string(),
+    fromVersionCode: v.string(),
+    toVersionCode: v.string(),
+    redline: v.string(),
+    runFileId: v.optional(v.id("ingestionRunFiles")),
+  },
+  returns: v.object({
+    overview: v.string(),
+    changes: v.array(versionChangeItemValidator),
+  }),
+  handler: async (ctx, args) => {
+    const prompt = `Compare two versions of a federal bill and explain what materially changed.
+
+Bill: ${args.billType.toUpperCase()} ${args.billNumber} — ${args.officialTitle}
+Earlier version: ${args.fromVersionCode}
+Later version: ${args.toVersionCode}
+
+Below is a section-by-section redline of the later version against the earlier one.
+Each block starts with the change status, the section label and its sectionId.
+Deleted words are shown as [-...-] and inserted words as {+...+}; "..." marks shortened unchanged text.
+
+${args.redline}
+
+Provide:
+1. An overview (2-4 sentences) of how the later version differs from the earlier one.
+2. A list of the material changes (at most 10), most significant first. Skip purely technical or conforming edits.
+   Each change has a short title, a 1-3 sentence description of its practical effect, a changeType of "added", "removed" or "modified",
+   and citations to the affected sections using the sectionId shown in the block heading.
+
+Important formatting rules:
+- Return ONLY a valid JSON object (no markdown or prose).
+- Use this exact schema:
+{
+  "overview": string,
+  "changes": [
+    { "title": string, "description": string, "changeType": "added" | "removed" | "modified", "citations": [{ "label": string, "sectionId": string }] }
+  ]
+}`;
+
+    const { thread } = await billAnalysisAgent.createThread(ctx, {
+      usageHandler: ingestionUsageHandler(args.runFileId),
+    });
+    const result = await thread.generateText({ prompt }, {
+      storageOptions: { saveMessages: "none" },
+    });
+
+    // Strip Markdown code fences if present
+    const raw = result.text.trim();
+    const unwrapped = raw.startsWith("```")
+      ? raw.replace(/^```[a-zA-Z]*\n/, "").replace(/\n```\s*$/, "")
+      : raw;
+    const parsed = JSON.parse(unwrapped) as {
+      overview?: unknown;
+      changes?: Array<{ title?: unknown; description?: unknown; changeType?: unknown; citations?: Array<{ label?: unknown; sectionId?: unknown }> }>;
+    };
+    if (typeof parsed.overview !== "string" || !Array.isArray(parsed.changes)) {
+      throw new Error("Invalid change analysis response structure");
+    }
+
+    const changeTypes = ["added", "removed", "modified"] as const;
+    return {
+      overview: parsed.overview,
+      changes: parsed.changes.map((c) => ({
+        title: String(c.title ?? ""),
+        description: String(c.description ?? ""),
+        changeType: changeTypes.find((t) => t === c.changeType) ?? "modified",
+        citations: Array.isArray(c.citations)
+          ? c.citations
+              .filter((citation) => citation && citation.sectionId != null)
+              .map((citation) => ({
+                label: String(citation.label ?? citation.sectionId),
+                sectionId: String(citation.sectionId),
+              }))
+          : [],
+      })),
+    };
+  },
+});
+
+// Explains each amendment as a "current law vs. proposed" pair, using the current text of
+// the US Code sections it targets
+export const getCurrentLawComparison = internalAction({
+  args: {
+    billType: v.string(),
+    billNumber: v.string(),
+    officialTitle: v.string(),
+    amendments: v.array(billAmendmentValidator),
+    runFileId: v.optional(v.id("ingestionRunFiles")),
+  },
+  returns: v.array(currentLawComparisonItemValidator),
+  handler: async (ctx, args) => {
+    // Fetch each targeted section once
+    const currentText = new Map<string, string | null>();
+    for (const amendment of args.amendments) {
+      for (const target of amendment.targets) {
+        if (!currentText.has(target.cite)) {
+          currentText.set(target.cite, await fetchUsCodeSectionText(target));
+        }
+      }
     }
+
+    const blocks = args.amendments.map((amendment, index) => {
+      const lines = [
+        `### Amendment ${index + 1}${amendment.sectionLabel ? ` (in ${amendment.sectionLabel})` : ""}`,
+        `Instruction: ${amendment.instruction}`,
+      ];
+      if (amendment.quotedText) lines.push(`Quoted text: ${amendment.quotedText}`);
+      for (const target of amendment.targets) {
+        const text = currentText.get(target.cite);
+        lines.push(`Current text of ${target.cite}: ${text ?? "(not available)"}`);
+      }
+      if (amendment.targets.length === 0) lines.push("Targeted law: (not identified)");
+      return lines.join("\n");
+    });
+
+    const prompt = `Explain how a federal bill would change existing law.
+
+Bill: ${args.billType.toUpperCase()} ${args.billNumber} — ${args.officialTitle}
+
+Below are the bill's amendatory instructions, numbered, each with the current text of the US Code section it amends where available.
+
+${blocks.join("\n\n")}
+
+For each amendment that makes a substantive change, provide:
+- amendment: its number from the list above
+- title: a short title for the change
+- currentLaw: 1-3 plain-language sentences on what the law says today on this point. If the current text is not available, describe it only as far as the instruction makes clear.
+- proposedChange: 1-3 plain-language sentences on what the law would say or do after the amendment.
+Skip purely technical or conforming amendments. Return at most ${args.amendments.length} items.
+
+Important formatting rules:
+- Return ONLY a valid JSON object (no markdown or prose).
+- Use this exact schema:
+{
+  "items": [
+    { "amendment": number, "title": string, "currentLaw": string, "proposedChange": string }
+  ]
+}`;
+
+    const { thread } = await billAnalysisAgent.createThread(ctx, {
+      usageHandler: ingestionUsageHandler(args.runFileId),
+    });
+    const result = await thread.generateText({ prompt }, {
+      storageOptions: { saveMessages: "none" },
+    });
+
+    // Strip Markdown code fences if present
+    const raw = result.text.trim();
+    const unwrapped = raw.startsWith("```")
+      ? raw.replace(/^```[a-zA-Z]*\n/, "").replace(/\n```\s*$/, "")
+      : raw;
+    const parsed = JSON.parse(unwrapped) as {
+      items?: Array<{ amendment?: unknown; title?: unknown; currentLaw?: unknown; proposedChange?: unknown }>;
+    };
+    if (!Array.isArray(parsed.items)) {
+      throw new Error("Invalid current law comparison response structure");
+    }
+
+    return parsed.items.flatMap((item) => {
+      const amendment = args.amendments[Number(item.amendment) - 1];
+      if (!amendment) return [];
+      const target: UsCodeCitation | undefined = amendment.targets[0];
+      return [{
+        title: String(item.title ?? ""),
+        currentLaw: String(item.currentLaw ?? ""),
+        proposedChange: String(item.proposedChange ?? ""),
+        instruction: amendment.instruction,
+        target,
+        citations: amendment.sectionAnchor
+          ? [{ label: amendment.sectionLabel ?? amendment.sectionAnchor, sectionId: amendment.sectionAnchor }]
+          : [],
+      }];
+    });
   },
 });
 
@@ -683,8 +1316,7 @@ export const vectorizeBillData = internalAction({
       return entryId;
     } catch (error) {
       console.error("Error vectorizing bill data:", error);
-      // Return a fallback ID
-      return `fallback-${Date.now()}`;
+      throw toIngestionError(error);
     }
   },
 });
@@ -701,28 +1333,17 @@ export const storeBillData = internalMutation({
     sponsor: billSponsorValidator,
     cosponsors: v.array(billSponsorValidator),
     committees: v.array(v.string()),
+    committeeReferrals: v.optional(v.array(billCommitteeRefValidator)),
     actionDate: v.optional(v.string()),
     xmlUrl: v.string(),
     fullText: v.string(),
+    outline: v.optional(v.array(billOutlineNodeValidator)),
     summary: v.string(),
     tagLine: v.string(),
     impactAreas: v.array(v.string()),
-    structuredSummary: v.optional(
-      v.array(
-        v.object({
-          title: v.string(),
-          text: v.string(),
-          citations: v.optional(
-            v.array(
-              v.object({
-                label: v.string(),
-                sectionId: v.string(),
-              }),
-            ),
-          ),
-        }),
-      ),
-    ),
+    structuredSummary: v.optional(v.array(structuredSummarySectionValidator)),
+    changeAnalysis: v.optional(versionChangeAnalysisValidator),
+    currentLawComparison: v.optional(v.array(currentLawComparisonItemValidator)),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -732,16 +1353,20 @@ export const storeBillData = internalMutation({
       sponsorId = await ctx.runMutation(internal.dataPipeline.upsertPolitician, {
         name: args.sponsor.name,
         govinfoId: args.sponsor.nameId,
+        chamber: getOriginChamber(args.billType),
       });
     }
 
     // 2. Handle cosponsor politicians
+    const cosponsorIds: Array<Id<"politicians">> = [];
     for (const cosponsor of args.cosponsors) {
       if (cosponsor.nameId) {
-        await ctx.runMutation(internal.dataPipeline.upsertPolitician, {
+        const cosponsorId = await ctx.runMutation(internal.dataPipeline.upsertPolitician, {
           name: cosponsor.name,
           govinfoId: cosponsor.nameId,
+          chamber: getOriginChamber(args.billType), // Cosponsors sit in the sponsor's chamber
         });
+        cosponsorIds.push(cosponsorId);
       }
     }
 
@@ -755,22 +1380,13 @@ export const storeBillData = internalMutation({
       )
       .first();
 
+    // Bill-level fields are a denormalized copy of the latest version
+    const isLatestVersion = !existingBill?.latestVersionCode ||
+      getVersionPriority(args.versionCode, args.billType) >=
+        getVersionPriority(existingBill.latestVersionCode, existingBill.billType);
+
     let billId: Id<"bills">;
     if (existingBill) {
-      // Update existing bill with latest info
-      await ctx.db.patch(existingBill._id, {
-        title: args.officialTitle,
-        cleanedShortTitle: args.cleanedShortTitle,
-        sponsorId,
-        committees: args.committees,
-        latestVersionCode: args.versionCode,
-        latestActionDate: args.actionDate,
-        status: getBillStatusFromVersionCode(args.versionCode),
-        summary: args.summary,
-        tagline: args.tagLine,
-        impactAreas: args.impactAreas,
-        structuredSummary: args.structuredSummary,
-      });
       billId = existingBill._id;
     } else {
       // Create new bill
@@ -785,14 +1401,17 @@ export const storeBillData = internalMutation({
         latestVersionCode: args.versionCode,
         latestActionDate: args.actionDate,
         status: getBillStatusFromVersionCode(args.versionCode),
-        summary: args.summary,
-        tagline: args.tagLine,
-        impactAreas: args.impactAreas,
-        structuredSummary: args.structuredSummary,
       });
     }
 
-    // 4. Check if this bill version already exists
+    // 4. Store this version with its own enrichment (empty for un-enriched replays)
+    const versionSummary = {
+      summary: args.summary || undefined,
+      tagline: args.tagLine || undefined,
+      impactAreas: args.impactAreas.length > 0 ? args.impactAreas : undefined,
+      structuredSummary: args.structuredSummary,
+    };
+
     const existingVersion = await ctx.db
       .query("billVersions")
       .withIndex("by_billId_and_version", (q) =>
@@ -800,9 +1419,10 @@ export const storeBillData = internalMutation({
       )
       .first();
 
+    let versionId: Id<"billVersions">;
     if (!existingVersion) {
       // Store bill version
-      await ctx.db.insert("billVersions", {
+      versionId = await ctx.db.insert("billVersions", {
         billId,
         versionCode: args.versionCode,
         title: args.cleanedShortTitle || args.officialTitle,
@@ -810,9 +1430,83 @@ export const storeBillData = internalMutation({
         fullText: args.fullText,
         xmlUrl: args.xmlUrl,
         textLength: args.fullText.length,
+        ...versionSummary,
+        outline: args.outline,
+        changeAnalysis: args.changeAnalysis,
+        currentLawComparison: args.currentLawComparison,
+      });
+    } else {
+      versionId = existingVersion._id;
+      // Re-enriched version: refresh what this run generated, keeping what it didn't
+      await ctx.db.patch(versionId, {
+        ...(versionSummary.summary ? versionSummary : {}),
+        ...(args.changeAnalysis ? { changeAnalysis: args.changeAnalysis } : {}),
+        ...(args.currentLawComparison ? { currentLawComparison: args.currentLawComparison } : {}),
+      });
+    }
+
+    // A file stored after failing earlier leaves the retry queue
+    await resolveOpenFailures(ctx, args.xmlUrl, "succeeded", "Stored");
+
+    // 5. Point the bill at this version if it is the latest
+    if (isLatestVersion) {
+      await ctx.db.patch(billId, {
+        title: args.officialTitle,
+        cleanedShortTitle: args.cleanedShortTitle,
+        sponsorId: sponsorId ?? existingBill?.sponsorId,
+        committees: args.committees,
+        latestVersionId: versionId,
+        latestVersionCode: args.versionCode,
+        // Bills synced from BILLSTATUS take their status from the action history instead
+        ...(existingBill?.billStatusUpdatedAt ? {} : {
+          latestActionDate: args.actionDate,
+          status: getBillStatusFromVersionCode(args.versionCode),
+        }),
+        // A store-only version leaves the summary of the last summarized version in place
+        ...(versionSummary.summary ? { ...versionSummary, changeAnalysis: args.currentLawComparison } : {}),
       });
     }
 
+    // 6. Record cosponsors and committee referrals not yet known; BILLSTATUS owns them
+    // once the bill is synced.
+    // Text versions only say who was listed, so only the introduced text marks originals.
+    if (!existingBill?.billStatusUpdatedAt) {
+      const isIntroducedText = getVersionCodeInfo(args.versionCode)?.phase === "introduced";
+      const introducedDate = isIntroducedText ? parseBillDate(args.actionDate)?.toISOString().slice(0, 10) : undefined;
+      for (const politicianId of new Set(cosponsorIds)) {
+        const existingCosponsor = await ctx.db
+          .query("billCosponsors")
+          .withIndex("by_billId_and_politicianId", (q) => q.eq("billId", billId).eq("politicianId", politicianId))
+          .first();
+        if (existingCosponsor) continue;
+        await ctx.db.insert("billCosponsors", {
+          billId,
+          politicianId,
+          sponsorshipDate: introducedDate,
+          isOriginalCosponsor: isIntroducedText,
+          source: "billText",
+        });
+      }
+
+      // Referrals likewise, as of when the text was published
+      for (const committee of args.committeeReferrals ?? []) {
+        const committeeId = await resolveCommittee(ctx, committee);
+        const existingReferral = await ctx.db
+          .query("billCommitteeReferrals")
+          .withIndex("by_billId", (q) => q.eq("billId", billId))
+          .filter((q) => q.eq(q.field("committeeId"), committeeId))
+          .first();
+        if (existingReferral) continue;
+        await ctx.db.insert("billCommitteeReferrals", {
+          billId,
+          committeeId,
+          status: "referred",
+          referredDate: introducedDate,
+          source: "billText",
+        });
+      }
+    }
+
     return null;
   },
 });
@@ -822,26 +1516,44 @@ export const upsertPolitician = internalMutation({
   args: {
     name: v.string(),
     govinfoId: v.string(),
+    // Known when the caller has member details, e.g. BILLSTATUS sponsors
+    party: v.optional(v.string()),
+    state: v.optional(v.string()),
+    chamber: v.optional(v.union(v.literal("House"), v.literal("Senate"))),
   },
   returns: v.id("politicians"),
   handler: async (ctx, args) => {
-    // Check if politician already exists by govinfoId
-    const existing = await ctx.db
-      .query("politicians")
-      .withIndex("by_govinfoId", (q) => q.eq("govinfoId", args.govinfoId))
-      .first();
+    // Check if politician already exists by govinfoId; Senate bill text names senators
+    // by LIS id, which a legislators import records alongside the bioguide ID
+    const existing =
+      (await ctx.db
+        .query("politicians")
+        .withIndex("by_govinfoId", (q) => q.eq("govinfoId", args.govinfoId))
+        .first()) ??
+      (await ctx.db
+        .query("politicians")
+        .withIndex("by_lisId", (q) => q.eq("lisId", args.govinfoId))
+        .first());
 
     if (existing) {
+      // Fill in placeholders from the first source that knows better
+      if (existing.party === "Unknown" && args.party) {
+        await ctx.db.patch(existing._id, {
+          party: args.party,
+          state: args.state ?? existing.state,
+          chamber: args.chamber ?? existing.chamber,
+        });
+      }
       return existing._id;
     }
 
-    // Create new politician (you'll need to enhance this with party, state, chamber data)
+    // Placeholders hold until BILLSTATUS or a legislators import (see legislators.ts) fills them
     return await ctx.db.insert("politicians", {
       name: args.name,
       govinfoId: args.govinfoId,
-      party: "Unknown", // TODO: Extract from another data source
-      state: "Unknown", // TODO: Extract from another data source  
-      chamber: "House", // TODO: Determine from bill type or other data
+      party: args.party ?? "Unknown",
+      state: args.state ?? "Unknown",
+      chamber: args.chamber ?? "House",
     });
   },
 });
\ No newline at end of file
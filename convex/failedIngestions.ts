@@ -0,0 +1,374 @@
+import { internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { ingestionErrorCodeValidator } from "../utils/ingestionErrors";
+import { roleAction, roleMutation, roleQuery } from "./authz";
+
+// A file is given up on after this many failed attempts, including the first
+export const MAX_INGESTION_ATTEMPTS = 5;
+
+// Retries wait 1h, 2h, 4h, ... capped at a day
+const BASE_RETRY_BACKOFF_MS = 60 * 60 * 1000;
+const MAX_RETRY_BACKOFF_MS = 24 * 60 * 60 * 1000;
+
+// A claimed row with no outcome after this long is treated as a failed attempt
+const RETRY_CLAIM_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after a number of failed attempts
+ */
+export const getRetryBackoffMs = (attempts: number): number => {
+  return Math.min(BASE_RETRY_BACKOFF_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_BACKOFF_MS);
+};
+
+const failedIngestionStatusValidator = v.union(
+  v.literal("pending"),
+  v.literal("retrying"),
+  v.literal("resolved"),
+  v.literal("forced"),
+  v.literal("exhausted"),
+  v.literal("dismissed"),
+);
+
+// Convex validator for a failedIngestions document
+export const failedIngestionValidator = v.object({
+  _id: v.id("failedIngestions"),
+  _creationTime: v.number(),
+  congress: v.number(),
+  billType: v.string(),
+  billNumber: v.string(),
+  versionCode: v.string(),
+  xmlUrl: v.string(),
+  reasonCode: v.optional(ingestionErrorCodeValidator),
+  reason: v.string(),
+  summaryAttempt: v.optional(v.object({
+    summary: v.optional(v.string()),
+    tagLine: v.optional(v.string()),
+    impactAreas: v.optional(v.array(v.string())),
+    structuredSummary: v.optional(v.array(v.object({
+      title: v.string(),
+      text: v.string(),
+      citations: v.optional(v.array(v.object({
+        label: v.string(),
+        sectionId: v.string(),
+      }))),
+    }))),
+  })),
+  createdAt: v.number(),
+  status: v.optional(failedIngestionStatusValidator),
+  attempts: v.optional(v.number()),
+  nextAttemptAt: v.optional(v.number()),
+  attemptHistory: v.optional(v.array(v.object({
+    attemptedAt: v.number(),
+    outcome: v.union(v.literal("failed"), v.literal("succeeded"), v.literal("skipped")),
+    reason: v.optional(v.string()),
+  }))),
+  resolvedAt: v.optional(v.number()),
+  dispositionNote: v.optional(v.string()),
+  updatedAt: v.optional(v.number()),
+  feed: v.optional(v.literal("billStatus")),
+});
+
+// Rows still owned by the retry queue
+export const isOpenFailure = (failure: Doc<"failedIngestions">): boolean => {
+  return failure.status === undefined || failure.status === "pending" || failure.status === "retrying";
+};
+
+/**
+ * Close the open failure rows for a file after a later attempt stored or skipped it
+ * @returns The number of rows closed
+ */
+export const resolveOpenFailures = async (
+  ctx: MutationCtx,
+  xmlUrl: string,
+  outcome: "succeeded" | "skipped",
+  note: string,
+): Promise<number> => {
+  const failures = await ctx.db
+    .query("failedIngestions")
+    .withIndex("by_xmlUrl", (q) => q.eq("xmlUrl", xmlUrl))
+    .collect();
+
+  let resolved = 0;
+  const now = Date.now();
+  for (const failure of failures) {
+    // Exhausted rows are closed too, e.g. when a later discovery run stores the file
+    if (!isOpenFailure(failure) && failure.status !== "exhausted") continue;
+    await ctx.db.patch(failure._id, {
+      status: "resolved",
+      nextAttemptAt: undefined,
+      attemptHistory: [...(failure.attemptHistory ?? []), { attemptedAt: now, outcome, reason: note }],
+      resolvedAt: now,
+      dispositionNote: note,
+      updatedAt: now,
+    });
+    resolved += 1;
+  }
+  return resolved;
+};
+
+// ================================
+// WORKFLOW HELPERS
+// ================================
+
+/**
+ * Claim failed files whose next attempt is due and mark them as retrying.
+ * Rows left retrying past the claim timeout count as a failed attempt before being claimed again.
+ */
+export const claimDueFailedIngestions = internalMutation({
+  args: {
+    limit: v.number(),
+  },
+  returns: v.array(v.object({
+    _id: v.id("failedIngestions"),
+    xmlUrl: v.string(),
+    feed: v.optional(v.literal("billStatus")),
+  })),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const due = [
+      // Recorded before retries were tracked
+      ...(await ctx.db
+        .query("failedIngestions")
+        .withIndex("by_status_and_nextAttemptAt", (q) => q.eq("status", undefined))
+        .take(args.limit)),
+      ...(await ctx.db
+        .query("failedIngestions")
+        .withIndex("by_status_and_nextAttemptAt", (q) => q.eq("status", "pending").lte("nextAttemptAt", now))
+        .take(args.limit)),
+      ...(await ctx.db
+        .query("failedIngestions")
+        .withIndex("by_status_and_nextAttemptAt", (q) => q.eq("status", "retrying").lte("nextAttemptAt", now))
+        .take(args.limit)),
+    ];
+
+    const claimed: Array<{ _id: Id<"failedIngestions">; xmlUrl: string; feed?: "billStatus" }> = [];
+    const claimedUrls = new Set<string>();
+    for (const failure of due) {
+      if (claimed.length >= args.limit) break;
+
+      let attempts = failure.attempts ?? 1;
+      let attemptHistory = failure.attemptHistory ?? [];
+      if (failure.status === "retrying") {
+        attempts += 1;
+        attemptHistory = [...attemptHistory, { attemptedAt: now, outcome: "failed" as const, reason: "No outcome recorded" }];
+        if (attempts >= MAX_INGESTION_ATTEMPTS) {
+          await ctx.db.patch(failure._id, {
+            status: "exhausted",
+            attempts,
+            attemptHistory,
+            nextAttemptAt: undefined,
+            resolvedAt: now,
+            dispositionNote: `Gave up after ${attempts} attempts`,
+            updatedAt: now,
+          });
+          continue;
+        }
+      }
+
+      // One retry per file, even if it failed more than once before retries were tracked
+      if (claimedUrls.has(failure.xmlUrl)) continue;
+      claimedUrls.add(failure.xmlUrl);
+
+      await ctx.db.patch(failure._id, {
+        status: "retrying",
+        attempts,
+        attemptHistory,
+        nextAttemptAt: now + RETRY_CLAIM_TIMEOUT_MS,
+        updatedAt: now,
+      });
+      claimed.push({ _id: failure._id, xmlUrl: failure.xmlUrl, feed: failure.feed });
+    }
+
+    return claimed;
+  },
+});
+
+/**
+ * Close the open failure rows for a file that a retry skipped (e.g. superseded by a newer
+ * version), or synced when it is a BILLSTATUS file
+ */
+export const resolveFailedIngestion = internalMutation({
+  args: {
+    xmlUrl: v.string(),
+    note: v.string(),
+    outcome: v.optional(v.union(v.literal("succeeded"), v.literal("skipped"))), // Defaults to skipped
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    return await resolveOpenFailures(ctx, args.xmlUrl, args.outcome ?? "skipped", args.note);
+  },
+});
+
+export const getFailedIngestionInternal = internalQuery({
+  args: {
+    failureId: v.id("failedIngestions"),
+  },
+  returns: v.union(failedIngestionValidator, v.null()),
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.failureId);
+  },
+});
+
+export const markFailedIngestionForced = internalMutation({
+  args: {
+    failureId: v.id("failedIngestions"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const failure = await ctx.db.get(args.failureId);
+    if (!failure) return null;
+    const now = Date.now();
+    await ctx.db.patch(args.failureId, {
+      status: "forced",
+      nextAttemptAt: undefined,
+      resolvedAt: now,
+      dispositionNote: "Force-ingested with the partial summary attempt",
+      updatedAt: now,
+    });
+    return null;
+  },
+});
+
+// ================================
+// ADMIN CONTROLS
+// ================================
+
+/**
+ * List failed files, newest first, optionally by status
+ */
+export const listFailedIngestions = roleQuery("admin", {
+  args: {
+    status: v.optional(failedIngestionStatusValidator),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(failedIngestionValidator),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 50;
+    if (args.status !== undefined) {
+      const status = args.status;
+      const rows = await ctx.db
+        .query("failedIngestions")
+        .withIndex("by_status_and_nextAttemptAt", (q) => q.eq("status", status))
+        .collect();
+      return rows.sort((a, b) => (b.updatedAt ?? b.createdAt) - (a.updatedAt ?? a.createdAt)).slice(0, limit);
+    }
+    return await ctx.db.query("failedIngestions").order("desc").take(limit);
+  },
+});
+
+/**
+ * Get one failed file with its attempt history and partial summary
+ */
+export const getFailedIngestion = roleQuery("admin", {
+  args: {
+    failureId: v.id("failedIngestions"),
+  },
+  returns: v.union(failedIngestionValidator, v.null()),
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.failureId);
+  },
+});
+
+/**
+ * Retry a failed file now, including one that exhausted its attempts
+ */
+export const retryFailedIngestion = roleMutation("admin", {
+  args: {
+    failureId: v.id("failedIngestions"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const failure = await ctx.db.get(args.failureId);
+    if (!failure) {
+      throw new Error(`Failed ingestion not found: ${args.failureId}`);
+    }
+    if (failure.status === "resolved" || failure.status === "forced") {
+      throw new Error(`Failed ingestion already ${failure.status}: ${failure.xmlUrl}`);
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.failureId, {
+      status: "retrying",
+      nextAttemptAt: now + RETRY_CLAIM_TIMEOUT_MS,
+      resolvedAt: undefined,
+      dispositionNote: undefined,
+      updatedAt: now,
+    });
+    if (failure.feed === "billStatus") {
+      await ctx.scheduler.runAfter(0, internal.billStatus.ingestBillStatusFile, {
+        xmlUrl: failure.xmlUrl,
+        retrying: true,
+      });
+    } else {
+      await ctx.scheduler.runAfter(0, internal.dataPipeline.ingestAndEnrichBillFile, {
+        xmlUrl: failure.xmlUrl,
+        retrying: true,
+      });
+    }
+    return null;
+  },
+});
+
+/**
+ * Stop retrying a failed file. Discovery keeps skipping it.
+ */
+export const dismissFailedIngestion = roleMutation("admin", {
+  args: {
+    failureId: v.id("failedIngestions"),
+    note: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const failure = await ctx.db.get(args.failureId);
+    if (!failure) {
+      throw new Error(`Failed ingestion not found: ${args.failureId}`);
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.failureId, {
+      status: "dismissed",
+      nextAttemptAt: undefined,
+      resolvedAt: now,
+      dispositionNote: args.note ?? "Dismissed",
+      updatedAt: now,
+    });
+    return null;
+  },
+});
+
+/**
+ * Store a failed file using its partial summaryAttempt instead of generating a new summary
+ */
+export const forceIngestFailedIngestion = roleAction("admin", {
+  args: {
+    failureId: v.id("failedIngestions"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const failure = await ctx.runQuery(internal.failedIngestions.getFailedIngestionInternal, {
+      failureId: args.failureId,
+    });
+    if (!failure) {
+      throw new Error(`Failed ingestion not found: ${args.failureId}`);
+    }
+    if (!failure.summaryAttempt?.summary) {
+      throw new Error(`No partial summary to force-ingest for ${failure.xmlUrl}`);
+    }
+
+    await ctx.runAction(internal.dataPipeline.ingestBillFileWithSummary, {
+      xmlUrl: failure.xmlUrl,
+      summaryData: {
+        summary: failure.summaryAttempt.summary,
+        tagLine: failure.summaryAttempt.tagLine ?? "",
+        impactAreas: failure.summaryAttempt.impactAreas ?? [],
+        structuredSummary: failure.summaryAttempt.structuredSummary,
+      },
+    });
+    await ctx.runMutation(internal.failedIngestions.markFailedIngestionForced, {
+      failureId: args.failureId,
+    });
+    return null;
+  },
+});
@@ -0,0 +1,160 @@
+"use node";
+
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { resolveDiscoveryTargets } from "../utils/billSources";
+import { createLocalBillSource } from "../utils/localBillSource";
+import { importLegislators, importResultValidator } from "./legislators";
+import { importCommittees, committeesImportResultValidator } from "./committees";
+
+/**
+ * Replay a local directory of BILLS-*.xml files (listed in a manifest) through the
+ * same parse and store path as govinfo ingestion. Files are replayed one at a time in
+ * link order, and without enrichment no AI or embedding calls are made, so the stored
+ * bills depend only on the XML. The directory must be readable by the Node runtime.
+ */
+export const replayLocalBillFiles = internalAction({
+  args: {
+    directory: v.string(),
+    manifestFile: v.optional(v.string()),
+    congresses: v.optional(v.array(v.number())),
+    billTypes: v.optional(v.array(v.string())),
+    limit: v.optional(v.number()),
+    enrich: v.optional(v.boolean()),
+  },
+  returns: v.object({
+    listed: v.number(),
+    replayed: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    const source = createLocalBillSource(args.directory, args.manifestFile);
+    const billTypes = args.billTypes ?? ["hr", "s", "hjres", "sjres", "hres", "sres", "hconres", "sconres"];
+
+    const congresses = args.congresses ?? (await source.listCongresses());
+    const targets = await resolveDiscoveryTargets(source, { congresses });
+
+    const links: Array<string> = [];
+    for (const { congress, session } of targets) {
+      for (const billType of billTypes) {
+        const files = await source.listFiles(congress, session, billType);
+        links.push(...(files ?? []).filter((f) => f.link.endsWith(".xml")).map((f) => f.link));
+      }
+    }
+    links.sort();
+
+    const toReplay = args.limit && args.limit > 0 ? links.slice(0, args.limit) : links;
+    for (const xmlUrl of toReplay) {
+      const xmlData = await source.fetchXml(xmlUrl);
+      await ctx.runAction(internal.dataPipeline.ingestBillXml, {
+        xmlUrl,
+        xmlData,
+        enrich: args.enrich ?? false,
+      });
+    }
+
+    console.log(`Replayed ${toReplay.length} of ${links.length} local bill files from ${args.directory}`);
+    return { listed: links.length, replayed: toReplay.length };
+  },
+});
+
+/**
+ * Replay a local directory of BILLSTATUS-*.xml files through the same parse and store
+ * path as the BILLSTATUS sync, in file name order. The directory must be readable by
+ * the Node runtime.
+ */
+export const replayLocalBillStatusFiles = internalAction({
+  args: {
+    directory: v.string(),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    listed: v.number(),
+    stored: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    const names = (await readdir(args.directory)).filter((name) => /^BILLSTATUS-.*\.xml$/.test(name)).sort();
+    const toReplay = args.limit && args.limit > 0 ? names.slice(0, args.limit) : names;
+
+    let stored = 0;
+    for (const name of toReplay) {
+      const xmlData = await readFile(path.join(args.directory, name), "utf8");
+      const result = await ctx.runAction(internal.billStatus.ingestBillStatusFile, {
+        xmlUrl: name,
+        xmlData,
+        syncRollCalls: false,
+      });
+      if (result.stored) stored++;
+    }
+
+    console.log(`Replayed ${toReplay.length} of ${names.length} local BILLSTATUS files from ${args.directory}`);
+    return { listed: names.length, stored };
+  },
+});
+
+/**
+ * Replay a local directory of roll call vote files, as published by the House Clerk
+ * (roll123.xml) and the Senate (vote_118_1_00012.xml), through the same parse and store
+ * path as the vote sync, in file name order. Replay BILLSTATUS files and import
+ * legislators first so votes link to their bills and members. The directory must be
+ * readable by the Node runtime.
+ */
+export const replayLocalRollCallFiles = internalAction({
+  args: {
+    directory: v.string(),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    listed: v.number(),
+    replayed: v.number(),
+    unmatchedMembers: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    const names = (await readdir(args.directory)).filter((name) => /^(roll\d+|vote_\d+_\d+_\d+)\.xml$/.test(name)).sort();
+    const toReplay = args.limit && args.limit > 0 ? names.slice(0, args.limit) : names;
+
+    let unmatchedMembers = 0;
+    for (const name of toReplay) {
+      const xmlData = await readFile(path.join(args.directory, name), "utf8");
+      const result = await ctx.runAction(internal.rollCalls.ingestRollCallFile, { xmlUrl: name, xmlData });
+      unmatchedMembers += result.unmatched;
+    }
+
+    console.log(`Replayed ${toReplay.length} of ${names.length} local roll call files from ${args.directory}`);
+    return { listed: names.length, replayed: toReplay.length, unmatchedMembers };
+  },
+});
+
+/**
+ * Import a congress-legislators file (e.g. legislators-current.yaml) from the local
+ * filesystem, the same way an admin upload is imported. The file must be readable by
+ * the Node runtime.
+ */
+export const importLocalLegislatorsFile = internalAction({
+  args: {
+    path: v.string(),
+  },
+  returns: importResultValidator,
+  handler: async (ctx, args): Promise<{ parsed: number; created: number; updated: number }> => {
+    const content = await readFile(args.path, "utf8");
+    return await importLegislators(ctx, content);
+  },
+});
+
+/**
+ * Import a congress-legislators committees file (committees-current.yaml or
+ * committee-membership-current.yaml) from the local filesystem, the same way an admin
+ * upload is imported. The file must be readable by the Node runtime.
+ */
+export const importLocalCommitteesFile = internalAction({
+  args: {
+    path: v.string(),
+  },
+  returns: committeesImportResultValidator,
+  handler: async (ctx, args): Promise<{ kind: "committees" | "members"; parsed: number; stored: number; skipped: number }> => {
+    const content = await readFile(args.path, "utf8");
+    return await importCommittees(ctx, content);
+  },
+});
@@ -1,6 +1,6 @@
-import { query, mutation } from "./_generated/server";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
+import { publicMutation, publicQuery } from "./authz";
 
 // ===== MAIN DATA QUERIES =====
 
@@ -8,7 +8,7 @@ import { Id } from "./_generated/dataModel";
  * Get the 10 most recently updated bills for the homepage content section.
  * Returns bills ordered by latestActionDate (descending) with sponsor information.
  */
-export const getLatestBills = query({
+export const getLatestBills = publicQuery({
   args: {},
   returns: v.array(v.object({
     _id: v.id("bills"),
@@ -80,7 +80,7 @@ export const getLatestBills = query({
 /**
  * Get four specific trending bills by id, in fixed order.
  */
-export const getTrendingBills = query({
+export const getTrendingBills = publicQuery({
   args: {},
   returns: v.array(v.object({
     _id: v.id("bills"),
@@ -162,13 +162,12 @@ export const getTrendingBills = query({
 
 /**
  * Track search queries for analytics and improvement.
- * Stores search analytics with timestamp and basic metrics.
+ * Stores search analytics with timestamp and basic metrics, attributed to the signed-in caller if any.
  */
-export const logSearchQuery = mutation({
+export const logSearchQuery = publicMutation({
   args: {
     query: v.string(),
     resultCount: v.number(),
-    userId: v.optional(v.id("users")),
     filters: v.optional(v.object({
       billType: v.optional(v.string()),
       congress: v.optional(v.number()),
@@ -181,7 +180,7 @@ export const logSearchQuery = mutation({
     await ctx.db.insert("searchAnalytics", {
       query: args.query.slice(0, 200), // Limit query length for storage
       resultCount: args.resultCount,
-      userId: args.userId,
+      userId: ctx.viewerId ?? undefined, // The caller, never a client-supplied id
       filters: args.filters,
       timestamp: Date.now(),
       // No PII stored beyond optional userId
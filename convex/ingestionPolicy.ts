@@ -0,0 +1,97 @@
+import { internalQuery, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { roleMutation, roleQuery } from "./authz";
+import { DEFAULT_INGEST_POLICY, IngestPolicy, versionIngestActionValidator } from "../utils/versionCodes";
+
+// Convex validator for an ingest policy (see utils/versionCodes.ts)
+export const ingestPolicyValidator = v.object({
+  rules: v.array(v.object({
+    versionCode: v.string(),
+    action: versionIngestActionValidator,
+  })),
+  defaultAction: versionIngestActionValidator,
+});
+
+/**
+ * The saved ingest policy, or the default when none was saved
+ */
+export const loadIngestPolicy = async (ctx: QueryCtx): Promise<IngestPolicy> => {
+  const saved = await ctx.db.query("ingestionPolicy").first();
+  return saved ? { rules: saved.rules, defaultAction: saved.defaultAction } : DEFAULT_INGEST_POLICY;
+};
+
+// ================================
+// WORKFLOW HELPERS
+// ================================
+
+export const getIngestPolicy = internalQuery({
+  args: {},
+  returns: ingestPolicyValidator,
+  handler: async (ctx) => {
+    return await loadIngestPolicy(ctx);
+  },
+});
+
+// ================================
+// ADMIN CONTROLS
+// ================================
+
+export const getIngestPolicySettings = roleQuery("admin", {
+  args: {},
+  returns: v.object({
+    policy: ingestPolicyValidator,
+    isDefault: v.boolean(),
+    updatedAt: v.optional(v.number()),
+  }),
+  handler: async (ctx) => {
+    const saved = await ctx.db.query("ingestionPolicy").first();
+    return {
+      policy: await loadIngestPolicy(ctx),
+      isDefault: saved === null,
+      updatedAt: saved?.updatedAt,
+    };
+  },
+});
+
+/**
+ * Replace the ingest policy. Applies to files discovered or retried from now on;
+ * stored versions are not re-processed.
+ */
+export const updateIngestPolicy = roleMutation("admin", {
+  args: ingestPolicyValidator.fields,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    // One rule per code; the last one given wins
+    const byCode = new Map(args.rules.map((r) => [r.versionCode.trim().toLowerCase(), r.action]));
+    const rules = [...byCode].map(([versionCode, action]) => ({ versionCode, action }));
+
+    const saved = await ctx.db.query("ingestionPolicy").first();
+    const policy = {
+      rules,
+      defaultAction: args.defaultAction,
+      updatedAt: Date.now(),
+      updatedBy: ctx.viewer._id,
+    };
+    if (saved) {
+      await ctx.db.replace(saved._id, policy);
+    } else {
+      await ctx.db.insert("ingestionPolicy", policy);
+    }
+    return null;
+  },
+});
+
+/**
+ * Go back to the default ingest policy
+ */
+export const resetIngestPolicy = roleMutation("admin", {
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const saved = await ctx.db.query("ingestionPolicy").first();
+    if (saved) {
+      await ctx.db.delete(saved._id);
+    }
+    return null;
+  },
+});
@@ -0,0 +1,331 @@
+import { internalMutation } from "./_generated/server";
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import { parseBillInfoFromUrl } from "../utils/dataHelpers";
+import { ingestionErrorCodeValidator } from "../utils/ingestionErrors";
+import { roleQuery } from "./authz";
+
+// Convex validator for an ingestionRuns document
+export const ingestionRunValidator = v.object({
+  _id: v.id("ingestionRuns"),
+  _creationTime: v.number(),
+  workflowId: v.optional(v.string()),
+  status: v.union(v.literal("running"), v.literal("completed"), v.literal("failed")),
+  sinceMs: v.optional(v.number()),
+  discovered: v.number(),
+  queued: v.number(),
+  processed: v.number(),
+  skipped: v.number(),
+  failed: v.number(),
+  skipReasons: v.array(v.object({ code: v.string(), count: v.number() })),
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+  totalTokens: v.number(),
+  startedAt: v.number(),
+  discoveredAt: v.optional(v.number()),
+  finishedAt: v.optional(v.number()),
+  durationMs: v.optional(v.number()),
+  error: v.optional(v.string()),
+});
+
+// Convex validator for an ingestionRunFiles document
+export const ingestionRunFileValidator = v.object({
+  _id: v.id("ingestionRunFiles"),
+  _creationTime: v.number(),
+  runId: v.id("ingestionRuns"),
+  xmlUrl: v.string(),
+  congress: v.optional(v.number()),
+  billType: v.optional(v.string()),
+  billNumber: v.optional(v.string()),
+  versionCode: v.optional(v.string()),
+  outcome: v.union(
+    v.literal("processing"),
+    v.literal("stored"),
+    v.literal("skipped"),
+    v.literal("failed"),
+  ),
+  skipCode: v.optional(v.string()),
+  errorCode: v.optional(ingestionErrorCodeValidator),
+  reason: v.optional(v.string()),
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+  totalTokens: v.number(),
+  startedAt: v.number(),
+  finishedAt: v.optional(v.number()),
+  durationMs: v.optional(v.number()),
+});
+
+const paginatedResultValidator = <T extends typeof ingestionRunValidator | typeof ingestionRunFileValidator>(item: T) =>
+  v.object({
+    page: v.array(item),
+    isDone: v.boolean(),
+    continueCursor: v.string(),
+    splitCursor: v.optional(v.union(v.string(), v.null())),
+    pageStatus: v.optional(v.union(v.literal("SplitRecommended"), v.literal("SplitRequired"), v.null())),
+  });
+
+// ================================
+// WORKFLOW HELPERS
+// ================================
+
+export const startIngestionRun = internalMutation({
+  args: {
+    workflowId: v.optional(v.string()),
+  },
+  returns: v.id("ingestionRuns"),
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("ingestionRuns", {
+      workflowId: args.workflowId,
+      status: "running",
+      discovered: 0,
+      queued: 0,
+      processed: 0,
+      skipped: 0,
+      failed: 0,
+      skipReasons: [],
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      startedAt: Date.now(),
+    });
+  },
+});
+
+export const recordIngestionRunDiscovery = internalMutation({
+  args: {
+    runId: v.id("ingestionRuns"),
+    sinceMs: v.number(),
+    discovered: v.number(),
+    queued: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.runId, {
+      sinceMs: args.sinceMs,
+      discovered: args.discovered,
+      queued: args.queued,
+      discoveredAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+export const finishIngestionRun = internalMutation({
+  args: {
+    runId: v.id("ingestionRuns"),
+    status: v.union(v.literal("completed"), v.literal("failed")),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) return null;
+    const now = Date.now();
+    await ctx.db.patch(args.runId, {
+      status: args.status,
+      error: args.error,
+      finishedAt: now,
+      durationMs: now - run.startedAt,
+    });
+    return null;
+  },
+});
+
+/**
+ * Get or create the ledger row for a file in a run. A file retried by its workflow step
+ * keeps the row from its first attempt.
+ */
+export const startIngestionRunFile = internalMutation({
+  args: {
+    runId: v.id("ingestionRuns"),
+    xmlUrl: v.string(),
+  },
+  returns: v.id("ingestionRunFiles"),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("ingestionRunFiles")
+      .withIndex("by_runId_and_xmlUrl", (q) => q.eq("runId", args.runId).eq("xmlUrl", args.xmlUrl))
+      .first();
+    if (existing) return existing._id;
+
+    let billInfo: Partial<ReturnType<typeof parseBillInfoFromUrl>> = {};
+    try {
+      billInfo = parseBillInfoFromUrl(args.xmlUrl);
+    } catch {
+      // Recorded without identifiers; the failure is reported when the file finishes
+    }
+
+    return await ctx.db.insert("ingestionRunFiles", {
+      runId: args.runId,
+      xmlUrl: args.xmlUrl,
+      congress: billInfo.congress,
+      billType: billInfo.billType,
+      billNumber: billInfo.billNumber,
+      versionCode: billInfo.versionCode,
+      outcome: "processing",
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      startedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Record a file's final outcome and count it on the run. Only the first final outcome counts.
+ */
+export const finishIngestionRunFile = internalMutation({
+  args: {
+    runId: v.id("ingestionRuns"),
+    xmlUrl: v.string(),
+    outcome: v.union(v.literal("stored"), v.literal("skipped"), v.literal("failed")),
+    skipCode: v.optional(v.string()),
+    errorCode: v.optional(ingestionErrorCodeValidator),
+    reason: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const file = await ctx.db
+      .query("ingestionRunFiles")
+      .withIndex("by_runId_and_xmlUrl", (q) => q.eq("runId", args.runId).eq("xmlUrl", args.xmlUrl))
+      .first();
+    const run = await ctx.db.get(args.runId);
+    if (!file || !run || file.outcome !== "processing") return null;
+
+    const now = Date.now();
+    await ctx.db.patch(file._id, {
+      outcome: args.outcome,
+      skipCode: args.skipCode,
+      errorCode: args.errorCode,
+      reason: args.reason,
+      finishedAt: now,
+      durationMs: now - file.startedAt,
+    });
+
+    if (args.outcome === "stored") {
+      await ctx.db.patch(run._id, { processed: run.processed + 1 });
+    } else if (args.outcome === "failed") {
+      await ctx.db.patch(run._id, { failed: run.failed + 1 });
+    } else {
+      const code = args.skipCode ?? "unknown";
+      const skipReasons = run.skipReasons.some((r) => r.code === code)
+        ? run.skipReasons.map((r) => (r.code === code ? { code, count: r.count + 1 } : r))
+        : [...run.skipReasons, { code, count: 1 }];
+      await ctx.db.patch(run._id, { skipped: run.skipped + 1, skipReasons });
+    }
+    return null;
+  },
+});
+
+// Called by the agent's usage handler for each model call made while ingesting a file
+export const addIngestionRunFileUsage = internalMutation({
+  args: {
+    runFileId: v.id("ingestionRunFiles"),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    totalTokens: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const file = await ctx.db.get(args.runFileId);
+    if (!file) return null;
+    await ctx.db.patch(file._id, {
+      promptTokens: file.promptTokens + args.promptTokens,
+      completionTokens: file.completionTokens + args.completionTokens,
+      totalTokens: file.totalTokens + args.totalTokens,
+    });
+
+    const run = await ctx.db.get(file.runId);
+    if (!run) return null;
+    await ctx.db.patch(run._id, {
+      promptTokens: run.promptTokens + args.promptTokens,
+      completionTokens: run.completionTokens + args.completionTokens,
+      totalTokens: run.totalTokens + args.totalTokens,
+    });
+    return null;
+  },
+});
+
+// ================================
+// LEDGER QUERIES
+// ================================
+
+/**
+ * Page through ingestion runs, newest first
+ */
+export const listIngestionRuns = roleQuery("admin", {
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginatedResultValidator(ingestionRunValidator),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("ingestionRuns")
+      .withIndex("by_startedAt")
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+export const getIngestionRun = roleQuery("admin", {
+  args: {
+    runId: v.id("ingestionRuns"),
+  },
+  returns: v.union(ingestionRunValidator, v.null()),
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.runId);
+  },
+});
+
+/**
+ * Page through the files of a run, optionally with a single outcome
+ */
+export const listIngestionRunFiles = roleQuery("admin", {
+  args: {
+    runId: v.id("ingestionRuns"),
+    outcome: v.optional(v.union(
+      v.literal("processing"),
+      v.literal("stored"),
+      v.literal("skipped"),
+      v.literal("failed"),
+    )),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginatedResultValidator(ingestionRunFileValidator),
+  handler: async (ctx, args) => {
+    if (args.outcome !== undefined) {
+      const outcome = args.outcome;
+      return await ctx.db
+        .query("ingestionRunFiles")
+        .withIndex("by_runId_and_outcome", (q) => q.eq("runId", args.runId).eq("outcome", outcome))
+        .paginate(args.paginationOpts);
+    }
+    return await ctx.db
+      .query("ingestionRunFiles")
+      .withIndex("by_runId_and_xmlUrl", (q) => q.eq("runId", args.runId))
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Every run outcome recorded for a bill's files, newest first. Explains why a bill or
+ * one of its versions is missing.
+ */
+export const getIngestionHistoryForBill = roleQuery("admin", {
+  args: {
+    congress: v.number(),
+    billType: v.string(),
+    billNumber: v.string(),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(ingestionRunFileValidator),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("ingestionRunFiles")
+      .withIndex("by_identifier", (q) =>
+        q.eq("congress", args.congress).eq("billType", args.billType).eq("billNumber", args.billNumber)
+      )
+      .order("desc")
+      .take(args.limit ?? 50);
+  },
+});
@@ -0,0 +1,197 @@
+import { v } from "convex/values";
+import { internalMutation, ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { roleAction, roleMutation, roleQuery } from "./authz";
+import { legislatorAlternateIdsValidator, legislatorTermValidator, parseLegislatorsFile } from "../utils/legislators";
+
+// Import of member details from a congress-legislators style file. Bill text and
+// BILLSTATUS only name sponsors; this fills in party, state, district, chamber, terms,
+// websites and alternate IDs, keyed by bioguide ID (politicians.govinfoId).
+
+// Records are written in batches to stay well under per-mutation write limits
+const UPSERT_BATCH_SIZE = 100;
+
+// Convex validator for LegislatorRecord (see types.ts)
+export const legislatorRecordValidator = v.object({
+  bioguideId: v.string(),
+  name: v.string(),
+  party: v.string(),
+  state: v.string(),
+  district: v.optional(v.string()),
+  chamber: v.union(v.literal("House"), v.literal("Senate")),
+  inOffice: v.boolean(),
+  terms: v.array(legislatorTermValidator),
+  officialUrl: v.optional(v.string()),
+  contactForm: v.optional(v.string()),
+  lisId: v.optional(v.string()),
+  opensecretsId: v.optional(v.string()),
+  alternateIds: legislatorAlternateIdsValidator,
+});
+
+// Convex validator for a full politicians document
+export const politicianValidator = v.object({
+  _id: v.id("politicians"),
+  _creationTime: v.number(),
+  name: v.string(),
+  govinfoId: v.optional(v.string()),
+  propublicaId: v.optional(v.string()),
+  opensecretsId: v.optional(v.string()),
+  party: v.string(),
+  state: v.string(),
+  chamber: v.union(v.literal("House"), v.literal("Senate")),
+  district: v.optional(v.string()),
+  inOffice: v.optional(v.boolean()),
+  terms: v.optional(v.array(legislatorTermValidator)),
+  officialUrl: v.optional(v.string()),
+  contactForm: v.optional(v.string()),
+  lisId: v.optional(v.string()),
+  alternateIds: v.optional(legislatorAlternateIdsValidator),
+  legislatorsImportedAt: v.optional(v.number()),
+});
+
+export const importResultValidator = v.object({
+  parsed: v.number(),
+  created: v.number(),
+  updated: v.number(),
+});
+
+/**
+ * Upsert parsed legislators by bioguide ID, overwriting the placeholder party, state
+ * and chamber of politicians stored from bill text
+ */
+export const upsertLegislators = internalMutation({
+  args: {
+    legislators: v.array(legislatorRecordValidator),
+  },
+  returns: v.object({
+    created: v.number(),
+    updated: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    const importedAt = Date.now();
+    let created = 0;
+    let updated = 0;
+
+    for (const legislator of args.legislators) {
+      // Senators first seen in Senate bill text are stored under their LIS id
+      const existing =
+        (await ctx.db
+          .query("politicians")
+          .withIndex("by_govinfoId", (q) => q.eq("govinfoId", legislator.bioguideId))
+          .first()) ??
+        (legislator.lisId
+          ? await ctx.db
+              .query("politicians")
+              .withIndex("by_govinfoId", (q) => q.eq("govinfoId", legislator.lisId))
+              .first()
+          : null);
+
+      const fields = {
+        name: legislator.name,
+        govinfoId: legislator.bioguideId,
+        party: legislator.party,
+        state: legislator.state,
+        chamber: legislator.chamber,
+        district: legislator.district,
+        inOffice: legislator.inOffice,
+        terms: legislator.terms,
+        officialUrl: legislator.officialUrl,
+        contactForm: legislator.contactForm,
+        lisId: legislator.lisId,
+        opensecretsId: legislator.opensecretsId,
+        alternateIds: legislator.alternateIds,
+        legislatorsImportedAt: importedAt,
+      };
+
+      if (existing) {
+        await ctx.db.patch(existing._id, fields);
+        updated++;
+      } else {
+        await ctx.db.insert("politicians", fields);
+        created++;
+      }
+    }
+
+    return { created, updated };
+  },
+});
+
+/**
+ * Parse a legislators file and upsert it in batches
+ */
+export const importLegislators = async (
+  ctx: ActionCtx,
+  content: string,
+): Promise<{ parsed: number; created: number; updated: number }> => {
+  const legislators = parseLegislatorsFile(content);
+  let created = 0;
+  let updated = 0;
+  for (let i = 0; i < legislators.length; i += UPSERT_BATCH_SIZE) {
+    const result = await ctx.runMutation(internal.legislators.upsertLegislators, {
+      legislators: legislators.slice(i, i + UPSERT_BATCH_SIZE),
+    });
+    created += result.created;
+    updated += result.updated;
+  }
+  console.log(`Imported ${legislators.length} legislators: ${created} created, ${updated} updated`);
+  return { parsed: legislators.length, created, updated };
+};
+
+// ================================
+// ADMIN CONTROLS
+// ================================
+
+export const getLegislatorsImportStatus = roleQuery("admin", {
+  args: {},
+  returns: v.object({
+    total: v.number(),
+    imported: v.number(),
+    unknownParty: v.number(),
+    lastImportedAt: v.optional(v.number()),
+  }),
+  handler: async (ctx) => {
+    const politicians = await ctx.db.query("politicians").collect();
+    let imported = 0;
+    let unknownParty = 0;
+    let lastImportedAt: number | undefined;
+    for (const politician of politicians) {
+      if (politician.party === "Unknown") unknownParty++;
+      if (politician.legislatorsImportedAt !== undefined) {
+        imported++;
+        lastImportedAt = Math.max(lastImportedAt ?? 0, politician.legislatorsImportedAt);
+      }
+    }
+    return { total: politicians.length, imported, unknownParty, lastImportedAt };
+  },
+});
+
+export const generateLegislatorsUploadUrl = roleMutation("admin", {
+  args: {},
+  returns: v.string(),
+  handler: async (ctx) => {
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Import an uploaded legislators-current.yaml (or .json, or the historical file).
+ * Existing politicians are updated in place; the upload is deleted afterwards.
+ */
+export const importLegislatorsFromUpload = roleAction("admin", {
+  args: {
+    storageId: v.id("_storage"),
+  },
+  returns: importResultValidator,
+  handler: async (ctx, args): Promise<{ parsed: number; created: number; updated: number }> => {
+    const blob = await ctx.storage.get(args.storageId);
+    if (!blob) {
+      throw new Error("Uploaded legislators file not found");
+    }
+
+    try {
+      return await importLegislators(ctx, await blob.text());
+    } finally {
+      await ctx.storage.delete(args.storageId);
+    }
+  },
+});
@@ -0,0 +1,41 @@
+import { internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+
+// Summaries used to live only on bills, generated from the latest version. Copy them onto
+// that version and record it as the bill's latestVersionId.
+export const copyBillSummariesToLatestVersions = internalMutation({
+  args: {},
+  returns: v.object({ scanned: v.number(), updated: v.number() }),
+  handler: async (ctx) => {
+    let scanned = 0;
+    let updated = 0;
+
+    const bills = ctx.db.query("bills");
+    for await (const bill of bills) {
+      scanned += 1;
+      if (bill.latestVersionId || !bill.latestVersionCode) continue;
+
+      const latestVersionCode = bill.latestVersionCode;
+      const version = await ctx.db
+        .query("billVersions")
+        .withIndex("by_billId_and_version", (q) =>
+          q.eq("billId", bill._id).eq("versionCode", latestVersionCode)
+        )
+        .first();
+      if (!version) continue;
+
+      if (!version.summary) {
+        await ctx.db.patch(version._id, {
+          summary: bill.summary || undefined,
+          tagline: bill.tagline || undefined,
+          impactAreas: bill.impactAreas,
+          structuredSummary: bill.structuredSummary,
+        });
+      }
+      await ctx.db.patch(bill._id, { latestVersionId: version._id });
+      updated += 1;
+    }
+
+    return { scanned, updated };
+  },
+});
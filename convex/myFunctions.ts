@@ -3,6 +3,7 @@ import { v } from "convex/values";
 import { query, mutation, action } from "./_generated/server";
 import { api } from "./_generated/api";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { publicQuery, userValidator } from "./authz";
 
 // Write your Convex functions in any file inside this directory (`convex`).
 // See https://docs.convex.dev/functions for more.
@@ -32,10 +33,11 @@ import { getAuthUserId } from "@convex-dev/auth/server";
   },
 });*/
 
-export const getUser = query({
+export const getUser = publicQuery({
+  args: {},
+  returns: v.union(userValidator, v.null()),
   handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    const user = userId === null ? null : await ctx.db.get(userId);
+    const user = ctx.viewerId === null ? null : await ctx.db.get(ctx.viewerId);
     return user;
   },
 });
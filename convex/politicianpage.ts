@@ -0,0 +1,333 @@
+import { Infer, v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { publicQuery } from "./authz";
+import { politicianValidator } from "./legislators";
+import { findProfile } from "./userProfiles";
+import { getBillProgressStage } from "../utils/billStatus";
+import { votePositionValidator } from "../utils/rollCalls";
+import { parseLocation } from "../utils/states";
+
+// Impact areas and committees shown on a profile
+const TOP_LIST_SIZE = 6;
+
+const countValidator = v.object({
+  name: v.string(),
+  count: v.number(),
+});
+
+/**
+ * Most frequent values first, ties by name
+ */
+const topCounts = (values: Array<string>, limit: number): Array<{ name: string; count: number }> => {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
+
+// ================================
+// CORE POLITICIAN QUERIES
+// ================================
+
+/**
+ * Get a politician by bioguide ID (politicians.govinfoId). Senators stored from Senate
+ * bill text before a legislators import are found by their LIS id too.
+ */
+export const getPoliticianByGovinfoId = publicQuery({
+  args: { govinfoId: v.string() },
+  returns: v.union(politicianValidator, v.null()),
+  handler: async (ctx, args) => {
+    const politician = await ctx.db
+      .query("politicians")
+      .withIndex("by_govinfoId", (q) => q.eq("govinfoId", args.govinfoId))
+      .first();
+    if (politician) return politician;
+
+    return await ctx.db
+      .query("politicians")
+      .withIndex("by_lisId", (q) => q.eq("lisId", args.govinfoId))
+      .first();
+  },
+});
+
+/**
+ * Page through politicians by name, or those of one state (and chamber)
+ */
+export const listPoliticians = publicQuery({
+  args: {
+    state: v.optional(v.string()),
+    chamber: v.optional(v.union(v.literal("House"), v.literal("Senate"))),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: v.object({
+    page: v.array(politicianValidator),
+    isDone: v.boolean(),
+    continueCursor: v.string(),
+    splitCursor: v.optional(v.union(v.string(), v.null())),
+    pageStatus: v.optional(v.union(v.literal("SplitRecommended"), v.literal("SplitRequired"), v.null())),
+  }),
+  handler: async (ctx, args) => {
+    if (args.state !== undefined) {
+      const state = args.state;
+      const chamber = args.chamber;
+      return await ctx.db
+        .query("politicians")
+        .withIndex("by_state_and_chamber", (q) =>
+          chamber !== undefined ? q.eq("state", state).eq("chamber", chamber) : q.eq("state", state)
+        )
+        .paginate(args.paginationOpts);
+    }
+    const query = ctx.db.query("politicians").withIndex("by_name");
+    return await (args.chamber !== undefined
+      ? query.filter((q) => q.eq(q.field("chamber"), args.chamber))
+      : query
+    ).paginate(args.paginationOpts);
+  },
+});
+
+export const representativeValidator = v.object({
+  politicianId: v.id("politicians"),
+  govinfoId: v.optional(v.string()),
+  name: v.string(),
+  party: v.string(),
+  chamber: v.union(v.literal("House"), v.literal("Senate")),
+  district: v.optional(v.string()),
+});
+
+/**
+ * A user's members of Congress, from the location on their profile: the state's senators
+ * and its House member for the district, or its whole House delegation when the location
+ * names no district. Null when the location is missing or names no state.
+ */
+export const findRepresentatives = async (
+  ctx: QueryCtx,
+  userId: Id<"users">,
+): Promise<{ location: string; state: string; district?: string; representatives: Array<Infer<typeof representativeValidator>> } | null> => {
+  const profile = await findProfile(ctx, userId);
+  const location = profile?.profileData?.location;
+  const { state, district } = location ? parseLocation(location) : {};
+  if (!location || !state) return null;
+
+  const senators = await ctx.db
+    .query("politicians")
+    .withIndex("by_state_and_chamber", (q) => q.eq("state", state).eq("chamber", "Senate"))
+    .collect();
+  const house = await ctx.db
+    .query("politicians")
+    .withIndex("by_state_and_chamber", (q) => q.eq("state", state).eq("chamber", "House"))
+    .collect();
+
+  return {
+    location,
+    state,
+    district,
+    representatives: [...senators, ...house.filter((p) => district === undefined || p.district === district)]
+      .filter((p) => p.inOffice !== false)
+      .map((p) => ({
+        politicianId: p._id,
+        govinfoId: p.govinfoId,
+        name: p.name,
+        party: p.party,
+        chamber: p.chamber,
+        district: p.district,
+      })),
+  };
+};
+
+/**
+ * The signed-in user's members of Congress (see findRepresentatives); null when signed out
+ */
+export const getMyRepresentatives = publicQuery({
+  args: {},
+  returns: v.union(
+    v.object({
+      location: v.string(),
+      state: v.string(),
+      district: v.optional(v.string()),
+      representatives: v.array(representativeValidator),
+    }),
+    v.null()
+  ),
+  handler: async (ctx) => {
+    return ctx.viewerId === null ? null : await findRepresentatives(ctx, ctx.viewerId);
+  },
+});
+
+// ================================
+// LEGISLATIVE RECORD
+// ================================
+
+/**
+ * Summary of a politician's legislative record: how far their sponsored bills got, the
+ * impact areas of the bills they sponsor or cosponsor, and the committees their
+ * sponsored bills went to
+ */
+export const getPoliticianRecord = publicQuery({
+  args: { politicianId: v.id("politicians") },
+  returns: v.object({
+    sponsoredCount: v.number(),
+    cosponsoredCount: v.number(),
+    stages: v.object({
+      introduced: v.number(),
+      committee: v.number(),
+      passed_chamber: v.number(),
+      enacted: v.number(),
+      failed: v.number(),
+    }),
+    // Shares of sponsored bills, 0 to 1
+    passedChamberRate: v.number(),
+    enactedRate: v.number(),
+    topImpactAreas: v.array(countValidator),
+    committees: v.array(countValidator),
+  }),
+  handler: async (ctx, args) => {
+    const sponsored = await ctx.db
+      .query("bills")
+      .withIndex("by_sponsorId", (q) => q.eq("sponsorId", args.politicianId))
+      .collect();
+    const cosponsorships = await ctx.db
+      .query("billCosponsors")
+      .withIndex("by_politicianId", (q) => q.eq("politicianId", args.politicianId))
+      .collect();
+
+    const cosponsored: Array<Doc<"bills">> = [];
+    for (const billId of new Set(cosponsorships.filter((c) => !c.sponsorshipWithdrawnDate).map((c) => c.billId))) {
+      const bill = await ctx.db.get(billId);
+      if (bill) cosponsored.push(bill);
+    }
+
+    const stages = { introduced: 0, committee: 0, passed_chamber: 0, enacted: 0, failed: 0 };
+    for (const bill of sponsored) {
+      stages[getBillProgressStage(bill.status)]++;
+    }
+    // Enacted bills passed both chambers on the way
+    const passed = stages.passed_chamber + stages.enacted;
+
+    return {
+      sponsoredCount: sponsored.length,
+      cosponsoredCount: cosponsored.length,
+      stages,
+      passedChamberRate: sponsored.length > 0 ? passed / sponsored.length : 0,
+      enactedRate: sponsored.length > 0 ? stages.enacted / sponsored.length : 0,
+      topImpactAreas: topCounts([...sponsored, ...cosponsored].flatMap((b) => b.impactAreas ?? []), TOP_LIST_SIZE),
+      committees: topCounts(sponsored.flatMap((b) => b.committees ?? []), TOP_LIST_SIZE),
+    };
+  },
+});
+
+/**
+ * Get the committees a politician sits on, each committee followed by its subcommittees
+ */
+export const getPoliticianCommittees = publicQuery({
+  args: { politicianId: v.id("politicians") },
+  returns: v.array(v.object({
+    committeeId: v.id("committees"),
+    code: v.string(),
+    name: v.string(),
+    isSubcommittee: v.boolean(),
+    side: v.union(v.literal("majority"), v.literal("minority")),
+    rank: v.optional(v.number()),
+    title: v.optional(v.string()),
+  })),
+  handler: async (ctx, args) => {
+    const seats = await ctx.db
+      .query("committeeMemberships")
+      .withIndex("by_politicianId", (q) => q.eq("politicianId", args.politicianId))
+      .collect();
+
+    const results = [];
+    for (const seat of seats) {
+      const committee = await ctx.db.get(seat.committeeId);
+      if (!committee) continue;
+      results.push({
+        committeeId: committee._id,
+        code: committee.code,
+        name: committee.name,
+        isSubcommittee: committee.parentId !== undefined,
+        side: seat.side,
+        rank: seat.rank,
+        title: seat.title,
+      });
+    }
+    return results.sort((a, b) => a.code.localeCompare(b.code));
+  },
+});
+
+// ================================
+// VOTING RECORD
+// ================================
+
+/**
+ * Page through a politician's roll call votes, most recent first, with what each was on
+ */
+export const getPoliticianVotes = publicQuery({
+  args: {
+    politicianId: v.id("politicians"),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: v.object({
+    page: v.array(v.object({
+      _id: v.id("memberVotes"),
+      date: v.string(),
+      position: votePositionValidator,
+      voteCast: v.string(),
+      rollCall: v.object({
+        _id: v.id("rollCalls"),
+        chamber: v.union(v.literal("House"), v.literal("Senate")),
+        rollNumber: v.number(),
+        question: v.string(),
+        result: v.string(),
+        measure: v.optional(v.string()),
+      }),
+      bill: v.optional(v.object({
+        _id: v.id("bills"),
+        congress: v.number(),
+        billType: v.string(),
+        billNumber: v.string(),
+        title: v.string(),
+      })),
+    })),
+    isDone: v.boolean(),
+    continueCursor: v.string(),
+    splitCursor: v.optional(v.union(v.string(), v.null())),
+    pageStatus: v.optional(v.union(v.literal("SplitRecommended"), v.literal("SplitRequired"), v.null())),
+  }),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("memberVotes")
+      .withIndex("by_politicianId_and_date", (q) => q.eq("politicianId", args.politicianId))
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    const page = [];
+    for (const vote of result.page) {
+      const rollCall = await ctx.db.get(vote.rollCallId);
+      if (!rollCall) continue;
+      const bill = vote.billId ? await ctx.db.get(vote.billId) : null;
+      page.push({
+        _id: vote._id,
+        date: vote.date,
+        position: vote.position,
+        voteCast: vote.voteCast,
+        rollCall: {
+          _id: rollCall._id,
+          chamber: rollCall.chamber,
+          rollNumber: rollCall.rollNumber,
+          question: rollCall.question,
+          result: rollCall.result,
+          measure: rollCall.measure,
+        },
+        bill: bill
+          ? { _id: bill._id, congress: bill.congress, billType: bill.billType, billNumber: bill.billNumber, title: bill.title }
+          : undefined,
+      });
+    }
+    return { ...result, page };
+  },
+});
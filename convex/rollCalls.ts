@@ -0,0 +1,258 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { fetchRollCallXml, parseRollCallXml, votePositionValidator } from "../utils/rollCalls";
+import { toIngestionError } from "../utils/ingestionErrors";
+
+// Roll call votes from the House Clerk and Senate LIS. Files are fetched for the votes
+// BILLSTATUS records on a bill's actions (see ingestBillStatusFile) or replayed from disk
+// (see fixtures.ts). Members are matched to politicians by bioguide ID (House) or LIS id
+// (Senate); import legislators first so every member has a row.
+
+const chamberValidator = v.union(v.literal("House"), v.literal("Senate"));
+
+// Convex validators for ExtractedRollCall (see types.ts)
+export const rollCallTotalsValidator = v.object({
+  yea: v.number(),
+  nay: v.number(),
+  present: v.number(),
+  notVoting: v.number(),
+});
+
+export const rollCallPartyTotalsValidator = v.object({
+  party: v.string(),
+  ...rollCallTotalsValidator.fields,
+});
+
+export const rollCallMemberVoteValidator = v.object({
+  memberId: v.string(),
+  name: v.string(),
+  party: v.optional(v.string()),
+  state: v.optional(v.string()),
+  voteCast: v.string(),
+  position: votePositionValidator,
+});
+
+export const extractedRollCallValidator = v.object({
+  chamber: chamberValidator,
+  congress: v.number(),
+  session: v.number(),
+  rollNumber: v.number(),
+  date: v.string(),
+  question: v.string(),
+  description: v.optional(v.string()),
+  voteType: v.optional(v.string()),
+  requiredMajority: v.optional(v.string()),
+  result: v.string(),
+  measure: v.optional(v.string()),
+  bill: v.optional(v.object({
+    congress: v.number(),
+    billType: v.string(),
+    billNumber: v.string(),
+  })),
+  amendment: v.optional(v.string()),
+  totals: rollCallTotalsValidator,
+  partyTotals: v.array(rollCallPartyTotalsValidator),
+  members: v.array(rollCallMemberVoteValidator),
+  xmlUrl: v.string(),
+});
+
+// Convex validator for a full rollCalls document
+export const rollCallValidator = v.object({
+  _id: v.id("rollCalls"),
+  _creationTime: v.number(),
+  chamber: chamberValidator,
+  congress: v.number(),
+  session: v.number(),
+  rollNumber: v.number(),
+  date: v.string(),
+  question: v.string(),
+  description: v.optional(v.string()),
+  voteType: v.optional(v.string()),
+  requiredMajority: v.optional(v.string()),
+  result: v.string(),
+  measure: v.optional(v.string()),
+  billId: v.optional(v.id("bills")),
+  amendment: v.optional(v.string()),
+  totals: rollCallTotalsValidator,
+  partyTotals: v.array(rollCallPartyTotalsValidator),
+  unmatchedMembers: v.number(),
+  sourceUrl: v.string(),
+  fetchedAt: v.number(),
+});
+
+const storeResultValidator = v.object({
+  matched: v.number(),
+  unmatched: v.number(),
+});
+
+/**
+ * Whether a roll call is already stored; published votes do not change
+ */
+export const isRollCallStored = internalQuery({
+  args: {
+    chamber: chamberValidator,
+    congress: v.number(),
+    session: v.number(),
+    rollNumber: v.number(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const rollCall = await ctx.db
+      .query("rollCalls")
+      .withIndex("by_identifier", (q) =>
+        q.eq("chamber", args.chamber)
+         .eq("congress", args.congress)
+         .eq("session", args.session)
+         .eq("rollNumber", args.rollNumber)
+      )
+      .first();
+    return rollCall !== null;
+  },
+});
+
+/**
+ * Store a parsed roll call and replace its member votes. The vote is linked to the bill
+ * it names, or else to `billId` (the bill whose actions recorded it, e.g. for a vote on
+ * the rule providing for its consideration).
+ */
+export const storeRollCall = internalMutation({
+  args: {
+    rollCall: extractedRollCallValidator,
+    billId: v.optional(v.id("bills")),
+  },
+  returns: storeResultValidator,
+  handler: async (ctx, args) => {
+    const { members, bill, xmlUrl, ...fields } = args.rollCall;
+
+    let billId: Id<"bills"> | undefined = args.billId;
+    if (bill) {
+      const namedBill = await ctx.db
+        .query("bills")
+        .withIndex("by_identifier", (q) =>
+          q.eq("congress", bill.congress)
+           .eq("billType", bill.billType)
+           .eq("billNumber", bill.billNumber)
+        )
+        .first();
+      billId = namedBill?._id ?? billId;
+    }
+
+    // Match members first so the roll call records how many were left out
+    const matches: Array<{ politicianId: Id<"politicians">; position: typeof members[number]["position"]; voteCast: string }> = [];
+    for (const member of members) {
+      const politician =
+        (fields.chamber === "Senate"
+          ? await ctx.db.query("politicians").withIndex("by_lisId", (q) => q.eq("lisId", member.memberId)).first()
+          : null) ??
+        (await ctx.db.query("politicians").withIndex("by_govinfoId", (q) => q.eq("govinfoId", member.memberId)).first());
+      if (politician) {
+        matches.push({ politicianId: politician._id, position: member.position, voteCast: member.voteCast });
+      }
+    }
+
+    const rollCallFields = {
+      ...fields,
+      billId,
+      unmatchedMembers: members.length - matches.length,
+      sourceUrl: xmlUrl,
+      fetchedAt: Date.now(),
+    };
+    const existing = await ctx.db
+      .query("rollCalls")
+      .withIndex("by_identifier", (q) =>
+        q.eq("chamber", fields.chamber)
+         .eq("congress", fields.congress)
+         .eq("session", fields.session)
+         .eq("rollNumber", fields.rollNumber)
+      )
+      .first();
+
+    let rollCallId: Id<"rollCalls">;
+    if (existing) {
+      rollCallId = existing._id;
+      await ctx.db.replace(rollCallId, rollCallFields);
+      const oldVotes = await ctx.db
+        .query("memberVotes")
+        .withIndex("by_rollCallId", (q) => q.eq("rollCallId", rollCallId))
+        .collect();
+      for (const vote of oldVotes) {
+        await ctx.db.delete(vote._id);
+      }
+    } else {
+      rollCallId = await ctx.db.insert("rollCalls", rollCallFields);
+    }
+
+    for (const match of matches) {
+      await ctx.db.insert("memberVotes", {
+        rollCallId,
+        politicianId: match.politicianId,
+        billId,
+        date: fields.date,
+        position: match.position,
+        voteCast: match.voteCast,
+      });
+    }
+
+    return { matched: matches.length, unmatched: members.length - matches.length };
+  },
+});
+
+/**
+ * Fetch (unless given), parse and store one roll call vote file
+ */
+export const ingestRollCall = async (
+  ctx: ActionCtx,
+  args: { xmlUrl: string; xmlData?: string; billId?: Id<"bills"> },
+): Promise<{ matched: number; unmatched: number }> => {
+  const xmlData = args.xmlData ?? (await fetchRollCallXml(args.xmlUrl));
+  const rollCall = parseRollCallXml(xmlData, args.xmlUrl);
+  return await ctx.runMutation(internal.rollCalls.storeRollCall, { rollCall, billId: args.billId });
+};
+
+export const ingestRollCallFile = internalAction({
+  args: {
+    xmlUrl: v.string(),
+    xmlData: v.optional(v.string()), // Already fetched XML, e.g. from a local replay
+    billId: v.optional(v.id("bills")),
+  },
+  returns: storeResultValidator,
+  handler: async (ctx, args): Promise<{ matched: number; unmatched: number }> => {
+    return await ingestRollCall(ctx, args);
+  },
+});
+
+/**
+ * Fetch the recorded votes of a bill's actions that are not stored yet. A vote that fails
+ * is logged and left for the next sync of the bill's status rather than failing it.
+ * @returns How many votes were stored
+ */
+export const syncRecordedVotes = async (
+  ctx: ActionCtx,
+  congress: number,
+  billId: Id<"bills"> | undefined,
+  votes: Array<{ chamber: "House" | "Senate"; rollNumber: number; sessionNumber?: number; url?: string }>,
+): Promise<number> => {
+  let stored = 0;
+  for (const vote of votes) {
+    if (!vote.url) continue;
+    if (vote.sessionNumber !== undefined) {
+      const isStored = await ctx.runQuery(internal.rollCalls.isRollCallStored, {
+        chamber: vote.chamber,
+        congress,
+        session: vote.sessionNumber,
+        rollNumber: vote.rollNumber,
+      });
+      if (isStored) continue;
+    }
+
+    try {
+      await ingestRollCall(ctx, { xmlUrl: vote.url, billId });
+      stored++;
+    } catch (error) {
+      console.error(`Failed to ingest roll call ${vote.url}: ${toIngestionError(error).data.message}`);
+    }
+  }
+  return stored;
+};
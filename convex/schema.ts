@@ -2,9 +2,30 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
+import { ingestionErrorCodeValidator } from "../utils/ingestionErrors";
+import { userRoleValidator } from "../utils/roles";
+import { versionIngestActionValidator } from "../utils/versionCodes";
+import { billActionMilestoneValidator } from "../utils/billStatus";
+import { legislatorAlternateIdsValidator, legislatorTermValidator } from "../utils/legislators";
+import { committeeChamberValidator, committeeReferralStatusValidator } from "../utils/committees";
+import { votePositionValidator } from "../utils/rollCalls";
 
 export default defineSchema({
   ...authTables,
+
+  // Convex Auth's users table, plus the app role that gates functions (see convex/authz.ts)
+  users: defineTable({
+    name: v.optional(v.string()),
+    image: v.optional(v.string()),
+    email: v.optional(v.string()),
+    emailVerificationTime: v.optional(v.number()),
+    phone: v.optional(v.string()),
+    phoneVerificationTime: v.optional(v.number()),
+    isAnonymous: v.optional(v.boolean()),
+    role: v.optional(userRoleValidator), // Unset means "user"
+  })
+    .index("email", ["email"])
+    .index("phone", ["phone"]),
   
   // --- Core Legislative Tables ---
   
@@ -19,13 +40,52 @@ export default defineSchema({
     cleanedShortTitle: v.optional(v.string()), // Short title from bill text
     sponsorId: v.optional(v.id("politicians")),
     committees: v.optional(v.array(v.string())), // Committees handling this bill
-    // Fields that reflect the LATEST ingested version
+    // Fields that reflect the LATEST ingested version, denormalized from that billVersions row
+    latestVersionId: v.optional(v.id("billVersions")),
     latestVersionCode: v.optional(v.string()), // "ih", "rh", "enr"
     latestActionDate: v.optional(v.string()), // Most recent action date
+    latestActionText: v.optional(v.string()), // From BILLSTATUS
     status: v.string(), // "Introduced", "Passed House", "Enrolled"
+    // From BILLSTATUS. Once set, status and latestActionDate follow the bill's actions
+    // (see billActions) rather than its latest text version.
+    billStatusUpdatedAt: v.optional(v.string()),
+    introducedDate: v.optional(v.string()),
+    policyArea: v.optional(v.string()), // e.g. "Energy"
+    subjects: v.optional(v.array(v.string())), // Legislative subject terms
+    relatedBills: v.optional(v.array(v.object({
+      congress: v.number(),
+      billType: v.string(),
+      billNumber: v.string(),
+      title: v.optional(v.string()),
+      relationship: v.optional(v.string()), // "Identical bill", "Related bill", ...
+    }))),
     tagline: v.optional(v.string()), // AI-generated
     summary: v.optional(v.string()), // AI-generated summary of the latest version
-    changeAnalysis: v.optional(v.any()), // For "Current vs. Proposed"
+    // "Current law vs. proposed" pairs for the amendments in the latest version
+    changeAnalysis: v.optional(
+      v.array(
+        v.object({
+          title: v.string(),
+          currentLaw: v.string(),      // What the targeted law says today
+          proposedChange: v.string(),  // What it would say or do after the amendment
+          instruction: v.string(),     // The amendatory instruction in the bill
+          target: v.optional(
+            v.object({
+              title: v.number(),
+              section: v.string(),
+              cite: v.string(),        // e.g. "15 U.S.C. 45"
+              url: v.string(),
+            }),
+          ),
+          citations: v.array(
+            v.object({
+              label: v.string(),
+              sectionId: v.string(),
+            }),
+          ),
+        }),
+      ),
+    ),
     impactAreas: v.optional(v.array(v.string())), // ["Finance", "Healthcare"]
     structuredSummary: v.optional(
       v.array(
@@ -58,11 +118,172 @@ export default defineSchema({
     fullText: v.string(),          // The full text of THIS version
     xmlUrl: v.string(),            // The source URL from govinfo.gov
     textLength: v.optional(v.number()), // Length of fullText, used for prompt decisions
+    // AI enrichment of THIS version (the bill copies these from its latest version)
+    summary: v.optional(v.string()),
+    tagline: v.optional(v.string()),
+    impactAreas: v.optional(v.array(v.string())),
+    structuredSummary: v.optional(
+      v.array(
+        v.object({
+          title: v.string(),
+          text: v.string(),
+          citations: v.optional(
+            v.array(
+              v.object({
+                label: v.string(),
+                sectionId: v.string(),
+              }),
+            ),
+          ),
+        }),
+      ),
+    ),
+    // Structural outline of this version in document order; offsets index into fullText
+    outline: v.optional(
+      v.array(
+        v.object({
+          level: v.string(),           // "title", "section", "subsection", ...
+          id: v.optional(v.string()),  // XML id attribute
+          enum: v.optional(v.string()),
+          header: v.optional(v.string()),
+          depth: v.number(),
+          start: v.number(),
+          end: v.number(),
+        }),
+      ),
+    ),
+    // AI analysis of what changed relative to the previous stored version
+    changeAnalysis: v.optional(v.object({
+      previousVersionId: v.id("billVersions"),
+      previousVersionCode: v.string(),
+      overview: v.string(),
+      changes: v.array(
+        v.object({
+          title: v.string(),
+          description: v.string(),
+          changeType: v.union(v.literal("added"), v.literal("removed"), v.literal("modified")),
+          citations: v.array(
+            v.object({
+              label: v.string(),
+              sectionId: v.string(),
+            }),
+          ),
+        }),
+      ),
+      generatedAt: v.number(),
+    })),
+    // "Current law vs. proposed" pairs for the amendments in THIS version
+    currentLawComparison: v.optional(
+      v.array(
+        v.object({
+          title: v.string(),
+          currentLaw: v.string(),
+          proposedChange: v.string(),
+          instruction: v.string(),
+          target: v.optional(
+            v.object({
+              title: v.number(),
+              section: v.string(),
+              cite: v.string(),
+              url: v.string(),
+            }),
+          ),
+          citations: v.array(
+            v.object({
+              label: v.string(),
+              sectionId: v.string(),
+            }),
+          ),
+        }),
+      ),
+    ),
   })
     .index("by_billId_and_version", ["billId", "versionCode"])
     .index("by_xmlUrl", ["xmlUrl"])
     .searchIndex("search_fullText", { searchField: "fullText" }),
 
+  // A bill's action history from BILLSTATUS, replaced whenever its file changes
+  billActions: defineTable({
+    billId: v.id("bills"),
+    sequence: v.number(),          // Position in the history, oldest first
+    actionDate: v.string(),        // YYYY-MM-DD
+    actionTime: v.optional(v.string()),
+    text: v.string(),
+    actionType: v.optional(v.string()), // "IntroReferral", "Committee", "Floor", "President", ...
+    actionCode: v.optional(v.string()),
+    sourceSystem: v.optional(v.string()),
+    chamber: v.optional(v.union(v.literal("House"), v.literal("Senate"))),
+    milestone: v.optional(billActionMilestoneValidator),
+    committees: v.optional(v.array(v.string())),
+    recordedVotes: v.optional(v.array(v.object({
+      chamber: v.union(v.literal("House"), v.literal("Senate")),
+      rollNumber: v.number(),
+      date: v.string(),
+      sessionNumber: v.optional(v.number()),
+      url: v.optional(v.string()),
+    }))),
+  })
+    .index("by_billId_and_sequence", ["billId", "sequence"]),
+
+  // Who cosponsored which bill. BILLSTATUS replaces a bill's rows whenever its file changes;
+  // until then, rows come from the cosponsors listed in the bill's text versions.
+  billCosponsors: defineTable({
+    billId: v.id("bills"),
+    politicianId: v.id("politicians"),
+    sponsorshipDate: v.optional(v.string()),          // YYYY-MM-DD the cosponsor joined
+    isOriginalCosponsor: v.boolean(),                 // Joined when the bill was introduced
+    sponsorshipWithdrawnDate: v.optional(v.string()), // Set once they withdrew
+    source: v.union(v.literal("billText"), v.literal("billStatus")),
+  })
+    .index("by_billId_and_politicianId", ["billId", "politicianId"])
+    .index("by_politicianId", ["politicianId"]),
+
+  // Committees and subcommittees, from a committees import (see convex/committees.ts) or
+  // created on first reference by a bill
+  committees: defineTable({
+    code: v.string(),         // Thomas ID, e.g. "HSAG"; subcommittees "HSAG15"
+    name: v.string(),
+    chamber: committeeChamberValidator,
+    parentId: v.optional(v.id("committees")), // Set for subcommittees
+    url: v.optional(v.string()),
+    jurisdiction: v.optional(v.string()),
+    address: v.optional(v.string()),
+    phone: v.optional(v.string()),
+    committeesImportedAt: v.optional(v.number()),
+  })
+    .index("by_code", ["code"])
+    .index("by_name", ["name"])
+    .index("by_parentId", ["parentId"])
+    .index("by_chamber", ["chamber"]),
+
+  // Committee seats, replaced per committee by a membership import
+  committeeMemberships: defineTable({
+    committeeId: v.id("committees"),
+    politicianId: v.id("politicians"),
+    side: v.union(v.literal("majority"), v.literal("minority")),
+    rank: v.optional(v.number()),  // Seniority on their side, 1 = most senior
+    title: v.optional(v.string()), // "Chair", "Ranking Member", ...
+  })
+    .index("by_committeeId", ["committeeId"])
+    .index("by_politicianId", ["politicianId"]),
+
+  // Which committees a bill went to and how far it got in each. BILLSTATUS replaces a bill's
+  // rows whenever its file changes; until then, rows come from the bill's text versions.
+  billCommitteeReferrals: defineTable({
+    billId: v.id("bills"),
+    committeeId: v.id("committees"),
+    status: committeeReferralStatusValidator,
+    referredDate: v.optional(v.string()), // YYYY-MM-DD
+    reportedDate: v.optional(v.string()),
+    activities: v.optional(v.array(v.object({
+      name: v.string(),                   // "Referred to", "Markup by", "Reported by", ...
+      date: v.optional(v.string()),
+    }))),
+    source: v.union(v.literal("billText"), v.literal("billStatus")),
+  })
+    .index("by_billId", ["billId"])
+    .index("by_committeeId_and_status", ["committeeId", "status"]),
+
   politicians: defineTable({
     name: v.string(),
     govinfoId: v.optional(v.string()), // e.g., "H001052" from XML. Key for linking.
@@ -71,13 +292,74 @@ export default defineSchema({
     party: v.string(),
     state: v.string(),
     chamber: v.union(v.literal("House"), v.literal("Senate")),
-    // Campaign finance & voting history data stored here
+    // From a legislators import (see convex/legislators.ts); party, state and chamber
+    // above then reflect the latest term
+    district: v.optional(v.string()), // House only; "0" for at-large seats
+    inOffice: v.optional(v.boolean()),
+    terms: v.optional(v.array(legislatorTermValidator)),
+    officialUrl: v.optional(v.string()),
+    contactForm: v.optional(v.string()),
+    lisId: v.optional(v.string()), // Senate id, e.g. "S307"; Senate bill text uses it as name-id
+    alternateIds: v.optional(legislatorAlternateIdsValidator),
+    legislatorsImportedAt: v.optional(v.number()),
+    // Campaign finance data stored here; voting history is in memberVotes
   })
     .index("by_name", ["name"])
-    .index("by_govinfoId", ["govinfoId"]),
+    .index("by_govinfoId", ["govinfoId"])
+    .index("by_lisId", ["lisId"])
+    .index("by_state_and_chamber", ["state", "chamber"]),
+
+  // One roll call vote in either chamber (see rollCalls.ts)
+  rollCalls: defineTable({
+    chamber: v.union(v.literal("House"), v.literal("Senate")),
+    congress: v.number(),
+    session: v.number(),
+    rollNumber: v.number(),
+    date: v.string(), // YYYY-MM-DD
+    question: v.string(),
+    description: v.optional(v.string()),
+    voteType: v.optional(v.string()),
+    requiredMajority: v.optional(v.string()),
+    result: v.string(),
+    measure: v.optional(v.string()), // As written, e.g. "H R 5"
+    billId: v.optional(v.id("bills")), // Set when the measure is a bill we track
+    amendment: v.optional(v.string()),
+    totals: v.object({
+      yea: v.number(),
+      nay: v.number(),
+      present: v.number(),
+      notVoting: v.number(),
+    }),
+    partyTotals: v.array(v.object({
+      party: v.string(),
+      yea: v.number(),
+      nay: v.number(),
+      present: v.number(),
+      notVoting: v.number(),
+    })),
+    unmatchedMembers: v.number(), // Members with no politicians row, so no memberVotes row
+    sourceUrl: v.string(),
+    fetchedAt: v.number(),
+  })
+    .index("by_identifier", ["chamber", "congress", "session", "rollNumber"])
+    .index("by_billId_and_date", ["billId", "date"]),
+
+  // How one member voted on one roll call
+  memberVotes: defineTable({
+    rollCallId: v.id("rollCalls"),
+    politicianId: v.id("politicians"),
+    billId: v.optional(v.id("bills")), // Copied from the roll call
+    date: v.string(),                  // Copied from the roll call, for the voting record
+    position: votePositionValidator,
+    voteCast: v.string(),              // As recorded, e.g. "Aye", "Not Voting"
+  })
+    .index("by_rollCallId", ["rollCallId"])
+    .index("by_politicianId_and_date", ["politicianId", "date"])
+    .index("by_billId_and_politicianId", ["billId", "politicianId"]),
 
   // --- User-related Tables ---
   userProfiles: defineTable({
+    userId: v.optional(v.id("users")), // Unset on profiles created before they were keyed by user
     name: v.string(),
     email: v.string(),
     // Polar Customer ID will be managed by the Polar component
@@ -88,7 +370,9 @@ export default defineSchema({
         // ...other fields for "Analyze Impact"
       })
     ),
-  }).index("by_email", ["email"]),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_email", ["email"]),
 
   userVotes: defineTable({
     userId: v.id("users"),
@@ -96,6 +380,13 @@ export default defineSchema({
     vote: v.union(v.literal("yea"), v.literal("nay")),
   }).index("by_user_bill", ["userId", "billId"]),
 
+  // Running totals of userVotes per bill, kept in step by castVote and retractVote
+  userVoteTallies: defineTable({
+    billId: v.id("bills"),
+    yea: v.number(),
+    nay: v.number(),
+  }).index("by_billId", ["billId"]),
+
   // --- AI & Interaction Tables ---
   chats: defineTable({
     userId: v.id("users"),
@@ -121,7 +412,96 @@ export default defineSchema({
 
   lastCheckedTimestamp: defineTable({
     timestamp: v.number(),
-  }).index("by_timestamp", ["timestamp"]),
+    feed: v.optional(v.literal("billStatus")), // Unset for bill text
+  })
+    .index("by_timestamp", ["timestamp"])
+    .index("by_feed", ["feed"]),
+
+  // Which version codes the pipeline ingests and whether it enriches them. A single row;
+  // DEFAULT_INGEST_POLICY in utils/versionCodes.ts applies until an admin saves one.
+  ingestionPolicy: defineTable({
+    rules: v.array(v.object({
+      versionCode: v.string(),
+      action: versionIngestActionValidator,
+    })),
+    defaultAction: versionIngestActionValidator, // For codes without a rule
+    updatedAt: v.number(),
+    updatedBy: v.optional(v.id("users")),
+  }),
+
+  // Per congress + bill type progress of the historical backfill workflow
+  backfillCursors: defineTable({
+    congress: v.number(),
+    billType: v.string(),
+    versionCodes: v.optional(v.array(v.string())), // Version filter the position refers to
+    position: v.number(), // Files processed so far
+    totalFiles: v.optional(v.number()),
+    // The last file processed, in (lastModified, link) order; the next batch starts after it
+    lastModified: v.optional(v.number()),
+    lastXmlUrl: v.optional(v.string()),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("running"),
+      v.literal("paused"),
+      v.literal("completed"),
+    ),
+    workflowId: v.optional(v.string()),
+    updatedAt: v.number(),
+  })
+    .index("by_congress_and_billType", ["congress", "billType"])
+    .index("by_status", ["status"]),
+
+  // One row per dataPipelineWorkflow execution
+  ingestionRuns: defineTable({
+    workflowId: v.optional(v.string()),
+    status: v.union(v.literal("running"), v.literal("completed"), v.literal("failed")),
+    sinceMs: v.optional(v.number()),   // Files modified after this were discovered
+    discovered: v.number(),            // New files found by discovery
+    queued: v.number(),                // Files handed to ingestion after maxFiles
+    processed: v.number(),             // Files stored
+    skipped: v.number(),
+    failed: v.number(),
+    skipReasons: v.array(v.object({ code: v.string(), count: v.number() })),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    totalTokens: v.number(),
+    startedAt: v.number(),
+    discoveredAt: v.optional(v.number()),
+    finishedAt: v.optional(v.number()),
+    durationMs: v.optional(v.number()),
+    error: v.optional(v.string()),
+  })
+    .index("by_startedAt", ["startedAt"])
+    .index("by_status", ["status"]),
+
+  // Outcome of each file handled by an ingestion run
+  ingestionRunFiles: defineTable({
+    runId: v.id("ingestionRuns"),
+    xmlUrl: v.string(),
+    congress: v.optional(v.number()),
+    billType: v.optional(v.string()),
+    billNumber: v.optional(v.string()),
+    versionCode: v.optional(v.string()),
+    outcome: v.union(
+      v.literal("processing"),
+      v.literal("stored"),
+      v.literal("skipped"),
+      v.literal("failed"),
+    ),
+    skipCode: v.optional(v.string()),   // From shouldProcessBillVersion
+    errorCode: v.optional(ingestionErrorCodeValidator),
+    reason: v.optional(v.string()),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    totalTokens: v.number(),
+    startedAt: v.number(),
+    finishedAt: v.optional(v.number()),
+    durationMs: v.optional(v.number()),
+  })
+    .index("by_runId_and_xmlUrl", ["runId", "xmlUrl"])
+    .index("by_runId_and_outcome", ["runId", "outcome"])
+    .index("by_xmlUrl", ["xmlUrl"])
+    .index("by_identifier", ["congress", "billType", "billNumber"]),
 
   // Analytics table for search tracking
   searchAnalytics: defineTable({
@@ -143,6 +523,7 @@ export default defineSchema({
     billNumber: v.string(),
     versionCode: v.string(),
     xmlUrl: v.string(),
+    reasonCode: v.optional(ingestionErrorCodeValidator), // Missing on rows recorded before codes were tracked
     reason: v.string(),
     summaryAttempt: v.optional(v.object({
       summary: v.optional(v.string()),
@@ -166,8 +547,29 @@ export default defineSchema({
       ),
     })),
     createdAt: v.number(),
+    // Retry queue state; rows recorded before retries were tracked have none and count as pending
+    status: v.optional(v.union(
+      v.literal("pending"),   // Waiting for nextAttemptAt
+      v.literal("retrying"),  // Claimed by a retry run
+      v.literal("resolved"),  // Stored or superseded on a later attempt
+      v.literal("forced"),    // Stored by an admin with the partial summaryAttempt
+      v.literal("exhausted"), // Gave up after the maximum number of attempts
+      v.literal("dismissed"), // Dismissed by an admin
+    )),
+    attempts: v.optional(v.number()), // Failed attempts so far, including the first
+    nextAttemptAt: v.optional(v.number()),
+    attemptHistory: v.optional(v.array(v.object({
+      attemptedAt: v.number(),
+      outcome: v.union(v.literal("failed"), v.literal("succeeded"), v.literal("skipped")),
+      reason: v.optional(v.string()),
+    }))),
+    resolvedAt: v.optional(v.number()),
+    dispositionNote: v.optional(v.string()),
+    updatedAt: v.optional(v.number()),
+    feed: v.optional(v.literal("billStatus")), // Missing for bill text files; BILLSTATUS rows use versionCode "billstatus"
   })
     .index("by_xmlUrl", ["xmlUrl"]) 
-    .index("by_identifier", ["congress", "billType", "billNumber", "versionCode"]),
+    .index("by_identifier", ["congress", "billType", "billNumber", "versionCode"])
+    .index("by_status_and_nextAttemptAt", ["status", "nextAttemptAt"]),
   
 });
@@ -0,0 +1,63 @@
+import { ConvexError, v } from "convex/values";
+import { QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { roleMutation } from "./authz";
+import { parseLocation } from "../utils/states";
+
+// What users tell us about themselves. Profiles are keyed by user; ones created before
+// that are found by the user's email and take on the key the next time they are saved.
+
+/**
+ * Load a user's profile, or null when they have none yet
+ */
+export const findProfile = async (ctx: QueryCtx, userId: Id<"users">): Promise<Doc<"userProfiles"> | null> => {
+  const profile = await ctx.db
+    .query("userProfiles")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .first();
+  if (profile) return profile;
+
+  const email = (await ctx.db.get(userId))?.email;
+  if (!email) return null;
+  return await ctx.db
+    .query("userProfiles")
+    .withIndex("by_email", (q) => q.eq("email", email))
+    .first();
+};
+
+/**
+ * Set where the signed-in user lives, which decides their members of Congress
+ * @throws ConvexError when the location names no state
+ */
+export const setProfileLocation = roleMutation("user", {
+  args: {
+    location: v.string(),
+  },
+  returns: v.object({
+    state: v.string(),
+    district: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const location = args.location.trim();
+    const { state, district } = parseLocation(location);
+    if (!state) {
+      throw new ConvexError('Enter a location with a state, e.g. "CA-12" or "Austin, Texas"');
+    }
+
+    const profile = await findProfile(ctx, ctx.viewer._id);
+    if (profile) {
+      await ctx.db.patch(profile._id, {
+        userId: ctx.viewer._id,
+        profileData: { ...profile.profileData, location },
+      });
+    } else {
+      await ctx.db.insert("userProfiles", {
+        userId: ctx.viewer._id,
+        name: ctx.viewer.name ?? "",
+        email: ctx.viewer.email ?? "",
+        profileData: { location },
+      });
+    }
+    return { state, district };
+  },
+});
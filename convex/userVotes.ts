@@ -0,0 +1,168 @@
+import { ConvexError, v } from "convex/values";
+import { internalMutation, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { publicQuery, roleMutation } from "./authz";
+
+// Citizen votes on bills: one yea or nay per user per bill, which they can change or
+// retract. userVoteTallies keeps each bill's totals so reading them never scans userVotes.
+
+const userVoteValidator = v.union(v.literal("yea"), v.literal("nay"));
+
+/**
+ * Add to (or, with negative counts, take from) a bill's tally
+ */
+const adjustTally = async (
+  ctx: MutationCtx,
+  billId: Id<"bills">,
+  change: { yea: number; nay: number },
+): Promise<void> => {
+  const tally = await ctx.db
+    .query("userVoteTallies")
+    .withIndex("by_billId", (q) => q.eq("billId", billId))
+    .unique();
+  if (tally) {
+    await ctx.db.patch(tally._id, {
+      yea: Math.max(0, tally.yea + change.yea),
+      nay: Math.max(0, tally.nay + change.nay),
+    });
+  } else {
+    await ctx.db.insert("userVoteTallies", {
+      billId,
+      yea: Math.max(0, change.yea),
+      nay: Math.max(0, change.nay),
+    });
+  }
+};
+
+// ================================
+// VOTING
+// ================================
+
+/**
+ * Cast the signed-in user's vote on a bill, or change the one they cast
+ */
+export const castVote = roleMutation("user", {
+  args: {
+    billId: v.id("bills"),
+    vote: userVoteValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const bill = await ctx.db.get(args.billId);
+    if (!bill) {
+      throw new ConvexError("Bill not found");
+    }
+
+    const existing = await ctx.db
+      .query("userVotes")
+      .withIndex("by_user_bill", (q) => q.eq("userId", ctx.viewer._id).eq("billId", args.billId))
+      .unique();
+    if (existing?.vote === args.vote) return null;
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { vote: args.vote });
+    } else {
+      await ctx.db.insert("userVotes", { userId: ctx.viewer._id, billId: args.billId, vote: args.vote });
+    }
+    await adjustTally(ctx, args.billId, {
+      yea: (args.vote === "yea" ? 1 : 0) - (existing?.vote === "yea" ? 1 : 0),
+      nay: (args.vote === "nay" ? 1 : 0) - (existing?.vote === "nay" ? 1 : 0),
+    });
+    return null;
+  },
+});
+
+/**
+ * Withdraw the signed-in user's vote on a bill; a no-op when they haven't voted
+ */
+export const retractVote = roleMutation("user", {
+  args: {
+    billId: v.id("bills"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("userVotes")
+      .withIndex("by_user_bill", (q) => q.eq("userId", ctx.viewer._id).eq("billId", args.billId))
+      .unique();
+    if (!existing) return null;
+
+    await ctx.db.delete(existing._id);
+    await adjustTally(ctx, args.billId, {
+      yea: existing.vote === "yea" ? -1 : 0,
+      nay: existing.vote === "nay" ? -1 : 0,
+    });
+    return null;
+  },
+});
+
+// ================================
+// TALLIES
+// ================================
+
+/**
+ * Get a bill's citizen vote totals and, when signed in, the caller's own vote
+ */
+export const getCommunityVotes = publicQuery({
+  args: {
+    billId: v.id("bills"),
+  },
+  returns: v.object({
+    yea: v.number(),
+    nay: v.number(),
+    myVote: v.union(userVoteValidator, v.null()),
+  }),
+  handler: async (ctx, args) => {
+    const tally = await ctx.db
+      .query("userVoteTallies")
+      .withIndex("by_billId", (q) => q.eq("billId", args.billId))
+      .unique();
+    const viewerId = ctx.viewerId;
+    const myVote = viewerId
+      ? await ctx.db
+          .query("userVotes")
+          .withIndex("by_user_bill", (q) => q.eq("userId", viewerId).eq("billId", args.billId))
+          .unique()
+      : null;
+
+    return {
+      yea: tally?.yea ?? 0,
+      nay: tally?.nay ?? 0,
+      myVote: myVote?.vote ?? null,
+    };
+  },
+});
+
+/**
+ * Rebuild every bill's tally from userVotes, for repairing drift
+ */
+export const recountUserVoteTallies = internalMutation({
+  args: {},
+  returns: v.object({ scanned: v.number(), updated: v.number() }),
+  handler: async (ctx) => {
+    let scanned = 0;
+    const counts = new Map<Id<"bills">, { yea: number; nay: number }>();
+    for await (const vote of ctx.db.query("userVotes")) {
+      scanned += 1;
+      const billCounts = counts.get(vote.billId) ?? { yea: 0, nay: 0 };
+      billCounts[vote.vote] += 1;
+      counts.set(vote.billId, billCounts);
+    }
+
+    let updated = 0;
+    for await (const tally of ctx.db.query("userVoteTallies")) {
+      const billCounts = counts.get(tally.billId) ?? { yea: 0, nay: 0 };
+      counts.delete(tally.billId);
+      if (tally.yea !== billCounts.yea || tally.nay !== billCounts.nay) {
+        await ctx.db.patch(tally._id, billCounts);
+        updated += 1;
+      }
+    }
+    for (const [billId, billCounts] of counts) {
+      await ctx.db.insert("userVoteTallies", { billId, ...billCounts });
+      updated += 1;
+    }
+
+    return { scanned, updated };
+  },
+});
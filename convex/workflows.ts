@@ -1,9 +1,16 @@
 import { v } from "convex/values";
-import { action, internalAction } from "./_generated/server";
+import { internalAction } from "./_generated/server";
 import { internal } from "./_generated/api";
-import { WorkflowManager, vWorkflowId, WorkflowId } from "@convex-dev/workflow";
+import { Id } from "./_generated/dataModel";
+import { WorkflowManager, vWorkflowId, WorkflowId, WorkflowStep } from "@convex-dev/workflow";
 import { components } from "./_generated/api";
-import { BillData } from "../types";
+import { fetchBulkDataListing, getNumericFolders, parseBillInfoFromUrl } from "../utils/dataHelpers";
+import { getBillStatusBulkDataUrl, parseBillStatusInfoFromUrl } from "../utils/billStatus";
+import { createGovinfoBillSource, resolveDiscoveryTargets } from "../utils/billSources";
+import { BillFile } from "../types";
+import { toIngestionError } from "../utils/ingestionErrors";
+import { getIngestAction } from "../utils/versionCodes";
+import { roleAction } from "./authz";
 
 // Initialize workflow manager with sensible defaults
 export const workflow = new WorkflowManager(components.workflow, {
@@ -13,46 +20,217 @@ export const workflow = new WorkflowManager(components.workflow, {
   },
 });
 
+// A file listed as changed since the last run, with its modification time in ms
+const changedFileValidator = v.object({
+  link: v.string(),
+  lastModified: v.number(),
+});
+
+/**
+ * Picks the files a run works through and how far it may move its last-checked timestamp.
+ * An uncapped run takes every file and checks through when it started. A capped run takes
+ * the oldest changes first and checks through the newest one it took, so the next run
+ * resumes where it stopped; a file left over from the same moment keeps that moment open.
+ */
+const planChangedFiles = (
+  files: Array<{ link: string; lastModified: number }>,
+  maxFiles: number | undefined,
+  startedAt: number,
+): { toProcess: Array<string>; checkedThrough: number } => {
+  if (!maxFiles || maxFiles <= 0 || files.length <= maxFiles) {
+    return { toProcess: files.map((f) => f.link), checkedThrough: startedAt };
+  }
+  const oldestFirst = [...files].sort((a, b) => a.lastModified - b.lastModified);
+  const taken = oldestFirst.slice(0, maxFiles);
+  const newestTaken = taken[taken.length - 1].lastModified;
+  const firstLeft = oldestFirst[maxFiles].lastModified;
+  return {
+    toProcess: taken.map((f) => f.link),
+    checkedThrough: firstLeft > newestTaken ? newestTaken : firstLeft - 1,
+  };
+};
+
 // Internal helpers used by the workflow
 export const listNewXmlFiles = internalAction({
   args: {
     sinceMs: v.number(),
     billTypes: v.optional(v.array(v.string())),
+    congresses: v.optional(v.array(v.number())),
+    sessions: v.optional(v.array(v.number())),
   },
-  returns: v.array(v.string()),
+  returns: v.array(changedFileValidator),
   handler: async (ctx, args) => {
     const billTypes = args.billTypes ?? ["hr", "s", "hjres", "sjres"];
-    const urls: Array<string> = [];
-
-    for (const billType of billTypes) {
-      const govInfoUrl = `https://www.govinfo.gov/bulkdata/json/BILLS/119/1/${billType}/`;
-      const response = await fetch(govInfoUrl, {
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
-        },
-      });
-      if (!response.ok) continue;
-      const data: BillData = await response.json();
-      const newXmlFiles = (data.files ?? [])
-        .filter((f) => f.link.endsWith(".xml"))
-        // Exclude initial-state bills: 'ih' (House Introduced) and 'is' (Senate Introduced)
-        .filter((f) => {
-          const link = f.link.toLowerCase();
-          return !link.endsWith("ih.xml") && !link.endsWith("is.xml");
-        })
-        .filter((f) => new Date(f.formattedLastModifiedTime).getTime() > args.sinceMs)
-        .sort((a, b) => new Date(b.formattedLastModifiedTime).getTime() - new Date(a.formattedLastModifiedTime).getTime())
-        .map((f) => f.link as string);
-      urls.push(...newXmlFiles);
+    const changed = new Map<string, number>();
+
+    // Walk every configured (or latest published) congress/session folder
+    const source = createGovinfoBillSource();
+    const targets = await resolveDiscoveryTargets(source, {
+      congresses: args.congresses,
+      sessions: args.sessions,
+    });
+    console.log(`Discovering across ${targets.map((t) => `${t.congress}/${t.session}`).join(", ")}`);
+
+    // Version codes the ingest policy skips are not queued at all
+    const policy = await ctx.runQuery(internal.ingestionPolicy.getIngestPolicy, {});
+    const isIngested = (link: string) => {
+      try {
+        return getIngestAction(policy, parseBillInfoFromUrl(link).versionCode) !== "skip";
+      } catch {
+        return true; // Recorded as an invalid URL when ingested
+      }
+    };
+
+    for (const { congress, session } of targets) {
+      for (const billType of billTypes) {
+        const files = await source.listFiles(congress, session, billType);
+        if (!files) continue;
+        for (const f of files) {
+          const lastModified = new Date(f.formattedLastModifiedTime).getTime();
+          if (f.link.endsWith(".xml") && isIngested(f.link) && lastModified > args.sinceMs) {
+            changed.set(f.link, lastModified);
+          }
+        }
+      }
+    }
+
+    // Most recently changed first
+    console.log(`Found ${changed.size} new XML files`);
+    return [...changed]
+      .map(([link, lastModified]) => ({ link, lastModified }))
+      .sort((a, b) => b.lastModified - a.lastModified);
+  },
+});
+
+// Lists BILLSTATUS files modified since the last sync. Without congresses, the latest
+// published congress is walked.
+export const listNewBillStatusFiles = internalAction({
+  args: {
+    sinceMs: v.number(),
+    billTypes: v.optional(v.array(v.string())),
+    congresses: v.optional(v.array(v.number())),
+  },
+  returns: v.array(changedFileValidator),
+  handler: async (_ctx, args) => {
+    const billTypes = args.billTypes ?? ["hr", "s", "hjres", "sjres"];
+    let congresses = args.congresses;
+    if (!congresses || congresses.length === 0) {
+      const published = getNumericFolders(await fetchBulkDataListing(getBillStatusBulkDataUrl()));
+      congresses = published.slice(-1);
     }
 
-    // Deduplicate
-    console.log(`Found ${urls.length} new XML files`);
-    return Array.from(new Set(urls));
+    const files: Array<BillFile> = [];
+    for (const congress of congresses) {
+      for (const billType of billTypes) {
+        const listing = await fetchBulkDataListing(getBillStatusBulkDataUrl(congress, billType));
+        files.push(
+          ...(listing?.files ?? [])
+            .filter((f) => f.link.endsWith(".xml"))
+            .filter((f) => new Date(f.formattedLastModifiedTime).getTime() > args.sinceMs),
+        );
+      }
+    }
+
+    const changed = new Map<string, number>();
+    for (const f of files) {
+      changed.set(f.link, new Date(f.formattedLastModifiedTime).getTime());
+    }
+
+    // Most recently changed first
+    console.log(`Found ${changed.size} changed BILLSTATUS files in ${congresses.join(", ")}`);
+    return [...changed]
+      .map(([link, lastModified]) => ({ link, lastModified }))
+      .sort((a, b) => b.lastModified - a.lastModified);
   },
 });
 
+// Lists one page of a congress + bill type's files for the backfill workflow, ordered by
+// (lastModified, link) and starting after the given file. Files published or re-modified
+// later sort after every file already processed, so they are picked up on a later page.
+export const listBackfillFiles = internalAction({
+  args: {
+    congress: v.number(),
+    billType: v.string(),
+    versionCodes: v.optional(v.array(v.string())),
+    after: v.optional(v.object({ lastModified: v.number(), link: v.string() })),
+    limit: v.number(),
+  },
+  returns: v.object({
+    files: v.array(changedFileValidator),
+    total: v.number(),
+    remaining: v.number(), // Files after the last one on this page
+  }),
+  handler: async (ctx, args) => {
+    const versionCodes = args.versionCodes?.map((c) => c.toLowerCase());
+    const source = createGovinfoBillSource();
+    const targets = await resolveDiscoveryTargets(source, { congresses: [args.congress] });
+    const files = new Map<string, number>();
+
+    for (const { session } of targets) {
+      const listed = await source.listFiles(args.congress, session, args.billType);
+      if (!listed) continue;
+      for (const f of listed) {
+        if (!f.link.endsWith(".xml")) continue;
+        if (versionCodes && versionCodes.length > 0) {
+          try {
+            if (!versionCodes.includes(parseBillInfoFromUrl(f.link).versionCode.toLowerCase())) continue;
+          } catch {
+            continue;
+          }
+        }
+        files.set(f.link, new Date(f.formattedLastModifiedTime).getTime());
+      }
+    }
+
+    const after = args.after;
+    const pending = [...files]
+      .map(([link, lastModified]) => ({ link, lastModified }))
+      .filter((f) => !after || f.lastModified > after.lastModified || (f.lastModified === after.lastModified && f.link > after.link))
+      .sort((a, b) => a.lastModified - b.lastModified || (a.link < b.link ? -1 : a.link > b.link ? 1 : 0));
+    const page = pending.slice(0, args.limit);
+
+    return {
+      files: page,
+      total: files.size,
+      remaining: pending.length - page.length,
+    };
+  },
+});
+
+// Ingest one file with step retries for transient failures. A file that still fails after
+// the last retry is handed to the failedIngestions retry queue so the rest of the run continues.
+// With a runId the file's outcome is recorded on that ingestion run.
+const ingestWithRetries = (step: WorkflowStep, xmlUrl: string, runId?: Id<"ingestionRuns">): Promise<null> => {
+  return step
+    .runAction(
+      internal.dataPipeline.ingestAndEnrichBillFile,
+      { xmlUrl, runId },
+      { name: `ingest:${xmlUrl}`, retry: { maxAttempts: 3, initialBackoffMs: 1000, base: 2 } },
+    )
+    .catch(async (error: unknown) => {
+      const billInfo = parseBillInfoFromUrl(xmlUrl);
+      await step.runMutation(internal.dataPipeline.recordFailedIngestion, {
+        congress: billInfo.congress,
+        billType: billInfo.billType,
+        billNumber: billInfo.billNumber,
+        versionCode: billInfo.versionCode,
+        xmlUrl,
+        reasonCode: "retries_exhausted",
+        reason: toIngestionError(error).data.message,
+      });
+      if (runId) {
+        await step.runMutation(internal.ingestionRuns.finishIngestionRunFile, {
+          runId,
+          xmlUrl,
+          outcome: "failed",
+          errorCode: "retries_exhausted",
+          reason: toIngestionError(error).data.message,
+        });
+      }
+      return null;
+    });
+};
+
 export const noop = internalAction({
   args: {},
   returns: v.null(),
@@ -65,43 +243,234 @@ export const noop = internalAction({
 export const dataPipelineWorkflow = workflow.define({
   args: {
     maxFiles: v.optional(v.number()),
+    billTypes: v.optional(v.array(v.string())),
     interBatchDelayMs: v.optional(v.number()),
+    congresses: v.optional(v.array(v.number())),
+    sessions: v.optional(v.array(v.number())),
   },
   // Always annotate return type to avoid type cycles
   handler: async (step, args): Promise<void> => {
-    // 1) Read last checked timestamp deterministically
-    const lastChecked = await step.runQuery(
-      internal.dataPipeline.getLastCheckedTimestamp,
-      {},
-    );
-    const lastCheckedTs = lastChecked?.timestamp ?? 0;
+    // Every execution is recorded in the ingestion run ledger
+    const runId = await step.runMutation(internal.ingestionRuns.startIngestionRun, {
+      workflowId: step.workflowId,
+    });
 
-    // 2) Discover new XML URLs across bill types in a single step action
-    const xmlUrls = await step.runAction(
-      internal.workflows.listNewXmlFiles,
-      { sinceMs: lastCheckedTs },
-      { name: "discover_new_xml_files", retry: true },
-    );
+    try {
+      const startedAt = Date.now();
+
+      // 1) Read last checked timestamp deterministically
+      const lastChecked = await step.runQuery(
+        internal.dataPipeline.getLastCheckedTimestamp,
+        {},
+      );
+      const lastCheckedTs = lastChecked?.timestamp ?? 0;
 
-    // Optionally limit how many to process this run
-    const toProcess = args.maxFiles && args.maxFiles > 0 ? xmlUrls.slice(0, args.maxFiles) : xmlUrls;
+      // 2) Discover new XML URLs across bill types in a single step action
+      const changedFiles = await step.runAction(
+        internal.workflows.listNewXmlFiles,
+        { sinceMs: lastCheckedTs, billTypes: args.billTypes, congresses: args.congresses, sessions: args.sessions },
+        { name: "discover_new_xml_files", retry: true },
+      );
+
+      // Optionally limit how many to process this run
+      const { toProcess, checkedThrough } = planChangedFiles(changedFiles, args.maxFiles, startedAt);
 
-    if (toProcess.length === 0) {
-      await step.runMutation(internal.dataPipeline.updateLastCheckedTimestamp, { timestamp: Date.now() });
-      return;
+      await step.runMutation(internal.ingestionRuns.recordIngestionRunDiscovery, {
+        runId,
+        sinceMs: lastCheckedTs,
+        discovered: changedFiles.length,
+        queued: toProcess.length,
+      });
+
+      if (toProcess.length === 0) {
+        await step.runMutation(internal.dataPipeline.updateLastCheckedTimestamp, { timestamp: startedAt });
+        await step.runMutation(internal.ingestionRuns.finishIngestionRun, { runId, status: "completed" });
+        return;
+      }
+
+      // 3) Ingest in parallel with retry; batch to respect maxParallelism and rate limits
+      const batchSize = 5;
+      for (let i = 0; i < toProcess.length; i += batchSize) {
+        const batch = toProcess.slice(i, i + batchSize);
+        await Promise.all(
+          batch.map((xmlUrl: string) => ingestWithRetries(step, xmlUrl, runId)),
+        );
+
+        if (args.interBatchDelayMs && args.interBatchDelayMs > 0) {
+          await step.runAction(internal.workflows.noop, {}, { runAfter: args.interBatchDelayMs });
+        }
+      }
+
+      // 4) Move the last checked timestamp past what this run took; a capped run leaves the rest for the next one
+      await step.runMutation(internal.dataPipeline.updateLastCheckedTimestamp, { timestamp: checkedThrough });
+      await step.runMutation(internal.ingestionRuns.finishIngestionRun, { runId, status: "completed" });
+    } catch (error) {
+      await step.runMutation(internal.ingestionRuns.finishIngestionRun, {
+        runId,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
     }
+  },
+});
+
+// A resumable workflow that backloads whole Congresses, tracking progress per congress
+// and bill type in backfillCursors so it can be paused, resumed and inspected.
+export const backfillWorkflow = workflow.define({
+  args: {
+    fromCongress: v.number(),
+    toCongress: v.number(),
+    billTypes: v.optional(v.array(v.string())),
+    versionCodes: v.optional(v.array(v.string())),
+    maxFiles: v.optional(v.number()),
+    interBatchDelayMs: v.optional(v.number()),
+  },
+  // Always annotate return type to avoid type cycles
+  handler: async (step, args): Promise<void> => {
+    const billTypes = args.billTypes ?? ["hr", "s", "hjres", "sjres"];
+    const batchSize = 5;
+    let remaining = args.maxFiles && args.maxFiles > 0 ? args.maxFiles : Number.POSITIVE_INFINITY;
+
+    // Newest congress first so recent history lands before older history
+    for (let congress = args.toCongress; congress >= args.fromCongress; congress--) {
+      for (const billType of billTypes) {
+        if (remaining <= 0) return;
+
+        // 1) Claim the cursor for this congress + bill type
+        const cursor = await step.runMutation(internal.backfill.claimBackfillCursor, {
+          congress,
+          billType,
+          versionCodes: args.versionCodes,
+          workflowId: step.workflowId,
+        });
+        if (!cursor) continue; // Another backfill is running it
+
+        // 2) Ingest page by page after the last file processed
+        let after = cursor.lastModified !== undefined && cursor.lastXmlUrl !== undefined
+          ? { lastModified: cursor.lastModified, link: cursor.lastXmlUrl }
+          : undefined;
+        while (true) {
+          const page = await step.runAction(
+            internal.workflows.listBackfillFiles,
+            { congress, billType, versionCodes: args.versionCodes, after, limit: Math.min(batchSize, remaining) },
+            { name: `backfill_list:${congress}-${billType}@${after?.link ?? "start"}`, retry: true },
+          );
+
+          await Promise.all(
+            page.files.map((f) => ingestWithRetries(step, f.link)),
+          );
+
+          after = page.files[page.files.length - 1] ?? after;
+          remaining -= page.files.length;
+
+          // 3) Persist progress; stop if paused, finished or out of budget
+          const status = await step.runMutation(internal.backfill.advanceBackfillCursor, {
+            cursorId: cursor._id,
+            workflowId: step.workflowId,
+            processed: page.files.length,
+            totalFiles: page.total,
+            remaining: page.remaining,
+            last: page.files[page.files.length - 1],
+            stopping: remaining <= 0 || page.files.length === 0,
+          });
+          if (status === "paused" || status === null) return; // Paused, or taken over by another backfill
+          if (status === "completed" || page.files.length === 0) break;
+
+          if (args.interBatchDelayMs && args.interBatchDelayMs > 0) {
+            await step.runAction(internal.workflows.noop, {}, { runAfter: args.interBatchDelayMs });
+          }
+        }
+      }
+    }
+  },
+});
+
+// A workflow that re-attempts failed files, bill text and BILLSTATUS alike, whose backoff
+// has elapsed. Outcomes are recorded on the failedIngestions rows by the ingest path itself.
+export const retryFailedIngestionsWorkflow = workflow.define({
+  args: {
+    maxFiles: v.optional(v.number()),
+    interBatchDelayMs: v.optional(v.number()),
+  },
+  // Always annotate return type to avoid type cycles
+  handler: async (step, args): Promise<void> => {
+    const due = await step.runMutation(internal.failedIngestions.claimDueFailedIngestions, {
+      limit: args.maxFiles && args.maxFiles > 0 ? args.maxFiles : 25,
+    });
+
+    const batchSize = 5;
+    for (let i = 0; i < due.length; i += batchSize) {
+      const batch = due.slice(i, i + batchSize);
+      await Promise.all(
+        batch.map(({ xmlUrl, feed }) =>
+          feed === "billStatus"
+            ? step.runAction(
+                internal.billStatus.ingestBillStatusFile,
+                { xmlUrl, retrying: true },
+                { name: `retry:${xmlUrl}` },
+              )
+            : step.runAction(
+                internal.dataPipeline.ingestAndEnrichBillFile,
+                { xmlUrl, retrying: true },
+                { name: `retry:${xmlUrl}` },
+              ),
+        ),
+      );
+
+      if (args.interBatchDelayMs && args.interBatchDelayMs > 0) {
+        await step.runAction(internal.workflows.noop, {}, { runAfter: args.interBatchDelayMs });
+      }
+    }
+  },
+});
+
+// A durable workflow that syncs bill status and action history from BILLSTATUS files
+// changed since its last run. Files that still fail after their retries are handed to the
+// failedIngestions retry queue, since the run moves its timestamp past them.
+export const billStatusWorkflow = workflow.define({
+  args: {
+    maxFiles: v.optional(v.number()),
+    billTypes: v.optional(v.array(v.string())),
+    congresses: v.optional(v.array(v.number())),
+    interBatchDelayMs: v.optional(v.number()),
+  },
+  // Always annotate return type to avoid type cycles
+  handler: async (step, args): Promise<void> => {
+    const startedAt = Date.now();
+    const lastChecked = await step.runQuery(internal.dataPipeline.getLastCheckedTimestamp, { feed: "billStatus" });
+
+    const changedFiles = await step.runAction(
+      internal.workflows.listNewBillStatusFiles,
+      { sinceMs: lastChecked?.timestamp ?? 0, billTypes: args.billTypes, congresses: args.congresses },
+      { name: "discover_bill_status_files", retry: true },
+    );
+    const { toProcess, checkedThrough } = planChangedFiles(changedFiles, args.maxFiles, startedAt);
 
-    // 3) Ingest in parallel with retry; batch to respect maxParallelism and rate limits
     const batchSize = 5;
     for (let i = 0; i < toProcess.length; i += batchSize) {
       const batch = toProcess.slice(i, i + batchSize);
       await Promise.all(
         batch.map((xmlUrl: string) =>
-          step.runAction(
-            internal.dataPipeline.ingestAndEnrichBillFile,
-            { xmlUrl },
-            { name: `ingest:${xmlUrl}`, retry: { maxAttempts: 3, initialBackoffMs: 1000, base: 2 } },
-          ),
+          step
+            .runAction(
+              internal.billStatus.ingestBillStatusFile,
+              { xmlUrl },
+              { name: `bill_status:${xmlUrl}`, retry: { maxAttempts: 3, initialBackoffMs: 1000, base: 2 } },
+            )
+            .catch(async (error: unknown) => {
+              // Transient failures outlasted the step's retries; the rest fail the same way every time
+              const ingestionError = toIngestionError(error);
+              await step.runMutation(internal.dataPipeline.recordFailedIngestion, {
+                ...parseBillStatusInfoFromUrl(xmlUrl),
+                versionCode: "billstatus",
+                xmlUrl,
+                reasonCode: ingestionError.transient ? "retries_exhausted" : ingestionError.code,
+                reason: ingestionError.data.message,
+                feed: "billStatus",
+              });
+              return null;
+            }),
         ),
       );
 
@@ -110,16 +479,20 @@ export const dataPipelineWorkflow = workflow.define({
       }
     }
 
-    // 4) Update last checked timestamp to now
-    await step.runMutation(internal.dataPipeline.updateLastCheckedTimestamp, { timestamp: Date.now() });
+    // A capped run works through the oldest changes and advances only past those, so a
+    // large backlog drains over successive runs
+    await step.runMutation(internal.dataPipeline.updateLastCheckedTimestamp, { timestamp: checkedThrough, feed: "billStatus" });
   },
 });
 
-// Public action to kick off a run; returns the workflow id
-export const startDataPipeline = action({
+// Admin action to kick off a run; returns the workflow id
+export const startDataPipeline = roleAction("admin", {
   args: {
     maxFiles: v.optional(v.number()),
+    billTypes: v.optional(v.array(v.string())),
     interBatchDelayMs: v.optional(v.number()),
+    congresses: v.optional(v.array(v.number())),
+    sessions: v.optional(v.array(v.number())),
   },
   returns: vWorkflowId,
   handler: async (ctx, args): Promise<WorkflowId> => {
@@ -128,8 +501,43 @@ export const startDataPipeline = action({
   },
 });
 
-// Public action to check status of a workflow by id
-export const getWorkflowStatus = action({
+// Admin action to start (or resume) a historical backfill; returns the workflow id
+export const startBackfill = roleAction("admin", {
+  args: {
+    fromCongress: v.number(),
+    toCongress: v.number(),
+    billTypes: v.optional(v.array(v.string())),
+    versionCodes: v.optional(v.array(v.string())),
+    maxFiles: v.optional(v.number()),
+    interBatchDelayMs: v.optional(v.number()),
+  },
+  returns: vWorkflowId,
+  handler: async (ctx, args): Promise<WorkflowId> => {
+    if (args.fromCongress > args.toCongress) {
+      throw new Error(`Invalid congress range: ${args.fromCongress}-${args.toCongress}`);
+    }
+    const id = await workflow.start(ctx, internal.workflows.backfillWorkflow, args);
+    return id;
+  },
+});
+
+// Admin action to start a BILLSTATUS sync; returns the workflow id
+export const startBillStatusSync = roleAction("admin", {
+  args: {
+    maxFiles: v.optional(v.number()),
+    billTypes: v.optional(v.array(v.string())),
+    congresses: v.optional(v.array(v.number())),
+    interBatchDelayMs: v.optional(v.number()),
+  },
+  returns: vWorkflowId,
+  handler: async (ctx, args): Promise<WorkflowId> => {
+    const id = await workflow.start(ctx, internal.workflows.billStatusWorkflow, args);
+    return id;
+  },
+});
+
+// Admin action to check status of a workflow by id
+export const getWorkflowStatus = roleAction("admin", {
   args: { workflowId: vWorkflowId },
   returns: v.any(),
   handler: async (ctx, args): Promise<unknown> => {
@@ -138,8 +546,8 @@ export const getWorkflowStatus = action({
   },
 });
 
-// Public action to cancel a running workflow
-export const cancelWorkflow = action({
+// Admin action to cancel a running workflow
+export const cancelWorkflow = roleAction("admin", {
   args: { workflowId: vWorkflowId },
   returns: v.null(),
   handler: async (ctx, args): Promise<null> => {
@@ -148,8 +556,8 @@ export const cancelWorkflow = action({
   },
 });
 
-// Public action to cleanup a finished workflow's storage
-export const cleanupWorkflow = action({
+// Admin action to cleanup a finished workflow's storage
+export const cleanupWorkflow = roleAction("admin", {
   args: { workflowId: vWorkflowId },
   returns: v.null(),
   handler: async (ctx, args): Promise<null> => {
@@ -163,10 +571,38 @@ export const runDataPipelineCron = internalAction({
   args: {
     maxFiles: v.optional(v.number()),
     interBatchDelayMs: v.optional(v.number()),
+    congresses: v.optional(v.array(v.number())),
+    sessions: v.optional(v.array(v.number())),
   },
   returns: v.null(),
   handler: async (ctx, args): Promise<null> => {
     await workflow.start(ctx, internal.workflows.dataPipelineWorkflow, args);
     return null;
   },
-}); 
\ No newline at end of file
+}); 
+
+// Internal cron-safe starter for the failed ingestion retry workflow
+export const runRetryFailedIngestionsCron = internalAction({
+  args: {
+    maxFiles: v.optional(v.number()),
+    interBatchDelayMs: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    await workflow.start(ctx, internal.workflows.retryFailedIngestionsWorkflow, args);
+    return null;
+  },
+});
+
+// Internal cron-safe starter for the BILLSTATUS sync workflow
+export const runBillStatusSyncCron = internalAction({
+  args: {
+    maxFiles: v.optional(v.number()),
+    interBatchDelayMs: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    await workflow.start(ctx, internal.workflows.billStatusWorkflow, args);
+    return null;
+  },
+});
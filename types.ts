@@ -16,6 +16,39 @@ export interface BillData {
   [key: string]: unknown; // Allow additional properties
 }
 
+// A govinfo bulk data folder to walk during discovery (e.g. BILLS/119/2)
+export interface DiscoveryTarget {
+  congress: number;
+  session: number;
+}
+
+// Which congresses/sessions discovery should walk; omitted fields fall back to the latest published folders
+export interface DiscoveryOptions {
+  congresses?: number[];
+  sessions?: number[];
+  lookbackSessions?: number; // How many earlier sessions to keep walking after a rollover
+}
+
+// Where bill listings and XML come from: govinfo bulk data, a local fixture directory, ...
+// Every source yields the same BillFile records so ingestion does not care which one is used.
+export interface BillSource {
+  kind: "govinfo" | "local";
+  listCongresses(): Promise<number[]>;
+  listSessions(congress: number): Promise<number[]>;
+  listFiles(congress: number, session: number, billType: string): Promise<BillFile[] | null>; // Null when the folder is not published
+  fetchXml(link: string): Promise<string>;
+}
+
+// Listing manifest for a local directory of BILLS-*.xml files
+export interface BillSourceManifest {
+  files: Array<{
+    name: string;          // e.g., "BILLS-119hr1ih.xml", relative to the manifest
+    session: number;       // Session folder the file was published under
+    lastModified?: string; // Defaults to the file's mtime
+    link?: string;         // Original govinfo URL, so replays store the same xmlUrl
+  }>;
+}
+
 export interface ApiResponse {
   data: BillData | string;
   responseType: 'json' | 'xml' | 'text';
@@ -29,6 +62,12 @@ export interface BillSponsor {
   nameId?: string;
 }
 
+// A committee a bill was referred to, as named in its text
+export interface BillCommitteeRef {
+  code: string;  // Normalized committee code (see normalizeCommitteeCode in utils/committees.ts)
+  name: string;
+}
+
 // Bill summary and AI-generated content
 export interface BillSummaryData {
   summary: string;
@@ -48,14 +87,101 @@ export interface ExtractedBillData {
   sponsor: BillSponsor;
   cosponsors: BillSponsor[];
   committees: string[];
+  committeeReferrals?: BillCommitteeRef[]; // The committees above that carry a committee-id
   actionDate?: string;
   xmlUrl: string;
   fullText: string;
+  outline?: BillOutlineNode[];
+  amendments?: BillAmendment[];
   summary: string;
   tagLine: string;
   impactAreas: string[];
 }
 
+// A structural node (title, section, subsection, ...) of a bill version's text
+export interface BillOutlineNode {
+  level: string;       // XML element name, e.g. "section", "subsection"
+  id?: string;         // XML id attribute, stable within a version
+  enum?: string;       // e.g. "101", "(a)", "I"
+  header?: string;     // e.g. "Short title"
+  depth: number;       // 0 for top-level nodes
+  start: number;       // Offset into fullText where the node's text begins
+  end: number;         // Offset into fullText where the node's text ends (exclusive)
+}
+
+// A section of the US Code targeted by an amendment
+export interface UsCodeCitation {
+  title: number;       // e.g. 15
+  section: string;     // e.g. "45"
+  cite: string;        // e.g. "15 U.S.C. 45"
+  url: string;         // Link to the current text of the section
+}
+
+// An amendatory instruction in a bill ("Section 5 of ... is amended by striking ...")
+export interface BillAmendment {
+  instruction: string;     // The instruction, including its lead-in from enclosing provisions
+  quotedText?: string;     // Text of the quoted block being inserted, if any
+  targets: UsCodeCitation[];
+  start: number;           // Offsets of the amending provision in fullText
+  end: number;
+  sectionAnchor?: string;  // Enclosing bill section, e.g. "sec-101"
+  sectionLabel?: string;
+}
+
+// One "current law vs. proposed" pair for an amendment
+export interface CurrentLawComparisonItem {
+  title: string;
+  currentLaw: string;
+  proposedChange: string;
+  instruction: string;
+  target?: UsCodeCitation;
+  citations: StructuredSummaryCitation[];
+}
+
+// Table of contents entry (division, title, subtitle, ..., section) derived from an outline
+export interface BillSectionTocEntry {
+  anchor: string;      // Deep link fragment, e.g. "sec-101", "title-i"
+  level: string;
+  enum?: string;
+  header?: string;
+  label: string;       // e.g. "Sec. 101. Definitions", "Title I — General Provisions"
+  depth: number;       // Depth among table of contents entries, 0 for top-level
+  start: number;
+  end: number;
+}
+
+// A run of words in a redline: unchanged, removed from the earlier version or added in the later one
+export interface WordDiffSegment {
+  type: "equal" | "delete" | "insert";
+  text: string;
+}
+
+// One section of a section-aligned redline between two versions of a bill
+export interface SectionDiff {
+  status: "inserted" | "deleted" | "modified" | "unchanged";
+  label: string;        // Label in the later version (earlier version for deleted sections)
+  fromLabel?: string;   // Label in the earlier version when it differs, e.g. a renumbered section
+  fromAnchor?: string;
+  toAnchor?: string;
+  segments: WordDiffSegment[]; // Empty for unchanged sections
+}
+
+// AI analysis of what changed in a bill version relative to the previous stored version
+export interface VersionChangeItem {
+  title: string;
+  description: string;
+  changeType: "added" | "removed" | "modified";
+  citations: StructuredSummaryCitation[];
+}
+
+export interface VersionChangeAnalysis {
+  previousVersionId: string; // Will be Id<"billVersions"> in Convex context
+  previousVersionCode: string;
+  overview: string;
+  changes: VersionChangeItem[];
+  generatedAt: number;
+}
+
 // Structured sectioned summary with citations
 export interface StructuredSummaryCitation {
   label: string;       // e.g., "SEC. 101"
@@ -68,6 +194,256 @@ export interface StructuredSummarySection {
   citations?: StructuredSummaryCitation[];
 }
 
+// --- BILLSTATUS (govinfo bill status bulk data) ---
+
+// Legislative step an action marks, when it marks one (see classifyBillAction in utils/billStatus.ts)
+export type BillActionMilestone =
+  | "introduced"
+  | "referred"
+  | "reported"
+  | "passed_house"
+  | "passed_senate"
+  | "failed_house"
+  | "failed_senate"
+  | "resolving_differences"
+  | "presented"
+  | "signed"
+  | "vetoed"
+  | "veto_overridden"
+  | "became_law";
+
+// How far a bill got, from its status string (see getBillProgressStage in utils/billStatus.ts)
+export type BillProgressStage =
+  | "introduced"
+  | "committee"
+  | "passed_chamber" // Passed at least one chamber
+  | "enacted"
+  | "failed";
+
+// A member of Congress as listed among a bill's sponsors or cosponsors
+export interface BillStatusMember {
+  bioguideId: string;      // Same as politicians.govinfoId
+  name: string;            // e.g. "Steve Scalise"
+  party?: string;          // e.g. "R", "D", "I"
+  state?: string;          // e.g. "LA"
+  district?: string;
+  chamber?: "House" | "Senate";
+}
+
+// A cosponsor, with when and how they joined
+export interface BillStatusCosponsor extends BillStatusMember {
+  sponsorshipDate?: string;          // YYYY-MM-DD
+  isOriginalCosponsor: boolean;      // Joined when the bill was introduced
+  sponsorshipWithdrawnDate?: string; // Set once they withdrew
+}
+
+// A roll call vote recorded on an action
+export interface BillRecordedVote {
+  chamber: "House" | "Senate";
+  rollNumber: number;
+  date: string;
+  sessionNumber?: number;
+  url?: string;
+}
+
+export interface BillStatusAction {
+  actionDate: string;      // YYYY-MM-DD
+  actionTime?: string;     // HH:MM:SS, for floor actions
+  text: string;
+  actionType?: string;     // e.g. "IntroReferral", "Committee", "Floor", "President", "BecameLaw"
+  actionCode?: string;
+  sourceSystem?: string;   // e.g. "House floor actions", "Library of Congress"
+  chamber?: "House" | "Senate";
+  milestone?: BillActionMilestone;
+  committees: string[];
+  recordedVotes: BillRecordedVote[];
+}
+
+export type CommitteeReferralStatus = "referred" | "reported" | "discharged";
+
+// A committee or subcommittee's handling of a bill
+export interface BillStatusCommittee {
+  code: string;            // Normalized committee code, e.g. "HSAG", "HSAG15"
+  name: string;            // e.g. "Agriculture Committee"
+  chamber?: "House" | "Senate" | "Joint";
+  parentCode?: string;     // Set for subcommittees
+  status: CommitteeReferralStatus;
+  referredDate?: string;   // YYYY-MM-DD
+  reportedDate?: string;
+  activities: Array<{ name: string; date?: string }>; // e.g. "Referred to", "Markup by", "Reported by"
+}
+
+export interface RelatedBill {
+  congress: number;
+  billType: string;        // Normalized like bills.billType, e.g. "hr"
+  billNumber: string;
+  title?: string;
+  relationship?: string;   // e.g. "Identical bill", "Related bill"
+}
+
+// Parsed BILLSTATUS file for one bill
+export interface ExtractedBillStatus {
+  congress: number;
+  billType: string;
+  billNumber: string;
+  title: string;
+  originChamber?: "House" | "Senate";
+  introducedDate?: string;
+  updateDate?: string;     // When the source last changed the record
+  policyArea?: string;
+  subjects: string[];
+  sponsor?: BillStatusMember;
+  cosponsors: BillStatusCosponsor[];
+  actions: BillStatusAction[]; // Oldest first
+  committees: BillStatusCommittee[]; // Committees and subcommittees the bill went to
+  relatedBills: RelatedBill[];
+  status: string;              // Derived from the actions (see deriveBillStatus)
+  latestActionDate?: string;
+  latestActionText?: string;
+  xmlUrl: string;
+}
+
+// --- Legislators (congress-legislators dataset, see utils/legislators.ts) ---
+
+export interface LegislatorTerm {
+  chamber: "House" | "Senate";
+  start: string;          // YYYY-MM-DD
+  end: string;
+  state: string;          // e.g. "OH"
+  district?: string;      // House only; "0" for at-large seats
+  senateClass?: number;   // Senate only: 1, 2 or 3
+  party: string;          // e.g. "D", "R", "I"
+  url?: string;           // Official website during the term
+}
+
+export interface LegislatorRecord {
+  bioguideId: string;     // Same as politicians.govinfoId
+  name: string;
+  // From the latest term
+  party: string;
+  state: string;
+  district?: string;
+  chamber: "House" | "Senate";
+  inOffice: boolean;
+  terms: LegislatorTerm[];  // Oldest first
+  officialUrl?: string;
+  contactForm?: string;
+  lisId?: string;           // Senate id, used by Senate bill text instead of the bioguide ID
+  opensecretsId?: string;
+  alternateIds: {
+    thomas?: string;
+    govtrack?: string;
+    votesmart?: string;
+    fec?: string[];
+    cspan?: string;
+    icpsr?: string;
+    wikidata?: string;
+    wikipedia?: string;
+    ballotpedia?: string;
+  };
+}
+
+// --- Committees (congress-legislators dataset, see utils/committees.ts) ---
+
+export interface CommitteeRecord {
+  code: string;            // Thomas ID, e.g. "HSAG"; subcommittees append theirs, e.g. "HSAG15"
+  name: string;
+  chamber: "House" | "Senate" | "Joint";
+  parentCode?: string;     // Set for subcommittees
+  url?: string;
+  jurisdiction?: string;
+  address?: string;
+  phone?: string;
+}
+
+export interface CommitteeMemberRecord {
+  committeeCode: string;
+  bioguideId: string;      // Same as politicians.govinfoId
+  name: string;
+  side: "majority" | "minority";
+  rank?: number;           // Seniority on their side, 1 = most senior
+  title?: string;          // e.g. "Chair", "Ranking Member"
+}
+
+// --- Roll call votes (House Clerk and Senate LIS XML, see utils/rollCalls.ts) ---
+
+// "other" covers votes for a candidate, e.g. in the election of the Speaker
+export type VotePosition = "yea" | "nay" | "present" | "not_voting" | "other";
+
+export interface RollCallTotals {
+  yea: number;
+  nay: number;
+  present: number;
+  notVoting: number;
+}
+
+export interface RollCallPartyTotals extends RollCallTotals {
+  party: string;           // e.g. "D", "R", "I"
+}
+
+export interface RollCallMemberVote {
+  memberId: string;        // Bioguide ID in House votes, LIS member ID in Senate votes
+  name: string;
+  party?: string;
+  state?: string;
+  voteCast: string;        // As recorded, e.g. "Aye", "Yea", "No", "Not Voting"
+  position: VotePosition;
+}
+
+export interface ExtractedRollCall {
+  chamber: "House" | "Senate";
+  congress: number;
+  session: number;
+  rollNumber: number;
+  date: string;            // YYYY-MM-DD
+  question: string;        // e.g. "On Passage", "On Agreeing to the Amendment"
+  description?: string;
+  voteType?: string;       // e.g. "YEA-AND-NAY", "RECORDED VOTE"
+  requiredMajority?: string; // e.g. "1/2", "2/3"
+  result: string;          // e.g. "Passed", "Bill Passed", "Amendment Rejected"
+  measure?: string;        // What was voted on as written, e.g. "H R 5", "S. 870", "PN 12"
+  bill?: {                 // Set when the measure is a bill or resolution
+    congress: number;
+    billType: string;
+    billNumber: string;
+  };
+  amendment?: string;      // e.g. "S.Amdt. 1"
+  totals: RollCallTotals;
+  partyTotals: RollCallPartyTotals[];
+  members: RollCallMemberVote[];
+  xmlUrl: string;
+}
+
+// --- Legislative timeline (see utils/billTimeline.ts) ---
+
+export type BillTimelineStepId =
+  | "introduced"
+  | "committee"
+  | "origin_floor"          // Vote in the chamber the bill started in
+  | "second_chamber"        // Referral, report and vote in the other chamber
+  | "resolving_differences" // Amendment exchange or conference; only shown when it happened
+  | "president"             // Presented, then signed or vetoed
+  | "veto_override"         // Only shown after a veto
+  | "law";
+
+export interface BillTimelineStep {
+  id: BillTimelineStepId;
+  label: string;            // e.g. "Passed Senate", "Vetoed by President", "House vote"
+  chamber?: "House" | "Senate";
+  state: "completed" | "current" | "failed" | "skipped" | "upcoming";
+  date?: string;            // Date of the action (or version) that settled the step
+  detail?: string;          // Text of that action
+  committees: string[];
+  // Text versions published at this step, earliest first
+  versions: Array<{ id: string; versionCode: string; label: string; publishedDate: string }>;
+}
+
+export interface BillTimeline {
+  originChamber: "House" | "Senate";
+  steps: BillTimelineStep[];
+  source: "actions" | "versions"; // Versions only for bills without a BILLSTATUS history
+}
+
 // Parsed bill info from URL
 export interface BillUrlInfo {
   congress: number;
@@ -96,11 +472,19 @@ export interface DbBill {
   cleanedShortTitle?: string;
   sponsorId?: string; // Will be Id<"politicians"> in Convex context
   committees?: string[];
+  latestVersionId?: string; // Will be Id<"billVersions"> in Convex context
   latestVersionCode?: string;
   latestActionDate?: string;
+  latestActionText?: string;
   status: string;
+  introducedDate?: string;
+  policyArea?: string;
+  subjects?: string[];
+  relatedBills?: RelatedBill[];
+  billStatusUpdatedAt?: string;
   tagline?: string;
   summary?: string;
+  changeAnalysis?: CurrentLawComparisonItem[];
   impactAreas?: string[];
   structuredSummary?: StructuredSummarySection[];
 }
@@ -115,6 +499,14 @@ export interface DbPolitician {
   party: string;
   state: string;
   chamber: "House" | "Senate";
+  district?: string;
+  inOffice?: boolean;
+  terms?: LegislatorTerm[];
+  officialUrl?: string;
+  contactForm?: string;
+  lisId?: string;
+  alternateIds?: LegislatorRecord["alternateIds"];
+  legislatorsImportedAt?: number;
 }
 
 export interface DbBillVersion {
@@ -127,6 +519,13 @@ export interface DbBillVersion {
   fullText: string;
   xmlUrl: string;
   textLength?: number;
+  summary?: string;
+  tagline?: string;
+  impactAreas?: string[];
+  structuredSummary?: StructuredSummarySection[];
+  outline?: BillOutlineNode[];
+  changeAnalysis?: VersionChangeAnalysis;
+  currentLawComparison?: CurrentLawComparisonItem[];
 }
 
 // API response types
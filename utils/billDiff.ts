@@ -0,0 +1,250 @@
+import { BillOutlineNode, BillSectionTocEntry, SectionDiff, WordDiffSegment } from "../types";
+import { buildSectionToc } from "./dataHelpers";
+
+// Above this many word edits a section is shown as replaced rather than diffed word by word
+const MAX_WORD_EDITS = 2000;
+
+type DiffOp = { type: WordDiffSegment["type"]; token: string };
+
+/**
+ * Myers shortest edit script over two token arrays
+ * @returns The edit operations, or null if more than maxEdits edits are needed
+ */
+const myersDiff = (a: string[], b: string[], maxEdits: number): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Snapshot of v before each step d, covering diagonals -d-1..d+1
+  const trace: Int32Array[] = [];
+
+  let found = -1;
+  for (let d = 0; d <= max && found < 0; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+  }
+  if (found < 0) return null;
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d > 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "equal", token: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: "insert", token: b[y - 1] });
+    } else {
+      ops.push({ type: "delete", token: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: "equal", token: a[x - 1] });
+    x--;
+    y--;
+  }
+  return ops.reverse();
+};
+
+/**
+ * Word-level diff of two passages of whitespace-normalized text
+ * @param before The earlier text
+ * @param after The later text
+ * @returns Runs of equal, deleted and inserted words in reading order
+ */
+export const diffWords = (before: string, after: string): WordDiffSegment[] => {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+
+  // Trim the common prefix and suffix so the edit search only covers the changed middle
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = myersDiff(middleA, middleB, MAX_WORD_EDITS) ?? [
+    ...middleA.map((token) => ({ type: "delete" as const, token })),
+    ...middleB.map((token) => ({ type: "insert" as const, token })),
+  ];
+
+  const ops: DiffOp[] = [
+    ...a.slice(0, prefix).map((token) => ({ type: "equal" as const, token })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((token) => ({ type: "equal" as const, token })),
+  ];
+
+  // Merge consecutive operations of the same type into segments
+  const segments: WordDiffSegment[] = [];
+  for (const op of ops) {
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += " " + op.token;
+    } else {
+      segments.push({ type: op.type, text: op.token });
+    }
+  }
+  return segments;
+};
+
+type DiffUnit = { entry: BillSectionTocEntry; text: string };
+
+// Sections of a version; versions without an outline are treated as one unit
+const getDiffUnits = (version: { fullText: string; outline?: BillOutlineNode[] }): DiffUnit[] => {
+  const sections = buildSectionToc(version.outline ?? []).filter((e) => e.level === "section");
+  if (sections.length === 0) {
+    return [{
+      entry: { anchor: "full-text", level: "text", label: "Full text", depth: 0, start: 0, end: version.fullText.length },
+      text: version.fullText,
+    }];
+  }
+  return sections.map((entry) => ({ entry, text: version.fullText.substring(entry.start, entry.end) }));
+};
+
+/**
+ * Section-aligned redline between two versions of a bill. Sections are paired by their
+ * anchor (designation within its division/title) and header, then renumbered sections
+ * by header alone, then retitled sections by anchor alone.
+ * Unpaired sections are reported as inserted or deleted, paired ones as unchanged or
+ * modified with a word-level diff.
+ * @param from The earlier version's text and outline
+ * @param to The later version's text and outline
+ * @returns Section diffs in the later version's order, deleted sections placed where they stood
+ */
+export const diffBillSections = (
+  from: { fullText: string; outline?: BillOutlineNode[] },
+  to: { fullText: string; outline?: BillOutlineNode[] },
+): SectionDiff[] => {
+  const fromUnits = getDiffUnits(from);
+  const toUnits = getDiffUnits(to);
+
+  // Pair sections: same anchor and header, then renumbered (same header), then retitled (same anchor)
+  const pairOf = new Map<number, number>(); // to index -> from index
+  const pairedFrom = new Set<number>();
+  const normalizeHeader = (header?: string) => header?.trim().toLowerCase().replace(/[.\s]+$/, "") ?? "";
+  const pairBy = (matches: (a: DiffUnit, b: DiffUnit) => boolean) => {
+    toUnits.forEach((unit, toIdx) => {
+      if (pairOf.has(toIdx)) return;
+      const fromIdx = fromUnits.findIndex((u, i) => !pairedFrom.has(i) && matches(u, unit));
+      if (fromIdx >= 0) {
+        pairOf.set(toIdx, fromIdx);
+        pairedFrom.add(fromIdx);
+      }
+    });
+  };
+  pairBy((a, b) => a.entry.anchor === b.entry.anchor && normalizeHeader(a.entry.header) === normalizeHeader(b.entry.header));
+  pairBy((a, b) => normalizeHeader(b.entry.header) !== "" && normalizeHeader(a.entry.header) === normalizeHeader(b.entry.header));
+  pairBy((a, b) => a.entry.anchor === b.entry.anchor);
+
+  const result: SectionDiff[] = [];
+  let fromCursor = 0;
+  const emitDeletedUpTo = (limit: number) => {
+    for (; fromCursor < limit; fromCursor++) {
+      if (pairedFrom.has(fromCursor)) continue;
+      const unit = fromUnits[fromCursor];
+      result.push({
+        status: "deleted",
+        label: unit.entry.label,
+        fromAnchor: unit.entry.anchor,
+        segments: [{ type: "delete", text: unit.text }],
+      });
+    }
+  };
+
+  toUnits.forEach((unit, toIdx) => {
+    const fromIdx = pairOf.get(toIdx);
+    if (fromIdx === undefined) {
+      result.push({
+        status: "inserted",
+        label: unit.entry.label,
+        toAnchor: unit.entry.anchor,
+        segments: [{ type: "insert", text: unit.text }],
+      });
+      return;
+    }
+
+    emitDeletedUpTo(fromIdx);
+    fromCursor = Math.max(fromCursor, fromIdx + 1);
+    const previous = fromUnits[fromIdx];
+    const unchanged = previous.text === unit.text;
+    result.push({
+      status: unchanged ? "unchanged" : "modified",
+      label: unit.entry.label,
+      fromLabel: previous.entry.label !== unit.entry.label ? previous.entry.label : undefined,
+      fromAnchor: previous.entry.anchor,
+      toAnchor: unit.entry.anchor,
+      segments: unchanged ? [] : diffWords(previous.text, unit.text),
+    });
+  });
+  emitDeletedUpTo(fromUnits.length);
+
+  return result;
+};
+
+/**
+ * Renders a redline as compact text for a model prompt: one block per changed section,
+ * deletions as [-...-] and insertions as {+...+}, with unchanged runs shortened.
+ * @param sections Section diffs from diffBillSections
+ * @param maxChars Budget for the rendered text; later sections are dropped past it
+ * @returns The rendered redline
+ */
+export const formatRedlineForPrompt = (sections: SectionDiff[], maxChars: number = 60000): string => {
+  const shorten = (text: string, keep: number) => {
+    const words = text.split(" ");
+    return words.length <= keep * 2 ? text : `${words.slice(0, keep).join(" ")} ... ${words.slice(-keep).join(" ")}`;
+  };
+
+  const blocks: string[] = [];
+  let length = 0;
+  let omitted = 0;
+  for (const section of sections) {
+    if (section.status === "unchanged") continue;
+    const sectionId = section.toAnchor ?? section.fromAnchor ?? "";
+    const heading = `### [${section.status}] ${section.label}${section.fromLabel ? ` (was ${section.fromLabel})` : ""} (sectionId: ${sectionId})`;
+    const body = section.segments
+      .map((s) => (s.type === "insert" ? `{+${s.text}+}` : s.type === "delete" ? `[-${s.text}-]` : shorten(s.text, 12)))
+      .join(" ");
+    const block = `${heading}\n${body}`;
+    if (length + block.length > maxChars) {
+      omitted += 1;
+      continue;
+    }
+    blocks.push(block);
+    length += block.length + 2;
+  }
+
+  if (omitted > 0) {
+    blocks.push(`(${omitted} more changed sections omitted for length)`);
+  }
+  return blocks.join("\n\n");
+};
@@ -0,0 +1,72 @@
+import { BillSource, DiscoveryOptions, DiscoveryTarget } from "../types";
+import { fetchBulkDataListing, getBillsBulkDataUrl, getCongressSessionForDate, getNumericFolders } from "./dataHelpers";
+import { ingestionErrorFromStatus, toIngestionError } from "./ingestionErrors";
+
+/**
+ * Bill source backed by the govinfo bulk data JSON listings
+ * @returns A BillSource that fetches listings and XML over the network
+ */
+export const createGovinfoBillSource = (): BillSource => ({
+  kind: "govinfo",
+  listCongresses: async () => getNumericFolders(await fetchBulkDataListing(getBillsBulkDataUrl())),
+  listSessions: async (congress) => getNumericFolders(await fetchBulkDataListing(getBillsBulkDataUrl(congress))),
+  listFiles: async (congress, session, billType) => {
+    const listing = await fetchBulkDataListing(getBillsBulkDataUrl(congress, session, billType));
+    return listing ? listing.files ?? [] : null;
+  },
+  fetchXml: async (link) => {
+    const response = await fetch(link).catch((error) => {
+      throw toIngestionError(error, "network_error");
+    });
+    if (!response.ok) {
+      throw ingestionErrorFromStatus(response.status, `Failed to fetch ${link}: ${response.status} ${response.statusText}`);
+    }
+    return await response.text();
+  },
+});
+
+/**
+ * Resolves which congress/session folders discovery should walk.
+ * Explicit congresses/sessions are honored as given. Otherwise the latest published
+ * congress is used, so a new session or Congress is picked up as soon as the source
+ * publishes its folder, along with `lookbackSessions` earlier sessions that may still
+ * receive late files after a rollover.
+ * @param source - Where listings come from
+ * @param options - Configured congresses, sessions and lookback
+ * @returns Targets ordered newest first
+ */
+export const resolveDiscoveryTargets = async (
+  source: BillSource,
+  options: DiscoveryOptions = {},
+): Promise<DiscoveryTarget[]> => {
+  const lookback = options.lookbackSessions ?? 1;
+  const expected = getCongressSessionForDate(new Date());
+
+  let congresses = options.congresses;
+  if (!congresses || congresses.length === 0) {
+    const published = await source.listCongresses();
+    const latest = published.length > 0 ? published[published.length - 1] : expected.congress;
+    // Include the previous congress so lookback can cross a Congress boundary
+    congresses = [latest - 1, latest];
+  }
+
+  const targets: DiscoveryTarget[] = [];
+  for (const congress of congresses) {
+    let sessions = await source.listSessions(congress);
+    if (sessions.length === 0 && source.kind === "govinfo" && congress === expected.congress) {
+      sessions = [expected.session]; // Listing unavailable; fall back to the calendar
+    }
+    for (const session of sessions) {
+      if (options.sessions && options.sessions.length > 0 && !options.sessions.includes(session)) continue;
+      targets.push({ congress, session });
+    }
+  }
+
+  targets.sort((a, b) => b.congress - a.congress || b.session - a.session);
+
+  // Explicitly configured congresses are walked in full; the default only keeps the newest folders
+  if (options.congresses && options.congresses.length > 0) {
+    return targets;
+  }
+  return targets.slice(0, lookback + 1);
+};
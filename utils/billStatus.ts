@@ -0,0 +1,436 @@
+import { XMLParser } from "fast-xml-parser";
+import { v } from "convex/values";
+import {
+  BillActionMilestone,
+  BillProgressStage,
+  BillRecordedVote,
+  BillStatusAction,
+  BillStatusCommittee,
+  BillStatusCosponsor,
+  BillStatusMember,
+  ExtractedBillStatus,
+  RelatedBill,
+} from "../types";
+import { IngestionError } from "./ingestionErrors";
+import { VERSION_CODES, getOriginChamber } from "./versionCodes";
+import { getCommitteeChamber, normalizeCommitteeCode } from "./committees";
+
+// govinfo BILLSTATUS bulk data: one XML file per bill with its actions, sponsors, subjects
+// and related bills, e.g. BILLSTATUS/119/hr/BILLSTATUS-119hr1.xml.
+// See https://github.com/usgpo/bill-status for the format.
+
+/**
+ * Root of the govinfo bulk data JSON listings for bill status
+ */
+export const GOVINFO_BILLSTATUS_BULKDATA_URL = "https://www.govinfo.gov/bulkdata/json/BILLSTATUS";
+
+/**
+ * Builds a BILLSTATUS bulk data listing URL, e.g. BILLSTATUS/119/hr/. Unlike BILLS
+ * there are no session folders.
+ * @param congress - Congress number (omit for the root listing)
+ * @param billType - Bill type folder (e.g. "hr", "s")
+ * @returns Listing URL with a trailing slash
+ */
+export const getBillStatusBulkDataUrl = (congress?: number, billType?: string): string => {
+  const segments = [congress, billType].filter((s) => s !== undefined);
+  return [GOVINFO_BILLSTATUS_BULKDATA_URL, ...segments].join("/") + "/";
+};
+
+/**
+ * Parses the bill identifier from a BILLSTATUS file URL or name
+ * @param xmlUrl - e.g. ".../BILLSTATUS-119hr1.xml"
+ * @returns Congress, bill type and number
+ */
+export const parseBillStatusInfoFromUrl = (xmlUrl: string): { congress: number; billType: string; billNumber: string } => {
+  const urlMatch = xmlUrl.match(/BILLSTATUS-(\d{2,3})([a-zA-Z]+)(\d+)\.xml$/);
+  if (!urlMatch) {
+    throw new IngestionError("invalid_bill_url", `Could not parse bill info from URL: ${xmlUrl}`);
+  }
+  const [, congress, billType, billNumber] = urlMatch;
+  return { congress: parseInt(congress), billType: billType.toLowerCase(), billNumber };
+};
+
+export const billActionMilestoneValidator = v.union(
+  v.literal("introduced"),
+  v.literal("referred"),
+  v.literal("reported"),
+  v.literal("passed_house"),
+  v.literal("passed_senate"),
+  v.literal("failed_house"),
+  v.literal("failed_senate"),
+  v.literal("resolving_differences"),
+  v.literal("presented"),
+  v.literal("signed"),
+  v.literal("vetoed"),
+  v.literal("veto_overridden"),
+  v.literal("became_law"),
+);
+
+export const BILL_ACTION_MILESTONE_LABELS: Record<BillActionMilestone, string> = {
+  introduced: "Introduced",
+  referred: "Referred to Committee",
+  reported: "Reported by Committee",
+  passed_house: "Passed House",
+  passed_senate: "Passed Senate",
+  failed_house: "Failed House",
+  failed_senate: "Failed Senate",
+  resolving_differences: "Resolving Differences",
+  presented: "Presented to President",
+  signed: "Signed by President",
+  vetoed: "Vetoed",
+  veto_overridden: "Veto Overridden",
+  became_law: "Became Law",
+};
+
+type Chamber = "House" | "Senate";
+
+const chamberFrom = (value?: string): Chamber | undefined => {
+  if (!value) return undefined;
+  if (/^house/i.test(value)) return "House";
+  if (/^senate/i.test(value)) return "Senate";
+  return undefined;
+};
+
+/**
+ * Which legislative step an action marks, from its type and text. Both the Library of
+ * Congress and the chambers record most steps, so several actions can mark the same one.
+ * @param action - The action's type and text
+ * @returns The milestone and the chamber it happened in, or undefined for other actions
+ */
+export const classifyBillAction = (
+  action: Pick<BillStatusAction, "actionType" | "text">,
+): { milestone: BillActionMilestone; chamber?: Chamber } | undefined => {
+  const text = action.text.trim();
+  const type = action.actionType ?? "";
+
+  let match = text.match(/^Introduced in (?:the )?(House|Senate)/i);
+  if (match) return { milestone: "introduced", chamber: chamberFrom(match[1]) };
+
+  match = text.match(/^Passed\/agreed to in (House|Senate)/i);
+  if (match) return { milestone: match[1].toLowerCase() === "house" ? "passed_house" : "passed_senate", chamber: chamberFrom(match[1]) };
+
+  match = text.match(/^Failed of passage\/not agreed to in (House|Senate)/i);
+  if (match) return { milestone: match[1].toLowerCase() === "house" ? "failed_house" : "failed_senate", chamber: chamberFrom(match[1]) };
+
+  if (type === "BecameLaw" || /^Became (Public|Private) Law/i.test(text)) return { milestone: "became_law" };
+  if (/^Presented to President/i.test(text)) return { milestone: "presented" };
+  if (/^Signed by President/i.test(text)) return { milestone: "signed" };
+  if (/^(Pocket )?Vetoed by President/i.test(text)) return { milestone: "vetoed" };
+  if (type === "Veto" && /passed .*over .*veto|veto .*overridden/i.test(text)) return { milestone: "veto_overridden" };
+  if (type === "ResolvingDifferences" || /^Resolving differences/i.test(text)) return { milestone: "resolving_differences" };
+  if (type === "IntroReferral" && /referred to/i.test(text)) return { milestone: "referred" };
+  // "Reported (Amended) by the Committee on ..." or "Committee on Finance. Reported by Senator ..."
+  if (type === "Committee" && /(^|\. )Reported\b/.test(text)) return { milestone: "reported" };
+
+  return undefined;
+};
+
+// Furthest-along milestone wins; the House and Senate steps are ranked by the origin chamber
+const milestoneRank = (milestone: BillActionMilestone, originChamber: Chamber): number => {
+  switch (milestone) {
+    case "introduced": return 0;
+    case "referred": return 1;
+    case "reported": return 2;
+    case "passed_house":
+    case "failed_house":
+      return originChamber === "House" ? 3 : 4;
+    case "passed_senate":
+    case "failed_senate":
+      return originChamber === "Senate" ? 3 : 4;
+    case "resolving_differences": return 5;
+    case "presented": return 6;
+    case "signed":
+    case "vetoed":
+      return 7;
+    case "veto_overridden": return 8;
+    case "became_law": return 9;
+  }
+};
+
+/**
+ * Current status of a bill from its actions: the label of the furthest milestone
+ * reached, the latest one among equals (e.g. a passage vote after a failed one)
+ * @param actions - The bill's actions, oldest first
+ * @param billType - The bill's type, which decides its origin chamber
+ * @returns Human-readable status string
+ */
+export const deriveBillStatus = (actions: BillStatusAction[], billType: string): string => {
+  const originChamber = getOriginChamber(billType);
+  let furthest: { milestone: BillActionMilestone; rank: number } | undefined;
+  for (const action of actions) {
+    if (!action.milestone) continue;
+    const rank = milestoneRank(action.milestone, originChamber);
+    if (!furthest || rank >= furthest.rank) {
+      furthest = { milestone: action.milestone, rank };
+    }
+  }
+  return BILL_ACTION_MILESTONE_LABELS[furthest?.milestone ?? "introduced"];
+};
+
+const MILESTONE_STAGES: Record<BillActionMilestone, BillProgressStage> = {
+  introduced: "introduced",
+  referred: "committee",
+  reported: "committee",
+  passed_house: "passed_chamber",
+  passed_senate: "passed_chamber",
+  failed_house: "failed",
+  failed_senate: "failed",
+  resolving_differences: "passed_chamber",
+  presented: "passed_chamber",
+  signed: "enacted",
+  vetoed: "failed",
+  veto_overridden: "enacted",
+  became_law: "enacted",
+};
+
+// Version codes that end a bill's path without passage
+const DEAD_END_VERSION_CODES = new Set(["fph", "fps", "iph", "ips", "lth", "lts"]);
+
+// Stage of each status string bills are stored with: milestone labels (BILLSTATUS)
+// and version code labels (bill text)
+const STATUS_STAGES = new Map<string, BillProgressStage>([
+  ...Object.values(VERSION_CODES).map((info): [string, BillProgressStage] => {
+    if (DEAD_END_VERSION_CODES.has(info.code)) return [info.label, "failed"];
+    switch (info.phase) {
+      case "introduced":
+        return [info.label, "introduced"];
+      case "referred":
+      case "reported":
+      case "calendar":
+        return [info.label, "committee"];
+      case "law":
+        return [info.label, "enacted"];
+      default:
+        return [info.label, "passed_chamber"];
+    }
+  }),
+  ...(Object.entries(MILESTONE_STAGES) as Array<[BillActionMilestone, BillProgressStage]>)
+    .map(([milestone, stage]): [string, BillProgressStage] => [BILL_ACTION_MILESTONE_LABELS[milestone], stage]),
+]);
+
+/**
+ * How far a bill got, from its stored status
+ * @param status - bills.status, e.g. "Passed House", "Reported in Senate"
+ * @returns The stage; unrecognized statuses count as introduced
+ */
+export const getBillProgressStage = (status: string): BillProgressStage => {
+  return STATUS_STAGES.get(status) ?? "introduced";
+};
+
+// ================================
+// PARSING
+// ================================
+
+// Lists in BILLSTATUS are <item> elements (<recordedVote> for votes); always parse them as arrays
+const getBillStatusParserConfig = () => ({
+  ignoreAttributes: true,
+  ignoreDeclaration: true,
+  ignorePiTags: true,
+  parseTagValue: false, // Keep bill numbers and action codes as written
+  isArray: (tagName: string) => ["item", "recordedVote"].includes(tagName),
+});
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const itemsOf = (node: any): any[] => (Array.isArray(node?.item) ? node.item : []);
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const textOf = (node: any): string | undefined => {
+  if (node === undefined || node === null || typeof node === "object") return undefined;
+  const text = String(node).trim();
+  return text || undefined;
+};
+
+/**
+ * Extracts a sponsor or cosponsor
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const extractMember = (node: any): BillStatusMember | undefined => {
+  const bioguideId = textOf(node?.bioguideId);
+  if (!bioguideId) return undefined;
+
+  // fullName is e.g. "Rep. Scalise, Steve [R-LA-1]"
+  const fullName = textOf(node.fullName) ?? "";
+  const name = [textOf(node.firstName), textOf(node.middleName), textOf(node.lastName)].filter(Boolean).join(" ") ||
+    fullName.replace(/\s*\[.*\]$/, "");
+  const district = textOf(node.district);
+  const chamber: Chamber | undefined = /^Sen\./.test(fullName)
+    ? "Senate"
+    : district !== undefined || /^(Rep|Del|Res\.? Comm)\./.test(fullName) ? "House" : undefined;
+
+  return {
+    bioguideId,
+    name,
+    party: textOf(node.party),
+    state: textOf(node.state),
+    district,
+    chamber,
+  };
+};
+
+/**
+ * Extracts a cosponsor; withdrawn cosponsors stay listed with their withdrawal date
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const extractCosponsor = (node: any): BillStatusCosponsor | undefined => {
+  const member = extractMember(node);
+  if (!member) return undefined;
+  return {
+    ...member,
+    sponsorshipDate: textOf(node.sponsorshipDate),
+    isOriginalCosponsor: textOf(node.isOriginalCosponsor)?.toLowerCase() === "true",
+    sponsorshipWithdrawnDate: textOf(node.sponsorshipWithdrawnDate),
+  };
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const extractAction = (node: any): BillStatusAction | undefined => {
+  const actionDate = textOf(node?.actionDate);
+  const text = textOf(node?.text);
+  if (!actionDate || !text) return undefined;
+
+  const sourceSystem = textOf(node.sourceSystem?.name);
+  const recordedVotes: BillRecordedVote[] = [];
+  for (const vote of node.recordedVotes?.recordedVote ?? []) {
+    const chamber = chamberFrom(textOf(vote.chamber));
+    const rollNumber = parseInt(textOf(vote.rollNumber) ?? "");
+    if (!chamber || !Number.isFinite(rollNumber)) continue;
+    const sessionNumber = parseInt(textOf(vote.sessionNumber) ?? "");
+    recordedVotes.push({
+      chamber,
+      rollNumber,
+      date: textOf(vote.date) ?? actionDate,
+      sessionNumber: Number.isFinite(sessionNumber) ? sessionNumber : undefined,
+      url: textOf(vote.url),
+    });
+  }
+
+  const action: BillStatusAction = {
+    actionDate: actionDate.slice(0, 10),
+    actionTime: textOf(node.actionTime),
+    text,
+    actionType: textOf(node.type),
+    actionCode: textOf(node.actionCode),
+    sourceSystem,
+    chamber: chamberFrom(sourceSystem),
+    committees: itemsOf(node.committees).map((c) => textOf(c.name)).filter((name): name is string => !!name),
+    recordedVotes,
+  };
+  const classified = classifyBillAction(action);
+  return {
+    ...action,
+    milestone: classified?.milestone,
+    chamber: classified?.chamber ?? action.chamber,
+  };
+};
+
+/**
+ * Extracts a committee's handling of the bill, followed by that of its subcommittees.
+ * Activities are e.g. "Referred to", "Hearings by", "Markup by", "Reported by", "Discharged from".
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const extractCommittee = (node: any, parentCode?: string): BillStatusCommittee[] => {
+  const code = normalizeCommitteeCode(textOf(node?.systemCode) ?? "");
+  const name = textOf(node?.name);
+  if (!code || !name) return [];
+
+  const activities = itemsOf(node.activities)
+    .map((a) => ({ name: textOf(a.name) ?? "", date: textOf(a.date)?.slice(0, 10) }))
+    .filter((a) => a.name)
+    .sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""));
+  const dateOf = (pattern: RegExp) => activities.find((a) => pattern.test(a.name))?.date;
+  const reportedDate = dateOf(/^Reported/i);
+  const chamberText = textOf(node.chamber);
+
+  const committee: BillStatusCommittee = {
+    code,
+    name,
+    chamber: chamberText === "Joint" ? "Joint" : chamberFrom(chamberText) ?? getCommitteeChamber(code),
+    parentCode,
+    status: reportedDate ? "reported" : dateOf(/^Discharged/i) ? "discharged" : "referred",
+    referredDate: dateOf(/^Referred/i),
+    reportedDate,
+    activities,
+  };
+  return [committee, ...itemsOf(node.subcommittees).flatMap((sub) => extractCommittee(sub, code))];
+};
+
+/**
+ * Parses a BILLSTATUS XML file. Handles both the current (3.x) layout and the older one
+ * that used billNumber/billType and nested subjects under billSubjects.
+ * @param xmlData - Raw XML string data
+ * @param xmlUrl - The source URL for reference
+ * @returns Structured bill status with actions oldest first
+ */
+export const parseBillStatusXml = (xmlData: string, xmlUrl: string): ExtractedBillStatus => {
+  const parser = new XMLParser(getBillStatusParserConfig());
+  const bill = parser.parse(xmlData)?.billStatus?.bill;
+  if (!bill) {
+    throw new IngestionError("unparseable_xml", `No 'billStatus/bill' element found in ${xmlUrl}`);
+  }
+
+  const congress = parseInt(textOf(bill.congress) ?? "");
+  const billType = (textOf(bill.type) ?? textOf(bill.billType))?.toLowerCase().replace(/\./g, "");
+  const billNumber = textOf(bill.number) ?? textOf(bill.billNumber);
+  if (!Number.isFinite(congress) || !billType || !billNumber) {
+    throw new IngestionError("invalid_legis_num", `Could not parse congress/type/number from ${xmlUrl}`);
+  }
+
+  // Actions are listed newest first; the same step is often recorded by several source
+  // systems with identical text, so keep one of each
+  const seen = new Set<string>();
+  const actions: BillStatusAction[] = [];
+  for (const node of [...itemsOf(bill.actions)].reverse()) {
+    const action = extractAction(node);
+    if (!action) continue;
+    const key = `${action.actionDate}|${action.actionTime ?? ""}|${action.text}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    actions.push(action);
+  }
+  // Stable sort keeps the source order within a day when times are missing
+  actions.sort((a, b) =>
+    a.actionDate.localeCompare(b.actionDate) ||
+    (a.actionTime && b.actionTime ? a.actionTime.localeCompare(b.actionTime) : 0)
+  );
+
+  const subjectsNode = bill.subjects?.legislativeSubjects ?? bill.subjects?.billSubjects?.legislativeSubjects;
+  const subjects = itemsOf(subjectsNode).map((s) => textOf(s.name)).filter((name): name is string => !!name);
+
+  const relatedBills: RelatedBill[] = [];
+  for (const node of itemsOf(bill.relatedBills)) {
+    const relatedCongress = parseInt(textOf(node.congress) ?? "");
+    const relatedType = textOf(node.type)?.toLowerCase().replace(/\./g, "");
+    const relatedNumber = textOf(node.number);
+    if (!Number.isFinite(relatedCongress) || !relatedType || !relatedNumber) continue;
+    relatedBills.push({
+      congress: relatedCongress,
+      billType: relatedType,
+      billNumber: relatedNumber,
+      title: textOf(node.title),
+      relationship: textOf(itemsOf(node.relationshipDetails)[0]?.type),
+    });
+  }
+
+  const latestAction = actions[actions.length - 1];
+
+  return {
+    congress,
+    billType,
+    billNumber,
+    title: textOf(bill.title) ?? textOf(itemsOf(bill.titles)[0]?.title) ?? `${billType.toUpperCase()} ${billNumber}`,
+    originChamber: chamberFrom(textOf(bill.originChamber)),
+    introducedDate: textOf(bill.introducedDate),
+    updateDate: textOf(bill.updateDate),
+    policyArea: textOf(bill.policyArea?.name) ?? textOf(bill.subjects?.billSubjects?.policyArea?.name),
+    subjects,
+    sponsor: extractMember(itemsOf(bill.sponsors)[0]),
+    cosponsors: itemsOf(bill.cosponsors).map(extractCosponsor).filter((m): m is BillStatusCosponsor => !!m),
+    actions,
+    committees: itemsOf(bill.committees ?? bill.billCommittees).flatMap((c) => extractCommittee(c)),
+    relatedBills,
+    status: deriveBillStatus(actions, billType),
+    latestActionDate: textOf(bill.latestAction?.actionDate) ?? latestAction?.actionDate,
+    latestActionText: textOf(bill.latestAction?.text) ?? latestAction?.text,
+    xmlUrl,
+  };
+};
@@ -0,0 +1,269 @@
+import { BillActionMilestone, BillTimeline, BillTimelineStep, BillTimelineStepId } from "../types";
+import { VersionChamber, getOriginChamber, getVersionCodeInfo, getVersionRank } from "./versionCodes";
+
+type TimelineAction = {
+  actionDate: string;
+  text: string;
+  chamber?: VersionChamber;
+  milestone?: BillActionMilestone;
+  committees?: string[];
+};
+
+type TimelineVersion = {
+  _id: string;
+  versionCode: string;
+  publishedDate: string;
+};
+
+// Which path a measure takes after its first chamber
+type MeasureKind =
+  | "bill"       // Bills and joint resolutions: both chambers, then the President
+  | "concurrent" // Concurrent resolutions: both chambers, no President
+  | "simple";    // Simple resolutions: one chamber
+
+const getMeasureKind = (billType: string): MeasureKind => {
+  const type = billType.toLowerCase();
+  if (type === "hres" || type === "sres") return "simple";
+  if (type === "hconres" || type === "sconres") return "concurrent";
+  return "bill";
+};
+
+const otherChamber = (chamber: VersionChamber): VersionChamber => (chamber === "House" ? "Senate" : "House");
+
+// Steps each kind of measure goes through, in order
+const STEP_PATHS: Record<MeasureKind, BillTimelineStepId[]> = {
+  bill: ["introduced", "committee", "origin_floor", "second_chamber", "resolving_differences", "president", "veto_override", "law"],
+  concurrent: ["introduced", "committee", "origin_floor", "second_chamber", "resolving_differences"],
+  simple: ["introduced", "committee", "origin_floor"],
+};
+
+// Steps left out unless something happened at them
+const OPTIONAL_STEPS: ReadonlyArray<BillTimelineStepId> = ["resolving_differences", "veto_override"];
+
+/**
+ * The step an action belongs to, if it marks one
+ */
+const getActionStep = (action: TimelineAction, origin: VersionChamber): BillTimelineStepId | undefined => {
+  switch (action.milestone) {
+    case "introduced":
+      return "introduced";
+    case "referred":
+    case "reported":
+      // Referral and report in the second chamber are part of its consideration
+      return action.chamber === otherChamber(origin) ? "second_chamber" : "committee";
+    case "passed_house":
+    case "failed_house":
+      return origin === "House" ? "origin_floor" : "second_chamber";
+    case "passed_senate":
+    case "failed_senate":
+      return origin === "Senate" ? "origin_floor" : "second_chamber";
+    case "resolving_differences":
+      return "resolving_differences";
+    case "presented":
+    case "signed":
+    case "vetoed":
+      return "president";
+    case "veto_overridden":
+      return "veto_override";
+    case "became_law":
+      return "law";
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * The step a text version was published at
+ */
+const getVersionStep = (versionCode: string, origin: VersionChamber): BillTimelineStepId | undefined => {
+  const info = getVersionCodeInfo(versionCode);
+  if (!info || info.kind !== "bill") return undefined;
+  const inSecondChamber = info.chamber === otherChamber(origin);
+  switch (info.phase) {
+    case "introduced":
+      return "introduced";
+    case "referred":
+    case "reported":
+    case "calendar":
+      return inSecondChamber ? "second_chamber" : "committee";
+    case "passed":
+      return inSecondChamber ? "second_chamber" : "origin_floor";
+    case "received":
+      return "second_chamber";
+    case "amendment_exchange":
+      return "resolving_differences";
+    case "enrolled":
+      return "president";
+    case "law":
+      return "law";
+  }
+};
+
+/**
+ * The milestone a text version implies, for bills without an action history
+ */
+const getVersionMilestone = (versionCode: string): BillActionMilestone | undefined => {
+  const info = getVersionCodeInfo(versionCode);
+  switch (info?.phase) {
+    case "reported":
+      return "reported";
+    case "passed":
+      return info.chamber === "Senate" ? "passed_senate" : "passed_house";
+    case "enrolled":
+      return "presented";
+    case "law":
+      return "became_law";
+    default:
+      return undefined;
+  }
+};
+
+// The milestone a step passed over on the way to a later one must have had: a bill
+// reaches the second chamber only by passing the first
+const getImpliedMilestone = (id: BillTimelineStepId, chamber?: VersionChamber): BillActionMilestone | undefined => {
+  if (id === "origin_floor" || id === "second_chamber") {
+    return chamber === "Senate" ? "passed_senate" : "passed_house";
+  }
+  if (id === "president") return "presented";
+  return undefined;
+};
+
+const isFailure = (milestone?: BillActionMilestone): boolean =>
+  milestone === "failed_house" || milestone === "failed_senate" || milestone === "vetoed";
+
+/**
+ * Label of a step, from the milestone that settled it when there is one
+ */
+const getStepLabel = (
+  id: BillTimelineStepId,
+  chamber: VersionChamber | undefined,
+  kind: MeasureKind,
+  milestone: BillActionMilestone | undefined,
+  reached: boolean,
+): string => {
+  const passed = kind === "bill" ? "Passed" : "Agreed to in";
+  switch (id) {
+    case "introduced":
+      return `Introduced in ${chamber}`;
+    case "committee":
+      if (milestone === "reported") return "Reported by Committee";
+      return reached ? "Referred to Committee" : "Committee";
+    case "origin_floor":
+    case "second_chamber":
+      if (isFailure(milestone)) return `Failed in ${chamber}`;
+      if (milestone?.startsWith("passed_")) return `${passed} ${chamber}`;
+      return reached ? `In the ${chamber}` : `${chamber} vote`;
+    case "resolving_differences":
+      return "Resolving Differences";
+    case "president":
+      if (milestone === "signed") return "Signed by President";
+      if (milestone === "vetoed") return "Vetoed by President";
+      return reached ? "Presented to President" : "To the President";
+    case "veto_override":
+      return milestone === "veto_overridden" ? "Veto Overridden" : "Veto override vote";
+    case "law":
+      return reached ? "Became Law" : "Becomes Law";
+  }
+};
+
+/**
+ * Builds a bill's legislative timeline. Steps follow the path the measure takes: bills
+ * go through both chambers (starting with the one in their type) and the President,
+ * concurrent resolutions through both chambers only, simple resolutions through one.
+ * BILLSTATUS actions settle each step; bills without them fall back to their text versions.
+ * @param billType - The bill's type, e.g. "hr", "sres"
+ * @param actions - The bill's actions, oldest first (may be empty)
+ * @param versions - The bill's stored text versions
+ * @returns Steps in order, with the furthest one reached marked current
+ */
+export const buildBillTimeline = (
+  billType: string,
+  actions: TimelineAction[],
+  versions: TimelineVersion[],
+): BillTimeline => {
+  const origin = getOriginChamber(billType);
+  const kind = getMeasureKind(billType);
+  const source = actions.some((a) => a.milestone) ? "actions" : "versions";
+
+  const stepChamber: Partial<Record<BillTimelineStepId, VersionChamber>> = {
+    introduced: origin,
+    committee: origin,
+    origin_floor: origin,
+    second_chamber: otherChamber(origin),
+  };
+
+  // Group actions and versions by step; the last action of a step settles it
+  const stepActions = new Map<BillTimelineStepId, TimelineAction[]>();
+  for (const action of actions) {
+    const id = getActionStep(action, origin);
+    if (!id) continue;
+    stepActions.set(id, [...(stepActions.get(id) ?? []), action]);
+  }
+  const stepVersions = new Map<BillTimelineStepId, TimelineVersion[]>();
+  for (const version of [...versions].sort((a, b) => getVersionRank(a.versionCode, billType) - getVersionRank(b.versionCode, billType))) {
+    const id = getVersionStep(version.versionCode, origin);
+    if (!id) continue;
+    stepVersions.set(id, [...(stepVersions.get(id) ?? []), version]);
+  }
+
+  const vetoed = stepActions.get("president")?.some((a) => a.milestone === "vetoed") ?? false;
+  const path = STEP_PATHS[kind].filter((id) => {
+    if (id === "veto_override") return vetoed;
+    return !OPTIONAL_STEPS.includes(id) || stepActions.has(id) || stepVersions.has(id);
+  });
+
+  const steps: BillTimelineStep[] = path.map((id) => {
+    const matched = stepActions.get(id) ?? [];
+    const stepVersionList = stepVersions.get(id) ?? [];
+    // The deciding action: the last one that marks an outcome, else the last one
+    const settling = [...matched].reverse().find((a) => a.milestone !== "referred" && a.milestone !== "presented") ??
+      matched[matched.length - 1];
+    const reached = matched.length > 0 || (source === "versions" && stepVersionList.length > 0);
+    const lastVersion = stepVersionList[stepVersionList.length - 1];
+    const chamber = stepChamber[id];
+    const milestone = settling?.milestone ?? (source === "versions" && lastVersion ? getVersionMilestone(lastVersion.versionCode) : undefined);
+
+    return {
+      id,
+      label: getStepLabel(id, chamber, kind, milestone, reached),
+      chamber,
+      state: !reached ? "upcoming" : isFailure(settling?.milestone) ? "failed" : "completed",
+      date: settling?.actionDate ?? (reached ? lastVersion?.publishedDate : undefined),
+      detail: settling?.text,
+      committees: Array.from(new Set(matched.flatMap((a) => a.committees ?? []))),
+      versions: stepVersionList.map((v) => ({
+        id: v._id,
+        versionCode: v.versionCode,
+        label: getVersionCodeInfo(v.versionCode)?.label ?? v.versionCode.toUpperCase(),
+        publishedDate: v.publishedDate,
+      })),
+    };
+  });
+
+  // Steps passed over on the way to a later one either happened without a record (a
+  // floor vote) or were skipped (e.g. no committee report); the furthest step reached
+  // is current unless it ended the bill's path
+  let furthest = -1;
+  steps.forEach((step, index) => {
+    if (step.state !== "upcoming") furthest = index;
+  });
+  if (furthest < 0 && steps.length > 0) {
+    steps[0].state = "current"; // Stored, but nothing recorded yet
+  }
+  steps.forEach((step, index) => {
+    if (index >= furthest || step.state !== "upcoming") return;
+    const implied = step.id === "introduced" ? "introduced" : getImpliedMilestone(step.id, step.chamber);
+    if (implied) {
+      step.state = "completed";
+      step.label = getStepLabel(step.id, step.chamber, kind, implied, true);
+    } else {
+      step.state = "skipped";
+    }
+  });
+  const last = steps[furthest];
+  if (last && last.state === "completed" && furthest < steps.length - 1) {
+    last.state = "current";
+  }
+
+  return { originChamber: origin, steps, source };
+};
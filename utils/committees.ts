@@ -0,0 +1,140 @@
+import { parse } from "yaml";
+import { v } from "convex/values";
+import { CommitteeMemberRecord, CommitteeRecord } from "../types";
+
+// Committees of Congress, keyed by Thomas ID: "HSAG" is House Agriculture, "SSFI" Senate
+// Finance, "JSEC" the Joint Economic Committee; subcommittees append a two-digit ID
+// ("HSAG15"). Sources name them three ways, all normalized to this code:
+//   - congress-legislators committees-current.yaml / committee-membership-current.yaml
+//   - BILLSTATUS <systemCode>: "hsag00", "hsag15"
+//   - bill text <committee-name committee-id="...">: "HAG00" (House), "SSFI00" (Senate)
+
+export type CommitteeChamber = CommitteeRecord["chamber"];
+
+export const committeeChamberValidator = v.union(v.literal("House"), v.literal("Senate"), v.literal("Joint"));
+
+export const committeeReferralStatusValidator = v.union(
+  v.literal("referred"),
+  v.literal("reported"),
+  v.literal("discharged"),
+);
+
+/**
+ * Normalizes a committee identifier from any source to its Thomas-style code
+ * @param id - e.g. "hsag00", "HAG00", "SSFI15", "HSAG"
+ * @returns e.g. "HSAG", "HSAG", "SSFI15", "HSAG"; undefined when unrecognized
+ */
+export const normalizeCommitteeCode = (id: string): string | undefined => {
+  const value = id.trim().toUpperCase();
+  // BILLSTATUS system codes, Senate bill text and Thomas IDs
+  const full = value.match(/^([HSJ][A-Z]{3})(\d{2})?$/);
+  if (full) {
+    const [, committee, sub] = full;
+    return sub && sub !== "00" ? committee + sub : committee;
+  }
+  // House bill text drops the "S" of the Thomas prefix
+  const house = value.match(/^H([A-Z]{2})(\d{2})$/);
+  if (house) {
+    const [, committee, sub] = house;
+    return sub !== "00" ? `HS${committee}${sub}` : `HS${committee}`;
+  }
+  return undefined;
+};
+
+/**
+ * Parent committee of a subcommittee code, e.g. "HSAG15" → "HSAG"
+ */
+export const getParentCommitteeCode = (code: string): string | undefined => {
+  return code.length > 4 ? code.slice(0, 4) : undefined;
+};
+
+/**
+ * Chamber of a committee from its code prefix
+ */
+export const getCommitteeChamber = (code: string): CommitteeChamber => {
+  if (code.startsWith("S")) return "Senate";
+  if (code.startsWith("J")) return "Joint";
+  return "House";
+};
+
+const optionalString = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  return String(value).trim();
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const extractCommittees = (data: any[]): CommitteeRecord[] => {
+  const records: CommitteeRecord[] = [];
+  for (const entry of data) {
+    const code = normalizeCommitteeCode(optionalString(entry?.thomas_id) ?? "");
+    const name = optionalString(entry?.name);
+    if (!code || !name) continue;
+
+    const chamber = getCommitteeChamber(code);
+    records.push({
+      code,
+      name,
+      chamber,
+      url: optionalString(entry.url),
+      jurisdiction: optionalString(entry.jurisdiction),
+      address: optionalString(entry.address),
+      phone: optionalString(entry.phone),
+    });
+
+    for (const sub of Array.isArray(entry.subcommittees) ? entry.subcommittees : []) {
+      const subId = optionalString(sub?.thomas_id);
+      const subName = optionalString(sub?.name);
+      if (!subId || !subName) continue;
+      records.push({
+        code: code + subId.padStart(2, "0"),
+        name: subName,
+        chamber,
+        parentCode: code,
+        address: optionalString(sub.address),
+        phone: optionalString(sub.phone),
+      });
+    }
+  }
+  return records;
+};
+
+const extractMembers = (data: Record<string, unknown>): CommitteeMemberRecord[] => {
+  const records: CommitteeMemberRecord[] = [];
+  for (const [id, members] of Object.entries(data)) {
+    const committeeCode = normalizeCommitteeCode(id);
+    if (!committeeCode || !Array.isArray(members)) continue;
+    for (const member of members) {
+      const bioguideId = optionalString(member?.bioguide);
+      if (!bioguideId) continue;
+      records.push({
+        committeeCode,
+        bioguideId,
+        name: optionalString(member.name) ?? bioguideId,
+        side: member.party === "minority" ? "minority" : "majority",
+        rank: typeof member.rank === "number" ? member.rank : undefined,
+        title: optionalString(member.title),
+      });
+    }
+  }
+  return records;
+};
+
+/**
+ * Parses a congress-legislators committees file (YAML or JSON): either the committee
+ * list (committees-current) or the membership map (committee-membership-current)
+ * @param content - The file's text
+ * @returns Committees, each followed by its subcommittees, or one record per committee seat
+ * @throws Error when the file is neither
+ */
+export const parseCommitteesFile = (
+  content: string,
+): { kind: "committees"; committees: CommitteeRecord[] } | { kind: "members"; members: CommitteeMemberRecord[] } => {
+  const data: unknown = parse(content);
+  if (Array.isArray(data)) {
+    return { kind: "committees", committees: extractCommittees(data) };
+  }
+  if (data && typeof data === "object") {
+    return { kind: "members", members: extractMembers(data as Record<string, unknown>) };
+  }
+  throw new Error("Expected a list of committees or committee codes mapped to their members");
+};
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { fetchBulkDataListing, getBillStatusFromVersionCode, parseBillInfoFromUrl, parseBillXMLData } from "./dataHelpers";
+
+const billXml = `<?xml version="1.0"?>
+<bill>
+  <form>
+    <congress>118th CONGRESS</congress>
+    <legis-num>H. R. 1234</legis-num>
+    <official-title>To test bill parsing.</official-title>
+  </form>
+  <legis-body>
+    <section><enum>1.</enum><header>Short title</header><text>This Act may be cited as the Test Act.</text></section>
+  </legis-body>
+</bill>`;
+
+describe("bill version codes", () => {
+  test.each(["ih", "eh", "enr", "reah", "pwah", "renr"])("parses %s from the file URL", (code) => {
+    const xmlUrl = `https://www.govinfo.gov/content/pkg/BILLS-118hr1234${code}/xml/BILLS-118hr1234${code}.xml`;
+    expect(parseBillInfoFromUrl(xmlUrl).versionCode).toBe(code);
+    expect(parseBillXMLData(billXml, xmlUrl).versionCode).toBe(code);
+  });
+
+  test("four-letter codes get a known status", () => {
+    const xmlUrl = "https://www.govinfo.gov/content/pkg/BILLS-118hr1234reah/xml/BILLS-118hr1234reah.xml";
+    const { versionCode } = parseBillXMLData(billXml, xmlUrl);
+    expect(getBillStatusFromVersionCode(versionCode)).not.toMatch(/^Status:/);
+  });
+});
+
+describe("fetchBulkDataListing", () => {
+  const listingUrl = "https://www.govinfo.gov/bulkdata/json/BILLS/119/1/hr";
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("returns null only for a folder that is not published", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("Not Found", { status: 404 })));
+    await expect(fetchBulkDataListing(listingUrl)).resolves.toBeNull();
+  });
+
+  test("throws a transient error when govinfo is rate limiting or unavailable", async () => {
+    for (const status of [429, 503]) {
+      vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status })));
+      await expect(fetchBulkDataListing(listingUrl)).rejects.toMatchObject({ data: { transient: true } });
+    }
+  });
+});
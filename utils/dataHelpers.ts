@@ -1,5 +1,21 @@
 import { XMLParser } from "fast-xml-parser";
-import { BillUrlInfo, ExtractedBillData, BillSponsor } from "../types";
+import { BillUrlInfo, ExtractedBillData, BillSponsor, BillCommitteeRef, BillData, DiscoveryTarget, BillOutlineNode, BillSectionTocEntry, BillAmendment, UsCodeCitation } from "../types";
+import { IngestionError, ingestionErrorFromStatus, toIngestionError } from "./ingestionErrors";
+import { getVersionCodeInfo, getVersionRank } from "./versionCodes";
+import { normalizeCommitteeCode } from "./committees";
+
+// Keys that represent metadata, not textual content.
+const STRUCTURAL_TAGS_TO_IGNORE = [
+  'enum', 'header', 'label', 'toc', 'pagebreak', 
+  'continuation-text', 'footnote-ref', 'xref',
+  'target', 'graphic', 'table-column-spec'
+];
+
+// Structural levels of bill XML that become outline nodes, outermost first.
+export const OUTLINE_LEVELS = [
+  'division', 'title', 'subtitle', 'part', 'subpart', 'chapter', 'subchapter',
+  'section', 'subsection', 'paragraph', 'subparagraph', 'clause', 'subclause', 'item', 'subitem'
+];
 
 /**
  * Recursively and universally extracts meaningful text from any node parsed by fast-xml-parser.
@@ -37,13 +53,6 @@ export const extractBillText = (node: any): string => {
   // Recursive case: Node is an object.
   // This is the core logic for traversing the parsed XML structure.
   let fullText = "";
-  
-  // An expanded blacklist of keys that represent metadata, not textual content.
-  const structuralTagsToIgnore = [
-    'enum', 'header', 'label', 'toc', 'pagebreak', 
-    'continuation-text', 'footnote-ref', 'xref',
-    'target', 'graphic', 'table-column-spec'
-  ];
 
   // Iterate over all keys in the object in their natural order.
   for (const key in node) {
@@ -52,7 +61,7 @@ export const extractBillText = (node: any): string => {
       continue;
     }
     // Ignore specific structural tags from our blacklist.
-    if (structuralTagsToIgnore.includes(key)) {
+    if (STRUCTURAL_TAGS_TO_IGNORE.includes(key)) {
       continue;
     }
     
@@ -63,15 +72,359 @@ export const extractBillText = (node: any): string => {
   return fullText;
 };
 
+/**
+ * Extracts the same whitespace-normalized text as `extractBillText(...).replace(/\s+/g, ' ').trim()`
+ * while recording the structural outline (divisions, titles, sections, subsections, ...).
+ * Each outline node carries its XML id, enum, header, depth and [start, end) offsets into the
+ * returned text. Structure inside quoted blocks (text being inserted into other laws) is
+ * treated as plain text and does not produce outline nodes.
+ *
+ * @param node The legis-body (or resolution-body) node from the fast-xml-parser output.
+ * @param onNode Optional callback receiving each outline node's index, parsed element and parent index.
+ * @returns The normalized text and the outline in document order.
+ */
+export const extractBillTextWithOutline = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  node: any,
+  onNode?: (index: number, element: unknown, parentIndex: number | undefined) => void,
+): { text: string; outline: BillOutlineNode[] } => {
+  let text = "";
+  const outline: BillOutlineNode[] = [];
+
+  const append = (value: unknown) => {
+    const piece = String(value).trim();
+    // Skip empty strings and meaningless single characters, as extractBillText does
+    if (piece.length === 0 || /^[.,;:\-_\s]*$/.test(piece)) return;
+    text += piece.replace(/\s+/g, " ") + " ";
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const inlineText = (value: any): string | undefined => {
+    const t = extractBillText(value).replace(/\s+/g, " ").trim();
+    return t.length > 0 ? t : undefined;
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const walk = (current: any, depth: number, inQuotedBlock: boolean, parentIndex?: number): void => {
+    if (current === null || current === undefined) return;
+    if (typeof current !== "object") {
+      append(current);
+      return;
+    }
+    if (Array.isArray(current)) {
+      current.forEach((item) => walk(item, depth, inQuotedBlock, parentIndex));
+      return;
+    }
+
+    for (const key in current) {
+      if (key.startsWith("@_") || STRUCTURAL_TAGS_TO_IGNORE.includes(key)) continue;
+      const child = current[key];
+
+      if (!inQuotedBlock && OUTLINE_LEVELS.includes(key)) {
+        for (const item of Array.isArray(child) ? child : [child]) {
+          const isElement = typeof item === "object" && item !== null;
+          const index = outline.length;
+          outline.push({
+            level: key,
+            id: isElement ? item["@_id"] : undefined,
+            enum: isElement ? inlineText(item.enum) : undefined,
+            header: isElement ? inlineText(item.header) : undefined,
+            depth,
+            start: text.length,
+            end: text.length,
+          });
+          onNode?.(index, item, parentIndex);
+          walk(item, depth + 1, false, index);
+          outline[index].end = text.length;
+        }
+        continue;
+      }
+
+      walk(child, depth, inQuotedBlock || key === "quoted-block", parentIndex);
+    }
+  };
+
+  walk(node, 0, false);
+
+  // Drop the trailing separator space from the text and from each node's range
+  const trimmed = text.trimEnd();
+  for (const n of outline) {
+    if (n.end > n.start && text[n.end - 1] === " ") n.end -= 1;
+    n.end = Math.min(n.end, trimmed.length);
+    n.start = Math.min(n.start, n.end);
+  }
+
+  return { text: trimmed, outline };
+};
+
+// Outline levels shown in the table of contents, with their label and anchor prefix
+const TOC_LEVELS: Record<string, { label: string; anchor: string }> = {
+  division: { label: "Division", anchor: "div" },
+  title: { label: "Title", anchor: "title" },
+  subtitle: { label: "Subtitle", anchor: "subtitle" },
+  part: { label: "Part", anchor: "part" },
+  subpart: { label: "Subpart", anchor: "subpart" },
+  chapter: { label: "Chapter", anchor: "ch" },
+  subchapter: { label: "Subchapter", anchor: "subch" },
+  section: { label: "Sec.", anchor: "sec" },
+};
+
+/**
+ * Normalizes a section designation so "SEC. 101.", "Section 101" and "101" compare equal
+ * @param value The enum or citation text
+ * @returns The bare, lower-cased designation
+ */
+export const normalizeSectionEnum = (value: string): string => {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^(sec\.?|section)\s*/, "")
+    .replace(/[.\s]+$/, "");
+};
+
+/**
+ * Builds the table of contents (divisions, titles, subtitles, ..., sections) of a bill version.
+ * Anchors are unique within the version: a repeated designation (e.g. sections numbered
+ * again in each division) is prefixed with its parent's anchor.
+ * @param outline The version's outline in document order
+ * @returns Table of contents entries in document order
+ */
+export const buildSectionToc = (outline: BillOutlineNode[]): BillSectionTocEntry[] => {
+  const entries: BillSectionTocEntry[] = [];
+  const usedAnchors = new Set<string>();
+  const stack: Array<{ outlineDepth: number; anchor: string }> = [];
+
+  for (const node of outline) {
+    const level = TOC_LEVELS[node.level];
+    if (!level) continue;
+
+    while (stack.length > 0 && stack[stack.length - 1].outlineDepth >= node.depth) {
+      stack.pop();
+    }
+    const parentAnchor = stack.length > 0 ? stack[stack.length - 1].anchor : undefined;
+
+    const designation = node.enum ? normalizeSectionEnum(node.enum) : "";
+    const slug = designation.replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+    let anchor = `${level.anchor}-${slug || entries.length + 1}`;
+    if (usedAnchors.has(anchor) && parentAnchor) {
+      anchor = `${parentAnchor}-${anchor}`;
+    }
+    if (usedAnchors.has(anchor)) {
+      anchor = `${anchor}-${entries.length + 1}`;
+    }
+    usedAnchors.add(anchor);
+
+    let label: string;
+    if (node.level === "section") {
+      label = [designation ? `Sec. ${designation}.` : "", node.header ?? ""].join(" ").trim() || "Section";
+    } else {
+      const name = designation ? `${level.label} ${designation.toUpperCase()}` : level.label;
+      label = node.header ? `${name} — ${node.header}` : name;
+    }
+
+    entries.push({
+      anchor,
+      level: node.level,
+      enum: node.enum,
+      header: node.header,
+      label,
+      depth: stack.length,
+      start: node.start,
+      end: node.end,
+    });
+    stack.push({ outlineDepth: node.depth, anchor });
+  }
+
+  return entries;
+};
+
+/**
+ * Finds the table of contents entry a citation refers to: an anchor ("sec-101"),
+ * a section designation ("101", "SEC. 101") or, failing those, part of a header
+ * @param entries Table of contents entries of a version
+ * @param sectionId The citation's sectionId
+ * @returns The matching entry, if any
+ */
+export const findSectionTocEntry = (
+  entries: BillSectionTocEntry[],
+  sectionId: string,
+): BillSectionTocEntry | undefined => {
+  const needle = sectionId.trim().toLowerCase();
+  if (needle.length === 0) return undefined;
+
+  const designation = normalizeSectionEnum(needle);
+  return (
+    entries.find((e) => e.anchor === needle) ??
+    entries.find((e) => e.level === "section" && e.enum !== undefined && normalizeSectionEnum(e.enum) === designation) ??
+    entries.find((e) => e.header !== undefined && e.header.toLowerCase().includes(needle))
+  );
+};
+
+// Language that marks a provision as amending existing law
+const AMENDATORY_PATTERN = /\b(is|are)\s+(hereby\s+)?(further\s+)?(amended|repealed)\b|\bby\s+(striking|inserting|adding|redesignating|amending)/i;
+
+/**
+ * Builds a govinfo link to the most recent published text of a US Code section
+ * @param title US Code title number
+ * @param section Section designation, e.g. "45" or "1395w-4"
+ * @returns Link service URL that redirects to the section's HTML
+ */
+export const getUsCodeSectionUrl = (title: number, section: string): string => {
+  return `https://www.govinfo.gov/link/uscode/${title}/${encodeURIComponent(section)}?type=usc&year=mostrecent&link-type=html`;
+};
+
+/**
+ * Finds the US Code sections an amending provision refers to, preferring the parsable
+ * citations on external-xref elements and falling back to "15 U.S.C. 45" or
+ * "section 45 of title 15, United States Code" in the instruction text
+ * @param element The parsed element holding the instruction (usually its text child)
+ * @param instruction The instruction's plain text
+ * @returns Distinct US Code citations
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const findUsCodeCitations = (element: any, instruction: string): UsCodeCitation[] => {
+  const found = new Map<string, UsCodeCitation>();
+  const add = (title: number, section: string) => {
+    const cleanSection = section.replace(/[.,;)]+$/, "");
+    if (!Number.isFinite(title) || !cleanSection) return;
+    const cite = `${title} U.S.C. ${cleanSection}`;
+    if (!found.has(cite)) {
+      found.set(cite, { title, section: cleanSection, cite, url: getUsCodeSectionUrl(title, cleanSection) });
+    }
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const visit = (node: any) => {
+    if (node === null || typeof node !== "object") return;
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    for (const key in node) {
+      if (key === "quoted-block") continue; // Citations inside inserted text are not targets
+      const child = node[key];
+      if (key === "external-xref") {
+        for (const xref of Array.isArray(child) ? child : [child]) {
+          const cite = typeof xref === "object" && xref?.["@_legal-doc"] === "usc" ? String(xref["@_parsable-cite"] ?? "") : "";
+          const match = cite.match(/^usc\/(\d+)\/([^/]+)/);
+          if (match) add(parseInt(match[1]), match[2]);
+        }
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(element);
+
+  if (found.size === 0) {
+    for (const m of instruction.matchAll(/\b(\d+)\s+U\.S\.C\.\s+([0-9][0-9a-zA-Z-]*)/g)) {
+      add(parseInt(m[1]), m[2]);
+    }
+    for (const m of instruction.matchAll(/\bsection\s+([0-9][0-9a-zA-Z-]*)(?:\([^)]*\))*\s+of\s+title\s+(\d+),\s+United States Code/gi)) {
+      add(parseInt(m[2]), m[1]);
+    }
+  }
+
+  return Array.from(found.values());
+};
+
+/**
+ * Collects the amendatory instructions of a bill ("Section 5 of ... is amended by striking ...").
+ * Lead-in provisions ("is amended—") are not reported themselves; their text and targets are
+ * carried into the nested provisions that hold the actual edits.
+ * @param nodes Outline nodes with their parsed elements, as reported by extractBillTextWithOutline
+ * @param outline The version's outline, for offsets into fullText
+ * @returns Amendments in document order
+ */
+export const extractAmendments = (
+  nodes: Array<{ index: number; element: unknown; parentIndex?: number }>,
+  outline: BillOutlineNode[],
+): BillAmendment[] => {
+  const sections = buildSectionToc(outline).filter((entry) => entry.level === "section");
+  const context = new Map<number, { instruction: string; targets: UsCodeCitation[] }>();
+  const amendments: BillAmendment[] = [];
+
+  for (const { index, element, parentIndex } of nodes) {
+    if (element === null || typeof element !== "object") continue;
+    const el = element as Record<string, unknown>;
+    const own = extractBillText(el.text).replace(/\s+/g, " ").trim();
+    const parent = parentIndex !== undefined ? context.get(parentIndex) : undefined;
+
+    if (!AMENDATORY_PATTERN.test(own)) {
+      // Keep nested provisions ("(1) in subsection (a)—") attached to their instruction
+      if (parent) {
+        context.set(index, { instruction: `${parent.instruction} ${own}`.trim(), targets: parent.targets });
+      }
+      continue;
+    }
+
+    const ownTargets = findUsCodeCitations(el.text, own);
+    const instruction = (parent ? `${parent.instruction} ${own}` : own).slice(0, 1500);
+    const targets = ownTargets.length > 0 ? ownTargets : parent?.targets ?? [];
+    context.set(index, { instruction, targets });
+
+    const quotedText = el["quoted-block"] !== undefined
+      ? extractBillText(el["quoted-block"]).replace(/\s+/g, " ").trim().slice(0, 4000)
+      : undefined;
+    const isLeadIn = !quotedText && /(—|--|:)$/.test(own);
+    if (isLeadIn) continue;
+
+    const node = outline[index];
+    const section = sections.filter((entry) => entry.start <= node.start).pop();
+    amendments.push({
+      instruction,
+      quotedText: quotedText || undefined,
+      targets,
+      start: node.start,
+      end: node.end,
+      sectionAnchor: section?.anchor,
+      sectionLabel: section?.label,
+    });
+  }
+
+  return amendments;
+};
+
+/**
+ * Fetches the current text of a US Code section as plain text
+ * @param citation The section to fetch
+ * @param maxChars Maximum characters to return
+ * @returns The section text, or null if it could not be retrieved
+ */
+export const fetchUsCodeSectionText = async (citation: UsCodeCitation, maxChars: number = 6000): Promise<string | null> => {
+  try {
+    const response = await fetch(citation.url);
+    if (!response.ok) {
+      console.error(`Failed to fetch ${citation.cite}: ${response.statusText}`);
+      return null;
+    }
+    const html = await response.text();
+    const text = html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<[^>]+>/g, " ")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&#8212;|&mdash;/g, "—")
+      .replace(/\s+/g, " ")
+      .trim();
+    return text ? text.slice(0, maxChars) : null;
+  } catch (error) {
+    console.error(`Error fetching ${citation.cite}:`, error);
+    return null;
+  }
+};
+
 /**
  * Parses bill information from a GovInfo XML URL
  * @param xmlUrl - The XML URL to parse
  * @returns Object containing congress, billType, billNumber, and versionCode
  */
 export const parseBillInfoFromUrl = (xmlUrl: string): BillUrlInfo => {
-  const urlMatch = xmlUrl.match(/BILLS-(\d{3})([a-zA-Z]+)(\d+)([a-zA-Z]{2,3})\.xml$/);
+  const urlMatch = xmlUrl.match(/BILLS-(\d{3})([a-zA-Z]+)(\d+)([a-zA-Z]{2,4})\.xml$/);
   if (!urlMatch) {
-    throw new Error(`Could not parse bill info from URL: ${xmlUrl}`);
+    throw new IngestionError("invalid_bill_url", `Could not parse bill info from URL: ${xmlUrl}`);
   }
   
   const [, congress, billType, billNumber, versionCode] = urlMatch;
@@ -84,14 +437,86 @@ export const parseBillInfoFromUrl = (xmlUrl: string): BillUrlInfo => {
 };
 
 /**
- * Determines version priority for bill versions (higher number = more important)
+ * Determines version priority for bill versions (higher number = later in the process)
  * @param versionCode - The version code to evaluate
+ * @param billType - The bill's type, which orders the steps of each chamber
  * @returns Priority number (-1 for unknown versions)
  */
-export const getVersionPriority = (versionCode: string): number => {
-  const versionPriority = ["ih", "pcs", "rh", "eh", "enr"]; // Introduced -> Enrolled
-  const index = versionPriority.indexOf(versionCode);
-  return index === -1 ? -1 : index; // Unknown versions get lowest priority
+export const getVersionPriority = (versionCode: string, billType?: string): number => {
+  return getVersionRank(versionCode, billType);
+};
+
+/**
+ * Root of the govinfo bulk data JSON listings for bill text
+ */
+export const GOVINFO_BILLS_BULKDATA_URL = "https://www.govinfo.gov/bulkdata/json/BILLS";
+
+/**
+ * Builds a govinfo bulk data listing URL, e.g. BILLS/119/1/hr/
+ * @param congress - Congress number (omit for the root listing)
+ * @param session - Session number within the congress
+ * @param billType - Bill type folder (e.g. "hr", "s")
+ * @returns Listing URL with a trailing slash
+ */
+export const getBillsBulkDataUrl = (congress?: number, session?: number, billType?: string): string => {
+  const segments = [congress, session, billType].filter((s) => s !== undefined);
+  return [GOVINFO_BILLS_BULKDATA_URL, ...segments].join("/") + "/";
+};
+
+/**
+ * Derives the congress and session that should be sitting on a given date.
+ * A new Congress convenes on January 3 of each odd-numbered year (the 1st began in 1789).
+ * @param date - The date to evaluate
+ * @returns The expected congress/session pair
+ */
+export const getCongressSessionForDate = (date: Date): DiscoveryTarget => {
+  let year = date.getUTCFullYear();
+  if (date.getUTCMonth() === 0 && date.getUTCDate() < 3) {
+    year -= 1; // Jan 1-2 still belong to the previous session
+  }
+  const yearsSinceFirst = year - 1789;
+  return {
+    congress: Math.floor(yearsSinceFirst / 2) + 1,
+    session: (yearsSinceFirst % 2) + 1,
+  };
+};
+
+/**
+ * Fetches a govinfo bulk data JSON listing
+ * @param url - Listing URL (see getBillsBulkDataUrl)
+ * @returns Parsed listing, or null if the folder is not (yet) published
+ * @throws IngestionError for any other failure (e.g. rate limited, 5xx), so callers
+ * retry instead of treating the folder as empty
+ */
+export const fetchBulkDataListing = async (url: string): Promise<BillData | null> => {
+  const response = await fetch(url, {
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+  }).catch((error) => {
+    throw toIngestionError(error, "network_error");
+  });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw ingestionErrorFromStatus(response.status, `Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  return (await response.json()) as BillData;
+};
+
+/**
+ * Extracts numeric sub-folder names (congresses or sessions) from a bulk data listing
+ * @param listing - A listing returned by fetchBulkDataListing
+ * @returns Folder numbers in ascending order
+ */
+export const getNumericFolders = (listing: BillData | null): number[] => {
+  return (listing?.files ?? [])
+    .filter((f) => f.folder)
+    .map((f) => parseInt(f.justFileName || f.name))
+    .filter((n) => Number.isFinite(n))
+    .sort((a, b) => a - b);
 };
 
 /**
@@ -176,6 +601,21 @@ export const extractCommittees = (introAction: any): string[] => {
   return (introAction?.["action-desc"]?.["committee-name"] || []).map((node: any) => node["#text"]);
 };
 
+/**
+ * Extracts the committees from intro action that carry a committee-id, with their codes
+ * @param introAction - The introduction action containing committee data
+ * @returns Array of committee references
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const extractCommitteeReferrals = (introAction: any): BillCommitteeRef[] => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (introAction?.["action-desc"]?.["committee-name"] || []).flatMap((node: any): BillCommitteeRef[] => {
+    const code = normalizeCommitteeCode(String(node?.["@_committee-id"] ?? ""));
+    const name = node?.["#text"];
+    return code && name ? [{ code, name }] : [];
+  });
+};
+
 /**
  * Extracts and cleans short title from bill text
  * @param fullText - The full bill text
@@ -205,7 +645,7 @@ export const parseBillXMLData = (xmlData: string, xmlUrl: string): ExtractedBill
   
   const billData = jsonData.bill ?? jsonData.resolution;
   if (!billData) {
-    throw new Error(`No 'bill' or 'resolution' root element found in ${xmlUrl}`);
+    throw new IngestionError("unparseable_xml", `No 'bill' or 'resolution' root element found in ${xmlUrl}`);
   }
 
   // Extract basic bill identifier information
@@ -216,7 +656,7 @@ export const parseBillXMLData = (xmlData: string, xmlUrl: string): ExtractedBill
   // Parse bill number and type
   const billParts = legisNum.match(/(S|H)\.?\s*(?:(J\.?\s*RES\.?|CON\.?\s*RES\.?|RES\.?|R\.?)\s*)?(\d+)/i);
   if (!billParts) {
-    throw new Error(`Could not parse bill number/type from legis-num: "${legisNum}" in ${xmlUrl}`);
+    throw new IngestionError("invalid_legis_num", `Could not parse bill number/type from legis-num: "${legisNum}" in ${xmlUrl}`);
   }
   
   const chamber = billParts[1]; // S or H
@@ -230,22 +670,26 @@ export const parseBillXMLData = (xmlData: string, xmlUrl: string): ExtractedBill
   const shortTitle = firstSection?.header === "Short title" ? extractBillText(firstSection.text).trim() : undefined;
 
   // Extract version code from URL
-  const versionCodeMatch = xmlUrl.match(/BILLS-\d{3}[a-zA-Z]+\d+([a-zA-Z]{2,3})\.xml$/);
-  const versionCode = versionCodeMatch ? versionCodeMatch[1] : 'unknown';
+  const { versionCode } = parseBillInfoFromUrl(xmlUrl);
 
   // Extract sponsor and related info
   const { sponsor, introAction } = extractSponsorInfo(billData);
   const cosponsors = extractCosponsors(introAction);
   const committees = extractCommittees(introAction);
+  const committeeReferrals = extractCommitteeReferrals(introAction);
 
   // Extract dates
   const actionDate = introAction?.["action-date"]?.["@_date"] ?? 
                     billData.form["action-date"]?.["@_date"] ?? 
                     billData.form["attestation-group"]?.["attestation-date"]?.["@_date"];
 
-  // Extract full text
+  // Extract full text along with its structural outline
   const legisBody = billData["legis-body"] ?? billData["resolution-body"];
-  const fullText = extractBillText(legisBody).replace(/\s+/g, ' ').trim();
+  const structuralNodes: Array<{ index: number; element: unknown; parentIndex?: number }> = [];
+  const { text: fullText, outline } = extractBillTextWithOutline(legisBody, (index, element, parentIndex) => {
+    structuralNodes.push({ index, element, parentIndex });
+  });
+  const amendments = extractAmendments(structuralNodes, outline);
 
   // Clean up short title
   const cleanedShortTitle = extractAndCleanShortTitle(fullText, shortTitle);
@@ -260,9 +704,12 @@ export const parseBillXMLData = (xmlData: string, xmlUrl: string): ExtractedBill
     sponsor,
     cosponsors,
     committees,
+    committeeReferrals,
     actionDate,
     xmlUrl,
     fullText,
+    outline,
+    amendments,
     summary: "",
     tagLine: "",
     impactAreas: [],
@@ -271,49 +718,11 @@ export const parseBillXMLData = (xmlData: string, xmlUrl: string): ExtractedBill
 
 /**
  * Maps Library of Congress version codes to human-readable bill statuses
- * Based on the official govinfo.gov version code system
+ * Based on the official govinfo.gov version code system (see VERSION_CODES)
  * Reference: https://www.govinfo.gov/help/bills
  * @param versionCode - The version code to map (e.g., "ih", "eh", "enr")
  * @returns Human-readable status string
  */
 export const getBillStatusFromVersionCode = (versionCode: string): string => {
-  // Map version codes to human-readable statuses
-  const versionToStatus: Record<string, string> = {
-    // Introduced versions
-    'ih': 'Introduced in House',
-    'is': 'Introduced in Senate',
-    
-    // Committee stages
-    'rh': 'Reported in House',
-    'rs': 'Reported in Senate', 
-    'rch': 'Referred to Committee (House)',
-    'rcs': 'Referred to Committee (Senate)',
-    
-    // Calendar/Floor stages
-    'pch': 'Placed on Calendar (House)',
-    'pcs': 'Placed on Calendar (Senate)',
-    
-    // Passed one chamber
-    'eh': 'Passed House',
-    'es': 'Passed Senate',
-    'eah': 'Passed House (Amended)',
-    'eas': 'Passed Senate (Amended)',
-    
-    // Final stages
-    'enr': 'Enrolled (Sent to President)',
-    'pl': 'Public Law',
-    
-    // Conference and other stages
-    'cph': 'Conference Report (House)',
-    'cps': 'Conference Report (Senate)',
-    'pp': 'Public Print',
-    'sc': 'Sponsor Changes',
-    
-    // Resolutions specific
-    'ath': 'Agreed to (House)',
-    'ats': 'Agreed to (Senate)',
-  };
-  
-  // Return mapped status or a fallback with the version code
-  return versionToStatus[versionCode.toLowerCase()] || `Status: ${versionCode.toUpperCase()}`;
+  return getVersionCodeInfo(versionCode)?.label ?? `Status: ${versionCode.toUpperCase()}`;
 };
\ No newline at end of file
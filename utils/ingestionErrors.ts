@@ -0,0 +1,118 @@
+import { ConvexError, v } from "convex/values";
+
+// Failures that may succeed if the same step is simply run again
+export const TRANSIENT_INGESTION_ERROR_CODES = [
+  "network_error",      // Connection reset, DNS failure, ...
+  "rate_limited",       // HTTP 429 or a provider rate limit
+  "llm_timeout",        // Model or embedding call timed out
+  "source_unavailable", // govinfo returned a 5xx
+] as const;
+
+// Failures that running the same step again will not fix
+export const PERMANENT_INGESTION_ERROR_CODES = [
+  "invalid_bill_url",         // URL does not name a BILLS-*.xml or BILLSTATUS-*.xml file
+  "unparseable_xml",          // Missing root element or form
+  "invalid_legis_num",        // legis-num does not name a bill type and number
+  "source_not_found",         // govinfo returned a 4xx
+  "llm_invalid_response",     // Model returned something other than the requested JSON
+  "summary_too_short",        // Summary missing or below the quality floor
+  "structured_summary_empty", // No key sections
+  "retries_exhausted",        // A transient failure outlasted the workflow's retries
+  "unknown",
+] as const;
+
+export type IngestionErrorCode =
+  | typeof TRANSIENT_INGESTION_ERROR_CODES[number]
+  | typeof PERMANENT_INGESTION_ERROR_CODES[number];
+
+// Failures caused by the file itself; the retry queue gives up on these at once
+const INPUT_ERROR_CODES: ReadonlyArray<IngestionErrorCode> = [
+  "invalid_bill_url",
+  "unparseable_xml",
+  "invalid_legis_num",
+  "source_not_found",
+];
+
+export const ingestionErrorCodeValidator = v.union(
+  ...[...TRANSIENT_INGESTION_ERROR_CODES, ...PERMANENT_INGESTION_ERROR_CODES].map((code) => v.literal(code)),
+);
+
+type IngestionErrorData = {
+  kind: "ingestion";
+  code: IngestionErrorCode;
+  transient: boolean;
+  message: string;
+};
+
+/**
+ * An ingestion failure with a reason code. Extends ConvexError so the code survives
+ * being thrown across ctx.runAction and workflow step boundaries.
+ */
+export class IngestionError extends ConvexError<IngestionErrorData> {
+  constructor(code: IngestionErrorCode, message: string) {
+    super({ kind: "ingestion", code, transient: isTransientIngestionError(code), message });
+    this.name = "IngestionError";
+  }
+
+  get code(): IngestionErrorCode {
+    return this.data.code;
+  }
+
+  get transient(): boolean {
+    return this.data.transient;
+  }
+}
+
+export const isTransientIngestionError = (code: IngestionErrorCode): boolean => {
+  return (TRANSIENT_INGESTION_ERROR_CODES as ReadonlyArray<string>).includes(code);
+};
+
+/**
+ * Whether a later attempt of the whole file could succeed
+ */
+export const canRetryIngestionLater = (code: IngestionErrorCode): boolean => {
+  return !INPUT_ERROR_CODES.includes(code);
+};
+
+/**
+ * HTTP status of a failed fetch as an ingestion error
+ * @param status Response status
+ * @param message Description of the request
+ * @returns Transient for 429 and 5xx, permanent otherwise
+ */
+export const ingestionErrorFromStatus = (status: number, message: string): IngestionError => {
+  if (status === 429) return new IngestionError("rate_limited", message);
+  if (status >= 500) return new IngestionError("source_unavailable", message);
+  return new IngestionError("source_not_found", message);
+};
+
+/**
+ * Classifies any thrown value as an IngestionError. Errors that already carry a code
+ * (including ones rethrown by another Convex function) keep it; others are matched on
+ * their message.
+ * @param error The thrown value
+ * @param fallbackCode Code for errors that match no known failure
+ * @returns The classified error
+ */
+export const toIngestionError = (error: unknown, fallbackCode: IngestionErrorCode = "unknown"): IngestionError => {
+  if (error instanceof IngestionError) return error;
+  if (error instanceof ConvexError && (error.data as Partial<IngestionErrorData>)?.kind === "ingestion") {
+    const data = error.data as IngestionErrorData;
+    return new IngestionError(data.code, data.message);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\b429\b|rate.?limit|too many requests|quota/i.test(message)) {
+    return new IngestionError("rate_limited", message);
+  }
+  if (/time(d)?\s?out|ETIMEDOUT|deadline exceeded|aborted/i.test(message)) {
+    return new IngestionError("llm_timeout", message);
+  }
+  if (/fetch failed|network|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up/i.test(message)) {
+    return new IngestionError("network_error", message);
+  }
+  if (/\b5\d\d\b|bad gateway|service unavailable|overloaded/i.test(message)) {
+    return new IngestionError("source_unavailable", message);
+  }
+  return new IngestionError(fallbackCode, message);
+};
@@ -0,0 +1,131 @@
+import { parse } from "yaml";
+import { v } from "convex/values";
+import { LegislatorRecord, LegislatorTerm } from "../types";
+
+// Members of Congress from a congress-legislators style file
+// (https://github.com/unitedstates/congress-legislators): legislators-current.yaml,
+// legislators-historical.yaml or their .json twins. Entries look like
+//   - id: { bioguide: B000944, lis: S307, govtrack: 400050, opensecrets: N00003535, ... }
+//     name: { first: Sherrod, last: Brown, official_full: Sherrod Brown }
+//     terms:
+//       - { type: rep, start: "1993-01-05", end: "1995-01-03", state: OH, district: 13, party: Democrat }
+//       - { type: sen, start: "2007-01-04", end: "2013-01-03", state: OH, class: 1, party: Democrat, url: ... }
+
+export const legislatorTermValidator = v.object({
+  chamber: v.union(v.literal("House"), v.literal("Senate")),
+  start: v.string(),
+  end: v.string(),
+  state: v.string(),
+  district: v.optional(v.string()),
+  senateClass: v.optional(v.number()),
+  party: v.string(),
+  url: v.optional(v.string()),
+});
+
+export const legislatorAlternateIdsValidator = v.object({
+  thomas: v.optional(v.string()),
+  govtrack: v.optional(v.string()),
+  votesmart: v.optional(v.string()),
+  fec: v.optional(v.array(v.string())),
+  cspan: v.optional(v.string()),
+  icpsr: v.optional(v.string()),
+  wikidata: v.optional(v.string()),
+  wikipedia: v.optional(v.string()),
+  ballotpedia: v.optional(v.string()),
+});
+
+// Party names in the dataset, abbreviated the way bills show them: "(D-OH)"
+const PARTY_CODES: Record<string, string> = {
+  Democrat: "D",
+  Democratic: "D",
+  Republican: "R",
+  Independent: "I",
+  Libertarian: "L",
+};
+
+export const getPartyCode = (party: string): string => {
+  return PARTY_CODES[party] ?? party.charAt(0).toUpperCase();
+};
+
+const optionalString = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  return String(value);
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const extractTerm = (term: any): LegislatorTerm | undefined => {
+  if (term?.type !== "rep" && term?.type !== "sen") return undefined;
+  const start = optionalString(term.start);
+  const end = optionalString(term.end);
+  const state = optionalString(term.state);
+  if (!start || !end || !state) return undefined;
+  return {
+    chamber: term.type === "sen" ? "Senate" : "House",
+    start,
+    end,
+    state,
+    // Districts are numbered from 1; 0 is an at-large seat
+    district: term.type === "rep" && term.district !== undefined ? String(term.district) : undefined,
+    senateClass: typeof term.class === "number" ? term.class : undefined,
+    party: term.party ? getPartyCode(String(term.party)) : "Unknown",
+    url: optionalString(term.url),
+  };
+};
+
+/**
+ * Parses a congress-legislators YAML or JSON file (JSON is valid YAML)
+ * @param content - The file's text
+ * @param now - Reference date for whether a legislator is in office
+ * @returns One record per legislator with a bioguide ID and at least one term
+ * @throws Error when the file is not a list of legislators
+ */
+export const parseLegislatorsFile = (content: string, now: Date = new Date()): LegislatorRecord[] => {
+  const data: unknown = parse(content);
+  if (!Array.isArray(data)) {
+    throw new Error("Expected a list of legislators");
+  }
+
+  const today = now.toISOString().slice(0, 10);
+  const records: LegislatorRecord[] = [];
+  for (const entry of data) {
+    const bioguideId = optionalString(entry?.id?.bioguide);
+    const terms = (Array.isArray(entry?.terms) ? entry.terms : [])
+      .map(extractTerm)
+      .filter((t: LegislatorTerm | undefined): t is LegislatorTerm => !!t)
+      .sort((a: LegislatorTerm, b: LegislatorTerm) => a.start.localeCompare(b.start));
+    if (!bioguideId || terms.length === 0) continue;
+
+    const latest = terms[terms.length - 1];
+    const name = optionalString(entry.name?.official_full) ??
+      [entry.name?.first, entry.name?.middle, entry.name?.last].filter(Boolean).join(" ");
+    const ids = entry.id;
+    const fec = Array.isArray(ids.fec) ? ids.fec.map(String) : ids.fec ? [String(ids.fec)] : [];
+
+    records.push({
+      bioguideId,
+      name: name || bioguideId,
+      party: latest.party,
+      state: latest.state,
+      district: latest.district,
+      chamber: latest.chamber,
+      inOffice: latest.end >= today,
+      terms,
+      officialUrl: latest.url ?? [...terms].reverse().find((t) => t.url)?.url,
+      contactForm: optionalString(entry.terms?.[entry.terms.length - 1]?.contact_form),
+      lisId: optionalString(ids.lis),
+      opensecretsId: optionalString(ids.opensecrets),
+      alternateIds: {
+        thomas: optionalString(ids.thomas),
+        govtrack: optionalString(ids.govtrack),
+        votesmart: optionalString(ids.votesmart),
+        fec: fec.length > 0 ? fec : undefined,
+        cspan: optionalString(ids.cspan),
+        icpsr: optionalString(ids.icpsr),
+        wikidata: optionalString(ids.wikidata),
+        wikipedia: optionalString(ids.wikipedia),
+        ballotpedia: optionalString(ids.ballotpedia),
+      },
+    });
+  }
+  return records;
+};
@@ -0,0 +1,93 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { BillFile, BillSource, BillSourceManifest, BillUrlInfo } from "../types";
+import { parseBillInfoFromUrl } from "./dataHelpers";
+
+// Node-only: import this module from "use node" actions and scripts, never from V8 Convex functions.
+
+export const LOCAL_MANIFEST_FILE = "manifest.json";
+
+type LocalEntry = {
+  file: BillFile;
+  info: BillUrlInfo;
+  session: number;
+  filePath: string;
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Bill source backed by a local directory of BILLS-*.xml files plus a listing manifest.
+ * Produces the same BillFile records as govinfo so recorded XML can be replayed offline.
+ * @param directory - Directory holding the manifest and the XML files
+ * @param manifestFile - Manifest file name within the directory
+ * @returns A BillSource that reads listings and XML from disk
+ */
+export const createLocalBillSource = (directory: string, manifestFile: string = LOCAL_MANIFEST_FILE): BillSource => {
+  let entriesPromise: Promise<LocalEntry[]> | null = null;
+
+  const loadEntries = (): Promise<LocalEntry[]> => {
+    entriesPromise ??= (async () => {
+      const manifestPath = path.join(directory, manifestFile);
+      const manifest = JSON.parse(await readFile(manifestPath, "utf8")) as BillSourceManifest;
+
+      const entries: LocalEntry[] = [];
+      for (const item of manifest.files ?? []) {
+        const filePath = path.join(directory, item.name);
+        const info = parseBillInfoFromUrl(item.name);
+        const stats = await stat(filePath);
+        const fileName = path.basename(item.name);
+        entries.push({
+          info,
+          session: item.session,
+          filePath,
+          file: {
+            mimeType: "application/xml",
+            size: stats.size,
+            formattedLastModifiedTime: item.lastModified ?? stats.mtime.toISOString(),
+            name: fileName,
+            folder: false,
+            displayLabel: fileName,
+            formattedSize: formatSize(stats.size),
+            link: item.link ?? filePath,
+            justFileName: fileName.replace(/\.xml$/, ""),
+            fileExtension: "xml",
+          },
+        });
+      }
+      return entries;
+    })();
+    return entriesPromise;
+  };
+
+  return {
+    kind: "local",
+    listCongresses: async () => {
+      const entries = await loadEntries();
+      return Array.from(new Set(entries.map((e) => e.info.congress))).sort((a, b) => a - b);
+    },
+    listSessions: async (congress) => {
+      const entries = await loadEntries();
+      return Array.from(new Set(entries.filter((e) => e.info.congress === congress).map((e) => e.session))).sort((a, b) => a - b);
+    },
+    listFiles: async (congress, session, billType) => {
+      const entries = await loadEntries();
+      const matches = entries.filter((e) =>
+        e.info.congress === congress && e.session === session && e.info.billType === billType
+      );
+      return matches.length > 0 ? matches.map((e) => e.file) : null;
+    },
+    fetchXml: async (link) => {
+      const entries = await loadEntries();
+      const entry = entries.find((e) => e.file.link === link);
+      if (!entry) {
+        throw new Error(`File not listed in ${manifestFile}: ${link}`);
+      }
+      return await readFile(entry.filePath, "utf8");
+    },
+  };
+};
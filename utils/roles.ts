@@ -0,0 +1,29 @@
+import { v } from "convex/values";
+
+export const USER_ROLES = [
+  "user",    // Signed-in reader
+  "premium", // Paid features
+  "api",     // Programmatic clients; premium access without an account UI
+  "admin",   // Pipeline and maintenance tools
+] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const userRoleValidator = v.union(...USER_ROLES.map((role) => v.literal(role)));
+
+// Roles that satisfy a required role
+const ROLES_WITH_ACCESS: Record<UserRole, ReadonlyArray<UserRole>> = {
+  user: ["user", "premium", "api", "admin"],
+  premium: ["premium", "api", "admin"],
+  api: ["api", "admin"],
+  admin: ["admin"],
+};
+
+/**
+ * Whether a user's role grants what a function requires
+ * @param role The user's role; unset means "user"
+ * @param required The least role the function accepts
+ */
+export const hasRole = (role: UserRole | undefined, required: UserRole): boolean => {
+  return ROLES_WITH_ACCESS[required].includes(role ?? "user");
+};
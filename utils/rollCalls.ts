@@ -0,0 +1,251 @@
+import { XMLParser } from "fast-xml-parser";
+import { v } from "convex/values";
+import {
+  ExtractedRollCall,
+  RollCallMemberVote,
+  RollCallPartyTotals,
+  RollCallTotals,
+  VotePosition,
+} from "../types";
+import { IngestionError, ingestionErrorFromStatus, toIngestionError } from "./ingestionErrors";
+
+// Roll call votes as published by each chamber, one XML file per vote:
+//   - House Clerk: https://clerk.house.gov/evs/2023/roll123.xml (<rollcall-vote>),
+//     members by bioguide ID
+//   - Senate LIS: https://www.senate.gov/legislative/LIS/roll_call_votes/vote1181/vote_118_1_00012.xml
+//     (<roll_call_vote>), members by LIS member ID
+// BILLSTATUS records these URLs on the actions that had a recorded vote.
+
+export const votePositionValidator = v.union(
+  v.literal("yea"),
+  v.literal("nay"),
+  v.literal("present"),
+  v.literal("not_voting"),
+  v.literal("other"),
+);
+
+// Bill types as the bills table stores them; other measures (nominations, quorum calls,
+// motions to adjourn) are not linked to a bill
+const BILL_TYPES = ["hr", "hres", "hjres", "hconres", "s", "sres", "sjres", "sconres"];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Member lists are repeated elements; always parse them as arrays
+const getRollCallParserConfig = () => ({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  ignoreDeclaration: true,
+  ignorePiTags: true,
+  parseTagValue: false, // Keep roll numbers and IDs as written
+  isArray: (tagName: string) => ["recorded-vote", "member"].includes(tagName),
+});
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const textOf = (node: any): string | undefined => {
+  if (node === undefined || node === null) return undefined;
+  if (typeof node === "object") return textOf(node["#text"]);
+  const text = String(node).trim();
+  return text || undefined;
+};
+
+/**
+ * Normalizes how a member voted; impeachment verdicts count as yea (guilty) and nay
+ */
+export const getVotePosition = (voteCast: string): VotePosition => {
+  const value = voteCast.trim().toLowerCase();
+  if (["yea", "aye", "guilty"].includes(value)) return "yea";
+  if (["nay", "no", "not guilty"].includes(value)) return "nay";
+  if (value === "present") return "present";
+  if (value === "not voting") return "not_voting";
+  return "other";
+};
+
+/**
+ * Parses a measure as either chamber writes it, e.g. "H R 5", "H.R. 5", "S.J.Res. 7"
+ * @returns The bills-table type and number, or undefined for non-bill measures
+ */
+export const parseMeasure = (measure: string): { billType: string; billNumber: string } | undefined => {
+  const match = measure.toLowerCase().replace(/[\s.]/g, "").match(/^([a-z]+)(\d+)$/);
+  if (!match || !BILL_TYPES.includes(match[1])) return undefined;
+  return { billType: match[1], billNumber: String(parseInt(match[2])) };
+};
+
+/**
+ * Whether a yea on this question is a vote for the measure itself: passage, agreeing to a
+ * resolution or conference report, concurring in the other chamber's changes, or
+ * overriding a veto. Procedural motions (recommit, table, cloture, previous question) are not.
+ */
+export const isPassageQuestion = (question: string): boolean => {
+  const value = question.toLowerCase();
+  if (/recommit|table|cloture|previous question|adjourn|reconsider|point of order/.test(value)) return false;
+  return /passage|and (pass|agree)\b|agree(ing)? to the (resolution|concurrent resolution|joint resolution|conference report)|^on the (bill|resolution|joint resolution|concurrent resolution|conference report)$|concur in the (house|senate) amendment|overrid/.test(value);
+};
+
+/**
+ * Date of a vote as YYYY-MM-DD, from "9-Jan-2023" (House) or "January 26, 2023,  11:43 AM" (Senate)
+ */
+const parseVoteDate = (value: string | undefined): string | undefined => {
+  const match = value?.match(/^(\d{1,2})-([A-Za-z]{3})-(\d{4})$/) ?? value?.match(/^([A-Za-z]+) (\d{1,2}), (\d{4})/);
+  if (!match) return undefined;
+  const [day, monthName] = /^\d/.test(match[1]) ? [match[1], match[2]] : [match[2], match[1]];
+  const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase());
+  if (month < 0) return undefined;
+  return `${match[3]}-${String(month + 1).padStart(2, "0")}-${day.padStart(2, "0")}`;
+};
+
+const emptyTotals = (): RollCallTotals => ({ yea: 0, nay: 0, present: 0, notVoting: 0 });
+
+const addToTotals = (totals: RollCallTotals, position: VotePosition) => {
+  if (position === "yea") totals.yea++;
+  else if (position === "nay") totals.nay++;
+  else if (position === "present") totals.present++;
+  else if (position === "not_voting") totals.notVoting++;
+};
+
+/**
+ * Overall and per-party totals, counted from the member votes so both chambers agree
+ */
+const countVotes = (members: RollCallMemberVote[]): { totals: RollCallTotals; partyTotals: RollCallPartyTotals[] } => {
+  const totals = emptyTotals();
+  const byParty = new Map<string, RollCallTotals>();
+  for (const member of members) {
+    addToTotals(totals, member.position);
+    const party = member.party ?? "Unknown";
+    const partyTotals = byParty.get(party) ?? emptyTotals();
+    addToTotals(partyTotals, member.position);
+    byParty.set(party, partyTotals);
+  }
+  return {
+    totals,
+    partyTotals: [...byParty]
+      .map(([party, counts]) => ({ party, ...counts }))
+      .sort((a, b) => a.party.localeCompare(b.party)),
+  };
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const parseHouseVote = (vote: any, xmlUrl: string): ExtractedRollCall => {
+  const meta = vote["vote-metadata"] ?? {};
+  const congress = parseInt(textOf(meta.congress) ?? "");
+  const session = parseInt(textOf(meta.session) ?? ""); // "1st", "2nd"
+  const rollNumber = parseInt(textOf(meta["rollcall-num"]) ?? "");
+  const date = parseVoteDate(textOf(meta["action-date"]));
+  if (!Number.isFinite(congress) || !Number.isFinite(session) || !Number.isFinite(rollNumber) || !date) {
+    throw new IngestionError("unparseable_xml", `Could not parse congress/session/roll number/date from ${xmlUrl}`);
+  }
+
+  const members: RollCallMemberVote[] = [];
+  for (const recorded of vote["vote-data"]?.["recorded-vote"] ?? []) {
+    const legislator = recorded.legislator;
+    const memberId = textOf(legislator?.["@_name-id"]);
+    const voteCast = textOf(recorded.vote);
+    if (!memberId || !voteCast) continue;
+    members.push({
+      memberId,
+      name: textOf(legislator["@_unaccented-name"]) ?? textOf(legislator) ?? memberId,
+      party: textOf(legislator["@_party"]),
+      state: textOf(legislator["@_state"]),
+      voteCast,
+      position: getVotePosition(voteCast),
+    });
+  }
+
+  const measure = textOf(meta["legis-num"]);
+  const bill = measure ? parseMeasure(measure) : undefined;
+  const voteType = textOf(meta["vote-type"]);
+  return {
+    chamber: "House",
+    congress,
+    session,
+    rollNumber,
+    date,
+    question: textOf(meta["vote-question"]) ?? "",
+    description: textOf(meta["vote-desc"]),
+    voteType,
+    requiredMajority: voteType?.match(/^(\d\/\d)/)?.[1],
+    result: textOf(meta["vote-result"]) ?? "",
+    measure,
+    bill: bill ? { congress, ...bill } : undefined,
+    amendment: textOf(meta["amendment-num"]) ? `H.Amdt. ${textOf(meta["amendment-num"])}` : undefined,
+    ...countVotes(members),
+    members,
+    xmlUrl,
+  };
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const parseSenateVote = (vote: any, xmlUrl: string): ExtractedRollCall => {
+  const congress = parseInt(textOf(vote.congress) ?? "");
+  const session = parseInt(textOf(vote.session) ?? "");
+  const rollNumber = parseInt(textOf(vote.vote_number) ?? "");
+  const date = parseVoteDate(textOf(vote.vote_date));
+  if (!Number.isFinite(congress) || !Number.isFinite(session) || !Number.isFinite(rollNumber) || !date) {
+    throw new IngestionError("unparseable_xml", `Could not parse congress/session/vote number/date from ${xmlUrl}`);
+  }
+
+  const members: RollCallMemberVote[] = [];
+  for (const member of vote.members?.member ?? []) {
+    const memberId = textOf(member.lis_member_id);
+    const voteCast = textOf(member.vote_cast);
+    if (!memberId || !voteCast) continue;
+    members.push({
+      memberId,
+      name: [textOf(member.first_name), textOf(member.last_name)].filter(Boolean).join(" ") || memberId,
+      party: textOf(member.party),
+      state: textOf(member.state),
+      voteCast,
+      position: getVotePosition(voteCast),
+    });
+  }
+
+  // Amendment votes name the amended bill in the document too
+  const document = vote.document ?? {};
+  const documentType = textOf(document.document_type);
+  const documentNumber = textOf(document.document_number);
+  const measure = documentType && documentNumber ? `${documentType} ${documentNumber}` : undefined;
+  const bill = measure ? parseMeasure(measure) : undefined;
+  const documentCongress = parseInt(textOf(document.document_congress) ?? "");
+  return {
+    chamber: "Senate",
+    congress,
+    session,
+    rollNumber,
+    date,
+    question: textOf(vote.vote_question_text) ?? textOf(vote.question) ?? "",
+    description: textOf(document.document_title) ?? textOf(vote.vote_title),
+    requiredMajority: textOf(vote.majority_requirement),
+    result: textOf(vote.vote_result) ?? textOf(vote.vote_result_text) ?? "",
+    measure,
+    bill: bill ? { congress: Number.isFinite(documentCongress) ? documentCongress : congress, ...bill } : undefined,
+    amendment: textOf(vote.amendment?.amendment_number),
+    ...countVotes(members),
+    members,
+    xmlUrl,
+  };
+};
+
+/**
+ * Parses a House Clerk or Senate roll call vote file; the root element tells which
+ * @param xmlData - Raw XML string data
+ * @param xmlUrl - The source URL for reference
+ * @returns The vote with every member's position and totals counted from them
+ */
+export const parseRollCallXml = (xmlData: string, xmlUrl: string): ExtractedRollCall => {
+  const parsed = new XMLParser(getRollCallParserConfig()).parse(xmlData);
+  if (parsed?.["rollcall-vote"]) return parseHouseVote(parsed["rollcall-vote"], xmlUrl);
+  if (parsed?.roll_call_vote) return parseSenateVote(parsed.roll_call_vote, xmlUrl);
+  throw new IngestionError("unparseable_xml", `No 'rollcall-vote' or 'roll_call_vote' element found in ${xmlUrl}`);
+};
+
+/**
+ * Fetches a roll call vote file from the House Clerk or Senate website
+ */
+export const fetchRollCallXml = async (xmlUrl: string): Promise<string> => {
+  const response = await fetch(xmlUrl).catch((error) => {
+    throw toIngestionError(error, "network_error");
+  });
+  if (!response.ok) {
+    throw ingestionErrorFromStatus(response.status, `Failed to fetch ${xmlUrl}: ${response.status} ${response.statusText}`);
+  }
+  return await response.text();
+};
@@ -0,0 +1,106 @@
+// States, DC and territories with a seat in Congress, by USPS code
+export const STATE_NAMES: Record<string, string> = {
+  AL: "Alabama",
+  AK: "Alaska",
+  AS: "American Samoa",
+  AZ: "Arizona",
+  AR: "Arkansas",
+  CA: "California",
+  CO: "Colorado",
+  CT: "Connecticut",
+  DE: "Delaware",
+  DC: "District of Columbia",
+  FL: "Florida",
+  GA: "Georgia",
+  GU: "Guam",
+  HI: "Hawaii",
+  ID: "Idaho",
+  IL: "Illinois",
+  IN: "Indiana",
+  IA: "Iowa",
+  KS: "Kansas",
+  KY: "Kentucky",
+  LA: "Louisiana",
+  ME: "Maine",
+  MD: "Maryland",
+  MA: "Massachusetts",
+  MI: "Michigan",
+  MN: "Minnesota",
+  MS: "Mississippi",
+  MO: "Missouri",
+  MT: "Montana",
+  NE: "Nebraska",
+  NV: "Nevada",
+  NH: "New Hampshire",
+  NJ: "New Jersey",
+  NM: "New Mexico",
+  NY: "New York",
+  NC: "North Carolina",
+  ND: "North Dakota",
+  MP: "Northern Mariana Islands",
+  OH: "Ohio",
+  OK: "Oklahoma",
+  OR: "Oregon",
+  PA: "Pennsylvania",
+  PR: "Puerto Rico",
+  RI: "Rhode Island",
+  SC: "South Carolina",
+  SD: "South Dakota",
+  TN: "Tennessee",
+  TX: "Texas",
+  UT: "Utah",
+  VT: "Vermont",
+  VI: "U.S. Virgin Islands",
+  VA: "Virginia",
+  WA: "Washington",
+  WV: "West Virginia",
+  WI: "Wisconsin",
+  WY: "Wyoming",
+};
+
+// Tile positions [row, column] of a grid map with one equal-sized square per state
+export const STATE_TILE_GRID: Record<string, [number, number]> = {
+  AK: [0, 0], ME: [0, 10],
+  VT: [1, 9], NH: [1, 10],
+  WA: [2, 0], ID: [2, 1], MT: [2, 2], ND: [2, 3], MN: [2, 4], IL: [2, 5], WI: [2, 6], MI: [2, 7], NY: [2, 8], RI: [2, 9], MA: [2, 10],
+  OR: [3, 0], NV: [3, 1], WY: [3, 2], SD: [3, 3], IA: [3, 4], IN: [3, 5], OH: [3, 6], PA: [3, 7], NJ: [3, 8], CT: [3, 9],
+  CA: [4, 0], UT: [4, 1], CO: [4, 2], NE: [4, 3], MO: [4, 4], KY: [4, 5], WV: [4, 6], VA: [4, 7], MD: [4, 8], DE: [4, 9],
+  AZ: [5, 1], NM: [5, 2], KS: [5, 3], AR: [5, 4], TN: [5, 5], NC: [5, 6], SC: [5, 7], DC: [5, 8],
+  AS: [6, 1], OK: [6, 3], LA: [6, 4], MS: [6, 5], AL: [6, 6], GA: [6, 7],
+  HI: [7, 0], GU: [7, 1], MP: [7, 2], TX: [7, 3], FL: [7, 8], PR: [7, 9], VI: [7, 10],
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Best-effort state and House district from a free-form location, e.g. "Austin, TX 78701",
+ * "Portland, Oregon" or "NY-12". When several states are named, the last one wins, since
+ * a state usually follows its city ("Kansas City, Missouri").
+ * @returns The USPS code and, when given, the district ("0" for at-large)
+ */
+export const parseLocation = (location: string): { state?: string; district?: string } => {
+  const seat = location.match(/\b([A-Z]{2})-(\d{1,2}|AL)\b/i);
+  if (seat && STATE_NAMES[seat[1].toUpperCase()]) {
+    const district = seat[2].toUpperCase() === "AL" ? "0" : String(parseInt(seat[2]));
+    return { state: seat[1].toUpperCase(), district };
+  }
+
+  let best: { state: string; end: number; length: number } | undefined;
+  const consider = (state: string, end: number, length: number) => {
+    if (!best || end > best.end || (end === best.end && length > best.length)) {
+      best = { state, end, length };
+    }
+  };
+  for (const [code, name] of Object.entries(STATE_NAMES)) {
+    for (const match of location.matchAll(new RegExp(`\\b${escapeRegExp(name)}\\b`, "gi"))) {
+      consider(code, (match.index ?? 0) + match[0].length, match[0].length);
+    }
+  }
+  // Codes must be upper case so words like "in", "or" and "me" don't match
+  for (const match of location.matchAll(/\b[A-Z]{2}\b/g)) {
+    if (STATE_NAMES[match[0]]) consider(match[0], (match.index ?? 0) + 2, 2);
+  }
+
+  const district = location.match(/\bdistrict\s+(\d{1,2})\b/i)?.[1] ?? location.match(/\b(\d{1,2})(?:st|nd|rd|th)\s+district\b/i)?.[1];
+  return { state: best?.state, district: best && district ? String(parseInt(district)) : undefined };
+};
@@ -0,0 +1,202 @@
+import { v } from "convex/values";
+
+// GPO bill text version codes, e.g. the "rs" in BILLS-119hr1234rs.xml.
+// See https://www.govinfo.gov/help/bills for the full list.
+
+export type VersionChamber = "House" | "Senate";
+
+export type VersionPhase =
+  | "introduced"         // Text as introduced in its chamber
+  | "referred"           // Referral, sponsor and reference changes
+  | "reported"           // Reported by committee
+  | "calendar"           // Placed on the calendar, held at the desk or otherwise awaiting or ending floor action
+  | "passed"             // Engrossed or agreed to by a chamber
+  | "received"           // Received by the second chamber
+  | "amendment_exchange" // Engrossed amendments between the chambers
+  | "enrolled"           // Passed both chambers in identical form
+  | "law";               // Public law
+
+export type VersionCodeInfo = {
+  code: string;
+  label: string;             // Human-readable status, e.g. "Reported in Senate"
+  phase: VersionPhase;
+  chamber?: VersionChamber;  // Chamber the action happened in, if specific to one
+  kind: "bill" | "amendment"; // Amendment texts are not versions of the bill itself
+  revision?: number;         // Orders reprints after the text they revise (e.g. renr after enr)
+};
+
+const code = (
+  versionCode: string,
+  label: string,
+  phase: VersionPhase,
+  chamber?: VersionChamber,
+  extra: Partial<Pick<VersionCodeInfo, "kind" | "revision">> = {},
+): VersionCodeInfo => ({ code: versionCode, label, phase, chamber, kind: extra.kind ?? "bill", revision: extra.revision });
+
+export const VERSION_CODES: Record<string, VersionCodeInfo> = Object.fromEntries([
+  // Introduced
+  code("ih", "Introduced in House", "introduced", "House"),
+  code("is", "Introduced in Senate", "introduced", "Senate"),
+
+  // Referral and sponsors
+  code("rfh", "Referred in House", "referred", "House"),
+  code("rfs", "Referred in Senate", "referred", "Senate"),
+  code("rth", "Referred to Committee (House)", "referred", "House"),
+  code("rts", "Referred to Committee (Senate)", "referred", "Senate"),
+  code("rch", "Reference Change (House)", "referred", "House"),
+  code("rcs", "Reference Change (Senate)", "referred", "Senate"),
+  code("rih", "Referral Instructions (House)", "referred", "House"),
+  code("ris", "Referral Instructions (Senate)", "referred", "Senate"),
+  code("rah", "Referred with Amendments (House)", "referred", "House"),
+  code("ras", "Referred with Amendments (Senate)", "referred", "Senate"),
+  code("cdh", "Committee Discharged (House)", "referred", "House"),
+  code("cds", "Committee Discharged (Senate)", "referred", "Senate"),
+  code("ash", "Additional Sponsors (House)", "referred", "House"),
+  code("sas", "Additional Sponsors (Senate)", "referred", "Senate"),
+  code("sc", "Sponsor Changes", "referred", "House"),
+
+  // Reported
+  code("rh", "Reported in House", "reported", "House"),
+  code("rs", "Reported in Senate", "reported", "Senate"),
+  code("pp", "Public Print", "reported"),
+
+  // Calendar and floor
+  code("pch", "Placed on Calendar (House)", "calendar", "House"),
+  code("pcs", "Placed on Calendar (Senate)", "calendar", "Senate"),
+  code("hdh", "Held at Desk (House)", "calendar", "House"),
+  code("hds", "Held at Desk (Senate)", "calendar", "Senate"),
+  code("oph", "Ordered to be Printed (House)", "calendar", "House"),
+  code("ops", "Ordered to be Printed (Senate)", "calendar", "Senate"),
+  code("pav", "Previous Action Vitiated", "calendar"),
+  code("fph", "Failed Passage (House)", "calendar", "House"),
+  code("fps", "Failed Passage (Senate)", "calendar", "Senate"),
+  code("iph", "Indefinitely Postponed (House)", "calendar", "House"),
+  code("ips", "Indefinitely Postponed (Senate)", "calendar", "Senate"),
+  code("lth", "Laid on Table (House)", "calendar", "House"),
+  code("lts", "Laid on Table (Senate)", "calendar", "Senate"),
+
+  // Passed a chamber
+  code("eh", "Passed House", "passed", "House"),
+  code("es", "Passed Senate", "passed", "Senate"),
+  code("eph", "Engrossed and Deemed Passed (House)", "passed", "House"),
+  code("cph", "Considered and Passed (House)", "passed", "House"),
+  code("cps", "Considered and Passed (Senate)", "passed", "Senate"),
+  code("ath", "Agreed to (House)", "passed", "House"),
+  code("ats", "Agreed to (Senate)", "passed", "Senate"),
+  code("pap", "Printed as Passed", "passed"),
+
+  // Second chamber
+  code("rdh", "Received in House", "received", "House"),
+  code("rds", "Received in Senate", "received", "Senate"),
+
+  // Resolving differences
+  code("eah", "Passed House (Amended)", "amendment_exchange", "House"),
+  code("eas", "Passed Senate (Amended)", "amendment_exchange", "Senate"),
+  code("reah", "Re-engrossed Amendment (House)", "amendment_exchange", "House", { revision: 1 }),
+  code("res", "Re-engrossed Amendment (Senate)", "amendment_exchange", "Senate", { revision: 1 }),
+  code("pwah", "Ordered to be Printed with House Amendment", "amendment_exchange", "House", { revision: 1 }),
+
+  // Final stages
+  code("enr", "Enrolled (Sent to President)", "enrolled"),
+  code("renr", "Re-enrolled (Sent to President)", "enrolled", undefined, { revision: 1 }),
+  code("pl", "Public Law", "law"),
+
+  // Amendment texts
+  code("ah", "Amendment (House)", "reported", "House", { kind: "amendment" }),
+  code("as", "Amendment (Senate)", "reported", "Senate", { kind: "amendment" }),
+  code("ai", "Amendment Introduced", "introduced", undefined, { kind: "amendment" }),
+  code("fah", "Failed Amendment (House)", "calendar", "House", { kind: "amendment" }),
+  code("re", "Reprint of an Amendment", "reported", undefined, { kind: "amendment" }),
+].map((info) => [info.code, info]));
+
+export const getVersionCodeInfo = (versionCode: string): VersionCodeInfo | undefined => {
+  return VERSION_CODES[versionCode.toLowerCase()];
+};
+
+/**
+ * Chamber a bill or resolution originates in, from its type (hr, hjres, s, sres, ...)
+ */
+export const getOriginChamber = (billType: string): VersionChamber => {
+  return billType.toLowerCase().startsWith("s") ? "Senate" : "House";
+};
+
+// Steps within one chamber, in legislative order
+const CHAMBER_PHASE_RANK: Partial<Record<VersionPhase, number>> = {
+  introduced: 0,
+  referred: 1,
+  reported: 2,
+  calendar: 3,
+  passed: 4,
+};
+
+/**
+ * Position of a version in the legislative process (higher = later). Chamber-specific codes
+ * are ordered relative to the chamber the bill originated in, so a Senate report of a House
+ * bill ranks after the House passed it.
+ * @param versionCode - The version code to evaluate
+ * @param billType - The bill's type; without it chamber steps are ranked as the originating chamber's
+ * @returns Rank, or -1 for unknown codes and amendment texts
+ */
+export const getVersionRank = (versionCode: string, billType?: string): number => {
+  const info = getVersionCodeInfo(versionCode);
+  if (!info || info.kind !== "bill") return -1;
+
+  const revision = info.revision ?? 0;
+  switch (info.phase) {
+    case "received":
+      return 10;
+    case "amendment_exchange":
+      return 20 + revision;
+    case "enrolled":
+      return 30 + revision;
+    case "law":
+      return 40;
+    default: {
+      const step = (CHAMBER_PHASE_RANK[info.phase] ?? 0) + revision;
+      const secondChamber = info.chamber !== undefined && billType !== undefined &&
+        info.chamber !== getOriginChamber(billType);
+      return secondChamber ? 10 + step : step;
+    }
+  }
+};
+
+/**
+ * Sort comparator for version codes of one bill, earliest first
+ */
+export const compareVersionCodes = (a: string, b: string, billType?: string): number => {
+  return getVersionRank(a, billType) - getVersionRank(b, billType);
+};
+
+// ================================
+// INGEST POLICY
+// ================================
+
+export const versionIngestActionValidator = v.union(
+  v.literal("summarize"), // Store the text and generate AI enrichment
+  v.literal("store"),     // Store the text only
+  v.literal("skip"),      // Do not ingest
+);
+
+export type VersionIngestAction = "summarize" | "store" | "skip";
+
+export type IngestPolicy = {
+  rules: Array<{ versionCode: string; action: VersionIngestAction }>;
+  defaultAction: VersionIngestAction; // For codes without a rule
+};
+
+/**
+ * Policy used until an admin saves one. Introduced texts are the bulk of all files, so they
+ * are stored without AI enrichment; amendment texts are not versions of the bill and are skipped.
+ */
+export const DEFAULT_INGEST_POLICY: IngestPolicy = {
+  rules: Object.values(VERSION_CODES).map((info) => ({
+    versionCode: info.code,
+    action: info.kind === "amendment" ? "skip" : info.phase === "introduced" ? "store" : "summarize",
+  })),
+  defaultAction: "store",
+};
+
+export const getIngestAction = (policy: IngestPolicy, versionCode: string): VersionIngestAction => {
+  const rule = policy.rules.find((r) => r.versionCode === versionCode.toLowerCase());
+  return rule?.action ?? policy.defaultAction;
+};